@@ -1,20 +1,71 @@
 import { cacheLife, cacheTag, refresh, updateTag } from "next/cache"; // Hoisted so it can be referenced in the Ratelimit mock below
 import { after } from "next/server";
-import { afterEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
+  changeChatUsername,
+  deleteChatMessage,
+  editChatMessage,
   getChatHistory,
+  getChatHistoryAround,
+  getChatLastSeen,
+  getChatRooms,
+  getChatThread,
+  getChatUsername,
+  getOlderChatHistory,
+  markChatSeen,
   postChatMessage,
+  postChatThreadMessage,
   refreshChatHistory,
+  searchChat,
+  sendChatTyping,
+  toggleChatReaction,
 } from "@/actions/chat";
 import {
-  getChannelMessages,
+  checkSlowMode,
+  getRateLimit,
+  recordChatVolume,
+  recordFirstPost,
+  startSlowMode,
+} from "@/lib/chatSettings";
+import {
+  addOwnReaction,
+  deleteChannelMessage,
+  editChannelMessage,
+  findGuildMemberIds,
+  getChannelMessagesPage,
+  isOwnChannelMessage,
+  markOwnMessages,
   type Message,
   postChannelMessage,
+  removeOwnReaction,
+  searchChannelMessages,
+  type SearchHit,
+  snowflakeAt,
 } from "@/lib/discord/api";
+import { toggleReaction } from "@/lib/discord/reactions";
+import { publishChannelEvent } from "@/lib/discord/relay";
+import { getThread, openThread } from "@/lib/discord/threads";
+import { startTyping } from "@/lib/discord/typing";
 import { identifiers } from "@/lib/identifiers";
+import { getLastSeen, setLastSeen } from "@/lib/lastSeen";
 import { log } from "@/lib/log";
-import type { Username } from "@/lib/session";
+import { moderateMessage, rememberMessage } from "@/lib/moderation";
+import {
+  checkName,
+  getNameCooldown,
+  reserveName,
+  startNameCooldown,
+} from "@/lib/names";
+import {
+  getSanction,
+  hideShadowedHits,
+  hideShadowedMessages,
+  markShadowed,
+  rememberIp,
+  setSanction,
+} from "@/lib/sanctions";
+import { findSession, setSession, type Username } from "@/lib/session";
 
 // Hoisted so it can be referenced in the Ratelimit mock below
 const limitMock = vi.hoisted(() => vi.fn());
@@ -45,12 +96,61 @@ vi.mock(import("@/lib/identifiers"), () => ({
     Promise.resolve({ ip: "0.0.0.0", userAgent: "vitest" }),
   ),
 }));
-vi.mock(import("@/lib/session"), () => ({
-  getSession: vi.fn(() =>
-    Promise.resolve({ username: "test-user" as Username }),
+vi.mock(import("@/lib/session"), async (importOriginal) => {
+  const { UsernameSchema } = await importOriginal();
+  return {
+    UsernameSchema,
+    findSession: vi.fn(),
+    getSession: vi.fn(() =>
+      Promise.resolve({
+        id: "test-session",
+        username: "test-user" as Username,
+      }),
+    ),
+    setSession: vi.fn(),
+  };
+});
+vi.mock(import("@/lib/names"), async (importOriginal) => {
+  const { ChosenNameSchema } = await importOriginal();
+  return {
+    ChosenNameSchema,
+    checkName: vi.fn(() => Promise.resolve(null)),
+    getNameCooldown: vi.fn(() => Promise.resolve(null)),
+    reserveName: vi.fn(() => Promise.resolve(true)),
+    startNameCooldown: vi.fn(),
+  };
+});
+vi.mock(import("@/lib/moderation"), () => ({
+  moderateMessage: vi.fn(() => Promise.resolve({ allowed: true as const })),
+  rememberMessage: vi.fn(),
+}));
+vi.mock(import("@/lib/chatSettings"), () => ({
+  checkSlowMode: vi.fn(() => Promise.resolve(null)),
+  getRateLimit: vi.fn(() =>
+    Promise.resolve({ messages: 5, windowSeconds: 30 }),
   ),
+  recordChatVolume: vi.fn(),
+  recordFirstPost: vi.fn(),
+  startSlowMode: vi.fn(),
 }));
+vi.mock(import("@/lib/sanctions"), async (importOriginal) => {
+  const { describeSanction } = await importOriginal();
+  return {
+    describeSanction,
+    getSanction: vi.fn(() => Promise.resolve(null)),
+    hideShadowedHits: vi.fn((hits) => Promise.resolve(hits)),
+    hideShadowedMessages: vi.fn((page) => Promise.resolve(page)),
+    markShadowed: vi.fn(),
+    rememberIp: vi.fn(),
+    setSanction: vi.fn(),
+  };
+});
 vi.mock(import("@/lib/discord/api"));
+vi.mock(import("@/lib/discord/reactions"));
+vi.mock(import("@/lib/discord/relay"));
+vi.mock(import("@/lib/discord/threads"));
+vi.mock(import("@/lib/discord/typing"));
+vi.mock(import("@/lib/lastSeen"));
 vi.mock(import("@/lib/redis"));
 
 function createMockMessage(overrides: Partial<Message> = {}): Message {
@@ -58,7 +158,14 @@ function createMockMessage(overrides: Partial<Message> = {}): Message {
     id: "123",
     user: { name: "test-user", color: "hsl(200 50% 50%)" },
     content: "Hello, world!",
+    text: "Hello, world!",
     edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
     timestamp: new Date("2025-01-01T00:00:00.000000+00:00"),
     replies: [],
     ...overrides,
@@ -85,6 +192,13 @@ function mockRateLimitExceeded(resetInMs: number) {
   });
 }
 
+beforeEach(() => {
+  vi.mocked(markOwnMessages).mockImplementation((page) =>
+    Promise.resolve(page),
+  );
+  vi.mocked(findGuildMemberIds).mockResolvedValue([]);
+});
+
 afterEach(() => {
   vi.clearAllMocks();
 });
@@ -95,17 +209,26 @@ describe("getChatHistory", () => {
       createMockMessage({ id: "1", content: "First message" }),
       createMockMessage({ id: "2", content: "Second message" }),
     ];
-    vi.mocked(getChannelMessages).mockResolvedValue(mockMessages);
+    vi.mocked(getChannelMessagesPage).mockResolvedValue({
+      messages: mockMessages,
+      orphans: [],
+      cursor: "1",
+    });
 
     const result = await getChatHistory();
 
-    expect(result).toEqual({ status: "ok", messages: mockMessages });
+    expect(result).toEqual({
+      status: "ok",
+      messages: mockMessages,
+      orphans: [],
+      cursor: "1",
+    });
   });
 
   it("returns error and logs when Discord API fails", async () => {
     const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
     const error = new Error("Discord API error");
-    vi.mocked(getChannelMessages).mockRejectedValue(error);
+    vi.mocked(getChannelMessagesPage).mockRejectedValue(error);
 
     const result = await getChatHistory();
 
@@ -119,14 +242,173 @@ describe("getChatHistory", () => {
     );
   });
 
+  it("hides shadowed messages from everyone but their author", async () => {
+    const page = {
+      messages: [createMockMessage({ id: "1" })],
+      orphans: [],
+      cursor: null,
+    };
+    vi.mocked(getChannelMessagesPage).mockResolvedValue(page);
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+    vi.mocked(hideShadowedMessages).mockResolvedValueOnce({
+      ...page,
+      messages: [],
+    });
+
+    const result = await getChatHistory();
+
+    expect(hideShadowedMessages).toHaveBeenCalledWith(
+      { status: "ok", ...page },
+      "test-session",
+    );
+    expect(result).toEqual({ status: "ok", ...page, messages: [] });
+  });
+
+  it("marks the messages the visitor posted as their own", async () => {
+    const page = {
+      messages: [createMockMessage({ id: "1" })],
+      orphans: [],
+      cursor: null,
+    };
+    const marked = {
+      ...page,
+      messages: [createMockMessage({ id: "1", own: true })],
+    };
+    vi.mocked(getChannelMessagesPage).mockResolvedValue(page);
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+    vi.mocked(markOwnMessages).mockResolvedValueOnce(marked);
+
+    const result = await getChatHistory();
+
+    expect(markOwnMessages).toHaveBeenCalledWith(
+      { status: "ok", ...page },
+      "test-session",
+    );
+    expect(result).toEqual({ status: "ok", ...marked });
+  });
+
   it("sets cache life and tag", async () => {
-    vi.mocked(getChannelMessages).mockResolvedValue([]);
+    vi.mocked(getChannelMessagesPage).mockResolvedValue({
+      messages: [],
+      orphans: [],
+      cursor: null,
+    });
 
     await getChatHistory();
 
     expect(cacheLife).toHaveBeenCalledWith("seconds");
     expect(cacheTag).toHaveBeenCalledWith("getChatHistory");
   });
+
+  it("returns the messages of the general room by default", async () => {
+    vi.mocked(getChannelMessagesPage).mockResolvedValue({
+      messages: [],
+      orphans: [],
+      cursor: null,
+    });
+
+    await getChatHistory();
+    await getChatHistory("music");
+
+    expect(getChannelMessagesPage).toHaveBeenNthCalledWith(
+      1,
+      "test-discord-channel-id",
+    );
+    expect(getChannelMessagesPage).toHaveBeenNthCalledWith(
+      2,
+      "1000000000000000001",
+    );
+  });
+
+  it("returns error for rooms that don't exist", async () => {
+    vi.spyOn(log, "error").mockImplementation(() => {});
+
+    expect(await getChatHistory("nope")).toEqual({
+      status: "error",
+      error: "Failed to fetch chat history",
+    });
+    expect(getChannelMessagesPage).not.toHaveBeenCalled();
+  });
+});
+
+describe("getChatRooms", () => {
+  it("lists the rooms, general first", async () => {
+    expect(await getChatRooms()).toEqual(["general", "music"]);
+  });
+});
+
+describe("getOlderChatHistory", () => {
+  it("returns the page before the cursor", async () => {
+    const page = {
+      messages: [createMockMessage({ id: "1" })],
+      orphans: [{ parentId: "0", message: createMockMessage({ id: "2" }) }],
+      cursor: "1",
+    };
+    vi.mocked(getChannelMessagesPage).mockResolvedValue(page);
+
+    const result = await getOlderChatHistory("3");
+
+    expect(result).toEqual({ status: "ok", ...page });
+    expect(getChannelMessagesPage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      { before: "3" },
+    );
+    expect(cacheTag).toHaveBeenCalledWith("getChatHistory");
+  });
+
+  it("returns error for an invalid cursor", async () => {
+    vi.spyOn(log, "error").mockImplementation(() => {});
+
+    const result = await getOlderChatHistory("not-a-snowflake");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to fetch older chat history",
+    });
+    expect(getChannelMessagesPage).not.toHaveBeenCalled();
+  });
+
+  it("returns error and logs when Discord API fails", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const error = new Error("Discord API error");
+    vi.mocked(getChannelMessagesPage).mockRejectedValue(error);
+
+    const result = await getOlderChatHistory("3");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to fetch older chat history",
+    });
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      { err: error, cursor: "3", action: "getOlderChatHistory" },
+      "Error fetching older chat history",
+    );
+  });
+});
+
+describe("getChatHistoryAround", () => {
+  it("returns the page around the message", async () => {
+    const page = {
+      messages: [createMockMessage({ id: "3" })],
+      orphans: [],
+      cursor: null,
+    };
+    vi.mocked(getChannelMessagesPage).mockResolvedValue(page);
+
+    const result = await getChatHistoryAround("3", "music");
+
+    expect(result).toEqual({ status: "ok", ...page });
+    expect(getChannelMessagesPage).toHaveBeenCalledWith("1000000000000000001", {
+      limit: 50,
+      around: "3",
+    });
+  });
 });
 
 describe("refreshChatHistory", () => {
@@ -149,7 +431,9 @@ describe("postChatMessage", () => {
     if (result.status === "error") {
       expect(result.error).toMatch(/Rate limit exceeded/);
       expect(result.error).toMatch(/\d+ seconds/);
+      expect(result.retryAfter).toBeGreaterThan(9000);
     }
+    expect(getRateLimit).toHaveBeenCalledWith("test-user");
   });
 
   it("uses username as rate limit identifier when IP is unavailable", async () => {
@@ -171,6 +455,29 @@ describe("postChatMessage", () => {
     });
   });
 
+  it("posts to the room the message was sent from", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(postChannelMessage).mockResolvedValue("msg-123");
+    const formData = new FormData();
+    formData.set("text", "Nice track");
+    formData.set("room", "music");
+
+    expect(await postChatMessage(formData)).toEqual({ status: "ok" });
+    expect(postChannelMessage).toHaveBeenCalledWith(
+      "1000000000000000001",
+      "Nice track",
+      { kind: "visitor", username: "test-user", session: "test-session" },
+      undefined,
+    );
+
+    formData.set("room", "nope");
+    vi.spyOn(log, "error").mockImplementation(() => {});
+
+    expect(await postChatMessage(formData)).toMatchObject({ status: "error" });
+    expect(postChannelMessage).toHaveBeenCalledOnce();
+  });
+
   it("posts message to Discord and returns ok on success", async () => {
     const logInfoSpy = vi.spyOn(log, "info").mockImplementation(() => {});
     mockRateLimitSuccess();
@@ -186,8 +493,9 @@ describe("postChatMessage", () => {
       userAgent: "vitest",
     });
     expect(postChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
       "Hello everyone!",
-      "test-user",
+      { kind: "visitor", username: "test-user", session: "test-session" },
       undefined,
     );
     expect(logInfoSpy).toHaveBeenCalledWith(
@@ -198,10 +506,133 @@ describe("postChatMessage", () => {
       }),
       "Hello everyone!",
     );
+    expect(recordChatVolume).toHaveBeenCalledWith("msg-123");
+    expect(recordFirstPost).toHaveBeenCalledWith("test-user");
+    expect(startSlowMode).toHaveBeenCalledWith("0.0.0.0");
     // Only one after() call for rate limit pending
     expect(after).toHaveBeenCalledTimes(1);
   });
 
+  it("moderates the message before posting it", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(postChannelMessage).mockResolvedValue("msg-123");
+    const formData = new FormData();
+    formData.set("text", "Hello everyone!");
+
+    await postChatMessage(formData);
+
+    const input = {
+      text: "Hello everyone!",
+      username: "test-user",
+      ip: "0.0.0.0",
+    };
+    expect(moderateMessage).toHaveBeenCalledWith(input);
+    expect(rememberMessage).toHaveBeenCalledWith(input);
+  });
+
+  it("returns the moderation reason without posting when rejected", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(moderateMessage).mockResolvedValueOnce({
+      allowed: false,
+      reason: "links",
+      error: "Messages can contain at most 3 links",
+    });
+    const formData = new FormData();
+    formData.set("text", "spam spam spam");
+
+    const result = await postChatMessage(formData);
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Messages can contain at most 3 links",
+      reason: "links",
+    });
+    expect(postChannelMessage).not.toHaveBeenCalled();
+    expect(rememberMessage).not.toHaveBeenCalled();
+    expect(recordFirstPost).not.toHaveBeenCalled();
+    expect(startSlowMode).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["ban", "You are banned from the chat"],
+    ["mute", "You are muted. Try again in 5 minutes."],
+  ] as const)("rejects visitors with a %s", async (type, error) => {
+    mockRateLimitSuccess();
+    vi.mocked(getSanction).mockResolvedValueOnce({
+      type,
+      reason: null,
+      by: "mod",
+      expiresAt: type === "ban" ? null : Date.now() + 5 * 60 * 1000,
+    });
+    const formData = new FormData();
+    formData.set("text", "Hello?");
+
+    const result = await postChatMessage(formData);
+
+    expect(result).toEqual({ status: "error", error, reason: type });
+    expect(getSanction).toHaveBeenCalledWith({
+      username: "test-user",
+      ip: "0.0.0.0",
+    });
+    expect(postChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("makes visitors wait between messages in slow mode", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(checkSlowMode).mockResolvedValueOnce(12_500);
+    const formData = new FormData();
+    formData.set("text", "Hello?");
+
+    const result = await postChatMessage(formData);
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Slow mode is on. Wait 13 seconds before sending another message.",
+      retryAfter: 12_500,
+    });
+    expect(checkSlowMode).toHaveBeenCalledWith("0.0.0.0");
+    expect(postChannelMessage).not.toHaveBeenCalled();
+    expect(startSlowMode).not.toHaveBeenCalled();
+  });
+
+  it("posts and hides messages from shadow banned visitors", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    const sanction = {
+      type: "shadow" as const,
+      reason: null,
+      by: "mod",
+      expiresAt: null,
+    };
+    vi.mocked(getSanction).mockResolvedValueOnce(sanction);
+    vi.mocked(postChannelMessage).mockResolvedValue("msg-123");
+    const formData = new FormData();
+    formData.set("text", "Hello?");
+
+    const result = await postChatMessage(formData);
+
+    expect(result).toEqual({ status: "ok" });
+    expect(setSanction).toHaveBeenCalledWith(
+      { username: "test-user" },
+      sanction,
+    );
+    expect(markShadowed).toHaveBeenCalledWith("msg-123");
+  });
+
+  it("remembers the IP visitors post from", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(postChannelMessage).mockResolvedValue("msg-123");
+    const formData = new FormData();
+    formData.set("text", "Hello!");
+
+    await postChatMessage(formData);
+
+    expect(rememberIp).toHaveBeenCalledWith("test-user", "0.0.0.0");
+    expect(markShadowed).not.toHaveBeenCalled();
+  });
+
   it("returns error and logs when Discord API fails", async () => {
     const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
     const error = new Error("Discord connection failed");
@@ -249,3 +680,855 @@ describe("postChatMessage", () => {
     expect(result.status).toBe("error");
   });
 });
+
+describe("getChatThread", () => {
+  it("returns the messages of the visitor's thread", async () => {
+    const messages = [createMockMessage()];
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+    vi.mocked(getThread).mockResolvedValue({
+      id: "thread-1",
+      owner: "test-session",
+    });
+    vi.mocked(getChannelMessagesPage).mockResolvedValue({
+      messages,
+      orphans: [],
+      cursor: null,
+    });
+
+    const result = await getChatThread();
+
+    expect(result).toEqual({
+      status: "ok",
+      messages,
+      orphans: [],
+      cursor: null,
+    });
+    expect(getThread).toHaveBeenCalledWith({
+      id: "test-session",
+      username: "test-user",
+    });
+    expect(getChannelMessagesPage).toHaveBeenCalledWith("thread-1");
+    expect(markOwnMessages).toHaveBeenCalledWith(
+      { messages, orphans: [], cursor: null },
+      "test-session",
+    );
+  });
+
+  it("returns no messages until the visitor starts a thread", async () => {
+    vi.mocked(findSession).mockResolvedValue(undefined);
+
+    expect(await getChatThread()).toEqual({
+      status: "ok",
+      messages: [],
+      orphans: [],
+      cursor: null,
+    });
+    expect(getChannelMessagesPage).not.toHaveBeenCalled();
+  });
+
+  it("returns error and logs when Discord API fails", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+    vi.mocked(getThread).mockResolvedValue({
+      id: "thread-1",
+      owner: "test-session",
+    });
+    vi.mocked(getChannelMessagesPage).mockRejectedValue(new Error("Gone"));
+
+    expect(await getChatThread()).toEqual({
+      status: "error",
+      error: "Failed to fetch your conversation",
+    });
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "getChatThread" }),
+      "Error fetching chat thread",
+    );
+  });
+});
+
+describe("postChatThreadMessage", () => {
+  it("posts to the visitor's thread, opening it if need be", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(openThread).mockResolvedValue({
+      id: "thread-1",
+      owner: "test-session",
+    });
+    vi.mocked(postChannelMessage).mockResolvedValue("msg-123");
+    const formData = new FormData();
+    formData.set("text", " Hi Simon ");
+
+    const result = await postChatThreadMessage(formData);
+
+    expect(result).toEqual({ status: "ok" });
+    expect(moderateMessage).toHaveBeenCalledWith({
+      text: "Hi Simon",
+      username: "test-user",
+      ip: "0.0.0.0",
+    });
+    expect(openThread).toHaveBeenCalledWith({
+      id: "test-session",
+      username: "test-user",
+    });
+    expect(postChannelMessage).toHaveBeenCalledExactlyOnceWith(
+      "thread-1",
+      "Hi Simon",
+      { kind: "visitor", username: "test-user", session: "test-session" },
+    );
+    expect(rememberIp).toHaveBeenCalledWith("test-user", "0.0.0.0");
+  });
+
+  it("rejects muted visitors but lets shadow banned ones through", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    const sanction = { reason: null, by: "mod", expiresAt: null };
+    vi.mocked(getSanction).mockResolvedValueOnce({ ...sanction, type: "mute" });
+    vi.mocked(openThread).mockResolvedValue({
+      id: "thread-1",
+      owner: "test-session",
+    });
+    const formData = new FormData();
+    formData.set("text", "Hi Simon");
+
+    expect(await postChatThreadMessage(formData)).toMatchObject({
+      status: "error",
+      reason: "mute",
+    });
+    expect(openThread).not.toHaveBeenCalled();
+
+    vi.mocked(getSanction).mockResolvedValueOnce({
+      ...sanction,
+      type: "shadow",
+    });
+
+    expect(await postChatThreadMessage(formData)).toEqual({ status: "ok" });
+    expect(postChannelMessage).toHaveBeenCalledOnce();
+  });
+
+  it("returns rate limit error when limit exceeded", async () => {
+    mockRateLimitExceeded(10000);
+    const formData = new FormData();
+    formData.set("text", "Hi Simon");
+
+    const result = await postChatThreadMessage(formData);
+
+    expect(result).toMatchObject({
+      status: "error",
+      retryAfter: expect.any(Number),
+    });
+    expect(openThread).not.toHaveBeenCalled();
+  });
+
+  it("returns the moderation reason without posting when rejected", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(moderateMessage).mockResolvedValueOnce({
+      allowed: false,
+      reason: "blocklist",
+      error: "Your message contains a blocked word or phrase",
+    });
+    const formData = new FormData();
+    formData.set("text", "Hi Simon");
+
+    expect(await postChatThreadMessage(formData)).toEqual({
+      status: "error",
+      error: "Your message contains a blocked word or phrase",
+      reason: "blocklist",
+    });
+    expect(openThread).not.toHaveBeenCalled();
+  });
+
+  it("returns error and logs when Discord API fails", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(openThread).mockRejectedValue(new Error("Gone"));
+    const formData = new FormData();
+    formData.set("text", "Hi Simon");
+
+    expect(await postChatThreadMessage(formData)).toEqual({
+      status: "error",
+      error: "Failed to send your message",
+    });
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "postChatThreadMessage" }),
+      "Error posting chat thread message",
+    );
+  });
+});
+
+describe("getChatUsername", () => {
+  it("returns the session username", async () => {
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+
+    await expect(getChatUsername()).resolves.toBe("test-user");
+  });
+
+  it("returns null without a session", async () => {
+    vi.mocked(findSession).mockResolvedValue(undefined);
+
+    await expect(getChatUsername()).resolves.toBeNull();
+  });
+});
+
+describe("getChatLastSeen", () => {
+  it("returns the last message the visitor saw in the room", async () => {
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+    vi.mocked(getLastSeen).mockResolvedValue("1234567890123456789");
+
+    await expect(getChatLastSeen("music")).resolves.toBe("1234567890123456789");
+    expect(getLastSeen).toHaveBeenCalledWith("test-session", "music");
+  });
+
+  it("returns null without a session", async () => {
+    vi.mocked(findSession).mockResolvedValue(undefined);
+
+    await expect(getChatLastSeen()).resolves.toBeNull();
+    expect(getLastSeen).not.toHaveBeenCalled();
+  });
+});
+
+describe("markChatSeen", () => {
+  it("records the last message the visitor saw in the room", async () => {
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+
+    await markChatSeen("1234567890123456789");
+
+    expect(setLastSeen).toHaveBeenCalledWith(
+      "test-session",
+      "general",
+      "1234567890123456789",
+    );
+  });
+
+  it("ignores ids that aren't snowflakes", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "test-user" as Username,
+    });
+
+    await expect(markChatSeen("latest")).resolves.toBeUndefined();
+    expect(setLastSeen).not.toHaveBeenCalled();
+    expect(logErrorSpy).toHaveBeenCalled();
+  });
+});
+
+describe("changeChatUsername", () => {
+  it("re-signs the session with the chosen name", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+
+    const result = await changeChatUsername(" alice ");
+
+    expect(result).toEqual({ status: "ok", username: "alice" });
+    expect(checkName).toHaveBeenCalledWith("alice", "test-user");
+    expect(reserveName).toHaveBeenCalledWith("alice", {
+      id: "test-session",
+      username: "test-user",
+    });
+    expect(setSession).toHaveBeenCalledWith({
+      id: "test-session",
+      username: "alice",
+    });
+    expect(getNameCooldown).toHaveBeenCalledWith("0.0.0.0");
+    expect(startNameCooldown).toHaveBeenCalledWith("0.0.0.0");
+    expect(rememberIp).toHaveBeenCalledWith("alice", "0.0.0.0");
+    expect(refresh).toHaveBeenCalled();
+  });
+
+  it("rejects invalid names", async () => {
+    const result = await changeChatUsername("a:b");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Names can only have letters, numbers, and - _ . between them",
+    });
+    expect(setSession).not.toHaveBeenCalled();
+  });
+
+  it("rejects names that are reserved or taken", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(checkName).mockResolvedValueOnce('"simon" is reserved');
+
+    expect(await changeChatUsername("simon")).toEqual({
+      status: "error",
+      error: '"simon" is reserved',
+    });
+
+    vi.mocked(reserveName).mockResolvedValueOnce(false);
+
+    expect(await changeChatUsername("alice")).toEqual({
+      status: "error",
+      error: '"alice" is taken',
+    });
+    expect(setSession).not.toHaveBeenCalled();
+  });
+
+  it("makes visitors wait between changes", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(getNameCooldown).mockResolvedValueOnce(90 * 60 * 1000);
+
+    expect(await changeChatUsername("alice")).toEqual({
+      status: "error",
+      error: "You can change your name again in 2 hours",
+    });
+    expect(reserveName).not.toHaveBeenCalled();
+  });
+
+  it("rejects banned visitors and carries shadow bans over", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    const ban = { type: "ban", reason: null, by: "mod", expiresAt: null };
+    vi.mocked(getSanction).mockResolvedValueOnce({ ...ban, type: "ban" });
+
+    expect(await changeChatUsername("alice")).toEqual({
+      status: "error",
+      error: "You are banned from the chat",
+    });
+
+    vi.mocked(getSanction).mockResolvedValueOnce({ ...ban, type: "shadow" });
+
+    expect(await changeChatUsername("alice")).toEqual({
+      status: "ok",
+      username: "alice",
+    });
+    expect(setSanction).toHaveBeenCalledWith(
+      { username: "alice" },
+      { ...ban, type: "shadow" },
+    );
+  });
+});
+
+describe("editChatMessage", () => {
+  function createFormData(messageId: string, text: string) {
+    const formData = new FormData();
+    formData.set("messageId", messageId);
+    formData.set("text", text);
+    return formData;
+  }
+
+  it("edits own message and returns ok", async () => {
+    const logInfoSpy = vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(true);
+
+    const result = await editChatMessage(createFormData("msg-1", " Fixed "));
+
+    expect(result).toEqual({ status: "ok" });
+    expect(isOwnChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      "msg-1",
+      { id: "test-session", username: "test-user" },
+    );
+    expect(editChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      "msg-1",
+      "Fixed",
+    );
+    expect(logInfoSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        username: "test-user",
+        messageId: "msg-1",
+        action: "editChatMessage",
+      }),
+      "Fixed",
+    );
+  });
+
+  it("moderates the edited text like a new message", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(true);
+    vi.mocked(moderateMessage).mockResolvedValueOnce({
+      allowed: false,
+      reason: "blocklist",
+      error: "Your message contains a blocked word or phrase",
+    });
+
+    const result = await editChatMessage(createFormData("msg-1", "Blocked"));
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Your message contains a blocked word or phrase",
+      reason: "blocklist",
+    });
+    expect(moderateMessage).toHaveBeenCalledWith({
+      text: "Blocked",
+      username: "test-user",
+      ip: "0.0.0.0",
+    });
+    expect(editChannelMessage).not.toHaveBeenCalled();
+    expect(rememberMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejects editing someone else's message", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(false);
+
+    const result = await editChatMessage(createFormData("msg-1", "Mine now"));
+
+    expect(result).toEqual({
+      status: "error",
+      error: "You can only edit your own messages",
+    });
+    expect(editChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("rejects edits from muted visitors", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(getSanction).mockResolvedValueOnce({
+      type: "mute",
+      reason: null,
+      by: "mod",
+      expiresAt: null,
+    });
+
+    const result = await editChatMessage(createFormData("msg-1", "Sneaky"));
+
+    expect(result).toEqual({ status: "error", error: "You are muted" });
+    expect(editChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("returns rate limit error when limit exceeded", async () => {
+    mockRateLimitExceeded(10000);
+
+    const result = await editChatMessage(createFormData("msg-1", "Again"));
+
+    expect(result.status).toBe("error");
+    if (result.status === "error") {
+      expect(result.error).toMatch(/Rate limit exceeded/);
+    }
+    expect(editChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("returns error when text is empty", async () => {
+    const result = await editChatMessage(createFormData("msg-1", "  "));
+
+    expect(result.status).toBe("error");
+    expect(editChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("returns error and logs when Discord API fails", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const error = new Error("Discord connection failed");
+    mockRateLimitSuccess();
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(true);
+    vi.mocked(editChannelMessage).mockRejectedValue(error);
+
+    const result = await editChatMessage(createFormData("msg-1", "Fixed"));
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to edit chat message",
+    });
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      { err: error, action: "editChatMessage" },
+      "Error editing chat message",
+    );
+  });
+});
+
+describe("deleteChatMessage", () => {
+  it("deletes own message and returns ok", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(true);
+
+    const result = await deleteChatMessage("msg-1");
+
+    expect(result).toEqual({ status: "ok" });
+    expect(isOwnChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      "msg-1",
+      { id: "test-session", username: "test-user" },
+    );
+    expect(deleteChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      "msg-1",
+    );
+  });
+
+  it("rejects deleting someone else's message", async () => {
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(false);
+
+    const result = await deleteChatMessage("msg-1");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "You can only delete your own messages",
+    });
+    expect(deleteChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("returns error and logs when Discord API fails", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const error = new Error("Discord connection failed");
+    vi.mocked(isOwnChannelMessage).mockResolvedValue(true);
+    vi.mocked(deleteChannelMessage).mockRejectedValue(error);
+
+    const result = await deleteChatMessage("msg-1");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to delete chat message",
+    });
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      { err: error, action: "deleteChatMessage" },
+      "Error deleting chat message",
+    );
+  });
+});
+
+describe("toggleChatReaction", () => {
+  it("reacts on Discord for the first visitor to use an emoji", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(toggleReaction).mockResolvedValue({ reacted: true, count: 1 });
+
+    const result = await toggleChatReaction("msg-1", "👍");
+
+    expect(result).toEqual({ status: "ok", reacted: true });
+    expect(toggleReaction).toHaveBeenCalledWith("msg-1", "👍", "test-user");
+    expect(addOwnReaction).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      "msg-1",
+      "👍",
+    );
+    expect(publishChannelEvent).toHaveBeenCalledWith({
+      type: "MESSAGE_REACTION_ADD",
+      channelId: "test-discord-channel-id",
+      id: "msg-1",
+    });
+  });
+
+  it("leaves Discord alone while other visitors still react", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(toggleReaction).mockResolvedValue({ reacted: false, count: 2 });
+
+    const result = await toggleChatReaction("msg-1", "👍");
+
+    expect(result).toEqual({ status: "ok", reacted: false });
+    expect(addOwnReaction).not.toHaveBeenCalled();
+    expect(removeOwnReaction).not.toHaveBeenCalled();
+    expect(publishChannelEvent).toHaveBeenCalledWith({
+      type: "MESSAGE_REACTION_REMOVE",
+      channelId: "test-discord-channel-id",
+      id: "msg-1",
+    });
+  });
+
+  it("removes the Discord reaction with the last visitor", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    mockRateLimitSuccess();
+    vi.mocked(toggleReaction).mockResolvedValue({ reacted: false, count: 0 });
+
+    await toggleChatReaction("msg-1", "blobwave:123456", "music");
+
+    expect(removeOwnReaction).toHaveBeenCalledWith(
+      "1000000000000000001",
+      "msg-1",
+      "blobwave:123456",
+    );
+  });
+
+  it("rejects values that are not an emoji", async () => {
+    vi.spyOn(log, "error").mockImplementation(() => {});
+
+    const result = await toggleChatReaction("msg-1", "<b>hi</b>");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to update reaction",
+    });
+    expect(toggleReaction).not.toHaveBeenCalled();
+  });
+
+  it("returns rate limit error when limit exceeded", async () => {
+    mockRateLimitExceeded(5000);
+
+    const result = await toggleChatReaction("msg-1", "👍");
+
+    expect(result.status).toBe("error");
+    if (result.status === "error") {
+      expect(result.error).toMatch(/Rate limit exceeded/);
+    }
+    expect(toggleReaction).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["ban", "You are banned from the chat"],
+    ["mute", "You are muted. Try again in 5 minutes."],
+  ] as const)("rejects visitors with a %s", async (type, error) => {
+    mockRateLimitSuccess();
+    vi.mocked(getSanction).mockResolvedValueOnce({
+      type,
+      reason: null,
+      by: "mod",
+      expiresAt: type === "ban" ? null : Date.now() + 5 * 60 * 1000,
+    });
+
+    const result = await toggleChatReaction("msg-1", "👍");
+
+    expect(result).toEqual({ status: "error", error });
+    expect(toggleReaction).not.toHaveBeenCalled();
+    expect(publishChannelEvent).not.toHaveBeenCalled();
+  });
+
+  it("drops reactions from shadow banned visitors without telling them", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(getSanction).mockResolvedValueOnce({
+      type: "shadow",
+      reason: null,
+      by: "mod",
+      expiresAt: null,
+    });
+
+    const result = await toggleChatReaction("msg-1", "👍");
+
+    expect(result).toEqual({ status: "ok", reacted: true });
+    expect(toggleReaction).not.toHaveBeenCalled();
+    expect(addOwnReaction).not.toHaveBeenCalled();
+    expect(publishChannelEvent).not.toHaveBeenCalled();
+  });
+
+  it("undoes the toggle and logs when Discord API fails", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const error = new Error("Discord connection failed");
+    mockRateLimitSuccess();
+    vi.mocked(toggleReaction).mockResolvedValue({ reacted: true, count: 1 });
+    vi.mocked(addOwnReaction).mockRejectedValue(error);
+
+    const result = await toggleChatReaction("msg-1", "👍");
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to update reaction",
+    });
+    expect(toggleReaction).toHaveBeenCalledTimes(2);
+    expect(publishChannelEvent).not.toHaveBeenCalled();
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      { err: error, action: "toggleChatReaction" },
+      "Error toggling chat reaction",
+    );
+  });
+});
+
+describe("sendChatTyping", () => {
+  it("broadcasts the visitor's typing", async () => {
+    vi.mocked(startTyping).mockResolvedValue(true);
+
+    await sendChatTyping();
+
+    expect(startTyping).toHaveBeenCalledWith("test-user");
+    expect(publishChannelEvent).toHaveBeenCalledWith({
+      type: "VISITOR_TYPING",
+      channelId: "test-discord-channel-id",
+      username: "test-user",
+    });
+  });
+
+  it.each(["ban", "mute", "shadow"] as const)(
+    "does not broadcast the typing of visitors with a %s",
+    async (type) => {
+      vi.mocked(startTyping).mockResolvedValue(true);
+      vi.mocked(getSanction).mockResolvedValueOnce({
+        type,
+        reason: null,
+        by: "mod",
+        expiresAt: null,
+      });
+
+      await sendChatTyping();
+
+      expect(getSanction).toHaveBeenCalledWith({
+        username: "test-user",
+        ip: "0.0.0.0",
+      });
+      expect(startTyping).not.toHaveBeenCalled();
+      expect(publishChannelEvent).not.toHaveBeenCalled();
+    },
+  );
+
+  it("does not broadcast pings sent in quick succession", async () => {
+    vi.mocked(startTyping).mockResolvedValue(false);
+
+    await sendChatTyping();
+
+    expect(publishChannelEvent).not.toHaveBeenCalled();
+  });
+
+  it("logs errors instead of throwing", async () => {
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const error = new Error("Redis down");
+    vi.mocked(startTyping).mockRejectedValue(error);
+
+    await expect(sendChatTyping()).resolves.toBeUndefined();
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      { err: error, action: "sendChatTyping" },
+      "Error sending typing ping",
+    );
+  });
+});
+
+describe("searchChat", () => {
+  const searchMessage = (id: string, username: string) => ({
+    id,
+    username,
+    content: "hello",
+    timestamp: "2025-01-01T00:00:00.000000+00:00",
+  });
+  const hits: SearchHit[] = [
+    { hit: searchMessage("2", "Alice"), context: [searchMessage("1", "bob")] },
+    { hit: searchMessage("4", "bob"), context: [] },
+  ];
+
+  function searchForm(fields: Record<string, string>) {
+    const formData = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+      formData.set(name, value);
+    }
+    return formData;
+  }
+
+  it("searches the room's latest messages", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(searchChannelMessages).mockResolvedValue({
+      total_results: 30,
+      hits,
+    });
+
+    const result = await searchChat(
+      searchForm({ text: " hello ", username: "", from: "", to: "" }),
+    );
+
+    expect(result).toEqual({ status: "ok", hits, total: 30 });
+    expect(searchChannelMessages).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      { content: "hello", limit: 25, sort_by: "timestamp", sort_order: "desc" },
+    );
+    expect(hideShadowedHits).toHaveBeenCalledWith(hits, "test-session");
+  });
+
+  it("only finds messages by the username between the days", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(snowflakeAt).mockImplementation(String);
+    vi.mocked(searchChannelMessages).mockResolvedValue({
+      total_results: 2,
+      hits,
+    });
+
+    const result = await searchChat(
+      searchForm({
+        text: "hello",
+        username: "alice",
+        from: "2025-01-01",
+        to: "2025-01-31",
+        room: "music",
+      }),
+    );
+
+    expect(result).toEqual({ status: "ok", hits: [hits[0]], total: 1 });
+    expect(findGuildMemberIds).toHaveBeenCalledWith("alice");
+    expect(searchChannelMessages).toHaveBeenCalledWith("1000000000000000001", {
+      content: "alice hello",
+      limit: 25,
+      sort_by: "timestamp",
+      sort_order: "desc",
+      min_id: String(Date.parse("2025-01-01")),
+      max_id: String(Date.parse("2025-02-01")),
+    });
+  });
+
+  it("finds messages by Discord members by their id", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(findGuildMemberIds).mockResolvedValueOnce(["member-1"]);
+    vi.mocked(searchChannelMessages).mockResolvedValue({
+      total_results: 30,
+      hits,
+    });
+
+    const result = await searchChat(
+      searchForm({ text: "hello", username: "Bob" }),
+    );
+
+    expect(result).toEqual({ status: "ok", hits, total: 30 });
+    expect(searchChannelMessages).toHaveBeenCalledWith(
+      "test-discord-channel-id",
+      {
+        content: "hello",
+        author_id: ["member-1"],
+        limit: 25,
+        sort_by: "timestamp",
+        sort_order: "desc",
+      },
+    );
+  });
+
+  it("finds nothing when no hit is by the username", async () => {
+    mockRateLimitSuccess();
+    vi.mocked(searchChannelMessages).mockResolvedValue({
+      total_results: 30,
+      hits,
+    });
+
+    const result = await searchChat(
+      searchForm({ text: "hello", username: "carol" }),
+    );
+
+    expect(result).toEqual({ status: "ok", hits: [], total: 0 });
+  });
+
+  it("rejects empty searches and invalid days", async () => {
+    expect(await searchChat(searchForm({ text: " " }))).toEqual({
+      status: "error",
+      error: "Search for something",
+    });
+    expect(
+      await searchChat(searchForm({ text: "hello", from: "yesterday" })),
+    ).toMatchObject({ status: "error" });
+    expect(searchChannelMessages).not.toHaveBeenCalled();
+  });
+
+  it("returns rate limit error with wait time when limit exceeded", async () => {
+    mockRateLimitExceeded(10000);
+
+    const result = await searchChat(searchForm({ text: "hello" }));
+
+    expect(result).toMatchObject({
+      status: "error",
+      retryAfter: expect.any(Number),
+    });
+    expect(searchChannelMessages).not.toHaveBeenCalled();
+  });
+
+  it("returns error and logs when the search fails", async () => {
+    mockRateLimitSuccess();
+    const logErrorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const error = new Error("Discord API error");
+    vi.mocked(searchChannelMessages).mockRejectedValue(error);
+
+    const result = await searchChat(searchForm({ text: "hello" }));
+
+    expect(result).toEqual({
+      status: "error",
+      error: "Failed to search the chat",
+    });
+    expect(logErrorSpy).toHaveBeenCalledWith(
+      { err: error, action: "searchChat" },
+      "Error searching chat",
+    );
+  });
+});
@@ -6,55 +6,325 @@ import { after } from "next/server";
 import { z } from "zod";
 
 import {
-  getChannelMessages,
-  type Message,
+  checkSlowMode,
+  getRateLimit,
+  recordChatVolume,
+  recordFirstPost,
+  startSlowMode,
+} from "@/lib/chatSettings";
+import {
+  addOwnReaction,
+  deleteChannelMessage,
+  editChannelMessage,
+  findGuildMemberIds,
+  getChannelMessagesPage,
+  isOwnChannelMessage,
+  markOwnMessages,
+  type MessagesPage,
   postChannelMessage,
+  removeOwnReaction,
+  searchChannelMessages,
+  type SearchHit,
+  snowflakeAt,
 } from "@/lib/discord/api";
+import { toggleReaction } from "@/lib/discord/reactions";
+import { publishChannelEvent } from "@/lib/discord/relay";
+import { getRoom, getRooms } from "@/lib/discord/rooms";
+import { getThread, openThread } from "@/lib/discord/threads";
+import { startTyping } from "@/lib/discord/typing";
 import { identifiers } from "@/lib/identifiers";
+import { getLastSeen, setLastSeen } from "@/lib/lastSeen";
 import { log } from "@/lib/log";
+import {
+  moderateMessage,
+  type ModerationReason,
+  rememberMessage,
+} from "@/lib/moderation";
+import {
+  checkName,
+  ChosenNameSchema,
+  getNameCooldown,
+  reserveName,
+  startNameCooldown,
+} from "@/lib/names";
 import { getRedis } from "@/lib/redis";
-import { getSession } from "@/lib/session";
+import {
+  describeSanction,
+  getSanction,
+  hideShadowedHits,
+  hideShadowedMessages,
+  markShadowed,
+  rememberIp,
+  setSanction,
+} from "@/lib/sanctions";
+import {
+  findSession,
+  getSession,
+  setSession,
+  type Username,
+  UsernameSchema,
+} from "@/lib/session";
 
 export type ChatHistoryResult =
-  { status: "ok"; messages: Message[] } | { status: "error"; error: string };
+  ({ status: "ok" } & MessagesPage) | { status: "error"; error: string };
+
+/**
+ * Leaves out messages posted under a shadow ban, unless the current visitor
+ * posted them in this session, and marks those they posted as their own.
+ * Done outside the cache, which is shared by everyone.
+ */
+async function forViewer(
+  result: ChatHistoryResult,
+): Promise<ChatHistoryResult> {
+  if (result.status !== "ok") return result;
+
+  try {
+    const viewer = (await findSession())?.id ?? null;
+    const page = await markOwnMessages(
+      await hideShadowedMessages(result, viewer),
+      viewer,
+    );
+    return { status: "ok", ...page };
+  } catch (err) {
+    log.error({ err, action: "forViewer" }, "Error hiding chat messages");
+    return { status: "error", error: "Failed to fetch chat history" };
+  }
+}
 
-export async function getChatHistory(): Promise<ChatHistoryResult> {
+/** The names of the chat rooms, starting with general. */
+export async function getChatRooms(): Promise<string[]> {
+  return getRooms().map(({ name }) => name);
+}
+
+async function getCachedChatHistory(room?: string): Promise<ChatHistoryResult> {
   "use cache";
   cacheLife("seconds");
   cacheTag("getChatHistory");
 
   try {
-    const messages = await getChannelMessages();
-    return { status: "ok", messages };
+    const page = await getChannelMessagesPage(getRoom(room).channelId);
+    return { status: "ok", ...page };
+  } catch (err) {
+    log.error(
+      { err, room, action: "getChatHistory" },
+      "Error fetching chat history",
+    );
+    return { status: "error", error: "Failed to fetch chat history" };
+  }
+}
+
+/** The latest messages of the room, or of general without one. */
+export async function getChatHistory(
+  room?: string,
+): Promise<ChatHistoryResult> {
+  return forViewer(await getCachedChatHistory(room));
+}
+
+const CursorSchema = z.string().regex(/^\d+$/);
+
+async function getCachedOlderChatHistory(
+  cursor: string,
+  room?: string,
+): Promise<ChatHistoryResult> {
+  "use cache";
+  cacheLife("minutes");
+  cacheTag("getChatHistory");
+
+  try {
+    const before = CursorSchema.parse(cursor);
+    const page = await getChannelMessagesPage(getRoom(room).channelId, {
+      before,
+    });
+    return { status: "ok", ...page };
+  } catch (err) {
+    log.error(
+      { err, cursor, room, action: "getOlderChatHistory" },
+      "Error fetching older chat history",
+    );
+    return { status: "error", error: "Failed to fetch older chat history" };
+  }
+}
+
+/** Fetches the page of messages posted before the `cursor` message. */
+export async function getOlderChatHistory(
+  cursor: string,
+  room?: string,
+): Promise<ChatHistoryResult> {
+  return forViewer(await getCachedOlderChatHistory(cursor, room));
+}
+
+// Enough to read a search hit in context
+const SCROLL_BACK_LIMIT = 50;
+
+async function getCachedChatHistoryAround(
+  messageId: string,
+  room?: string,
+): Promise<ChatHistoryResult> {
+  "use cache";
+  cacheLife("minutes");
+  cacheTag("getChatHistory");
+
+  try {
+    const around = CursorSchema.parse(messageId);
+    const page = await getChannelMessagesPage(getRoom(room).channelId, {
+      limit: SCROLL_BACK_LIMIT,
+      around,
+    });
+    return { status: "ok", ...page };
   } catch (err) {
-    log.error({ err, action: "getChatHistory" }, "Error fetching chat history");
+    log.error(
+      { err, messageId, room, action: "getChatHistoryAround" },
+      "Error fetching chat history around message",
+    );
     return { status: "error", error: "Failed to fetch chat history" };
   }
 }
 
-let rateLimiter: Ratelimit | undefined;
+/** The messages posted around a message, to show it in its context. */
+export async function getChatHistoryAround(
+  messageId: string,
+  room?: string,
+): Promise<ChatHistoryResult> {
+  return forViewer(await getCachedChatHistoryAround(messageId, room));
+}
+
+const RoomNameSchema = z.string().optional();
+
+/** The room a form was sent from, general if it doesn't say. */
+function getFormRoom(formData: FormData) {
+  return getRoom(RoomNameSchema.parse(formData.get("room") ?? undefined));
+}
+
+// One per limit, as visitors can be limited differently
+const rateLimiters = new Map<string, Ratelimit>();
+
+/** Limits posts and edits by the visitor's current limit. */
+async function getRateLimiter(username: Username) {
+  const { messages, windowSeconds } = await getRateLimit(username);
+  const key = `${messages}/${windowSeconds}`;
 
-function getRateLimiter() {
+  let rateLimiter = rateLimiters.get(key);
   if (!rateLimiter) {
     rateLimiter = new Ratelimit({
       redis: getRedis(),
-      limiter: Ratelimit.slidingWindow(5, "30 s"),
+      limiter: Ratelimit.slidingWindow(messages, `${windowSeconds} s`),
       enableProtection: true,
       analytics: true,
       prefix: "postChatMessage",
     });
+    rateLimiters.set(key, rateLimiter);
   }
 
   return rateLimiter;
 }
 
+let searchRateLimiter: Ratelimit | undefined;
+
+function getSearchRateLimiter() {
+  if (!searchRateLimiter) {
+    searchRateLimiter = new Ratelimit({
+      redis: getRedis(),
+      limiter: Ratelimit.slidingWindow(5, "30 s"),
+      enableProtection: true,
+      analytics: true,
+      prefix: "searchChat",
+    });
+  }
+
+  return searchRateLimiter;
+}
+
+let reactionRateLimiter: Ratelimit | undefined;
+
+function getReactionRateLimiter() {
+  if (!reactionRateLimiter) {
+    reactionRateLimiter = new Ratelimit({
+      redis: getRedis(),
+      limiter: Ratelimit.slidingWindow(10, "10 s"),
+      enableProtection: true,
+      analytics: true,
+      prefix: "toggleChatReaction",
+    });
+  }
+
+  return reactionRateLimiter;
+}
+
+async function checkRateLimit(username: Username, limiter?: Ratelimit) {
+  const request = await identifiers();
+  const identifier = request.ip ?? username;
+  const { success, pending, reset } = await (
+    limiter ?? (await getRateLimiter(username))
+  ).limit(identifier, request);
+
+  after(pending);
+
+  const retryAfter = success ? undefined : Math.max(reset - Date.now(), 0);
+  const error =
+    retryAfter === undefined
+      ? null
+      : `Rate limit exceeded. Wait ${Math.ceil(retryAfter / 1000)} seconds before trying again.`;
+
+  return { request, error, retryAfter };
+}
+
+/** The current visitor's username, used to tell which messages are theirs. */
+export async function getChatUsername(): Promise<string | null> {
+  const session = await findSession();
+  return session?.username ?? null;
+}
+
+/** The latest message the visitor has seen in the room, if they've been. */
+export async function getChatLastSeen(
+  roomName?: string,
+): Promise<string | null> {
+  try {
+    const room = getRoom(roomName);
+    const session = await findSession();
+    if (!session) return null;
+
+    return await getLastSeen(session.id, room.name);
+  } catch (err) {
+    log.error(
+      { err, action: "getChatLastSeen" },
+      "Error fetching last seen message",
+    );
+    return null;
+  }
+}
+
+/** Remembers how far the visitor has read the room along with their session. */
+export async function markChatSeen(
+  messageId: string,
+  roomName?: string,
+): Promise<void> {
+  try {
+    CursorSchema.parse(messageId);
+    const room = getRoom(roomName);
+    const session = await findSession();
+    if (!session) return;
+
+    await setLastSeen(session.id, room.name, messageId);
+  } catch (err) {
+    log.error({ err, action: "markChatSeen" }, "Error marking chat as seen");
+  }
+}
+
 export async function refreshChatHistory() {
   updateTag("getChatHistory");
   refresh();
 }
 
 export type PostChatMessageResult =
-  { status: "initial" } | { status: "ok" } | { status: "error"; error: string };
+  | { status: "initial" }
+  | { status: "ok" }
+  | {
+      status: "error";
+      error: string;
+      reason?: ModerationReason | "ban" | "mute";
+      /** Milliseconds until the visitor can post again. */
+      retryAfter?: number;
+    };
 
 export async function postChatMessage(
   formData: FormData,
@@ -65,29 +335,74 @@ export async function postChatMessage(
       .string()
       .optional()
       .parse(formData.get("replyToId") ?? undefined);
+    const room = getFormRoom(formData);
 
-    const { username } = await getSession();
+    const session = await getSession();
+    const { username } = session;
 
-    const request = await identifiers();
-    const identifier = request.ip ?? username;
-    const { success, pending, reset } = await getRateLimiter().limit(
-      identifier,
-      request,
-    );
+    const { request, error, retryAfter } = await checkRateLimit(username);
+    if (error) {
+      return { status: "error", error, retryAfter };
+    }
 
-    after(pending);
+    const sanction = await getSanction({ username, ip: request.ip });
+    if (sanction && sanction.type !== "shadow") {
+      return {
+        status: "error",
+        error: describeSanction(sanction),
+        reason: sanction.type,
+      };
+    }
 
-    if (!success) {
+    const slowMode = await checkSlowMode(request.ip ?? username);
+    if (slowMode !== null) {
       return {
         status: "error",
-        error: `Rate limit exceeded. Wait ${Math.ceil((reset - Date.now()) / 1000)} seconds before trying again.`,
+        error: `Slow mode is on. Wait ${Math.ceil(slowMode / 1000)} seconds before sending another message.`,
+        retryAfter: slowMode,
       };
     }
 
-    const messageId = await postChannelMessage(text, username, replyToId);
+    if (sanction) {
+      // Carried over to the username for shadow bans by IP, so the message
+      // is hidden from the moment it reaches the gateway
+      await setSanction({ username }, sanction);
+    }
+
+    const moderation = { text, username, ip: request.ip };
+    const decision = await moderateMessage(moderation);
+    if (!decision.allowed) {
+      return {
+        status: "error",
+        error: decision.error,
+        reason: decision.reason,
+      };
+    }
+
+    const messageId = await postChannelMessage(
+      room.channelId,
+      text,
+      { kind: "visitor", username, session: session.id },
+      replyToId,
+    );
+    await Promise.all([
+      rememberMessage(moderation),
+      request.ip && rememberIp(username, request.ip),
+      sanction && markShadowed(messageId),
+      recordChatVolume(messageId),
+      recordFirstPost(username),
+      startSlowMode(request.ip ?? username),
+    ]);
 
     log.info(
-      { username, messageId, ip: request.ip, action: "postChatMessage" },
+      {
+        username,
+        messageId,
+        room: room.name,
+        ip: request.ip,
+        shadowed: sanction !== null,
+        action: "postChatMessage",
+      },
       text,
     );
 
@@ -97,3 +412,482 @@ export async function postChatMessage(
     return { status: "error", error: "Failed to post chat message" };
   }
 }
+
+/**
+ * The latest messages of the visitor's private thread with Simon, empty
+ * until they post to it. Never cached, as only they may see it.
+ */
+export async function getChatThread(): Promise<ChatHistoryResult> {
+  try {
+    const session = await findSession();
+    const thread = session && (await getThread(session));
+    if (!thread) {
+      return { status: "ok", messages: [], orphans: [], cursor: null };
+    }
+
+    const page = await getChannelMessagesPage(thread.id);
+    return { status: "ok", ...(await markOwnMessages(page, session.id)) };
+  } catch (err) {
+    log.error({ err, action: "getChatThread" }, "Error fetching chat thread");
+    return { status: "error", error: "Failed to fetch your conversation" };
+  }
+}
+
+/**
+ * Posts to the visitor's private thread with Simon, starting it on Discord
+ * with their first message.
+ */
+export async function postChatThreadMessage(
+  formData: FormData,
+): Promise<PostChatMessageResult> {
+  try {
+    const text = z.string().trim().min(1).parse(formData.get("text"));
+
+    const session = await getSession();
+    const { username } = session;
+
+    const { request, error, retryAfter } = await checkRateLimit(username);
+    if (error) {
+      return { status: "error", error, retryAfter };
+    }
+
+    // Shadow banned visitors can still write to Simon, as no one else sees it
+    const sanction = await getSanction({ username, ip: request.ip });
+    if (sanction && sanction.type !== "shadow") {
+      return {
+        status: "error",
+        error: describeSanction(sanction),
+        reason: sanction.type,
+      };
+    }
+
+    const decision = await moderateMessage({ text, username, ip: request.ip });
+    if (!decision.allowed) {
+      return {
+        status: "error",
+        error: decision.error,
+        reason: decision.reason,
+      };
+    }
+
+    const thread = await openThread(session);
+    const messageId = await postChannelMessage(thread.id, text, {
+      kind: "visitor",
+      username,
+      session: session.id,
+    });
+    if (request.ip) await rememberIp(username, request.ip);
+
+    log.info(
+      {
+        username,
+        messageId,
+        threadId: thread.id,
+        ip: request.ip,
+        action: "postChatThreadMessage",
+      },
+      text,
+    );
+
+    return { status: "ok" };
+  } catch (err) {
+    log.error(
+      { err, action: "postChatThreadMessage" },
+      "Error posting chat thread message",
+    );
+    return { status: "error", error: "Failed to send your message" };
+  }
+}
+
+export type ChangeChatUsernameResult =
+  | { status: "ok"; username: string }
+  | {
+      status: "error";
+      error: string;
+      /** Milliseconds until the visitor can try again. */
+      retryAfter?: number;
+    };
+
+function formatWait(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * Lets the visitor go by a name of their choosing instead of the one they
+ * were given, re-signing their session with it.
+ */
+export async function changeChatUsername(
+  name: string,
+): Promise<ChangeChatUsernameResult> {
+  try {
+    const parsed = ChosenNameSchema.safeParse(name);
+    if (!parsed.success) {
+      return { status: "error", error: parsed.error.issues[0]!.message };
+    }
+    const chosen = parsed.data;
+
+    const session = await getSession();
+    const { username } = session;
+
+    const { request, error, retryAfter } = await checkRateLimit(username);
+    if (error) {
+      return { status: "error", error, retryAfter };
+    }
+
+    const sanction = await getSanction({ username, ip: request.ip });
+    if (sanction && sanction.type !== "shadow") {
+      return { status: "error", error: describeSanction(sanction) };
+    }
+
+    // By IP address, so that starting a new session doesn't get around it
+    const cooldown = await getNameCooldown(request.ip ?? session.id);
+    if (cooldown !== null) {
+      return {
+        status: "error",
+        error: `You can change your name again in ${formatWait(cooldown)}`,
+      };
+    }
+
+    const problem = await checkName(chosen, username);
+    if (problem) {
+      return { status: "error", error: problem };
+    }
+
+    if (!(await reserveName(chosen, session))) {
+      return { status: "error", error: `"${chosen}" is taken` };
+    }
+
+    const newUsername = UsernameSchema.parse(chosen);
+    await setSession({ id: session.id, username: newUsername });
+    await Promise.all([
+      startNameCooldown(request.ip ?? session.id),
+      // Sanctions by username follow the visitor to their new name
+      sanction && setSanction({ username: newUsername }, sanction),
+      request.ip && rememberIp(newUsername, request.ip),
+    ]);
+
+    log.info(
+      { username, newUsername, ip: request.ip, action: "changeChatUsername" },
+      "Changed username",
+    );
+
+    // Renders the chat again with the new name
+    refresh();
+
+    return { status: "ok", username: newUsername };
+  } catch (err) {
+    log.error(
+      { err, action: "changeChatUsername" },
+      "Error changing chat username",
+    );
+    return { status: "error", error: "Failed to change your name" };
+  }
+}
+
+export type EditChatMessageResult =
+  | { status: "initial" }
+  | { status: "ok" }
+  | {
+      status: "error";
+      error: string;
+      reason?: ModerationReason;
+      /** Milliseconds until the visitor can edit again. */
+      retryAfter?: number;
+    };
+
+export async function editChatMessage(
+  formData: FormData,
+): Promise<EditChatMessageResult> {
+  try {
+    const messageId = z.string().min(1).parse(formData.get("messageId"));
+    const text = z.string().trim().min(1).parse(formData.get("text"));
+    const room = getFormRoom(formData);
+
+    const session = await getSession();
+    const { username } = session;
+
+    const { request, error, retryAfter } = await checkRateLimit(username);
+    if (error) {
+      return { status: "error", error, retryAfter };
+    }
+
+    const sanction = await getSanction({ username, ip: request.ip });
+    if (sanction && sanction.type !== "shadow") {
+      return { status: "error", error: describeSanction(sanction) };
+    }
+
+    if (!(await isOwnChannelMessage(room.channelId, messageId, session))) {
+      return { status: "error", error: "You can only edit your own messages" };
+    }
+
+    // Edited text is held to the same rules as posted text
+    const moderation = { text, username, ip: request.ip };
+    const decision = await moderateMessage(moderation);
+    if (!decision.allowed) {
+      return {
+        status: "error",
+        error: decision.error,
+        reason: decision.reason,
+      };
+    }
+
+    await editChannelMessage(room.channelId, messageId, text);
+    await rememberMessage(moderation);
+
+    log.info(
+      { username, messageId, ip: request.ip, action: "editChatMessage" },
+      text,
+    );
+
+    return { status: "ok" };
+  } catch (err) {
+    log.error({ err, action: "editChatMessage" }, "Error editing chat message");
+    return { status: "error", error: "Failed to edit chat message" };
+  }
+}
+
+export type DeleteChatMessageResult =
+  { status: "ok" } | { status: "error"; error: string };
+
+export async function deleteChatMessage(
+  messageId: string,
+  roomName?: string,
+): Promise<DeleteChatMessageResult> {
+  try {
+    z.string().min(1).parse(messageId);
+    const room = getRoom(roomName);
+
+    const session = await getSession();
+
+    if (!(await isOwnChannelMessage(room.channelId, messageId, session))) {
+      return {
+        status: "error",
+        error: "You can only delete your own messages",
+      };
+    }
+
+    await deleteChannelMessage(room.channelId, messageId);
+
+    log.info(
+      { username: session.username, messageId, action: "deleteChatMessage" },
+      "Deleted",
+    );
+
+    return { status: "ok" };
+  } catch (err) {
+    log.error(
+      { err, action: "deleteChatMessage" },
+      "Error deleting chat message",
+    );
+    return { status: "error", error: "Failed to delete chat message" };
+  }
+}
+
+// A single unicode emoji, or a custom emoji as `name:id`
+const EmojiSchema = z
+  .string()
+  .regex(
+    /^(?:\p{Extended_Pictographic}[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]*|\w{2,32}:\d+)$/u,
+  );
+
+export type ToggleChatReactionResult =
+  { status: "ok"; reacted: boolean } | { status: "error"; error: string };
+
+/**
+ * Adds the visitor's reaction to a message, or removes it if they already
+ * reacted with the emoji. The bot reacts on Discord while any visitor does.
+ */
+export async function toggleChatReaction(
+  messageId: string,
+  emoji: string,
+  roomName?: string,
+): Promise<ToggleChatReactionResult> {
+  try {
+    z.string().min(1).parse(messageId);
+    EmojiSchema.parse(emoji);
+    const room = getRoom(roomName);
+
+    const { username } = await getSession();
+
+    const { request, error } = await checkRateLimit(
+      username,
+      getReactionRateLimiter(),
+    );
+    if (error) {
+      return { status: "error", error };
+    }
+
+    const sanction = await getSanction({ username, ip: request.ip });
+    // Shadow banned visitors' reactions look like they went through, but
+    // reach no one, so the counts don't give the ban away
+    if (sanction?.type === "shadow") return { status: "ok", reacted: true };
+    if (sanction) {
+      return { status: "error", error: describeSanction(sanction) };
+    }
+
+    const { reacted, count } = await toggleReaction(messageId, emoji, username);
+
+    try {
+      if (reacted && count === 1) {
+        await addOwnReaction(room.channelId, messageId, emoji);
+      } else if (!reacted && count === 0) {
+        await removeOwnReaction(room.channelId, messageId, emoji);
+      }
+    } catch (err) {
+      // Undo our side so it stays in sync with Discord
+      await toggleReaction(messageId, emoji, username);
+      throw err;
+    }
+
+    // Discord only reports the bot's reaction changing, so let every
+    // instance know about the others
+    await publishChannelEvent({
+      type: reacted ? "MESSAGE_REACTION_ADD" : "MESSAGE_REACTION_REMOVE",
+      channelId: room.channelId,
+      id: messageId,
+    });
+
+    log.info(
+      { username, messageId, ip: request.ip, action: "toggleChatReaction" },
+      `${reacted ? "Reacted" : "Unreacted"} ${emoji}`,
+    );
+
+    return { status: "ok", reacted };
+  } catch (err) {
+    log.error(
+      { err, action: "toggleChatReaction" },
+      "Error toggling chat reaction",
+    );
+    return { status: "error", error: "Failed to update reaction" };
+  }
+}
+
+/** Lets everyone else in the room know the visitor is typing. */
+export async function sendChatTyping(roomName?: string): Promise<void> {
+  try {
+    const room = getRoom(roomName);
+    const { username } = await getSession();
+
+    // No one hears from sanctioned visitors, shadow banned ones included
+    const request = await identifiers();
+    if (await getSanction({ username, ip: request.ip })) return;
+
+    if (await startTyping(username)) {
+      await publishChannelEvent({
+        type: "VISITOR_TYPING",
+        channelId: room.channelId,
+        username,
+      });
+    }
+  } catch (err) {
+    log.error({ err, action: "sendChatTyping" }, "Error sending typing ping");
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_LIMIT = 25;
+
+// Empty fields are left out of the form's filters
+const OptionalFieldSchema = z
+  .string()
+  .trim()
+  .transform((value) => value || undefined)
+  .optional();
+
+const ChatSearchSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, "Search for something")
+    .max(200, "Searches can have at most 200 characters"),
+  username: OptionalFieldSchema,
+  from: OptionalFieldSchema.pipe(z.iso.date().optional()),
+  to: OptionalFieldSchema.pipe(z.iso.date().optional()),
+});
+
+export type SearchChatResult =
+  | { status: "initial" }
+  | { status: "ok"; hits: SearchHit[]; total: number }
+  | {
+      status: "error";
+      error: string;
+      /** Milliseconds until the visitor can search again. */
+      retryAfter?: number;
+    };
+
+/**
+ * Searches the room's messages, optionally only those by a username or
+ * posted between two days.
+ */
+export async function searchChat(
+  formData: FormData,
+): Promise<SearchChatResult> {
+  try {
+    const parsed = ChatSearchSchema.safeParse({
+      text: formData.get("text") ?? "",
+      username: formData.get("username") ?? undefined,
+      from: formData.get("from") ?? undefined,
+      to: formData.get("to") ?? undefined,
+    });
+    if (!parsed.success) {
+      return { status: "error", error: parsed.error.issues[0]!.message };
+    }
+    const { text, username: author, from, to } = parsed.data;
+    const room = getFormRoom(formData);
+
+    const session = await getSession();
+    const { username } = session;
+
+    const { request, error, retryAfter } = await checkRateLimit(
+      username,
+      getSearchRateLimiter(),
+    );
+    if (error) {
+      return { status: "error", error, retryAfter };
+    }
+
+    // Everything visitors post comes from the bot, so their messages are
+    // narrowed down by the name they start with, and Discord members' by id
+    const memberIds = author ? await findGuildMemberIds(author) : [];
+    const visitor = author !== undefined && memberIds.length === 0;
+
+    const result = await searchChannelMessages(room.channelId, {
+      content: visitor ? `${author} ${text}` : text,
+      ...(memberIds.length > 0 && { author_id: memberIds }),
+      limit: SEARCH_LIMIT,
+      sort_by: "timestamp",
+      sort_order: "desc",
+      ...(from && { min_id: snowflakeAt(Date.parse(from)) }),
+      // Up to the end of the day
+      ...(to && { max_id: snowflakeAt(Date.parse(to) + DAY_MS) }),
+    });
+
+    // Hits merely mentioning the visitor's name are dropped
+    const hits = await hideShadowedHits(
+      visitor
+        ? result.hits.filter(
+            ({ hit }) => hit.username.toLowerCase() === author.toLowerCase(),
+          )
+        : result.hits,
+      session.id,
+    );
+
+    log.info(
+      { username, room: room.name, ip: request.ip, action: "searchChat" },
+      text,
+    );
+
+    // Discord's total counts the hits left out here too, so once any are,
+    // only those left are
+    const total =
+      hits.length < result.hits.length ? hits.length : result.total_results;
+
+    return { status: "ok", hits, total };
+  } catch (err) {
+    log.error({ err, action: "searchChat" }, "Error searching chat");
+    return { status: "error", error: "Failed to search the chat" };
+  }
+}
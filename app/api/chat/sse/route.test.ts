@@ -9,28 +9,49 @@ import {
   vi,
 } from "vitest";
 
-import { subscribe } from "@/lib/discord/gateway";
+import { subscribeToChatEvents } from "@/lib/discord/events";
+import type { ChatEvent } from "@/lib/discord/schemas";
+import { joinPresence } from "@/lib/presence";
+import { findSession, type Username } from "@/lib/session";
 
 import { GET } from "./route";
 
+vi.mock(import("server-only"), () => ({}));
 vi.mock(import("next/server"), async (importOriginal) => {
   const actual = await importOriginal();
   return { ...actual, connection: vi.fn() };
 });
 
-vi.mock(import("@/lib/discord/gateway"), () => ({ subscribe: vi.fn() }));
-
-function createRequest(signal: AbortSignal) {
-  return new NextRequest("http://localhost/api/chat/sse", { signal });
+vi.mock(import("@/lib/discord/events"), () => ({
+  subscribeToChatEvents: vi.fn(),
+}));
+vi.mock(import("@/lib/presence"), () => ({ joinPresence: vi.fn() }));
+vi.mock(import("@/lib/session"), () => ({ findSession: vi.fn() }));
+
+function createRequest(
+  signal: AbortSignal,
+  { url = "http://localhost/api/chat/sse", headers = {} } = {},
+) {
+  return new NextRequest(url, { signal, headers });
 }
 
 describe("GET /api/chat/sse", () => {
   let mockUnsubscribe: Mock;
+  let mockLeavePresence: Mock;
 
   beforeEach(() => {
     vi.useFakeTimers();
     mockUnsubscribe = vi.fn();
-    vi.mocked(subscribe).mockResolvedValue(mockUnsubscribe);
+    mockLeavePresence = vi.fn(() => Promise.resolve());
+    vi.mocked(joinPresence).mockResolvedValue(mockLeavePresence);
+    vi.mocked(findSession).mockResolvedValue({
+      id: "test-session",
+      username: "TestUser" as Username,
+    });
+    vi.mocked(subscribeToChatEvents).mockResolvedValue({
+      unsubscribe: mockUnsubscribe,
+      resync: false,
+    });
   });
 
   afterEach(() => {
@@ -66,35 +87,168 @@ describe("GET /api/chat/sse", () => {
     reader.releaseLock();
   });
 
-  it("should subscribe to gateway events", async () => {
+  it("should subscribe to chat events", async () => {
     const controller = new AbortController();
     await GET(createRequest(controller.signal));
 
-    expect(subscribe).toHaveBeenCalledOnce();
-    expect(subscribe).toHaveBeenCalledWith(expect.any(Function));
+    expect(subscribeToChatEvents).toHaveBeenCalledOnce();
+    expect(subscribeToChatEvents).toHaveBeenCalledWith(
+      expect.any(Function),
+      undefined,
+      { id: "test-session", username: "TestUser" },
+      "general",
+    );
+
+    controller.abort();
+  });
+
+  it("should subscribe to events in the requested room", async () => {
+    const controller = new AbortController();
+    await GET(
+      createRequest(controller.signal, {
+        url: "http://localhost/api/chat/sse?room=music",
+      }),
+    );
+
+    expect(subscribeToChatEvents).toHaveBeenCalledWith(
+      expect.any(Function),
+      undefined,
+      { id: "test-session", username: "TestUser" },
+      "music",
+    );
+
+    controller.abort();
+  });
+
+  it("should not find rooms that don't exist", async () => {
+    const controller = new AbortController();
+    const response = await GET(
+      createRequest(controller.signal, {
+        url: "http://localhost/api/chat/sse?room=nope",
+      }),
+    );
+
+    expect(response.status).toBe(404);
+    expect(subscribeToChatEvents).not.toHaveBeenCalled();
+    expect(joinPresence).not.toHaveBeenCalled();
+  });
+
+  it("should resume from the Last-Event-ID header", async () => {
+    const controller = new AbortController();
+    await GET(
+      createRequest(controller.signal, {
+        headers: { "Last-Event-ID": "1700000000001" },
+      }),
+    );
+
+    expect(subscribeToChatEvents).toHaveBeenCalledWith(
+      expect.any(Function),
+      "1700000000001",
+      { id: "test-session", username: "TestUser" },
+      "general",
+    );
+
+    controller.abort();
+  });
+
+  it("should resume from the lastEventId query parameter", async () => {
+    const controller = new AbortController();
+    await GET(
+      createRequest(controller.signal, {
+        url: "http://localhost/api/chat/sse?lastEventId=1700000000002",
+      }),
+    );
+
+    expect(subscribeToChatEvents).toHaveBeenCalledWith(
+      expect.any(Function),
+      "1700000000002",
+      { id: "test-session", username: "TestUser" },
+      "general",
+    );
+
+    controller.abort();
+  });
+
+  it("should ask the client to resync when events cannot be replayed", async () => {
+    vi.mocked(subscribeToChatEvents).mockResolvedValue({
+      unsubscribe: mockUnsubscribe,
+      resync: true,
+    });
+
+    const controller = new AbortController();
+    const response = await GET(
+      createRequest(controller.signal, { headers: { "Last-Event-ID": "1" } }),
+    );
+
+    const reader = response.body!.getReader();
+    const { value } = await reader.read();
+    const text = new TextDecoder().decode(value);
+
+    expect(text).toBe("event: resync\ndata: \n\n");
 
     controller.abort();
+    reader.releaseLock();
   });
 
-  it("should send refresh event when gateway notifies", async () => {
+  it("should send chat events as JSON data with their id", async () => {
     const controller = new AbortController();
     const response = await GET(createRequest(controller.signal));
 
-    // Get the callback passed to subscribe
-    const onMessage = vi.mocked(subscribe).mock.calls[0]![0];
+    // Get the callback passed to subscribeToChatEvents
+    const onEvent = vi.mocked(subscribeToChatEvents).mock.calls[0]![0];
 
     const reader = response.body!.getReader();
 
     // Read initial ping
     await reader.read();
 
-    // Trigger gateway notification
-    onMessage();
+    const event: ChatEvent = {
+      type: "message.create",
+      parentId: null,
+      message: {
+        id: "1",
+        user: { name: "TestUser", color: "hsl(0 100% 50%)" },
+        content: "Hello",
+        text: "Hello",
+        edited: false,
+        own: false,
+        reactions: [],
+        attachments: [],
+        embeds: [],
+        stickers: [],
+        previews: [],
+        timestamp: new Date("2025-01-01T00:00:00.000Z"),
+        replies: [],
+      },
+    };
+    onEvent("1700000000001", event);
 
     const { value } = await reader.read();
     const text = new TextDecoder().decode(value);
 
-    expect(text).toBe("data: refresh\n\n");
+    expect(text).toBe(`id: 1700000000001\ndata: ${JSON.stringify(event)}\n\n`);
+    expect(JSON.parse(text.split("data: ")[1]!)).toMatchObject({
+      type: "message.create",
+      message: { id: "1", timestamp: "2025-01-01T00:00:00.000Z" },
+    });
+
+    controller.abort();
+    reader.releaseLock();
+  });
+
+  it("should send events without an id when they are not replayed", async () => {
+    const controller = new AbortController();
+    const response = await GET(createRequest(controller.signal));
+    const onEvent = vi.mocked(subscribeToChatEvents).mock.calls[0]![0];
+    const reader = response.body!.getReader();
+    await reader.read();
+
+    onEvent(null, { type: "typing", name: "TestUser" });
+
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toBe(
+      `data: {"type":"typing","name":"TestUser"}\n\n`,
+    );
 
     controller.abort();
     reader.releaseLock();
@@ -132,16 +286,53 @@ describe("GET /api/chat/sse", () => {
     expect(mockUnsubscribe).toHaveBeenCalledOnce();
   });
 
+  it("should be present until the client disconnects", async () => {
+    const controller = new AbortController();
+    await GET(createRequest(controller.signal));
+
+    expect(joinPresence).toHaveBeenCalledWith("TestUser");
+    expect(mockLeavePresence).not.toHaveBeenCalled();
+
+    controller.abort();
+
+    expect(mockLeavePresence).toHaveBeenCalledOnce();
+  });
+
+  it("should count visitors without a session anonymously", async () => {
+    vi.mocked(findSession).mockResolvedValue(undefined);
+    const controller = new AbortController();
+    await GET(createRequest(controller.signal));
+
+    expect(joinPresence).toHaveBeenCalledWith(null);
+    expect(subscribeToChatEvents).toHaveBeenCalledWith(
+      expect.any(Function),
+      undefined,
+      null,
+      "general",
+    );
+
+    controller.abort();
+  });
+
+  it("should clean up when the client left before subscribing", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await GET(createRequest(controller.signal));
+
+    expect(mockUnsubscribe).toHaveBeenCalledOnce();
+    expect(mockLeavePresence).toHaveBeenCalledOnce();
+  });
+
   it("should not write after abort", async () => {
     const controller = new AbortController();
     const response = await GET(createRequest(controller.signal));
 
-    const onMessage = vi.mocked(subscribe).mock.calls[0]![0];
+    const onEvent = vi.mocked(subscribeToChatEvents).mock.calls[0]![0];
 
     controller.abort();
 
     // These should be no-ops after abort
-    onMessage();
+    onEvent("1", { type: "message.delete", id: "1" });
     await vi.advanceTimersByTimeAsync(30_000);
 
     // Stream should be closed, reading should complete
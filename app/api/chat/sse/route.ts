@@ -1,11 +1,16 @@
 import { connection, type NextRequest, NextResponse } from "next/server";
 
-import { subscribe } from "@/lib/discord/gateway";
+import { subscribeToChatEvents } from "@/lib/discord/events";
+import { findRoom, getDefaultRoom } from "@/lib/discord/rooms";
 import { log } from "@/lib/log";
+import { joinPresence } from "@/lib/presence";
+import { findSession } from "@/lib/session";
 
 // Send periodic pings to keep the connection alive and detect client disconnects.
 const PING_INTERVAL_MS = 30_000;
 const PING_MESSAGE = ": ping\n\n";
+// Tells the client its Last-Event-ID is too old to replay and it must refetch.
+const RESYNC_MESSAGE = "event: resync\ndata: \n\n";
 
 const ignoreWriteErrors = (err: unknown) => {
   log.debug({ err }, "SSE write error");
@@ -13,6 +18,13 @@ const ignoreWriteErrors = (err: unknown) => {
 
 export async function GET(request: NextRequest) {
   await connection();
+
+  const roomName = request.nextUrl.searchParams.get("room");
+  const room = roomName === null ? getDefaultRoom() : findRoom(roomName);
+  if (!room) {
+    return new NextResponse("Unknown chat room", { status: 404 });
+  }
+
   const responseStream = new TransformStream();
   const writer = responseStream.writable.getWriter();
   const encoder = new TextEncoder();
@@ -23,21 +35,61 @@ export async function GET(request: NextRequest) {
     void writer.write(encoder.encode(PING_MESSAGE)).catch(ignoreWriteErrors);
   }, PING_INTERVAL_MS);
 
-  const unsubscribe = await subscribe(() => {
-    if (aborted) return;
-    void writer
-      .write(encoder.encode(`data: refresh\n\n`))
-      .catch(ignoreWriteErrors);
+  // EventSource sends the header on its own reconnects, while clients that
+  // open a fresh connection pass it as a query parameter instead.
+  const lastEventId =
+    request.headers.get("Last-Event-ID") ??
+    request.nextUrl.searchParams.get("lastEventId") ??
+    undefined;
+
+  // Shadow banned visitors still get their own messages, and visitors the
+  // messages of their private thread
+  const session = (await findSession()) ?? null;
+  const username = session?.username ?? null;
+
+  const { unsubscribe, resync } = await subscribeToChatEvents(
+    (id, event) => {
+      if (aborted) return;
+      const idField = id === null ? "" : `id: ${id}\n`;
+      void writer
+        .write(encoder.encode(`${idField}data: ${JSON.stringify(event)}\n\n`))
+        .catch(ignoreWriteErrors);
+    },
+    lastEventId,
+    session,
+    room.name,
+  );
+
+  if (resync) {
+    void writer.write(encoder.encode(RESYNC_MESSAGE)).catch(ignoreWriteErrors);
+  }
+
+  // Joined after subscribing, so this client hears about itself too
+  const leavePresence = await joinPresence(username).catch((err: unknown) => {
+    log.error({ err }, "Failed to join chat presence");
+    return null;
   });
 
-  request.signal.addEventListener("abort", () => {
+  const onAbort = () => {
     aborted = true;
     unsubscribe();
     clearInterval(pingInterval);
     void writer.close().catch(ignoreWriteErrors);
-  });
+    leavePresence?.().catch((err: unknown) => {
+      log.error({ err }, "Failed to leave chat presence");
+    });
+  };
 
-  void writer.write(encoder.encode(PING_MESSAGE)).catch(ignoreWriteErrors);
+  // The client may already be gone after the awaits above
+  if (request.signal.aborted) {
+    onAbort();
+  } else {
+    request.signal.addEventListener("abort", onAbort);
+  }
+
+  if (!aborted) {
+    void writer.write(encoder.encode(PING_MESSAGE)).catch(ignoreWriteErrors);
+  }
 
   return new NextResponse(responseStream.readable, {
     headers: {
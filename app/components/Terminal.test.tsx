@@ -2,7 +2,7 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { Terminal } from "./Terminal";
+import { Terminal, TerminalStatus, TerminalTabs } from "./Terminal";
 
 describe("Terminal", () => {
   const mockRequestFullscreen = vi.fn();
@@ -73,4 +73,48 @@ describe("Terminal", () => {
       screen.getByRole("button", { name: "Maximize" }),
     ).toBeInTheDocument();
   });
+
+  it("renders TerminalStatus children in the topbar", () => {
+    render(
+      <Terminal>
+        <TerminalStatus>
+          <span>3 online</span>
+        </TerminalStatus>
+      </Terminal>,
+    );
+
+    expect(screen.getByText("3 online").closest(".topbar")).not.toBeNull();
+  });
+
+  it("renders nothing for TerminalStatus outside a terminal", () => {
+    render(
+      <TerminalStatus>
+        <span>3 online</span>
+      </TerminalStatus>,
+    );
+
+    expect(screen.queryByText("3 online")).not.toBeInTheDocument();
+  });
+
+  it("renders TerminalTabs children in the topbar", () => {
+    render(
+      <Terminal>
+        <TerminalTabs>
+          <button>#general</button>
+        </TerminalTabs>
+      </Terminal>,
+    );
+
+    expect(screen.getByText("#general").closest(".topbar")).not.toBeNull();
+  });
+
+  it("renders TerminalTabs children in place outside a terminal", () => {
+    render(
+      <TerminalTabs>
+        <button>#general</button>
+      </TerminalTabs>,
+    );
+
+    expect(screen.getByText("#general")).toBeInTheDocument();
+  });
 });
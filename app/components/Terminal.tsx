@@ -1,9 +1,42 @@
 "use client";
 
-import { type PropsWithChildren, useRef } from "react";
+import {
+  createContext,
+  type PropsWithChildren,
+  type ReactNode,
+  use,
+  useRef,
+  useState,
+} from "react";
+import { createPortal } from "react-dom";
+
+interface Topbar {
+  status: HTMLElement | null;
+  tabs: HTMLElement | null;
+}
+
+const TopbarContext = createContext<Topbar | null>(null);
+
+/** Renders its children in the topbar of the enclosing `Terminal`. */
+export const TerminalStatus = ({ children }: { children: ReactNode }) => {
+  const topbarStatus = use(TopbarContext)?.status;
+  return topbarStatus ? createPortal(children, topbarStatus) : null;
+};
+
+/**
+ * Renders its children next to the controls of the enclosing `Terminal`,
+ * or in place when there is none.
+ */
+export const TerminalTabs = ({ children }: { children: ReactNode }) => {
+  const topbar = use(TopbarContext);
+  if (!topbar) return children;
+  return topbar.tabs ? createPortal(children, topbar.tabs) : null;
+};
 
 export const Terminal = ({ children }: PropsWithChildren) => {
   const terminalRef = useRef<HTMLDivElement>(null);
+  const [topbarStatus, setTopbarStatus] = useState<HTMLElement | null>(null);
+  const [topbarTabs, setTopbarTabs] = useState<HTMLElement | null>(null);
 
   const handleClickMaximize = () => {
     if (!terminalRef.current) return;
@@ -30,8 +63,12 @@ export const Terminal = ({ children }: PropsWithChildren) => {
           aria-label="Maximize"
           onClick={handleClickMaximize}
         />
+        <div className="status" ref={setTopbarStatus} />
+        <div className="tabs" ref={setTopbarTabs} />
       </div>
-      <div className="content">{children}</div>
+      <TopbarContext value={{ status: topbarStatus, tabs: topbarTabs }}>
+        <div className="content">{children}</div>
+      </TopbarContext>
     </div>
   );
 };
@@ -1,32 +1,74 @@
 import { act, render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import type { ChatHistoryResult } from "@/actions/chat";
+import {
+  type ChatHistoryResult,
+  getChatHistory,
+  getChatHistoryAround,
+  getChatThread,
+  getOlderChatHistory,
+  searchChat,
+} from "@/actions/chat";
 import type { Message } from "@/lib/discord/api";
 
 import { Chat } from "./Chat";
 
 vi.mock(import("server-only"), () => ({}));
+vi.mock(import("@/actions/chat"), async (importOriginal) => ({
+  ...(await importOriginal()),
+  getChatHistory: vi.fn(),
+  getChatHistoryAround: vi.fn(),
+  getChatLastSeen: vi.fn(() => Promise.resolve(null)),
+  getChatThread: vi.fn(),
+  getOlderChatHistory: vi.fn(),
+  markChatSeen: vi.fn(),
+  searchChat: vi.fn(),
+}));
 
 describe("Chat", () => {
+  const username = Promise.resolve<string | null>("TestUser");
+  const rooms = Promise.resolve(["general", "music"]);
+  let eventSources: {
+    url: string;
+    onmessage?: (event: { data: string }) => void;
+  }[];
+
   beforeEach(() => {
+    eventSources = [];
     vi.stubGlobal(
       "EventSource",
       class MockEventSource {
         close = vi.fn();
         onopen?: () => void;
-        onmessage?: () => void;
+        onmessage?: (event: { data: string }) => void;
         onerror?: () => void;
+        addEventListener = vi.fn();
+
+        constructor(public url: string) {
+          eventSources.push(this);
+        }
       },
     );
   });
 
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
   const createMessage = (overrides?: Partial<Message>): Message => ({
     id: "msg-1",
     content: "Test message",
+    text: "Test message",
     user: { name: "TestUser", color: "hsl(0 100% 50%)" },
     edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
     timestamp: new Date("2025-01-01T00:00:00.000000+00:00"),
     replies: [],
     ...overrides,
@@ -39,7 +81,13 @@ describe("Chat", () => {
     };
 
     await act(async () =>
-      render(<Chat history={Promise.resolve(errorResult)} />),
+      render(
+        <Chat
+          history={Promise.resolve(errorResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
     );
 
     expect(
@@ -50,14 +98,436 @@ describe("Chat", () => {
   it("renders messages on success", async () => {
     const successResult: ChatHistoryResult = {
       status: "ok",
+      orphans: [],
+      cursor: null,
       messages: [createMessage({ content: "Hello world" })],
     };
 
     await act(async () =>
-      render(<Chat history={Promise.resolve(successResult)} />),
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    expect(screen.getByText("Hello world")).toBeInTheDocument();
+  });
+
+  it("opens an inline editor for the visitor's own message", async () => {
+    const user = userEvent.setup();
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [
+        createMessage({ id: "1", content: "Mine", text: "Mine", own: true }),
+        createMessage({
+          id: "2",
+          content: "Theirs",
+          user: { name: "Other", color: "hsl(0 100% 50%)" },
+        }),
+      ],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    expect(screen.getAllByRole("button", { name: "Edit" })).toHaveLength(1);
+
+    await user.click(screen.getByRole("button", { name: "Edit" }));
+
+    expect(screen.getByRole("textbox", { name: "Edit message" })).toHaveValue(
+      "Mine",
+    );
+
+    await user.keyboard("{Escape}");
+
+    expect(
+      screen.queryByRole("textbox", { name: "Edit message" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("loads older pages and attaches replies across pages", async () => {
+    let onIntersect: IntersectionObserverCallback | undefined;
+    vi.stubGlobal(
+      "IntersectionObserver",
+      class {
+        constructor(callback: IntersectionObserverCallback) {
+          onIntersect = callback;
+        }
+        observe = vi.fn();
+        disconnect = vi.fn();
+      },
+    );
+    vi.mocked(getOlderChatHistory).mockResolvedValue({
+      status: "ok",
+      messages: [createMessage({ id: "1", content: "Oldest message" })],
+      orphans: [],
+      cursor: null,
+    });
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      messages: [createMessage({ id: "3", content: "Latest message" })],
+      orphans: [
+        {
+          parentId: "1",
+          message: createMessage({ id: "2", content: "Reply to oldest" }),
+        },
+      ],
+      cursor: "3",
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    expect(screen.queryByText("Reply to oldest")).not.toBeInTheDocument();
+
+    await act(async () => {
+      onIntersect?.(
+        [{ isIntersecting: true } as IntersectionObserverEntry],
+        {} as IntersectionObserver,
+      );
+    });
+
+    expect(getOlderChatHistory).toHaveBeenCalledWith("3", "general");
+    expect(screen.getByText("Oldest message")).toBeInTheDocument();
+    expect(
+      screen.getByText("Reply to oldest").closest("ul")?.closest("li"),
+    ).toHaveTextContent("Oldest message");
+    expect(document.querySelector(".history-start")).toBeNull();
+  });
+
+  it("patches messages from SSE events", async () => {
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "1", content: "Hello world" })],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    await act(async () => {
+      eventSources
+        .at(-1)
+        ?.onmessage?.({
+          data: JSON.stringify({
+            type: "message.update",
+            message: createMessage({ id: "1", content: "Hello edited world" }),
+          }),
+        });
+    });
+
+    expect(screen.getByText("Hello edited world")).toBeInTheDocument();
+    expect(screen.queryByText("Hello world")).not.toBeInTheDocument();
+  });
+
+  it("notifies of replies to the visitor's messages while hidden", async () => {
+    const notifications: string[] = [];
+    vi.stubGlobal(
+      "Notification",
+      class MockNotification {
+        static permission = "granted";
+        constructor(title: string) {
+          notifications.push(title);
+        }
+      },
+    );
+    vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "1", own: true })],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    await act(async () => {
+      eventSources
+        .at(-1)
+        ?.onmessage?.({
+          data: JSON.stringify({
+            type: "message.create",
+            parentId: "1",
+            message: createMessage({
+              id: "2",
+              content: "Beep",
+              text: "Beep",
+              user: { name: "simon-bot", color: "hsl(0 100% 50%)" },
+            }),
+          }),
+        });
+    });
+
+    expect(notifications).toEqual(["simon-bot replied to you"]);
+  });
+
+  it("notifies of replies in the private thread while hidden", async () => {
+    const notifications: string[] = [];
+    vi.stubGlobal(
+      "Notification",
+      class MockNotification {
+        static permission = "granted";
+        constructor(title: string) {
+          notifications.push(title);
+        }
+      },
+    );
+    vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "1" })],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
     );
 
+    const send = (id: string, name: string, own: boolean) =>
+      eventSources
+        .at(-1)
+        ?.onmessage?.({
+          data: JSON.stringify({
+            type: "message.create",
+            parentId: null,
+            message: createMessage({
+              id,
+              user: { name, color: "hsl(0 100% 50%)" },
+              own,
+            }),
+            threadId: "thread-1",
+          }),
+        });
+
+    await act(async () => {
+      send("2", "TestUser", true);
+      send("3", "simon", false);
+    });
+
+    expect(notifications).toEqual(["simon replied to you"]);
+  });
+
+  it("shows the private thread in its own tab", async () => {
+    const user = userEvent.setup();
+    vi.mocked(getChatThread).mockResolvedValue({
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "2", content: "Hi Simon" })],
+    });
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "1", content: "Hello world" })],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    const connections = eventSources.length;
+    await user.click(screen.getByRole("tab", { name: "Private with Simon" }));
+
+    expect(getChatThread).toHaveBeenCalledOnce();
+    expect(screen.getByRole("tab", { selected: true })).toHaveTextContent(
+      "Private with Simon",
+    );
+    expect(
+      screen.getByText("Only you and Simon can see this conversation."),
+    ).toBeInTheDocument();
+    expect(screen.getByText("Hi Simon")).toBeInTheDocument();
+    expect(screen.queryByText("Hello world")).not.toBeInTheDocument();
+    expect(screen.getByRole("textbox")).toHaveAttribute(
+      "placeholder",
+      "Write to Simon...",
+    );
+
+    await act(async () => {
+      eventSources
+        .at(-1)
+        ?.onmessage?.({
+          data: JSON.stringify({
+            type: "message.create",
+            parentId: null,
+            message: createMessage({ id: "3", content: "Hey there" }),
+            threadId: "thread-1",
+          }),
+        });
+    });
+
+    expect(screen.getByText("Hey there")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("tab", { name: "#general" }));
+
     expect(screen.getByText("Hello world")).toBeInTheDocument();
+    expect(screen.queryByText("Hey there")).not.toBeInTheDocument();
+    expect(eventSources).toHaveLength(connections);
+  });
+
+  it("switches between rooms", async () => {
+    const user = userEvent.setup();
+    vi.mocked(getChatHistory).mockImplementation(async (room) => ({
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "2", content: `Hello ${room}` })],
+    }));
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "1", content: "Hello world" })],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    expect(eventSources.at(-1)?.url).toBe("/api/chat/sse?room=general");
+
+    await user.click(screen.getByRole("tab", { name: "#music" }));
+
+    expect(getChatHistory).toHaveBeenCalledWith("music");
+    expect(screen.getByRole("tab", { selected: true })).toHaveTextContent(
+      "#music",
+    );
+    expect(await screen.findByText("Hello music")).toBeInTheDocument();
+    expect(screen.queryByText("Hello world")).not.toBeInTheDocument();
+    expect(eventSources.at(-1)?.url).toBe("/api/chat/sse?room=music");
+
+    await user.click(screen.getByRole("tab", { name: "#general" }));
+
+    expect(await screen.findByText("Hello general")).toBeInTheDocument();
+    expect(eventSources.at(-1)?.url).toBe("/api/chat/sse?room=general");
+  });
+
+  it("jumps from a search hit to the messages around it", async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchChat).mockResolvedValue({
+      status: "ok",
+      total: 1,
+      hits: [
+        {
+          hit: {
+            id: "5",
+            username: "Other",
+            content: "Found it",
+            timestamp: "2025-01-01T00:00:00.000Z",
+          },
+          context: [],
+        },
+      ],
+    });
+    vi.mocked(getChatHistoryAround).mockResolvedValue({
+      status: "ok",
+      orphans: [
+        {
+          parentId: "3",
+          message: createMessage({ id: "5", content: "Found it" }),
+        },
+      ],
+      cursor: "4",
+      messages: [createMessage({ id: "6", content: "Later on" })],
+    });
+    const successResult: ChatHistoryResult = {
+      status: "ok",
+      orphans: [],
+      cursor: null,
+      messages: [createMessage({ id: "9", content: "Hello world" })],
+    };
+
+    await act(async () =>
+      render(
+        <Chat
+          history={Promise.resolve(successResult)}
+          username={username}
+          rooms={rooms}
+        />,
+      ),
+    );
+
+    const connections = eventSources.length;
+    await user.click(screen.getByRole("tab", { name: "Search" }));
+
+    expect(screen.queryByText("Hello world")).toBeNull();
+    expect(screen.queryByPlaceholderText("Write a message...")).toBeNull();
+
+    await user.type(screen.getByRole("searchbox"), "found{Enter}");
+    await user.click(screen.getByRole("button", { name: /Found it/ }));
+
+    expect(getChatHistoryAround).toHaveBeenCalledWith("5", "general");
+    expect(await screen.findByText("Later on")).toBeVisible();
+    expect(screen.queryByRole("list", { name: "Search results" })).toBeNull();
+    expect(screen.getByText("Found it").closest("li")).toHaveClass(
+      "highlighted",
+    );
+    expect(eventSources).toHaveLength(connections);
+
+    await user.click(screen.getByRole("button", { name: /Back to results/ }));
+
+    expect(
+      screen.getByRole("list", { name: "Search results" }),
+    ).toBeInTheDocument();
+    expect(screen.queryByText("Later on")).toBeNull();
+
+    await user.click(screen.getByRole("tab", { name: "#general" }));
+
+    expect(screen.getByText("Hello world")).toBeVisible();
   });
 
   describe("reply flow", () => {
@@ -66,11 +536,19 @@ describe("Chat", () => {
       const message = createMessage({ id: "target-msg", content: "Original" });
       const successResult: ChatHistoryResult = {
         status: "ok",
+        orphans: [],
+        cursor: null,
         messages: [message],
       };
 
       await act(async () =>
-        render(<Chat history={Promise.resolve(successResult)} />),
+        render(
+          <Chat
+            history={Promise.resolve(successResult)}
+            username={username}
+            rooms={rooms}
+          />,
+        ),
       );
 
       expect(screen.queryByText("Replying to")).not.toBeInTheDocument();
@@ -93,11 +571,19 @@ describe("Chat", () => {
       });
       const successResult: ChatHistoryResult = {
         status: "ok",
+        orphans: [],
+        cursor: null,
         messages: [parentMessage],
       };
 
       await act(async () =>
-        render(<Chat history={Promise.resolve(successResult)} />),
+        render(
+          <Chat
+            history={Promise.resolve(successResult)}
+            username={username}
+            rooms={rooms}
+          />,
+        ),
       );
 
       const replyButtons = screen.getAllByRole("button", { name: "Reply" });
@@ -111,11 +597,19 @@ describe("Chat", () => {
       const message = createMessage({ id: "target-msg" });
       const successResult: ChatHistoryResult = {
         status: "ok",
+        orphans: [],
+        cursor: null,
         messages: [message],
       };
 
       await act(async () =>
-        render(<Chat history={Promise.resolve(successResult)} />),
+        render(
+          <Chat
+            history={Promise.resolve(successResult)}
+            username={username}
+            rooms={rooms}
+          />,
+        ),
       );
 
       await user.click(screen.getByRole("button", { name: "Reply" }));
@@ -133,11 +627,19 @@ describe("Chat", () => {
       });
       const initialResult: ChatHistoryResult = {
         status: "ok",
+        orphans: [],
+        cursor: null,
         messages: [message],
       };
 
       const { rerender } = await act(async () =>
-        render(<Chat history={Promise.resolve(initialResult)} />),
+        render(
+          <Chat
+            history={Promise.resolve(initialResult)}
+            username={username}
+            rooms={rooms}
+          />,
+        ),
       );
 
       await user.click(screen.getByRole("button", { name: "Reply" }));
@@ -146,13 +648,21 @@ describe("Chat", () => {
       // Re-render with messages that don't include the replied-to message
       const updatedResult: ChatHistoryResult = {
         status: "ok",
+        orphans: [],
+        cursor: null,
         messages: [
           createMessage({ id: "different-msg", content: "New message" }),
         ],
       };
 
       await act(async () =>
-        rerender(<Chat history={Promise.resolve(updatedResult)} />),
+        rerender(
+          <Chat
+            history={Promise.resolve(updatedResult)}
+            username={username}
+            rooms={rooms}
+          />,
+        ),
       );
 
       // Reply preview should be hidden since the message no longer exists
@@ -1,58 +1,318 @@
 "use client";
 
-import { use, useState } from "react";
+import { use, useState, useTransition } from "react";
 
-import type { ChatHistoryResult } from "@/actions/chat";
+import {
+  type ChatHistoryResult,
+  getChatHistory,
+  getChatHistoryAround,
+  getChatThread,
+  getOlderChatHistory,
+  refreshChatHistory,
+} from "@/actions/chat";
 import ChatMessage from "@/components/chat/ChatMessage";
 import { Subtitle } from "@/components/Subtitle";
-import type { Message } from "@/lib/discord/api";
+import { TerminalTabs } from "@/components/Terminal";
+import type { MessagesPage } from "@/lib/discord/api";
+import type { ChatEvent, Message } from "@/lib/discord/schemas";
 
 import { ChatHistory } from "./ChatHistory";
 import { ChatInput } from "./ChatInput";
+import { ChatSearch } from "./ChatSearch";
+import {
+  applyChatEvent,
+  findMessageById,
+  mergeOlderMessages,
+  withOrphans,
+} from "./messageTree";
+import { findNotification, notify } from "./notifications";
 
-const findMessageById = (messages: Message[], id: string): Message | null => {
-  for (const message of messages) {
-    if (message.id === id) {
-      return message;
-    }
-    const foundInReplies = findMessageById(message.replies, id);
-    if (foundInReplies) {
-      return foundInReplies;
-    }
-  }
-  return null;
-};
+const toPage = (result: ChatHistoryResult): MessagesPage =>
+  result.status === "ok"
+    ? {
+        messages: result.messages,
+        orphans: result.orphans,
+        cursor: result.cursor,
+      }
+    : { messages: [], orphans: [], cursor: null };
+
+/** The page of the room being followed, and why it couldn't be loaded. */
+type RoomPage = MessagesPage & { room: string; error: string | null };
+
+const toRoomPage = (room: string, result: ChatHistoryResult): RoomPage => ({
+  room,
+  error: result.status === "error" ? result.error : null,
+  ...toPage(result),
+});
+
+type Tab = "room" | "thread" | "search";
+
+/** A search hit shown among the messages posted around it. */
+type ScrollBack = { id: string; messages: Message[]; error: string | null };
 
 export interface ChatProps {
+  /** The history of the first room. */
   history: Promise<ChatHistoryResult>;
+  username: Promise<string | null>;
+  /** The names of the chat rooms, starting with general. */
+  rooms: Promise<string[]>;
 }
 
-export const Chat = ({ history }: ChatProps) => {
+export const Chat = ({ history, username, rooms }: ChatProps) => {
   const result = use(history);
+  const currentUsername = use(username);
+  const roomNames = use(rooms);
+  const defaultRoom = roomNames[0] ?? "general";
   const [replyToId, setReplyToId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [page, setPage] = useState(() => toRoomPage(defaultRoom, result));
+  const [loadingOlder, startLoadingOlder] = useTransition();
+  const [loadingRoom, startLoadingRoom] = useTransition();
+  const [tab, setTab] = useState<Tab>("room");
+  // The visitor's private thread, loaded once they first open it
+  const [thread, setThread] = useState<ChatHistoryResult | null>(null);
+  const [loadingThread, startLoadingThread] = useTransition();
+  const [scrollBack, setScrollBack] = useState<ScrollBack | null>(null);
+  const [loadingScrollBack, startLoadingScrollBack] = useTransition();
+  const { messages } = page;
+
+  // Reset to the server's latest page whenever a fresh result comes in,
+  // which is only ever for the first room
+  const [prevResult, setPrevResult] = useState(result);
+  if (result !== prevResult) {
+    setPrevResult(result);
+    if (page.room === defaultRoom) setPage(toRoomPage(defaultRoom, result));
+  }
 
   if (result.status === "error") {
     return <p>Chat is temporarily unavailable :(</p>;
   }
 
+  const onChatEvent = (event: ChatEvent) => {
+    const inThread = "threadId" in event && event.threadId !== undefined;
+    const notification = findNotification(
+      event,
+      inThread ? [] : page.messages,
+      currentUsername,
+      inThread,
+    );
+    if (notification) notify(notification);
+
+    if (inThread) {
+      setThread((thread) =>
+        thread?.status === "ok"
+          ? { ...thread, messages: applyChatEvent(thread.messages, event) }
+          : thread,
+      );
+      return;
+    }
+
+    setPage((page) => {
+      // Replies to messages on pages not loaded yet wait for their parent
+      if (
+        event.type === "message.create" &&
+        event.parentId !== null &&
+        page.cursor !== null &&
+        !findMessageById(page.messages, event.parentId)
+      ) {
+        const { parentId, message } = event;
+        return { ...page, orphans: [...page.orphans, { parentId, message }] };
+      }
+
+      return { ...page, messages: applyChatEvent(page.messages, event) };
+    });
+  };
+
+  const onLoadOlder = () => {
+    const { cursor, room } = page;
+    if (!cursor || loadingOlder) return;
+
+    startLoadingOlder(async () => {
+      const older = await getOlderChatHistory(cursor, room);
+      if (older.status !== "ok") return;
+
+      // Nested startTransition required: after await, we're outside the original transition context
+      startLoadingOlder(() => {
+        setPage((page) =>
+          // Skip if the history was reset while loading
+          page.cursor === cursor && page.room === room
+            ? {
+                ...page,
+                ...mergeOlderMessages(page.messages, older, page.orphans),
+                cursor: older.cursor,
+              }
+            : page,
+        );
+      });
+    });
+  };
+
+  const loadRoom = (room: string) => {
+    startLoadingRoom(async () => {
+      const result = await getChatHistory(room);
+      // Nested startTransition required: after await, we're outside the original transition context
+      startLoadingRoom(() => {
+        // Skip if another room was opened while loading
+        setPage((page) =>
+          page.room === room ? toRoomPage(room, result) : page,
+        );
+      });
+    });
+  };
+
+  const onOpenRoom = (room: string) => {
+    setTab("room");
+    if (room === page.room) return;
+
+    setPage({ room, error: null, messages: [], orphans: [], cursor: null });
+    setReplyToId(null);
+    setEditingId(null);
+    loadRoom(room);
+  };
+
+  // The first room's history comes from the server, the others are refetched
+  const onResync = () => {
+    if (page.room === defaultRoom) {
+      void refreshChatHistory();
+    } else {
+      loadRoom(page.room);
+    }
+  };
+
+  const onOpenThread = () => {
+    setTab("thread");
+    if (thread !== null || loadingThread) return;
+
+    startLoadingThread(async () => {
+      const result = await getChatThread();
+      // Nested startTransition required: after await, we're outside the original transition context
+      startLoadingThread(() => {
+        setThread(result);
+      });
+    });
+  };
+
+  const onOpenSearch = () => {
+    setTab("search");
+    setScrollBack(null);
+  };
+
+  const onJumpToHit = (id: string) => {
+    const { room } = page;
+    setScrollBack({ id, messages: [], error: null });
+
+    startLoadingScrollBack(async () => {
+      const result = await getChatHistoryAround(id, room);
+      // Nested startTransition required: after await, we're outside the original transition context
+      startLoadingScrollBack(() => {
+        // Skip if the visitor went back to the results while loading
+        setScrollBack((scrollBack) =>
+          scrollBack?.id === id
+            ? result.status === "ok"
+              ? { id, messages: withOrphans(result), error: null }
+              : { id, messages: [], error: result.error }
+            : scrollBack,
+        );
+      });
+    });
+  };
+
+  const threadMessages = thread?.status === "ok" ? thread.messages : [];
+  const historyMessages =
+    tab === "room"
+      ? messages
+      : tab === "thread"
+        ? threadMessages
+        : (scrollBack?.messages ?? []);
+  const hint =
+    tab === "search"
+      ? loadingScrollBack
+        ? "Loading the conversation..."
+        : (scrollBack?.error ?? null)
+      : tab === "thread"
+        ? loadingThread
+          ? "Loading your conversation..."
+          : thread?.status === "error"
+            ? thread.error
+            : "Only you and Simon can see this conversation."
+        : loadingRoom
+          ? `Loading #${page.room}...`
+          : page.error;
+
   // @v8
   const replyToMessage = replyToId
-    ? findMessageById(result.messages, replyToId)
+    ? findMessageById(messages, replyToId)
     : null;
 
   return (
     <>
+      <TerminalTabs>
+        <div className="chat-tabs" role="tablist" aria-label="Conversations">
+          {roomNames.map((room) => (
+            <button
+              key={room}
+              role="tab"
+              aria-selected={tab === "room" && page.room === room}
+              onClick={() => onOpenRoom(room)}
+            >
+              #{room}
+            </button>
+          ))}
+          <button
+            role="tab"
+            aria-selected={tab === "thread"}
+            onClick={onOpenThread}
+          >
+            Private with Simon
+          </button>
+          <button
+            role="tab"
+            aria-selected={tab === "search"}
+            onClick={onOpenSearch}
+          >
+            Search
+          </button>
+        </div>
+      </TerminalTabs>
+      {tab === "search" && (
+        <ChatSearch
+          key={page.room}
+          room={page.room}
+          onJump={onJumpToHit}
+          resultsHidden={scrollBack !== null}
+        />
+      )}
+      {tab === "search" && scrollBack && (
+        <button className="back-to-results" onClick={() => setScrollBack(null)}>
+          &larr; Back to results
+        </button>
+      )}
+      {hint && <p className="chat-hint">{hint}</p>}
       <ChatHistory
-        messages={result.messages}
+        messages={historyMessages}
+        onChatEvent={onChatEvent}
+        hasOlder={tab === "room" && page.cursor !== null}
+        loadingOlder={loadingOlder}
+        onLoadOlder={onLoadOlder}
         replyToId={replyToId}
         setReplyToId={setReplyToId}
+        username={currentUsername}
+        editingId={editingId}
+        setEditingId={setEditingId}
+        actions={tab === "room"}
+        room={page.room}
+        onResync={onResync}
+        trackUnread={tab === "room"}
+        highlightId={tab === "search" ? (scrollBack?.id ?? null) : null}
+        hidden={tab === "search" && scrollBack === null}
       />
-      {replyToMessage && (
+      {tab === "room" && replyToMessage && (
         <div className="chat-replying-to" role="status" aria-live="polite">
           <Subtitle>Replying to</Subtitle>
           <ChatMessage
             replyToId={replyToId}
             setReplyToId={setReplyToId}
+            room={page.room}
             {...replyToMessage}
           />
           <button
@@ -65,7 +325,16 @@ export const Chat = ({ history }: ChatProps) => {
           </button>
         </div>
       )}
-      <ChatInput replyToId={replyToId} setReplyToId={setReplyToId} />
+      {tab === "thread" ? (
+        <ChatInput key="thread" thread />
+      ) : tab === "search" ? null : (
+        <ChatInput
+          key={`#${page.room}`}
+          replyToId={replyToId}
+          setReplyToId={setReplyToId}
+          room={page.room}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,49 @@
+import { act, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { ChatCopyButton } from "./ChatCopyButton";
+
+describe("ChatCopyButton", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("copies the text to the clipboard", async () => {
+    const user = userEvent.setup();
+    render(<ChatCopyButton text="const a = 1;" />);
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+
+    expect(await navigator.clipboard.readText()).toBe("const a = 1;");
+    expect(screen.getByRole("button", { name: "Copied" })).toBeInTheDocument();
+  });
+
+  it("resets after a while", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    render(<ChatCopyButton text="code" resetAfter={1000} />);
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+    await act(() => vi.advanceTimersByTime(1000));
+
+    expect(
+      screen.getByRole("button", { name: "Copy code" }),
+    ).toBeInTheDocument();
+  });
+
+  it("shows when copying fails", async () => {
+    const user = userEvent.setup();
+    render(<ChatCopyButton text="code" />);
+    vi.spyOn(navigator.clipboard, "writeText").mockRejectedValue(
+      new Error("Denied"),
+    );
+
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+
+    expect(
+      screen.getByRole("button", { name: "Copy failed" }),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const LABELS = {
+  idle: "Copy code",
+  copied: "Copied",
+  failed: "Copy failed",
+} as const;
+
+export interface ChatCopyButtonProps {
+  text: string;
+  /** @defaultValue 2000 */
+  resetAfter?: number;
+}
+
+export const ChatCopyButton = ({
+  text,
+  resetAfter = 2000,
+}: ChatCopyButtonProps) => {
+  const [status, setStatus] = useState<keyof typeof LABELS>("idle");
+
+  useEffect(() => {
+    if (status === "idle") return;
+
+    const timer = setTimeout(() => setStatus("idle"), resetAfter);
+
+    return () => clearTimeout(timer);
+  }, [resetAfter, status]);
+
+  async function onCopy() {
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatus("copied");
+    } catch {
+      setStatus("failed");
+    }
+  }
+
+  return (
+    <button
+      className="copy"
+      aria-label={LABELS[status]}
+      title={LABELS[status]}
+      onClick={onCopy}
+    >
+      {status === "copied" ? "✓" : status === "failed" ? "✗" : "⧉"}
+    </button>
+  );
+};
@@ -1,26 +1,44 @@
-import { render, screen } from "@testing-library/react";
+import { act, fireEvent, render, screen } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { refreshChatHistory } from "@/actions/chat";
+import {
+  getChatLastSeen,
+  markChatSeen,
+  refreshChatHistory,
+} from "@/actions/chat";
+import { Terminal } from "@/components/Terminal";
 import type { Message } from "@/lib/discord/api";
 
 import { ChatHistory } from "./ChatHistory";
 
-vi.mock(import("@/actions/chat"), () => ({ refreshChatHistory: vi.fn() }));
+vi.mock(import("@/actions/chat"), () => ({
+  getChatLastSeen: vi.fn(() => Promise.resolve(null)),
+  markChatSeen: vi.fn(),
+  refreshChatHistory: vi.fn(),
+}));
 
 function createMockEventSource() {
   const instances: MockEventSource[] = [];
 
   class MockEventSource {
     #onopen?: () => void;
-    #onmessage?: () => void;
+    #onmessage?: (event: { data: string; lastEventId?: string }) => void;
     #onerror?: () => void;
+    #listeners = new Map<string, () => void>();
     close = vi.fn();
 
-    constructor() {
+    constructor(public url: string) {
       instances.push(this);
     }
 
+    addEventListener(type: string, handler: () => void) {
+      this.#listeners.set(type, handler);
+    }
+
+    dispatch(type: string) {
+      this.#listeners.get(type)?.();
+    }
+
     set onopen(handler: () => void) {
       this.#onopen = handler;
     }
@@ -29,7 +47,9 @@ function createMockEventSource() {
       return this.#onopen ?? (() => {});
     }
 
-    set onmessage(handler: () => void) {
+    set onmessage(
+      handler: (event: { data: string; lastEventId?: string }) => void,
+    ) {
       this.#onmessage = handler;
     }
 
@@ -62,10 +82,15 @@ function createMockEventSource() {
 describe("ChatHistory", () => {
   let mockEventSource: ReturnType<typeof createMockEventSource>;
 
-  const defaultReplyProps = { replyToId: null, setReplyToId: vi.fn() };
+  const defaultReplyProps = {
+    onChatEvent: vi.fn(),
+    replyToId: null,
+    setReplyToId: vi.fn(),
+  };
 
   afterEach(() => {
     vi.useRealTimers();
+    vi.clearAllMocks();
   });
 
   beforeEach(() => {
@@ -78,37 +103,72 @@ describe("ChatHistory", () => {
       {
         id: "1234567890123456",
         content: "Message without replies",
+        text: "Message without replies",
         user: { name: "User1", color: "hsl(0 100% 50%)" },
         edited: false,
+        own: false,
+        reactions: [],
+        attachments: [],
+        embeds: [],
+        stickers: [],
+        previews: [],
         timestamp: new Date("2025-01-01T00:00:00.000000+00:00"),
         replies: [],
       },
       {
         id: "1234567890234567",
         content: "Message with replies",
+        text: "Message with replies",
         user: { name: "User2", color: "hsl(120 100% 50%)" },
         edited: false,
+        own: false,
+        reactions: [],
+        attachments: [],
+        embeds: [],
+        stickers: [],
+        previews: [],
         timestamp: new Date("2025-01-01T00:01:00.000000+00:00"),
         replies: [
           {
             id: "1234567890345678",
             content: "First reply",
+            text: "First reply",
             user: { name: "User3", color: "hsl(240 100% 50%)" },
             edited: false,
+            own: false,
+            reactions: [],
+            attachments: [],
+            embeds: [],
+            stickers: [],
+            previews: [],
             timestamp: new Date("2025-01-01T00:02:00.000000+00:00"),
             replies: [
               {
                 id: "1234567890567890",
                 content: "Nested reply to first",
+                text: "Nested reply to first",
                 user: { name: "User5", color: "hsl(180 100% 50%)" },
                 edited: false,
+                own: false,
+                reactions: [],
+                attachments: [],
+                embeds: [],
+                stickers: [],
+                previews: [],
                 timestamp: new Date("2025-01-01T00:03:00.000000+00:00"),
                 replies: [
                   {
                     id: "1234567890678901",
                     content: "Deeply nested reply",
+                    text: "Deeply nested reply",
                     user: { name: "User6", color: "hsl(300 100% 50%)" },
                     edited: false,
+                    own: false,
+                    reactions: [],
+                    attachments: [],
+                    embeds: [],
+                    stickers: [],
+                    previews: [],
                     timestamp: new Date("2025-01-01T00:04:00.000000+00:00"),
                     replies: [],
                   },
@@ -119,8 +179,15 @@ describe("ChatHistory", () => {
           {
             id: "1234567890456789",
             content: "Second reply",
+            text: "Second reply",
             user: { name: "User4", color: "hsl(60 100% 50%)" },
             edited: true,
+            own: false,
+            reactions: [],
+            attachments: [],
+            embeds: [],
+            stickers: [],
+            previews: [],
             timestamp: new Date("2025-01-01T00:05:00.000000+00:00"),
             replies: [],
           },
@@ -149,16 +216,117 @@ describe("ChatHistory", () => {
   });
 
   describe("SSE connection", () => {
-    it("calls refreshChatHistory when SSE message is received", () => {
+    it("calls onChatEvent with the parsed SSE event", () => {
+      const { getInstance } = mockEventSource;
+      const onChatEvent = vi.fn();
+
+      render(
+        <ChatHistory
+          messages={[]}
+          {...defaultReplyProps}
+          onChatEvent={onChatEvent}
+        />,
+      );
+
+      getInstance().onmessage({
+        data: JSON.stringify({
+          type: "message.create",
+          parentId: null,
+          message: {
+            id: "1",
+            content: "Hello",
+            text: "Hello",
+            user: { name: "User1", color: "hsl(0 100% 50%)" },
+            edited: false,
+            own: false,
+            reactions: [],
+            attachments: [],
+            embeds: [],
+            stickers: [],
+            previews: [],
+            timestamp: "2025-01-01T00:00:00.000Z",
+            replies: [],
+          },
+        }),
+      });
+
+      expect(onChatEvent).toHaveBeenCalledWith({
+        type: "message.create",
+        parentId: null,
+        message: expect.objectContaining({
+          id: "1",
+          timestamp: new Date("2025-01-01T00:00:00.000Z"),
+        }),
+      });
+      expect(refreshChatHistory).not.toHaveBeenCalled();
+    });
+
+    it("ignores SSE events that do not match the schema", () => {
+      const { getInstance } = mockEventSource;
+      const onChatEvent = vi.fn();
+
+      render(
+        <ChatHistory
+          messages={[]}
+          {...defaultReplyProps}
+          onChatEvent={onChatEvent}
+        />,
+      );
+
+      getInstance().onmessage({ data: JSON.stringify({ type: "unknown" }) });
+
+      expect(onChatEvent).not.toHaveBeenCalled();
+    });
+
+    it("resumes from the last event id when reconnecting", () => {
+      vi.useFakeTimers();
+
       const { getInstance } = mockEventSource;
 
       render(<ChatHistory messages={[]} {...defaultReplyProps} />);
 
-      const instance = getInstance();
+      expect(getInstance().url).toBe("/api/chat/sse");
+
+      getInstance().onmessage({
+        data: JSON.stringify({ type: "message.delete", id: "1" }),
+        lastEventId: "1700000000001",
+      });
+      getInstance().onerror();
+      vi.advanceTimersByTime(2000);
 
-      instance.onmessage();
+      expect(getInstance().url).toBe("/api/chat/sse?lastEventId=1700000000001");
 
-      expect(refreshChatHistory).toHaveBeenCalled();
+      // The server replays what we missed, so no refetch is needed
+      getInstance().onopen();
+      expect(refreshChatHistory).not.toHaveBeenCalled();
+    });
+
+    it("refreshes chat history when the server asks for a resync", () => {
+      const { getInstance } = mockEventSource;
+
+      render(<ChatHistory messages={[]} {...defaultReplyProps} />);
+
+      getInstance().dispatch("resync");
+
+      expect(refreshChatHistory).toHaveBeenCalledOnce();
+    });
+
+    it("refreshes chat history when reconnected without an event id", () => {
+      vi.useFakeTimers();
+
+      const { getInstance } = mockEventSource;
+
+      render(<ChatHistory messages={[]} {...defaultReplyProps} />);
+
+      // Initial connection does not refresh
+      getInstance().onopen();
+      expect(refreshChatHistory).not.toHaveBeenCalled();
+
+      getInstance().onerror();
+      vi.advanceTimersByTime(2000);
+      getInstance().onopen();
+
+      expect(refreshChatHistory).toHaveBeenCalledOnce();
     });
 
     it("closes EventSource on unmount", () => {
@@ -306,4 +474,394 @@ describe("ChatHistory", () => {
       expect(instances.length).toBeGreaterThan(6);
     });
   });
+
+  describe("older messages", () => {
+    let observers: {
+      callback: IntersectionObserverCallback;
+      elements: Element[];
+      disconnect: () => void;
+    }[];
+
+    beforeEach(() => {
+      observers = [];
+      vi.stubGlobal(
+        "IntersectionObserver",
+        class MockIntersectionObserver {
+          elements: Element[] = [];
+          disconnect = vi.fn();
+
+          constructor(public callback: IntersectionObserverCallback) {
+            observers.push(this);
+          }
+
+          observe(element: Element) {
+            this.elements.push(element);
+          }
+        },
+      );
+    });
+
+    function intersect(isIntersecting: boolean) {
+      const observer = observers.at(-1);
+      observer?.callback(
+        observer.elements.map(
+          (target) => ({ target, isIntersecting }) as IntersectionObserverEntry,
+        ),
+        observer as unknown as IntersectionObserver,
+      );
+    }
+
+    it("loads older messages when scrolled to the top", () => {
+      const onLoadOlder = vi.fn();
+
+      render(
+        <ChatHistory
+          messages={[]}
+          {...defaultReplyProps}
+          hasOlder
+          onLoadOlder={onLoadOlder}
+        />,
+      );
+
+      intersect(false);
+      expect(onLoadOlder).not.toHaveBeenCalled();
+
+      intersect(true);
+      expect(onLoadOlder).toHaveBeenCalledOnce();
+    });
+
+    it("does not observe while loading or without older messages", () => {
+      const { rerender } = render(
+        <ChatHistory messages={[]} {...defaultReplyProps} />,
+      );
+
+      expect(observers).toHaveLength(0);
+
+      rerender(
+        <ChatHistory
+          messages={[]}
+          {...defaultReplyProps}
+          hasOlder
+          loadingOlder
+        />,
+      );
+
+      expect(observers).toHaveLength(0);
+      expect(screen.getByText("Loading older messages...")).toBeInTheDocument();
+    });
+
+    it("observes again once a page has loaded", () => {
+      const { rerender } = render(
+        <ChatHistory
+          messages={[]}
+          {...defaultReplyProps}
+          hasOlder
+          loadingOlder
+        />,
+      );
+
+      rerender(<ChatHistory messages={[]} {...defaultReplyProps} hasOlder />);
+
+      expect(observers).toHaveLength(1);
+      expect(observers[0]?.elements[0]).toHaveClass("history-start");
+    });
+  });
+
+  describe("typing indicator", () => {
+    function sendTyping(name: string) {
+      act(() => {
+        mockEventSource
+          .getInstance()
+          .onmessage({ data: JSON.stringify({ type: "typing", name }) });
+      });
+    }
+
+    it("shows who is typing without passing it on as a chat event", () => {
+      const onChatEvent = vi.fn();
+      render(
+        <ChatHistory
+          messages={[]}
+          {...defaultReplyProps}
+          onChatEvent={onChatEvent}
+        />,
+      );
+
+      sendTyping("Alice");
+
+      expect(screen.getByText("Alice is typing...")).toBeInTheDocument();
+      expect(onChatEvent).not.toHaveBeenCalled();
+    });
+
+    it("lists several people typing", () => {
+      render(<ChatHistory messages={[]} {...defaultReplyProps} />);
+
+      sendTyping("Alice");
+      sendTyping("Bob");
+      sendTyping("Carol");
+
+      expect(
+        screen.getByText("Alice, Bob, and Carol are typing..."),
+      ).toBeInTheDocument();
+
+      sendTyping("Dave");
+
+      expect(
+        screen.getByText("Several people are typing..."),
+      ).toBeInTheDocument();
+    });
+
+    it("does not show the visitor's own typing", () => {
+      const { container } = render(
+        <ChatHistory messages={[]} {...defaultReplyProps} username="Alice" />,
+      );
+
+      sendTyping("Alice");
+
+      expect(container.querySelector(".typing")).toBeEmptyDOMElement();
+    });
+
+    it("stops showing typing after a while", () => {
+      vi.useFakeTimers();
+      render(<ChatHistory messages={[]} {...defaultReplyProps} />);
+
+      sendTyping("Alice");
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+      sendTyping("Bob");
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+
+      expect(screen.queryByText(/Alice/)).not.toBeInTheDocument();
+      expect(screen.getByText("Bob is typing...")).toBeInTheDocument();
+
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+
+      expect(screen.queryByText(/typing/)).not.toBeInTheDocument();
+    });
+
+    it("stops showing typing once their message arrives", () => {
+      render(<ChatHistory messages={[]} {...defaultReplyProps} />);
+
+      sendTyping("Alice");
+      act(() => {
+        mockEventSource
+          .getInstance()
+          .onmessage({
+            data: JSON.stringify({
+              type: "message.create",
+              parentId: null,
+              message: {
+                id: "1",
+                content: "Hello",
+                text: "Hello",
+                user: { name: "Alice", color: "hsl(0 100% 50%)" },
+                edited: false,
+                own: false,
+                reactions: [],
+                attachments: [],
+                embeds: [],
+                stickers: [],
+                previews: [],
+                timestamp: "2025-01-01T00:00:00.000Z",
+                replies: [],
+              },
+            }),
+          });
+      });
+
+      expect(screen.queryByText(/typing/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe("unread messages", () => {
+    const createMessage = (id: string, name = "Alice"): Message => ({
+      id,
+      content: `Message ${id}`,
+      text: `Message ${id}`,
+      user: { name, color: "hsl(0 100% 50%)" },
+      edited: false,
+      own: false,
+      reactions: [],
+      attachments: [],
+      embeds: [],
+      stickers: [],
+      previews: [],
+      timestamp: new Date("2025-01-01T00:00:00.000Z"),
+      replies: [],
+    });
+
+    const scrollUp = (container: HTMLElement) => {
+      const scrollable = container.querySelector(".scrollable")!;
+      scrollable.scrollTop = -500;
+      fireEvent.scroll(scrollable);
+    };
+
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it("marks where the messages since the last visit start", async () => {
+      localStorage.setItem("chat:last-seen:general", "2");
+
+      render(
+        <ChatHistory
+          messages={["1", "2", "3", "4"].map((id) => createMessage(id))}
+          {...defaultReplyProps}
+        />,
+      );
+
+      const divider = await screen.findByRole("separator", {
+        name: "New messages",
+      });
+      expect(divider.closest("li")).toHaveTextContent("Message 3");
+      expect(localStorage.getItem("chat:last-seen:general")).toBe("4");
+    });
+
+    it("picks up where the visitor's session left off", async () => {
+      vi.mocked(getChatLastSeen).mockResolvedValue("1");
+
+      render(
+        <ChatHistory
+          messages={[createMessage("1"), createMessage("2")]}
+          {...defaultReplyProps}
+          room="music"
+        />,
+      );
+
+      const divider = await screen.findByRole("separator", {
+        name: "New messages",
+      });
+      expect(divider.closest("li")).toHaveTextContent("Message 2");
+      expect(getChatLastSeen).toHaveBeenCalledWith("music");
+    });
+
+    it("does not mark the visitor's own messages as new", async () => {
+      localStorage.setItem("chat:last-seen:general", "1");
+
+      render(
+        <ChatHistory
+          messages={[createMessage("1"), createMessage("2", "TestUser")]}
+          {...defaultReplyProps}
+          username="TestUser"
+        />,
+      );
+
+      await act(() => Promise.resolve());
+      expect(screen.queryByRole("separator")).not.toBeInTheDocument();
+    });
+
+    it("offers to jump to the latest messages when scrolled up", async () => {
+      const { container, rerender } = render(
+        <ChatHistory messages={[createMessage("1")]} {...defaultReplyProps} />,
+      );
+      await act(() => Promise.resolve());
+
+      scrollUp(container);
+      expect(
+        screen.getByRole("button", { name: "Jump to latest" }),
+      ).toBeInTheDocument();
+
+      rerender(
+        <ChatHistory
+          messages={[createMessage("1"), createMessage("2")]}
+          {...defaultReplyProps}
+        />,
+      );
+      fireEvent.click(
+        screen.getByRole("button", { name: "Jump to latest (1 new)" }),
+      );
+
+      expect(screen.queryByRole("button", { name: /Jump to latest/ })).toBe(
+        null,
+      );
+      expect(localStorage.getItem("chat:last-seen:general")).toBe("2");
+    });
+
+    it("counts new messages in the title while the tab is hidden", async () => {
+      document.title = "simon.dev";
+      const visibilityState = vi
+        .spyOn(document, "visibilityState", "get")
+        .mockReturnValue("visible");
+      const setVisibility = (state: DocumentVisibilityState) => {
+        visibilityState.mockReturnValue(state);
+        act(() => {
+          document.dispatchEvent(new Event("visibilitychange"));
+        });
+      };
+
+      const { rerender } = render(
+        <ChatHistory messages={[createMessage("1")]} {...defaultReplyProps} />,
+      );
+      await act(() => Promise.resolve());
+
+      setVisibility("hidden");
+      expect(markChatSeen).toHaveBeenCalledWith("1", undefined);
+
+      rerender(
+        <ChatHistory
+          messages={[createMessage("1"), createMessage("2")]}
+          {...defaultReplyProps}
+        />,
+      );
+      expect(document.title).toBe("(1) simon.dev");
+
+      setVisibility("visible");
+      expect(document.title).toBe("simon.dev");
+      expect(localStorage.getItem("chat:last-seen:general")).toBe("2");
+
+      visibilityState.mockRestore();
+    });
+
+    it("does not keep track of unread messages when told not to", async () => {
+      const { container } = render(
+        <ChatHistory
+          messages={[createMessage("1")]}
+          {...defaultReplyProps}
+          trackUnread={false}
+        />,
+      );
+      await act(() => Promise.resolve());
+
+      scrollUp(container);
+
+      expect(screen.queryByRole("button", { name: /Jump to latest/ })).toBe(
+        null,
+      );
+      expect(localStorage.getItem("chat:last-seen:general")).toBeNull();
+    });
+  });
+
+  describe("presence", () => {
+    it("shows who is online in the terminal topbar", () => {
+      const onChatEvent = vi.fn();
+      render(
+        <Terminal>
+          <ChatHistory
+            messages={[]}
+            {...defaultReplyProps}
+            onChatEvent={onChatEvent}
+          />
+        </Terminal>,
+      );
+
+      act(() => {
+        mockEventSource
+          .getInstance()
+          .onmessage({
+            data: JSON.stringify({
+              type: "presence",
+              count: 2,
+              names: ["Alice"],
+            }),
+          });
+      });
+
+      expect(screen.getByText("2 online").closest(".topbar")).not.toBeNull();
+      expect(onChatEvent).not.toHaveBeenCalled();
+    });
+  });
 });
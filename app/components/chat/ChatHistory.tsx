@@ -1,17 +1,70 @@
 "use client";
 
 import { animated, useTransition } from "@react-spring/web";
-import { type Dispatch, type SetStateAction, useEffect } from "react";
+import {
+  type Dispatch,
+  type SetStateAction,
+  useEffect,
+  useEffectEvent,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
 
-import { refreshChatHistory } from "@/actions/chat";
+import {
+  getChatLastSeen,
+  markChatSeen,
+  refreshChatHistory,
+} from "@/actions/chat";
+import { TerminalStatus } from "@/components/Terminal";
 import type { Message } from "@/lib/discord/api";
+import { type ChatEvent, ChatEventSchema } from "@/lib/discord/schemas";
 
 import { ChatMessage } from "./ChatMessage";
+import { ChatPresence, type Presence } from "./ChatPresence";
+import {
+  findNewestId,
+  findUnread,
+  isNewerId,
+  laterId,
+  readLastSeen,
+  writeLastSeen,
+} from "./unread";
+
+// Discord shows typing for 10 seconds after each TYPING_START
+const TYPING_TIMEOUT_MS = 10_000;
+const MAX_TYPING_NAMES = 3;
+
+// Scrolled this close to the latest message counts as reading along
+const AT_BOTTOM_PX = 32;
+
+const subscribeToVisibility = (onChange: () => void) => {
+  document.addEventListener("visibilitychange", onChange);
+  return () => {
+    document.removeEventListener("visibilitychange", onChange);
+  };
+};
+
+const typingList = new Intl.ListFormat("en", { type: "conjunction" });
+
+function typingText(names: string[]): string | null {
+  if (names.length === 0) return null;
+  if (names.length > MAX_TYPING_NAMES) return "Several people are typing...";
+  return `${typingList.format(names)} ${names.length === 1 ? "is" : "are"} typing...`;
+}
 
 interface ChatHistoryMessagesProps {
   messages: Message[];
   replyToId: string | null;
   setReplyToId: Dispatch<SetStateAction<string | null>>;
+  username?: string | null;
+  editingId?: string | null;
+  setEditingId?: Dispatch<SetStateAction<string | null>>;
+  actions?: boolean;
+  room?: string;
+  /** The message to draw the new messages divider above. */
+  dividerId?: string | null;
+  highlightId?: string | null;
   nested?: boolean;
 }
 
@@ -20,6 +73,13 @@ const ChatHistoryMessages = ({
   nested = false,
   replyToId,
   setReplyToId,
+  username,
+  editingId,
+  setEditingId,
+  actions,
+  room,
+  dividerId,
+  highlightId,
 }: ChatHistoryMessagesProps) => {
   const transitions = useTransition(messages, {
     keys: (message) => message.id,
@@ -33,15 +93,30 @@ const ChatHistoryMessages = ({
     <>
       {transitions((style, item) => (
         <animated.li
+          className={item.id === highlightId ? "highlighted" : undefined}
           style={{
             opacity: style.opacity,
             transform: style.x.to((x) => `translateX(${x}%)`),
           }}
         >
+          {item.id === dividerId && (
+            <div
+              className="new-messages"
+              role="separator"
+              aria-label="New messages"
+            >
+              New messages
+            </div>
+          )}
           <ChatMessage
             {...item}
             replyToId={replyToId}
             setReplyToId={setReplyToId}
+            username={username}
+            editingId={editingId}
+            setEditingId={setEditingId}
+            actions={actions}
+            room={room}
           />
           {item.replies.length > 0 && (
             <ul>
@@ -49,6 +124,13 @@ const ChatHistoryMessages = ({
                 messages={item.replies}
                 replyToId={replyToId}
                 setReplyToId={setReplyToId}
+                username={username}
+                editingId={editingId}
+                setEditingId={setEditingId}
+                actions={actions}
+                room={room}
+                dividerId={dividerId}
+                highlightId={highlightId}
                 nested
               />
             </ul>
@@ -61,27 +143,271 @@ const ChatHistoryMessages = ({
 
 export interface ChatHistoryProps {
   messages: Message[];
+  onChatEvent: (event: ChatEvent) => void;
+  /** Whether there are older messages to load by scrolling up. */
+  hasOlder?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
   replyToId: string | null;
   setReplyToId: Dispatch<SetStateAction<string | null>>;
+  username?: string | null;
+  editingId?: string | null;
+  setEditingId?: Dispatch<SetStateAction<string | null>>;
+  /** Whether messages can be replied and reacted to, edited or deleted. */
+  actions?: boolean;
+  /** The chat room to follow, general without one. */
+  room?: string;
+  /** Called when events were missed, to refetch the messages. */
+  onResync?: () => void;
+  /** Whether to keep track of which of the room's messages have been seen. */
+  trackUnread?: boolean;
+  /** A message to scroll to and highlight. */
+  highlightId?: string | null;
+  /** Keeps following the room while something else is shown instead. */
+  hidden?: boolean;
 }
 
 export const ChatHistory = ({
   messages,
+  onChatEvent,
+  hasOlder = false,
+  loadingOlder = false,
+  onLoadOlder,
   replyToId,
   setReplyToId,
+  username,
+  editingId,
+  setEditingId,
+  actions = true,
+  room,
+  onResync = refreshChatHistory,
+  trackUnread = true,
+  highlightId = null,
+  hidden = false,
 }: ChatHistoryProps) => {
+  // Names of those typing, with when their indicator expires
+  const [typing, setTyping] = useState<ReadonlyMap<string, number>>(
+    () => new Map(),
+  );
+
+  const visible = useSyncExternalStore(
+    subscribeToVisibility,
+    () => document.visibilityState === "visible",
+    () => true,
+  );
+  const [atBottom, setAtBottom] = useState(true);
+  // The latest message seen in the room, and the one seen before this visit,
+  // undefined until it's been looked up
+  const [lastSeen, setLastSeen] = useState<string | null>(null);
+  const [since, setSince] = useState<string | null>();
+
+  // Those typing in the room left behind aren't typing here
+  const [prevRoom, setPrevRoom] = useState(room);
+  if (room !== prevRoom) {
+    setPrevRoom(room);
+    setTyping(new Map());
+    setAtBottom(true);
+    setLastSeen(null);
+    setSince(undefined);
+  }
+
+  // Messages are seen while the visitor is looking at the latest ones
+  const newestId = findNewestId(messages);
+  if (
+    trackUnread &&
+    visible &&
+    atBottom &&
+    newestId !== null &&
+    (lastSeen === null || isNewerId(newestId, lastSeen))
+  ) {
+    setLastSeen(newestId);
+  }
+
+  const seenUntil = laterId(lastSeen, since ?? null);
+  const unreadCount =
+    trackUnread && seenUntil !== null
+      ? findUnread(messages, seenUntil, username).length
+      : 0;
+  const dividerId =
+    trackUnread && since != null
+      ? (findUnread(messages, since, username)[0]?.id ?? null)
+      : null;
+
+  const [presence, setPresence] = useState<Presence | null>(null);
+
+  const stopTyping = (name: string) => {
+    setTyping((typing) => {
+      if (!typing.has(name)) return typing;
+      const next = new Map(typing);
+      next.delete(name);
+      return next;
+    });
+  };
+
+  const onMessage = useEffectEvent((event: MessageEvent<string>) => {
+    const parsed = ChatEventSchema.safeParse(JSON.parse(event.data));
+    if (!parsed.success) return;
+
+    const chatEvent = parsed.data;
+    if (chatEvent.type === "presence") {
+      setPresence({ count: chatEvent.count, names: chatEvent.names });
+      return;
+    }
+
+    if (chatEvent.type === "typing") {
+      if (chatEvent.name !== username) {
+        setTyping((typing) =>
+          new Map(typing).set(chatEvent.name, Date.now() + TYPING_TIMEOUT_MS),
+        );
+      }
+      return;
+    }
+
+    if (chatEvent.type === "message.create") {
+      stopTyping(chatEvent.message.user.name);
+    }
+    onChatEvent(chatEvent);
+  });
+
+  useEffect(() => {
+    if (typing.size === 0) return;
+
+    const nextExpiry = Math.min(...typing.values());
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setTyping(
+        (typing) =>
+          new Map([...typing].filter(([, expiresAt]) => expiresAt > now)),
+      );
+    }, nextExpiry - Date.now());
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [typing]);
+
+  const scrollableRef = useRef<HTMLDivElement>(null);
+  const historyStartRef = useRef<HTMLLIElement>(null);
+  // Seen in this browser, but not yet saved with the visitor's session
+  const unsavedSeenRef = useRef<string | null>(null);
+
+  // Where the visitor left off, in this browser or with their session
+  useEffect(() => {
+    let cancelled = false;
+    const stored = readLastSeen(room);
+    void getChatLastSeen(room)
+      .catch(() => null)
+      .then((saved) => {
+        if (!cancelled) setSince(laterId(stored, saved));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [room]);
+
+  // Not stored before it's been looked up, or it would be what's found
+  const sinceLoaded = since !== undefined;
+  useEffect(() => {
+    if (lastSeen === null || !sinceLoaded) return;
+    writeLastSeen(lastSeen, room);
+    unsavedSeenRef.current = lastSeen;
+  }, [lastSeen, room, sinceLoaded]);
+
+  // Saved with the session when the visitor leaves the room or the page
+  useEffect(() => {
+    const save = () => {
+      const id = unsavedSeenRef.current;
+      if (id === null) return;
+      unsavedSeenRef.current = null;
+      void markChatSeen(id, room);
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") save();
+    };
+    document.addEventListener("visibilitychange", onVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      save();
+    };
+  }, [room]);
+
+  useEffect(() => {
+    if (visible || unreadCount === 0) return;
+
+    const title = document.title;
+    document.title = `(${unreadCount}) ${title}`;
+    return () => {
+      document.title = title;
+    };
+  }, [visible, unreadCount]);
+
+  useEffect(() => {
+    if (highlightId === null) return;
+    scrollableRef.current
+      ?.querySelector(".highlighted")
+      ?.scrollIntoView({ block: "center" });
+  }, [highlightId, messages]);
+
+  const onJumpToLatest = () => {
+    // The history is laid out bottom up, so the latest messages are at 0
+    scrollableRef.current?.scrollTo({ top: 0, behavior: "smooth" });
+    setAtBottom(true);
+  };
+
+  const onMissedEvents = useEffectEvent(() => {
+    void onResync();
+  });
+
+  const onReachTop = useEffectEvent(() => {
+    onLoadOlder?.();
+  });
+
+  // Re-observed after each load, so a page too short to scroll loads the next
+  useEffect(() => {
+    const historyStart = historyStartRef.current;
+    if (!hasOlder || loadingOlder || !historyStart) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onReachTop();
+      },
+      { root: scrollableRef.current, rootMargin: "200px 0px 0px 0px" },
+    );
+    observer.observe(historyStart);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasOlder, loadingOlder]);
+
   useEffect(() => {
     let eventSource: EventSource | null = null;
     let reconnectAttempts = 0;
     let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastEventId: string | null = null;
     const MAX_BACKOFF = 30000;
 
     const connect = () => {
-      eventSource = new EventSource("/api/chat/sse");
+      // Resume from the last event so the server can replay what we missed
+      const params = new URLSearchParams();
+      if (room) params.set("room", room);
+      if (lastEventId) params.set("lastEventId", lastEventId);
+      const query = params.toString();
+      eventSource = new EventSource(
+        query ? `/api/chat/sse?${query}` : "/api/chat/sse",
+      );
       eventSource.onopen = () => {
+        // Without an event id there is nothing to resume from, so refetch
+        if (reconnectAttempts > 0 && !lastEventId) onMissedEvents();
         reconnectAttempts = 0;
       };
-      eventSource.onmessage = () => void refreshChatHistory();
+      eventSource.onmessage = (event: MessageEvent<string>) => {
+        if (event.lastEventId) lastEventId = event.lastEventId;
+        onMessage(event);
+      };
+      eventSource.addEventListener("resync", () => onMissedEvents());
       eventSource.onerror = () => {
         if (eventSource) {
           eventSource.close();
@@ -104,19 +430,52 @@ export const ChatHistory = ({
         clearTimeout(reconnectTimer);
       }
     };
-  }, []);
+  }, [room]);
 
   return (
-    <div className="chat-history">
-      <div className="scrollable">
+    <div className="chat-history" hidden={hidden}>
+      <div
+        className="scrollable"
+        ref={scrollableRef}
+        onScroll={(event) => {
+          setAtBottom(Math.abs(event.currentTarget.scrollTop) < AT_BOTTOM_PX);
+        }}
+      >
         <ul className="content">
+          {hasOlder && (
+            <li className="history-start" ref={historyStartRef}>
+              {loadingOlder && "Loading older messages..."}
+            </li>
+          )}
           <ChatHistoryMessages
             messages={messages}
             replyToId={replyToId}
             setReplyToId={setReplyToId}
+            username={username}
+            editingId={editingId}
+            setEditingId={setEditingId}
+            actions={actions}
+            room={room}
+            dividerId={dividerId}
+            highlightId={highlightId}
           />
         </ul>
       </div>
+      {trackUnread && !atBottom && (
+        <button className="jump-to-latest" onClick={onJumpToLatest}>
+          {unreadCount > 0
+            ? `Jump to latest (${unreadCount} new)`
+            : "Jump to latest"}
+        </button>
+      )}
+      <div className="typing" aria-live="polite">
+        {typingText([...typing.keys()])}
+      </div>
+      {presence && (
+        <TerminalStatus>
+          <ChatPresence presence={presence} />
+        </TerminalStatus>
+      )}
     </div>
   );
 };
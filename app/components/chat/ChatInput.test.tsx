@@ -2,11 +2,24 @@ import { act, render, screen, waitFor } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import { postChatMessage, type PostChatMessageResult } from "@/actions/chat";
+import {
+  changeChatUsername,
+  editChatMessage,
+  postChatMessage,
+  type PostChatMessageResult,
+  postChatThreadMessage,
+  sendChatTyping,
+} from "@/actions/chat";
 
 import { ChatInput } from "./ChatInput";
 
-vi.mock(import("@/actions/chat"), () => ({ postChatMessage: vi.fn() }));
+vi.mock(import("@/actions/chat"), () => ({
+  changeChatUsername: vi.fn(),
+  editChatMessage: vi.fn(),
+  postChatMessage: vi.fn(),
+  postChatThreadMessage: vi.fn(),
+  sendChatTyping: vi.fn(),
+}));
 
 describe("ChatInput", () => {
   const defaultReplyProps = { replyToId: null, setReplyToId: vi.fn() };
@@ -67,6 +80,24 @@ describe("ChatInput", () => {
     expect(postChatMessage).toHaveBeenCalled();
   });
 
+  it("posts to the private thread without typing pings", async () => {
+    const user = userEvent.setup({ delay: null });
+
+    vi.mocked(postChatThreadMessage).mockResolvedValue({ status: "ok" });
+
+    render(<ChatInput thread />);
+    const input = screen.getByRole("textbox");
+
+    expect(input).toHaveAttribute("placeholder", "Write to Simon...");
+
+    await user.type(input, "Hi Simon");
+    await user.keyboard("{Enter}");
+
+    expect(postChatThreadMessage).toHaveBeenCalled();
+    expect(postChatMessage).not.toHaveBeenCalled();
+    expect(sendChatTyping).not.toHaveBeenCalled();
+  });
+
   it("does not submit when input is empty", async () => {
     const user = userEvent.setup({ delay: null });
 
@@ -187,6 +218,140 @@ describe("ChatInput", () => {
     });
   });
 
+  describe("cooldown", () => {
+    it("counts down until the visitor can post again", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const user = userEvent.setup({
+        advanceTimers: vi.advanceTimersByTime.bind(vi),
+      });
+      vi.mocked(postChatMessage).mockResolvedValue({
+        status: "error",
+        error: "Rate limit exceeded. Wait 3 seconds before trying again.",
+        retryAfter: 2500,
+      });
+
+      render(<ChatInput {...defaultReplyProps} />);
+      await user.type(screen.getByRole("textbox"), "Spam");
+      await user.keyboard("{Enter}");
+
+      expect(await screen.findByRole("timer")).toHaveTextContent(
+        "Slow down! You can send again in 3s",
+      );
+      expect(screen.queryByRole("status")).not.toBeInTheDocument();
+
+      await act(() => vi.advanceTimersByTimeAsync(1000));
+      expect(screen.getByRole("timer")).toHaveTextContent("in 2s");
+
+      await act(() => vi.advanceTimersByTimeAsync(2000));
+      expect(screen.queryByRole("timer")).not.toBeInTheDocument();
+
+      vi.useRealTimers();
+    });
+
+    it("does not submit while cooling down", async () => {
+      const user = userEvent.setup({ delay: null });
+      vi.mocked(postChatMessage).mockResolvedValue({
+        status: "error",
+        error:
+          "Slow mode is on. Wait 30 seconds before sending another message.",
+        retryAfter: 30_000,
+      });
+
+      render(<ChatInput {...defaultReplyProps} />);
+      await user.type(screen.getByRole("textbox"), "Hello");
+      await user.keyboard("{Enter}");
+      await screen.findByRole("timer");
+
+      await user.keyboard("{Enter}");
+
+      expect(postChatMessage).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe("/nick", () => {
+    it("changes the visitor's name instead of posting", async () => {
+      const user = userEvent.setup({ delay: null });
+      vi.mocked(changeChatUsername).mockResolvedValue({
+        status: "ok",
+        username: "alice",
+      });
+
+      render(<ChatInput {...defaultReplyProps} />);
+      const input = screen.getByRole("textbox") as HTMLInputElement;
+      await user.type(input, "/nick alice");
+
+      expect(screen.getByText("/nick name")).toBeInTheDocument();
+      expect(sendChatTyping).not.toHaveBeenCalled();
+
+      await user.keyboard("{Enter}");
+
+      expect(await screen.findByRole("status")).toHaveTextContent(
+        "You are now alice",
+      );
+      expect(changeChatUsername).toHaveBeenCalledWith("alice");
+      expect(postChatMessage).not.toHaveBeenCalled();
+      expect(input.value).toBe("");
+    });
+
+    it("shows why the name can't be used", async () => {
+      const user = userEvent.setup({ delay: null });
+      vi.mocked(changeChatUsername).mockResolvedValue({
+        status: "error",
+        error: '"simon-bot" is reserved',
+      });
+
+      render(<ChatInput {...defaultReplyProps} />);
+      await user.type(screen.getByRole("textbox"), "/nick simon-bot");
+      await user.keyboard("{Enter}");
+
+      expect(await screen.findByRole("status")).toHaveTextContent(
+        '"simon-bot" is reserved',
+      );
+    });
+  });
+
+  describe("/notify and /bell", () => {
+    afterEach(() => {
+      localStorage.clear();
+      vi.unstubAllGlobals();
+    });
+
+    it("changes the setting in the browser instead of posting", async () => {
+      const user = userEvent.setup({ delay: null });
+
+      render(<ChatInput {...defaultReplyProps} />);
+      const input = screen.getByRole("textbox") as HTMLInputElement;
+      await user.type(input, "/notify off");
+
+      expect(screen.getByText("/notify on|off")).toBeInTheDocument();
+
+      await user.keyboard("{Enter}");
+
+      expect(await screen.findByRole("status")).toHaveTextContent(
+        "Notifications are off",
+      );
+      expect(localStorage.getItem("chat:notifications")).toBe("off");
+      expect(postChatMessage).not.toHaveBeenCalled();
+      expect(input.value).toBe("");
+    });
+
+    it("asks for permission to notify when posting", async () => {
+      const user = userEvent.setup({ delay: null });
+      const requestPermission = vi.fn(() => Promise.resolve("granted"));
+      vi.stubGlobal("Notification", {
+        permission: "default",
+        requestPermission,
+      });
+      vi.mocked(postChatMessage).mockResolvedValue({ status: "ok" });
+
+      render(<ChatInput {...defaultReplyProps} />);
+      await user.type(screen.getByRole("textbox"), "Hello");
+      await user.keyboard("{Enter}");
+
+      expect(requestPermission).toHaveBeenCalledOnce();
+    });
+  });
+
   describe("reply mode", () => {
     it("shows 'Write a reply...' placeholder when replying", () => {
       render(<ChatInput replyToId="some-message-id" setReplyToId={vi.fn()} />);
@@ -297,6 +462,116 @@ describe("ChatInput", () => {
       expect(setReplyToId).not.toHaveBeenCalledWith(null);
     });
   });
+
+  describe("edit mode", () => {
+    const editing = { id: "own-message", text: "Original text" };
+
+    it("prefills and focuses the input with the message text", () => {
+      render(<ChatInput editing={editing} onEditEnd={vi.fn()} />);
+      const input = screen.getByRole("textbox", { name: "Edit message" });
+
+      expect(input).toHaveValue("Original text");
+      expect(input).toHaveAttribute("placeholder", "Edit message...");
+      expect(input).toHaveFocus();
+    });
+
+    it("calls editChatMessage with the message id and ends editing", async () => {
+      const user = userEvent.setup({ delay: null });
+      const onEditEnd = vi.fn();
+      vi.mocked(editChatMessage).mockResolvedValue({ status: "ok" });
+
+      render(<ChatInput editing={editing} onEditEnd={onEditEnd} />);
+
+      await user.type(screen.getByRole("textbox"), " fixed");
+      await user.keyboard("{Enter}");
+
+      await waitFor(() => {
+        expect(onEditEnd).toHaveBeenCalled();
+      });
+
+      const formData = vi.mocked(editChatMessage).mock
+        .calls[0]?.[0] as FormData;
+      expect(formData.get("messageId")).toBe("own-message");
+      expect(formData.get("text")).toBe("Original text fixed");
+      expect(postChatMessage).not.toHaveBeenCalled();
+    });
+
+    it("keeps editing and shows the error on failed edit", async () => {
+      const user = userEvent.setup({ delay: null });
+      const onEditEnd = vi.fn();
+      vi.mocked(editChatMessage).mockResolvedValue({
+        status: "error",
+        error: "You can only edit your own messages",
+      });
+
+      render(<ChatInput editing={editing} onEditEnd={onEditEnd} />);
+
+      await user.keyboard("{Enter}");
+
+      await screen.findByText("You can only edit your own messages");
+      expect(onEditEnd).not.toHaveBeenCalled();
+    });
+
+    it("ends editing when Escape key is pressed", async () => {
+      const user = userEvent.setup({ delay: null });
+      const onEditEnd = vi.fn();
+
+      render(<ChatInput editing={editing} onEditEnd={onEditEnd} />);
+
+      await user.keyboard("{Escape}");
+
+      expect(onEditEnd).toHaveBeenCalled();
+    });
+
+    it("does not send typing pings", async () => {
+      const user = userEvent.setup({ delay: null });
+
+      render(<ChatInput editing={editing} onEditEnd={vi.fn()} />);
+
+      await user.type(screen.getByRole("textbox"), " fixed");
+
+      expect(sendChatTyping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("typing pings", () => {
+    it("pings once while typing in quick succession", async () => {
+      const user = userEvent.setup({ delay: null });
+
+      render(<ChatInput {...defaultReplyProps} />);
+
+      await user.type(screen.getByRole("textbox"), "Hello");
+
+      expect(sendChatTyping).toHaveBeenCalledOnce();
+    });
+
+    it("pings again after the interval", async () => {
+      vi.useFakeTimers({ shouldAdvanceTime: true });
+      const user = userEvent.setup({
+        advanceTimers: vi.advanceTimersByTime.bind(vi),
+      });
+
+      render(<ChatInput {...defaultReplyProps} />);
+
+      await user.type(screen.getByRole("textbox"), "Hi");
+      vi.advanceTimersByTime(5000);
+      await user.type(screen.getByRole("textbox"), "!");
+
+      expect(sendChatTyping).toHaveBeenCalledTimes(2);
+
+      vi.useRealTimers();
+    });
+
+    it("does not ping for whitespace", async () => {
+      const user = userEvent.setup({ delay: null });
+
+      render(<ChatInput {...defaultReplyProps} />);
+
+      await user.type(screen.getByRole("textbox"), "   ");
+
+      expect(sendChatTyping).not.toHaveBeenCalled();
+    });
+  });
 });
 
 // Helper to check buddy is showing expected state category
@@ -10,53 +10,175 @@ import {
 } from "react";
 import { requestFormReset } from "react-dom";
 
-import { postChatMessage, PostChatMessageResult } from "@/actions/chat";
+import {
+  changeChatUsername,
+  type ChangeChatUsernameResult,
+  editChatMessage,
+  type EditChatMessageResult,
+  postChatMessage,
+  PostChatMessageResult,
+  postChatThreadMessage,
+  sendChatTyping,
+} from "@/actions/chat";
+import type { Message } from "@/lib/discord/api";
 
 import { CaretBuddy } from "./CaretBuddy";
 import { ChatToast } from "./ChatToast";
+import {
+  changeNotificationSetting,
+  type NotificationSetting,
+  requestNotificationPermission,
+} from "./notifications";
+
+// Others see us typing for a while after each ping, so a few are enough
+const TYPING_PING_INTERVAL_MS = 5000;
+const COOLDOWN_TICK_MS = 1000;
+// Like on IRC, `/nick name` changes the visitor's name instead of posting
+const NICK_COMMAND_PATTERN = /^\/nick\s+(.+)$/s;
+// `/notify on|off` and `/bell on|off` are kept in the browser
+const SETTING_COMMAND_PATTERN = /^\/(notify|bell)\s+(on|off)\s*$/i;
 
 export interface ChatInputProps {
-  replyToId: string | null;
-  setReplyToId: (id: string | null) => void;
+  replyToId?: string | null;
+  setReplyToId?: (id: string | null) => void;
+  /** Edits this message instead of posting a new one. */
+  editing?: Pick<Message, "id" | "text">;
+  /** Called once the edit is saved or cancelled. */
+  onEditEnd?: () => void;
+  /** Posts to the visitor's private thread instead of the chat. */
+  thread?: boolean;
+  /** The chat room to post and edit in, general without one. */
+  room?: string;
 }
 
-export const ChatInput = ({ replyToId, setReplyToId }: ChatInputProps) => {
+type InputResult =
+  | PostChatMessageResult
+  | EditChatMessageResult
+  | ChangeChatUsernameResult
+  | { status: "ok"; notice: string };
+
+function getToastMessage(
+  pending: boolean,
+  result: InputResult,
+): string | undefined {
+  if (pending) return undefined;
+  if (result.status === "error") {
+    // Limits are shown as a countdown instead
+    return result.retryAfter === undefined ? result.error : undefined;
+  }
+  if ("notice" in result) return result.notice;
+  return "username" in result ? `You are now ${result.username}` : undefined;
+}
+
+export const ChatInput = ({
+  replyToId = null,
+  setReplyToId,
+  editing,
+  onEditEnd,
+  thread = false,
+  room,
+}: ChatInputProps) => {
   const inputRef = useRef<HTMLInputElement>(null);
-  const [result, setResult] = useState<PostChatMessageResult>({
-    status: "initial",
-  });
+  const lastTypingPingRef = useRef(0);
+  const [result, setResult] = useState<InputResult>({ status: "initial" });
   const [pending, startTransition] = useTransition();
-  const [inputValue, setInputValue] = useState("");
+  const [inputValue, setInputValue] = useState(editing?.text ?? "");
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
 
   function onSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
-    if (!inputValue.trim()) return;
+    if (!inputValue.trim() || cooldownUntil !== null) return;
     const form = event.currentTarget;
 
+    const setting = editing ? null : SETTING_COMMAND_PATTERN.exec(inputValue);
+    if (setting) {
+      const notice = changeNotificationSetting(
+        setting[1]!.toLowerCase() as NotificationSetting,
+        setting[2]!.toLowerCase() === "on",
+      );
+      setInputValue("");
+      setResult({ status: "ok", notice });
+      return;
+    }
+
+    // Asked while handling the submit, as browsers want a reason to ask.
+    // Only those who post in the chat can be replied to.
+    if (!editing && !thread && !inputValue.startsWith("/")) {
+      requestNotificationPermission();
+    }
+
     startTransition(async () => {
       const formData = new FormData(form);
-      if (replyToId) {
+      if (editing) {
+        formData.append("messageId", editing.id);
+      } else if (replyToId) {
         formData.append("replyToId", replyToId);
       }
-      const result = await postChatMessage(formData);
+      if (room && !thread) formData.append("room", room);
+      const nick = editing ? null : NICK_COMMAND_PATTERN.exec(inputValue);
+      const result = editing
+        ? await editChatMessage(formData)
+        : nick
+          ? await changeChatUsername(nick[1]!)
+          : thread
+            ? await postChatThreadMessage(formData)
+            : await postChatMessage(formData);
 
       if (result.status === "ok") {
         // Nested startTransition required: after await, we're outside the original transition context
         startTransition(() => {
           requestFormReset(form);
-          setReplyToId(null);
+          setReplyToId?.(null);
           setInputValue("");
+          onEditEnd?.();
+          lastTypingPingRef.current = 0;
         });
       }
 
+      if (result.status === "error" && result.retryAfter !== undefined) {
+        const now = Date.now();
+        setNow(now);
+        setCooldownUntil(now + result.retryAfter);
+      }
+
       setResult(result);
     });
   }
 
   function onChange(event: ChangeEvent<HTMLInputElement>) {
     setInputValue(event.target.value);
+
+    const now = Date.now();
+    if (
+      !editing &&
+      // Typing in a private thread is no one else's business
+      !thread &&
+      event.target.value.trim() &&
+      // Commands aren't messages others should see coming
+      !event.target.value.startsWith("/") &&
+      now - lastTypingPingRef.current >= TYPING_PING_INTERVAL_MS
+    ) {
+      lastTypingPingRef.current = now;
+      void sendChatTyping(room);
+    }
   }
 
+  useEffect(() => {
+    if (cooldownUntil === null) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      if (now >= cooldownUntil) {
+        setCooldownUntil(null);
+      } else {
+        setNow(now);
+      }
+    }, COOLDOWN_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [cooldownUntil]);
+
   useEffect(() => {
     if (!pending && result.status !== "initial") {
       inputRef.current?.focus();
@@ -68,7 +190,7 @@ export const ChatInput = ({ replyToId, setReplyToId }: ChatInputProps) => {
       inputRef.current?.focus();
       const keyDownHandler = (event: KeyboardEvent) => {
         if (event.key === "Escape") {
-          setReplyToId(null);
+          setReplyToId?.(null);
         }
       };
       window.addEventListener("keydown", keyDownHandler);
@@ -80,19 +202,41 @@ export const ChatInput = ({ replyToId, setReplyToId }: ChatInputProps) => {
     return;
   }, [replyToId, setReplyToId]);
 
+  useEffect(() => {
+    if (editing) {
+      inputRef.current?.focus();
+      const keyDownHandler = (event: KeyboardEvent) => {
+        if (event.key === "Escape") {
+          onEditEnd?.();
+        }
+      };
+      window.addEventListener("keydown", keyDownHandler);
+      return () => {
+        window.removeEventListener("keydown", keyDownHandler);
+      };
+    }
+
+    return;
+  }, [editing, onEditEnd]);
+
   return (
     <>
       <ChatToast
         variant={result.status === "error" ? "error" : "default"}
-        message={
-          !pending && result.status === "error" ? result.error : undefined
-        }
+        message={getToastMessage(pending, result)}
       />
       <form onSubmit={onSubmit} className="chat-input">
         <div className="wrapper">
           <input
             name="text"
-            placeholder={`Write a ${replyToId ? "reply" : "message"}...`}
+            aria-label={editing ? "Edit message" : undefined}
+            placeholder={
+              editing
+                ? "Edit message..."
+                : thread
+                  ? "Write to Simon..."
+                  : `Write a ${replyToId ? "reply" : "message"}...`
+            }
             disabled={pending}
             className="input"
             ref={inputRef}
@@ -106,6 +250,20 @@ export const ChatInput = ({ replyToId, setReplyToId }: ChatInputProps) => {
             resultStatus={result.status}
           />
         </div>
+        {cooldownUntil !== null ? (
+          <p role="timer" className="chat-input-hint">
+            Slow down! You can send again in{" "}
+            {Math.max(Math.ceil((cooldownUntil - now) / 1000), 1)}s
+          </p>
+        ) : (
+          !editing &&
+          inputValue.startsWith("/") && (
+            <p className="chat-input-hint">
+              <kbd>/nick name</kbd> changes your name, <kbd>/notify on|off</kbd>{" "}
+              and <kbd>/bell on|off</kbd> notify you of replies and mentions
+            </p>
+          )
+        )}
       </form>
     </>
   );
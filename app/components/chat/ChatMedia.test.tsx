@@ -0,0 +1,179 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+
+import { ChatMedia, type ChatMediaProps } from "./ChatMedia";
+
+describe("ChatMedia", () => {
+  const empty: ChatMediaProps = {
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+  };
+
+  it("renders nothing without media", () => {
+    const { container } = render(<ChatMedia {...empty} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders images scaled down to fit and lazy loaded", () => {
+    render(
+      <ChatMedia
+        {...empty}
+        attachments={[
+          {
+            type: "image",
+            name: "cat.png",
+            image: {
+              url: "https://media.discordapp.net/cat.png",
+              width: 1600,
+              height: 900,
+            },
+          },
+        ]}
+      />,
+    );
+
+    const image = screen.getByRole("img", { name: "cat.png" });
+    expect(image).toHaveAttribute("width", "320");
+    expect(image).toHaveAttribute("height", "180");
+    expect(image).toHaveAttribute("loading", "lazy");
+    expect(image.closest("a")).toHaveAttribute(
+      "href",
+      "https://media.discordapp.net/cat.png",
+    );
+  });
+
+  it("does not scale up small images", () => {
+    render(
+      <ChatMedia
+        {...empty}
+        attachments={[
+          {
+            type: "image",
+            name: "icon.png",
+            image: {
+              url: "https://media.discordapp.net/icon.png",
+              width: 32,
+              height: 32,
+            },
+          },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole("img", { name: "icon.png" })).toHaveAttribute(
+      "width",
+      "32",
+    );
+  });
+
+  it("renders other files as links with their size", () => {
+    render(
+      <ChatMedia
+        {...empty}
+        attachments={[
+          {
+            type: "file",
+            name: "notes.txt",
+            url: "https://cdn.discordapp.com/notes.txt",
+            size: 2048,
+          },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole("link", { name: /notes\.txt/ })).toHaveAttribute(
+      "href",
+      "https://cdn.discordapp.com/notes.txt",
+    );
+    expect(screen.getByText("(2KB)")).toBeInTheDocument();
+  });
+
+  it("renders embeds as text", () => {
+    render(
+      <ChatMedia
+        {...empty}
+        embeds={[
+          {
+            url: "https://example.com/post",
+            title: "A post",
+            description: "<script>alert(1)</script>",
+            provider: "Example",
+            color: "#00ff00",
+            image: null,
+          },
+        ]}
+      />,
+    );
+
+    const title = screen.getByRole("link", { name: "A post" });
+    expect(title).toHaveAttribute("href", "https://example.com/post");
+    expect(title).toHaveAttribute("rel", "noopener noreferrer nofollow ugc");
+    expect(screen.getByText("<script>alert(1)</script>")).toBeInTheDocument();
+    expect(screen.getByText("Example")).toBeInTheDocument();
+  });
+
+  it("renders link previews as compact cards", () => {
+    const { container } = render(
+      <ChatMedia
+        {...empty}
+        previews={[
+          {
+            url: "https://example.com/article",
+            title: "An article",
+            description: "What it is about",
+            siteName: "Example",
+            image: "https://example.com/cover.png",
+          },
+        ]}
+      />,
+    );
+
+    const title = screen.getByRole("link", { name: "An article" });
+    expect(title).toHaveAttribute("href", "https://example.com/article");
+    expect(title).toHaveAttribute("rel", "noopener noreferrer nofollow ugc");
+    expect(screen.getByText("What it is about")).toBeInTheDocument();
+    expect(screen.getByText("Example")).toBeInTheDocument();
+
+    const thumbnail = container.querySelector(".preview img");
+    expect(thumbnail).toHaveAttribute("src", "https://example.com/cover.png");
+    expect(thumbnail).toHaveAttribute("loading", "lazy");
+  });
+
+  it("renders link previews without an image", () => {
+    const { container } = render(
+      <ChatMedia
+        {...empty}
+        previews={[
+          {
+            url: "https://example.com/",
+            title: "Example",
+            description: null,
+            siteName: null,
+            image: null,
+          },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole("link", { name: "Example" })).toBeInTheDocument();
+    expect(container.querySelector(".preview img")).toBeNull();
+  });
+
+  it("renders stickers as images, or by name", () => {
+    render(
+      <ChatMedia
+        {...empty}
+        stickers={[
+          { name: "Wave", url: "https://media.discordapp.net/stickers/1.png" },
+          { name: "Lottie", url: null },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole("img", { name: "Wave" })).toBeInTheDocument();
+    expect(screen.getByText("[Lottie]")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,170 @@
+import Image from "next/image";
+import type { CSSProperties } from "react";
+
+import { ExternalLink } from "@/components/ExternalLink";
+import type { Message } from "@/lib/discord/api";
+import type { Embed, LinkPreview } from "@/lib/discord/schemas";
+
+const MAX_IMAGE_WIDTH = 320;
+const MAX_IMAGE_HEIGHT = 240;
+const STICKER_SIZE = 80;
+const PREVIEW_IMAGE_SIZE = 80;
+
+type ImageProps = { url: string; width: number; height: number; alt: string };
+
+/** Scales the image down to fit the chat, never up. */
+const ChatImage = ({ url, width, height, alt }: ImageProps) => {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+
+  return (
+    // Discord's media proxy already serves these resized on request
+    <Image
+      src={url}
+      alt={alt}
+      width={Math.round(width * scale)}
+      height={Math.round(height * scale)}
+      loading="lazy"
+      unoptimized
+    />
+  );
+};
+
+const byteFormat = new Intl.NumberFormat("en", {
+  notation: "compact",
+  style: "unit",
+  unit: "byte",
+  unitDisplay: "narrow",
+});
+
+const ChatEmbed = ({
+  url,
+  title,
+  description,
+  provider,
+  color,
+  image,
+}: Embed) => (
+  <div
+    className="embed"
+    style={color ? ({ "--embed-color": color } as CSSProperties) : undefined}
+  >
+    {provider && <small className="provider">{provider}</small>}
+    {title &&
+      (url ? (
+        <ExternalLink
+          href={url}
+          rel="noopener noreferrer nofollow ugc"
+          className="title"
+        >
+          {title}
+        </ExternalLink>
+      ) : (
+        <strong className="title">{title}</strong>
+      ))}
+    {description && <p className="description">{description}</p>}
+    {image && <ChatImage {...image} alt={title ?? ""} />}
+  </div>
+);
+
+const ChatLinkPreview = ({
+  url,
+  title,
+  description,
+  siteName,
+  image,
+}: LinkPreview) => (
+  <div className="preview">
+    {image && (
+      // Page images come in any size, so they're cropped to a thumbnail
+      <Image
+        className="thumbnail"
+        src={image}
+        alt=""
+        width={PREVIEW_IMAGE_SIZE}
+        height={PREVIEW_IMAGE_SIZE}
+        loading="lazy"
+        unoptimized
+      />
+    )}
+    <div className="summary">
+      {siteName && <small className="site">{siteName}</small>}
+      <ExternalLink
+        href={url}
+        rel="noopener noreferrer nofollow ugc"
+        className="title"
+      >
+        {title}
+      </ExternalLink>
+      {description && <p className="description">{description}</p>}
+    </div>
+  </div>
+);
+
+export type ChatMediaProps = Pick<
+  Message,
+  "attachments" | "embeds" | "stickers" | "previews"
+>;
+
+export const ChatMedia = ({
+  attachments,
+  embeds,
+  stickers,
+  previews,
+}: ChatMediaProps) => {
+  if (
+    attachments.length + embeds.length + stickers.length + previews.length ===
+    0
+  ) {
+    return null;
+  }
+
+  return (
+    <div className="chat-media">
+      {attachments.map((attachment, index) =>
+        attachment.type === "image" ? (
+          <ExternalLink
+            key={index}
+            href={attachment.image.url}
+            className="attachment"
+          >
+            <ChatImage {...attachment.image} alt={attachment.name} />
+          </ExternalLink>
+        ) : (
+          <ExternalLink
+            key={index}
+            href={attachment.url}
+            className="attachment"
+          >
+            📎 {attachment.name}{" "}
+            <small>({byteFormat.format(attachment.size)})</small>
+          </ExternalLink>
+        ),
+      )}
+      {embeds.map((embed, index) => (
+        <ChatEmbed key={index} {...embed} />
+      ))}
+      {previews.map((preview) => (
+        <ChatLinkPreview key={preview.url} {...preview} />
+      ))}
+      {stickers.map((sticker, index) =>
+        sticker.url ? (
+          <Image
+            key={index}
+            className="sticker"
+            src={sticker.url}
+            alt={sticker.name}
+            title={sticker.name}
+            width={STICKER_SIZE}
+            height={STICKER_SIZE}
+            loading="lazy"
+            unoptimized
+          />
+        ) : (
+          <span key={index} className="sticker">
+            [{sticker.name}]
+          </span>
+        ),
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,35 @@
 import { act, render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
-import { describe, expect, it, vi } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 
+import { deleteChatMessage } from "@/actions/chat";
 import type { Message } from "@/lib/discord/api";
 
 import { ChatMessage } from "./ChatMessage";
 
+vi.mock(import("@/actions/chat"), () => ({
+  deleteChatMessage: vi.fn(),
+  editChatMessage: vi.fn(),
+  postChatMessage: vi.fn(),
+  sendChatTyping: vi.fn(),
+  toggleChatReaction: vi.fn(),
+}));
+
 describe("ChatMessage", () => {
   const mockUser = { name: "TestUser", color: "hsl(0 100% 50%)" } as const;
 
   const createMessage = (overrides?: Partial<Message>): Message => ({
     id: "1234567890123456",
     content: "Hello, world!",
+    text: "Hello, world!",
     user: mockUser,
     edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
     timestamp: new Date("2025-01-01T00:00:00.000000+00:00"),
     replies: [],
     ...overrides,
@@ -71,6 +87,62 @@ describe("ChatMessage", () => {
     vi.useRealTimers();
   });
 
+  it("renders relative timestamps in the content", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+
+    const now = Date.now();
+    vi.setSystemTime(now);
+
+    const inTwoHours = new Date(now + 2 * 60 * 60 * 1000).toISOString();
+    const message = createMessage({
+      content: `ends <time datetime="${inTwoHours}" data-timestamp-style="R">UTC</time>`,
+    });
+
+    await act(() =>
+      render(<ChatMessage {...message} {...defaultReplyProps} />),
+    );
+
+    expect(screen.getByText("in 2 hours")).toBeInTheDocument();
+    expect(screen.queryByText("UTC")).not.toBeInTheDocument();
+
+    vi.useRealTimers();
+  });
+
+  it("renders other timestamps in the local time zone", async () => {
+    const message = createMessage({
+      content:
+        '<time datetime="2023-11-14T22:13:20.000Z" data-timestamp-style="D">UTC</time>',
+    });
+
+    await act(() =>
+      render(<ChatMessage {...message} {...defaultReplyProps} />),
+    );
+
+    expect(
+      screen.getByText(
+        new Intl.DateTimeFormat("en", { dateStyle: "long" }).format(
+          new Date("2023-11-14T22:13:20.000Z"),
+        ),
+      ),
+    ).toBeInTheDocument();
+    expect(screen.queryByText("UTC")).not.toBeInTheDocument();
+  });
+
+  it("adds a copy button to code blocks", async () => {
+    const user = userEvent.setup();
+    const message = createMessage({
+      content:
+        '<pre data-language="js"><code><span class="hl-keyword">let</span> a;</code></pre>',
+    });
+
+    await act(() =>
+      render(<ChatMessage {...message} {...defaultReplyProps} />),
+    );
+    await user.click(screen.getByRole("button", { name: "Copy code" }));
+
+    expect(await navigator.clipboard.readText()).toBe("let a;");
+  });
+
   it("does not show edited indicator when edited is false", () => {
     const message = createMessage({ edited: false });
     render(<ChatMessage {...message} {...defaultReplyProps} />);
@@ -78,6 +150,24 @@ describe("ChatMessage", () => {
     expect(screen.queryByText(/\(edited\)/)).not.toBeInTheDocument();
   });
 
+  it("renders attachments below the text", () => {
+    const message = createMessage({
+      attachments: [
+        {
+          type: "file",
+          name: "notes.txt",
+          url: "https://cdn.discordapp.com/notes.txt",
+          size: 10,
+        },
+      ],
+    });
+    render(<ChatMessage {...message} {...defaultReplyProps} />);
+
+    expect(
+      screen.getByRole("link", { name: /notes\.txt/ }),
+    ).toBeInTheDocument();
+  });
+
   describe("reply button", () => {
     it("renders reply button with aria-label", () => {
       const message = createMessage();
@@ -140,4 +230,157 @@ describe("ChatMessage", () => {
       );
     });
   });
+
+  describe("own messages", () => {
+    const ownProps = {
+      ...defaultReplyProps,
+      username: "TestUser",
+      editingId: null,
+      setEditingId: vi.fn(),
+    };
+
+    const createOwnMessage = (overrides?: Partial<Message>) =>
+      createMessage({ own: true, ...overrides });
+
+    afterEach(() => {
+      vi.clearAllMocks();
+      vi.unstubAllGlobals();
+    });
+
+    it("offers edit and delete on the visitor's own messages", () => {
+      render(<ChatMessage {...createOwnMessage()} {...ownProps} />);
+
+      expect(screen.getByRole("button", { name: "Edit" })).toBeInTheDocument();
+      expect(
+        screen.getByRole("button", { name: "Delete" }),
+      ).toBeInTheDocument();
+    });
+
+    it("does not offer edit and delete on others' messages under the same name", () => {
+      render(<ChatMessage {...createMessage()} {...ownProps} />);
+
+      expect(
+        screen.queryByRole("button", { name: "Edit" }),
+      ).not.toBeInTheDocument();
+      expect(
+        screen.queryByRole("button", { name: "Delete" }),
+      ).not.toBeInTheDocument();
+    });
+
+    it("offers no actions when they're turned off", () => {
+      render(
+        <ChatMessage {...createOwnMessage()} {...ownProps} actions={false} />,
+      );
+
+      expect(screen.queryAllByRole("button")).toEqual([]);
+    });
+
+    it("calls setEditingId with message id when edit is clicked", async () => {
+      const user = userEvent.setup();
+      const setEditingId = vi.fn();
+      render(
+        <ChatMessage
+          {...createOwnMessage({ id: "own-message" })}
+          {...ownProps}
+          setEditingId={setEditingId}
+        />,
+      );
+
+      await user.click(screen.getByRole("button", { name: "Edit" }));
+
+      expect(setEditingId).toHaveBeenCalledWith("own-message");
+    });
+
+    it("renders an editor prefilled with the source text while editing", () => {
+      render(
+        <ChatMessage
+          {...createOwnMessage({
+            id: "own-message",
+            content: "<strong>Bold</strong>",
+            text: "**Bold**",
+          })}
+          {...ownProps}
+          editingId="own-message"
+        />,
+      );
+
+      expect(screen.getByRole("textbox", { name: "Edit message" })).toHaveValue(
+        "**Bold**",
+      );
+      expect(screen.queryByText("Bold")).not.toBeInTheDocument();
+    });
+
+    it("deletes the message after confirmation", async () => {
+      const user = userEvent.setup();
+      vi.stubGlobal(
+        "confirm",
+        vi.fn(() => true),
+      );
+      vi.mocked(deleteChatMessage).mockResolvedValue({ status: "ok" });
+      render(
+        <ChatMessage
+          {...createOwnMessage({ id: "own-message" })}
+          {...ownProps}
+        />,
+      );
+
+      await user.click(screen.getByRole("button", { name: "Delete" }));
+
+      expect(deleteChatMessage).toHaveBeenCalledWith("own-message", undefined);
+    });
+
+    it("does not delete the message when not confirmed", async () => {
+      const user = userEvent.setup();
+      vi.stubGlobal(
+        "confirm",
+        vi.fn(() => false),
+      );
+      render(<ChatMessage {...createOwnMessage()} {...ownProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Delete" }));
+
+      expect(deleteChatMessage).not.toHaveBeenCalled();
+    });
+
+    it("shows an error when deleting fails", async () => {
+      const user = userEvent.setup();
+      vi.stubGlobal(
+        "confirm",
+        vi.fn(() => true),
+      );
+      vi.mocked(deleteChatMessage).mockResolvedValue({
+        status: "error",
+        error: "Failed to delete chat message",
+      });
+      render(<ChatMessage {...createOwnMessage()} {...ownProps} />);
+
+      await user.click(screen.getByRole("button", { name: "Delete" }));
+
+      expect(
+        await screen.findByText("Failed to delete chat message"),
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe("reactions", () => {
+    it("shows the emoji palette when react is clicked", async () => {
+      const user = userEvent.setup();
+      render(<ChatMessage {...createMessage()} {...defaultReplyProps} />);
+
+      await user.click(screen.getByRole("button", { name: "React" }));
+
+      expect(
+        screen.getByRole("group", { name: "Add reaction" }),
+      ).toBeInTheDocument();
+    });
+
+    it("renders the message's reactions", () => {
+      const message = createMessage({
+        reactions: [{ emoji: "👍", count: 2, users: ["TestUser"] }],
+      });
+      render(<ChatMessage {...message} {...defaultReplyProps} />);
+
+      expect(screen.getByRole("button", { name: "👍 2" })).toBeInTheDocument();
+    });
+  });
 });
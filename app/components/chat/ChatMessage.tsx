@@ -1,49 +1,221 @@
+"use client";
+
 import {
   type CSSProperties,
   type Dispatch,
   type SetStateAction,
   Suspense,
+  useEffect,
+  useMemo,
+  useState,
+  useTransition,
 } from "react";
+import { createPortal } from "react-dom";
 
+import { deleteChatMessage } from "@/actions/chat";
 import { RelativeTime } from "@/components/RelativeTime";
 import type { Message } from "@/lib/discord/api";
+import { formatTimestamp, isTimestampStyle } from "@/lib/discord/timestamp";
+
+import { ChatCopyButton } from "./ChatCopyButton";
+import { ChatInput } from "./ChatInput";
+import { ChatMedia } from "./ChatMedia";
+import { ChatReactions } from "./ChatReactions";
+import { ChatToast } from "./ChatToast";
 
 export interface ChatMessageProps extends Message {
   replyToId: string | null;
   setReplyToId: Dispatch<SetStateAction<string | null>>;
+  /** The visitor's username, to tell which reactions are theirs. */
+  username?: string | null;
+  editingId?: string | null;
+  setEditingId?: Dispatch<SetStateAction<string | null>>;
+  /** Whether the message can be replied and reacted to, edited or deleted. */
+  actions?: boolean;
+  /** The chat room the message is in, general without one. */
+  room?: string;
+}
+
+const LocalTimestamp = ({ node }: { node: HTMLTimeElement }) => {
+  const date = new Date(node.dateTime);
+  const style = node.dataset["timestampStyle"] ?? "f";
+
+  if (style === "R") return <RelativeTime date={date} />;
+
+  return (
+    <span title={formatTimestamp(date, "F")}>
+      {formatTimestamp(date, isTimestampStyle(style) ? style : "f")}
+    </span>
+  );
+};
+
+function findTimestamps(text: HTMLElement): HTMLTimeElement[] {
+  return Array.from(
+    text.querySelectorAll<HTMLTimeElement>("time[data-timestamp-style]"),
+  );
 }
 
+const MessageText = ({ content }: { content: string }) => {
+  const [text, setText] = useState<HTMLDivElement | null>(null);
+  // React resets the HTML, and with it the portals, whenever this changes
+  const html = useMemo(() => ({ __html: content }), [content]);
+  const timestamps = text ? findTimestamps(text) : [];
+  const codeBlocks = text ? Array.from(text.querySelectorAll("pre")) : [];
+
+  useEffect(() => {
+    if (!text) return;
+    // The server renders timestamps in UTC, replaced here by the local time
+    for (const node of findTimestamps(text)) {
+      if (node.firstChild instanceof Text) node.firstChild.remove();
+    }
+  }, [text]);
+
+  return (
+    <>
+      <div
+        // Remount on change, as the portal targets are replaced with the HTML
+        key={content}
+        ref={setText}
+        className="text"
+        dangerouslySetInnerHTML={html}
+      />
+      {timestamps.map((node, i) =>
+        createPortal(<LocalTimestamp node={node} />, node, `time-${i}`),
+      )}
+      {codeBlocks.map((node, i) =>
+        createPortal(
+          <ChatCopyButton
+            text={node.querySelector("code")?.textContent ?? ""}
+          />,
+          node,
+          `code-${i}`,
+        ),
+      )}
+    </>
+  );
+};
+
 export const ChatMessage = ({
   id,
   user,
   content,
+  text,
   edited,
+  own,
+  reactions,
+  attachments,
+  embeds,
+  stickers,
+  previews,
   timestamp,
   replyToId,
   setReplyToId,
-}: ChatMessageProps) => (
-  <div
-    className="chat-message"
-    style={{ "--user-color": user.color } as CSSProperties}
-  >
-    <span className="user">{user.name}: </span>
-    <div className="text" dangerouslySetInnerHTML={{ __html: content }} />
-    {edited && <small className="edited"> (edited) </small>}{" "}
-    <small className="timestamp">
-      <Suspense>
-        <RelativeTime date={timestamp} style="narrow" />
-      </Suspense>
-    </small>{" "}
-    <button
-      aria-label="Reply"
-      title="Reply"
-      className="reply"
-      onClick={() => setReplyToId(id)}
-      disabled={replyToId === id}
+  username = null,
+  editingId = null,
+  setEditingId,
+  actions = true,
+  room,
+}: ChatMessageProps) => {
+  const [deleteError, setDeleteError] = useState<string>();
+  const [deleting, startDeleteTransition] = useTransition();
+  const [picking, setPicking] = useState(false);
+  const isOwn = actions && own;
+
+  function onDelete() {
+    if (!window.confirm("Delete this message?")) return;
+
+    startDeleteTransition(async () => {
+      const result = await deleteChatMessage(id, room);
+      setDeleteError(result.status === "error" ? result.error : undefined);
+    });
+  }
+
+  return (
+    <div
+      className="chat-message"
+      style={{ "--user-color": user.color } as CSSProperties}
     >
-      ↩
-    </button>
-  </div>
-);
+      <span className="user">{user.name}: </span>
+      {isOwn && editingId === id ? (
+        <ChatInput
+          editing={{ id, text }}
+          room={room}
+          onEditEnd={() => setEditingId?.(null)}
+        />
+      ) : (
+        <>
+          <MessageText content={content} />
+          {edited && <small className="edited"> (edited) </small>}{" "}
+          <small className="timestamp">
+            <Suspense>
+              <RelativeTime date={timestamp} style="narrow" />
+            </Suspense>
+          </small>{" "}
+          {actions && (
+            <>
+              <button
+                aria-label="Reply"
+                title="Reply"
+                className="reply"
+                onClick={() => setReplyToId(id)}
+                disabled={replyToId === id}
+              >
+                ↩
+              </button>
+              <button
+                aria-label="React"
+                title="React"
+                aria-expanded={picking}
+                className="react"
+                onClick={() => setPicking((picking) => !picking)}
+              >
+                ☺
+              </button>
+            </>
+          )}
+          {isOwn && (
+            <>
+              <button
+                aria-label="Edit"
+                title="Edit"
+                className="edit"
+                onClick={() => setEditingId?.(id)}
+                disabled={deleting}
+              >
+                ✎
+              </button>
+              <button
+                aria-label="Delete"
+                title="Delete"
+                className="delete"
+                onClick={onDelete}
+                disabled={deleting}
+              >
+                &times;
+              </button>
+            </>
+          )}
+          <ChatMedia
+            attachments={attachments}
+            embeds={embeds}
+            stickers={stickers}
+            previews={previews}
+          />
+          {actions && (
+            <ChatReactions
+              messageId={id}
+              reactions={reactions}
+              username={username}
+              picking={picking}
+              onPickEnd={() => setPicking(false)}
+              room={room}
+            />
+          )}
+        </>
+      )}
+      <ChatToast variant="error" message={deleteError} />
+    </div>
+  );
+};
 
 export default ChatMessage;
@@ -0,0 +1,33 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+
+import { ChatPresence } from "./ChatPresence";
+
+describe("ChatPresence", () => {
+  it("renders the count and names of those online", () => {
+    render(<ChatPresence presence={{ count: 2, names: ["alice", "bob"] }} />);
+
+    expect(screen.getByText("2 online")).toBeInTheDocument();
+    expect(screen.getByText(/alice, bob/)).toBeInTheDocument();
+  });
+
+  it("summarizes visitors beyond the first few names", () => {
+    render(
+      <ChatPresence
+        presence={{ count: 6, names: ["alice", "bob", "carol", "dave"] }}
+      />,
+    );
+
+    expect(
+      screen.getByText(/alice, bob, carol and 3 more/),
+    ).toBeInTheDocument();
+    expect(screen.getByTitle("alice, bob, carol, dave")).toBeInTheDocument();
+  });
+
+  it("renders only the count when nobody is named", () => {
+    render(<ChatPresence presence={{ count: 1, names: [] }} />);
+
+    expect(screen.getByText("1 online")).toBeInTheDocument();
+    expect(screen.queryByText(/:/)).not.toBeInTheDocument();
+  });
+});
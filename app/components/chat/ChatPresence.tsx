@@ -0,0 +1,29 @@
+import type { ChatEvent } from "@/lib/discord/schemas";
+
+const MAX_NAMES = 3;
+
+export type Presence = Omit<Extract<ChatEvent, { type: "presence" }>, "type">;
+
+export interface ChatPresenceProps {
+  presence: Presence;
+}
+
+export const ChatPresence = ({
+  presence: { count, names },
+}: ChatPresenceProps) => {
+  const shown = names.slice(0, MAX_NAMES);
+  const others = count - shown.length;
+
+  return (
+    <span className="chat-presence" title={names.join(", ")}>
+      <span className="count">{count} online</span>
+      {shown.length > 0 && (
+        <span className="names">
+          {": "}
+          {shown.join(", ")}
+          {others > 0 && ` and ${others} more`}
+        </span>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,140 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { toggleChatReaction } from "@/actions/chat";
+
+import { ChatReactions, type ChatReactionsProps } from "./ChatReactions";
+
+vi.mock(import("@/actions/chat"), () => ({ toggleChatReaction: vi.fn() }));
+
+describe("ChatReactions", () => {
+  const defaultProps: ChatReactionsProps = {
+    messageId: "msg-1",
+    reactions: [],
+    username: "alice",
+    picking: false,
+    onPickEnd: vi.fn(),
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("renders nothing without reactions", () => {
+    const { container } = render(<ChatReactions {...defaultProps} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("renders each reaction with its count", () => {
+    render(
+      <ChatReactions
+        {...defaultProps}
+        reactions={[
+          { emoji: "👍", count: 3, users: ["alice", "bob"] },
+          { emoji: "🎉", count: 1, users: ["bob"] },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole("button", { name: "👍 3" })).toHaveAttribute(
+      "title",
+      "👍: alice, bob, 1 on Discord",
+    );
+    expect(screen.getByRole("button", { name: "🎉 1" })).toHaveAttribute(
+      "title",
+      "🎉: bob",
+    );
+  });
+
+  it("marks reactions by the visitor as pressed", () => {
+    render(
+      <ChatReactions
+        {...defaultProps}
+        reactions={[
+          { emoji: "👍", count: 1, users: ["alice"] },
+          { emoji: "🎉", count: 1, users: ["bob"] },
+        ]}
+      />,
+    );
+
+    expect(screen.getByRole("button", { name: "👍 1" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+    expect(screen.getByRole("button", { name: "🎉 1" })).toHaveAttribute(
+      "aria-pressed",
+      "false",
+    );
+  });
+
+  it("renders custom emoji as images", () => {
+    render(
+      <ChatReactions
+        {...defaultProps}
+        reactions={[{ emoji: "blobwave:123456", count: 1, users: [] }]}
+      />,
+    );
+
+    expect(screen.getByRole("img", { name: ":blobwave:" })).toHaveAttribute(
+      "src",
+      "https://cdn.discordapp.com/emojis/123456.webp?size=48",
+    );
+  });
+
+  it("toggles a reaction when clicked", async () => {
+    const user = userEvent.setup();
+    vi.mocked(toggleChatReaction).mockResolvedValue({
+      status: "ok",
+      reacted: false,
+    });
+    render(
+      <ChatReactions
+        {...defaultProps}
+        reactions={[{ emoji: "👍", count: 1, users: ["alice"] }]}
+      />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "👍 1" }));
+
+    expect(toggleChatReaction).toHaveBeenCalledWith("msg-1", "👍", undefined);
+  });
+
+  it("reacts from the palette and closes it", async () => {
+    const user = userEvent.setup();
+    const onPickEnd = vi.fn();
+    vi.mocked(toggleChatReaction).mockResolvedValue({
+      status: "ok",
+      reacted: true,
+    });
+    render(
+      <ChatReactions {...defaultProps} picking={true} onPickEnd={onPickEnd} />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "React with 🎉" }));
+
+    expect(toggleChatReaction).toHaveBeenCalledWith("msg-1", "🎉", undefined);
+    expect(onPickEnd).toHaveBeenCalledOnce();
+  });
+
+  it("shows an error toast when the reaction fails", async () => {
+    const user = userEvent.setup();
+    vi.mocked(toggleChatReaction).mockResolvedValue({
+      status: "error",
+      error: "Failed to update reaction",
+    });
+    render(
+      <ChatReactions
+        {...defaultProps}
+        reactions={[{ emoji: "👍", count: 1, users: [] }]}
+      />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "👍 1" }));
+
+    expect(await screen.findByRole("status")).toHaveTextContent(
+      "Failed to update reaction",
+    );
+  });
+});
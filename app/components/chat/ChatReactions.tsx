@@ -0,0 +1,98 @@
+"use client";
+
+import Image from "next/image";
+import { useState, useTransition } from "react";
+
+import { toggleChatReaction } from "@/actions/chat";
+import type { Reaction } from "@/lib/discord/api";
+
+import { ChatToast } from "./ChatToast";
+
+export const REACTION_PALETTE = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+export interface ChatReactionsProps {
+  messageId: string;
+  reactions: Reaction[];
+  username: string | null;
+  picking: boolean;
+  onPickEnd: () => void;
+  /** The chat room the message is in, general without one. */
+  room?: string;
+}
+
+const ReactionEmoji = ({ emoji }: { emoji: string }) => {
+  const [name, id] = emoji.split(":");
+
+  if (id === undefined) return emoji;
+
+  return (
+    // Discord's CDN already serves emoji at the size we ask for
+    <Image
+      src={`https://cdn.discordapp.com/emojis/${id}.webp?size=48`}
+      alt={`:${name}:`}
+      width={16}
+      height={16}
+      unoptimized
+    />
+  );
+};
+
+function reactionTitle({ emoji, count, users }: Reaction): string {
+  const others = count - users.length;
+  const names = others > 0 ? [...users, `${others} on Discord`] : users;
+  return `${emoji}: ${names.join(", ")}`;
+}
+
+export const ChatReactions = ({
+  messageId,
+  reactions,
+  username,
+  picking,
+  onPickEnd,
+  room,
+}: ChatReactionsProps) => {
+  const [error, setError] = useState<string>();
+  const [pending, startTransition] = useTransition();
+
+  if (reactions.length === 0 && !picking) return null;
+
+  function onToggle(emoji: string) {
+    onPickEnd();
+    startTransition(async () => {
+      const result = await toggleChatReaction(messageId, emoji, room);
+      setError(result.status === "error" ? result.error : undefined);
+    });
+  }
+
+  return (
+    <div className="chat-reactions">
+      {reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          className="reaction"
+          title={reactionTitle(reaction)}
+          aria-pressed={username !== null && reaction.users.includes(username)}
+          onClick={() => onToggle(reaction.emoji)}
+          disabled={pending}
+        >
+          <ReactionEmoji emoji={reaction.emoji} /> {reaction.count}
+        </button>
+      ))}
+      {picking && (
+        <span role="group" aria-label="Add reaction" className="palette">
+          {REACTION_PALETTE.map((emoji) => (
+            <button
+              key={emoji}
+              aria-label={`React with ${emoji}`}
+              onClick={() => onToggle(emoji)}
+              disabled={pending}
+            >
+              {emoji}
+            </button>
+          ))}
+        </span>
+      )}
+      <ChatToast variant="error" message={error} />
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { searchChat } from "@/actions/chat";
+import type { SearchMessage } from "@/lib/discord/api";
+
+import { ChatSearch } from "./ChatSearch";
+
+vi.mock(import("@/actions/chat"), () => ({ searchChat: vi.fn() }));
+
+const createSearchMessage = (
+  id: string,
+  content: string,
+  username = "alice",
+): SearchMessage => ({
+  id,
+  username,
+  content,
+  timestamp: "2025-01-01T00:00:00.000Z",
+});
+
+describe("ChatSearch", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("searches the room with the filters and shows hits in context", async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchChat).mockResolvedValue({
+      status: "ok",
+      total: 30,
+      hits: [
+        {
+          hit: createSearchMessage("2", "hello there"),
+          context: [
+            createSearchMessage("3", "after", "bob"),
+            createSearchMessage("1", "before", "bob"),
+          ],
+        },
+      ],
+    });
+
+    render(<ChatSearch room="music" onJump={vi.fn()} />);
+
+    expect(screen.getByRole("searchbox")).toHaveAttribute(
+      "placeholder",
+      "Search #music...",
+    );
+
+    await user.type(screen.getByRole("searchbox"), "hello");
+    await user.type(screen.getByRole("textbox", { name: "By username" }), "al");
+    await user.type(screen.getByLabelText("From"), "2025-01-01");
+    await user.click(screen.getByRole("button", { name: "Search" }));
+
+    const formData = vi.mocked(searchChat).mock.calls[0]?.[0];
+    expect(Object.fromEntries(formData ?? [])).toEqual({
+      room: "music",
+      text: "hello",
+      username: "al",
+      from: "2025-01-01",
+      to: "",
+    });
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "30 messages found, showing the latest 1",
+    );
+
+    const [result] = within(
+      screen.getByRole("list", { name: "Search results" }),
+    ).getAllByRole("listitem");
+    expect(
+      Array.from(result?.children ?? [], (child) => child.textContent),
+    ).toEqual([
+      "bob: before",
+      expect.stringContaining("alice: hello there"),
+      "bob: after",
+    ]);
+  });
+
+  it("jumps to the hit that is picked", async () => {
+    const user = userEvent.setup();
+    const onJump = vi.fn();
+    vi.mocked(searchChat).mockResolvedValue({
+      status: "ok",
+      total: 1,
+      hits: [{ hit: createSearchMessage("2", "hello there"), context: [] }],
+    });
+
+    const { rerender } = render(<ChatSearch room="general" onJump={onJump} />);
+    await user.type(screen.getByRole("searchbox"), "hello{Enter}");
+    await user.click(screen.getByRole("button", { name: /hello there/ }));
+
+    expect(onJump).toHaveBeenCalledWith("2");
+
+    rerender(<ChatSearch room="general" onJump={onJump} resultsHidden />);
+
+    expect(screen.queryByRole("list")).not.toBeInTheDocument();
+    expect(screen.getByRole("searchbox")).toHaveValue("hello");
+  });
+
+  it("shows when nothing was found or the search failed", async () => {
+    const user = userEvent.setup();
+    vi.mocked(searchChat)
+      .mockResolvedValueOnce({ status: "ok", total: 0, hits: [] })
+      .mockResolvedValueOnce({
+        status: "error",
+        error: "Rate limit exceeded. Wait 10 seconds before trying again.",
+        retryAfter: 10_000,
+      });
+
+    render(<ChatSearch room="general" onJump={vi.fn()} />);
+    await user.type(screen.getByRole("searchbox"), "nothing{Enter}");
+
+    expect(screen.getByRole("status")).toHaveTextContent("No messages found");
+
+    await user.click(screen.getByRole("button", { name: "Search" }));
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Rate limit exceeded. Wait 10 seconds before trying again.",
+    );
+  });
+});
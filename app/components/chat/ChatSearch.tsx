@@ -0,0 +1,142 @@
+"use client";
+
+import { type FormEvent, useState, useTransition } from "react";
+
+import { searchChat, type SearchChatResult } from "@/actions/chat";
+import { RelativeTime } from "@/components/RelativeTime";
+import type { SearchHit } from "@/lib/discord/api";
+
+import { isNewerId } from "./unread";
+
+export interface ChatSearchProps {
+  /** The chat room to search. */
+  room: string;
+  /** Called with the message the visitor picked, to show it in context. */
+  onJump: (messageId: string) => void;
+  /** Hides the results while one of them is shown in context. */
+  resultsHidden?: boolean;
+}
+
+function describeResult(pending: boolean, result: SearchChatResult) {
+  if (pending) return "Searching...";
+  if (result.status === "initial") return null;
+  if (result.status === "error") return result.error;
+  if (result.total === 0) return "No messages found";
+
+  const found = `${result.total} message${result.total === 1 ? "" : "s"} found`;
+  return result.total > result.hits.length
+    ? `${found}, showing the latest ${result.hits.length}`
+    : found;
+}
+
+const SearchResult = ({
+  hit,
+  context,
+  onJump,
+}: SearchHit & Pick<ChatSearchProps, "onJump">) => {
+  const messages = [...context, hit].sort((a, b) =>
+    isNewerId(a.id, b.id) ? 1 : -1,
+  );
+
+  return (
+    <li>
+      {messages.map((message) =>
+        message.id === hit.id ? (
+          <button
+            key={message.id}
+            className="hit"
+            title="Show in the chat"
+            onClick={() => onJump(message.id)}
+          >
+            <span className="user">{message.username}</span>: {message.content}{" "}
+            <span className="time">
+              <RelativeTime date={new Date(message.timestamp)} />
+            </span>
+          </button>
+        ) : (
+          <p key={message.id} className="context">
+            <span className="user">{message.username}</span>: {message.content}
+          </p>
+        ),
+      )}
+    </li>
+  );
+};
+
+export const ChatSearch = ({
+  room,
+  onJump,
+  resultsHidden = false,
+}: ChatSearchProps) => {
+  const [result, setResult] = useState<SearchChatResult>({ status: "initial" });
+  const [pending, startTransition] = useTransition();
+
+  function onSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+
+    startTransition(async () => {
+      const result = await searchChat(formData);
+      // Nested startTransition required: after await, we're outside the original transition context
+      startTransition(() => {
+        setResult(result);
+      });
+    });
+  }
+
+  const description = describeResult(pending, result);
+
+  return (
+    <div className="chat-search">
+      <form role="search" onSubmit={onSubmit}>
+        <input type="hidden" name="room" value={room} />
+        <input
+          type="search"
+          name="text"
+          aria-label="Search messages"
+          placeholder={`Search #${room}...`}
+          className="text"
+          autoComplete="off"
+        />
+        <div className="filters">
+          <input
+            name="username"
+            aria-label="By username"
+            placeholder="By username"
+            autoComplete="off"
+          />
+          <label>
+            From <input type="date" name="from" />
+          </label>
+          <label>
+            To <input type="date" name="to" />
+          </label>
+          <button type="submit" disabled={pending}>
+            Search
+          </button>
+        </div>
+      </form>
+      {!resultsHidden && (
+        <>
+          {description && (
+            <p className="chat-hint" role="status">
+              {description}
+            </p>
+          )}
+          {result.status === "ok" && result.hits.length > 0 && (
+            <ol className="results" aria-label="Search results">
+              {result.hits.map(({ hit, context }) => (
+                <SearchResult
+                  key={hit.id}
+                  hit={hit}
+                  context={context}
+                  onJump={onJump}
+                />
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+
+import type { Message } from "@/lib/discord/schemas";
+
+import {
+  applyChatEvent,
+  findMessageById,
+  mergeOlderMessages,
+  withOrphans,
+} from "./messageTree";
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: "1",
+    user: { name: "TestUser", color: "hsl(0 100% 50%)" },
+    content: "Hello",
+    text: "Hello",
+    edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    replies: [],
+    ...overrides,
+  };
+}
+
+describe("findMessageById", () => {
+  it("finds top-level and nested messages", () => {
+    const nested = createMessage({ id: "3" });
+    const messages = [
+      createMessage({ id: "1" }),
+      createMessage({ id: "2", replies: [nested] }),
+    ];
+
+    expect(findMessageById(messages, "1")).toBe(messages[0]);
+    expect(findMessageById(messages, "3")).toBe(nested);
+    expect(findMessageById(messages, "4")).toBeNull();
+  });
+});
+
+describe("applyChatEvent", () => {
+  describe("message.create", () => {
+    it("inserts top-level messages sorted by id", () => {
+      const messages = [createMessage({ id: "1" }), createMessage({ id: "3" })];
+
+      const result = applyChatEvent(messages, {
+        type: "message.create",
+        parentId: null,
+        message: createMessage({ id: "2" }),
+      });
+
+      expect(result.map((m) => m.id)).toEqual(["1", "2", "3"]);
+    });
+
+    it("attaches replies to their parent", () => {
+      const untouched = createMessage({ id: "9" });
+      const messages = [
+        createMessage({ id: "1", replies: [createMessage({ id: "2" })] }),
+        untouched,
+      ];
+
+      const result = applyChatEvent(messages, {
+        type: "message.create",
+        parentId: "2",
+        message: createMessage({ id: "3" }),
+      });
+
+      expect(result).toMatchObject([
+        { id: "1", replies: [{ id: "2", replies: [{ id: "3" }] }] },
+        { id: "9" },
+      ]);
+      expect(result[1]).toBe(untouched);
+    });
+
+    it("drops replies to messages that are not in the tree", () => {
+      const messages = [createMessage({ id: "1" })];
+
+      const result = applyChatEvent(messages, {
+        type: "message.create",
+        parentId: "missing",
+        message: createMessage({ id: "2" }),
+      });
+
+      expect(result).toBe(messages);
+    });
+
+    it("ignores messages that are already in the tree", () => {
+      const messages = [createMessage({ id: "1" })];
+
+      const result = applyChatEvent(messages, {
+        type: "message.create",
+        parentId: null,
+        message: createMessage({ id: "1", content: "Duplicate" }),
+      });
+
+      expect(result).toBe(messages);
+    });
+  });
+
+  describe("message.update", () => {
+    it("replaces the message while keeping its replies", () => {
+      const reply = createMessage({ id: "2" });
+      const messages = [createMessage({ id: "1", replies: [reply] })];
+
+      const result = applyChatEvent(messages, {
+        type: "message.update",
+        message: createMessage({ id: "1", content: "Edited", edited: true }),
+      });
+
+      expect(result).toMatchObject([
+        { id: "1", content: "Edited", edited: true, replies: [{ id: "2" }] },
+      ]);
+      expect(result[0]!.replies[0]).toBe(reply);
+    });
+
+    it("returns the same tree when the message is unknown", () => {
+      const messages = [createMessage({ id: "1" })];
+
+      const result = applyChatEvent(messages, {
+        type: "message.update",
+        message: createMessage({ id: "2" }),
+      });
+
+      expect(result).toBe(messages);
+    });
+  });
+
+  describe("message.delete", () => {
+    it("removes nested messages together with their replies", () => {
+      const messages = [
+        createMessage({
+          id: "1",
+          replies: [
+            createMessage({ id: "2", replies: [createMessage({ id: "3" })] }),
+          ],
+        }),
+      ];
+
+      const result = applyChatEvent(messages, {
+        type: "message.delete",
+        id: "2",
+      });
+
+      expect(result).toMatchObject([{ id: "1", replies: [] }]);
+    });
+  });
+
+  describe("message.reactions", () => {
+    it("replaces the reactions of nested messages", () => {
+      const messages = [
+        createMessage({ id: "1", replies: [createMessage({ id: "2" })] }),
+      ];
+      const reactions = [{ emoji: "👍", count: 1, users: ["alice"] }];
+
+      const result = applyChatEvent(messages, {
+        type: "message.reactions",
+        id: "2",
+        reactions,
+      });
+
+      expect(result).toMatchObject([
+        { id: "1", replies: [{ id: "2", reactions }] },
+      ]);
+    });
+  });
+});
+
+describe("mergeOlderMessages", () => {
+  it("prepends older messages sorted by id", () => {
+    const messages = [createMessage({ id: "3" })];
+
+    const result = mergeOlderMessages(
+      messages,
+      {
+        messages: [createMessage({ id: "2" }), createMessage({ id: "1" })],
+        orphans: [],
+      },
+      [],
+    );
+
+    expect(result.messages.map((m) => m.id)).toEqual(["1", "2", "3"]);
+    expect(result.orphans).toEqual([]);
+  });
+
+  it("skips messages that are already in the tree", () => {
+    const existing = createMessage({ id: "2", content: "Newer copy" });
+
+    const result = mergeOlderMessages(
+      [existing],
+      {
+        messages: [createMessage({ id: "2", content: "Older copy" })],
+        orphans: [],
+      },
+      [],
+    );
+
+    expect(result.messages).toEqual([existing]);
+  });
+
+  it("attaches pending replies once their parent is loaded", () => {
+    const reply = createMessage({ id: "5" });
+
+    const result = mergeOlderMessages(
+      [createMessage({ id: "6" })],
+      { messages: [createMessage({ id: "2" })], orphans: [] },
+      [{ parentId: "2", message: reply }],
+    );
+
+    expect(result.messages[0]?.replies).toEqual([reply]);
+    expect(result.orphans).toEqual([]);
+  });
+
+  it("attaches replies to replies that cross several pages", () => {
+    // 5 replies to 3 (older page), which replies to 1 (oldest page)
+    const first = mergeOlderMessages([], { messages: [], orphans: [] }, [
+      { parentId: "3", message: createMessage({ id: "5" }) },
+    ]);
+    const second = mergeOlderMessages(
+      first.messages,
+      {
+        messages: [],
+        orphans: [{ parentId: "1", message: createMessage({ id: "3" }) }],
+      },
+      first.orphans,
+    );
+
+    expect(second.orphans).toHaveLength(2);
+
+    const third = mergeOlderMessages(
+      second.messages,
+      { messages: [createMessage({ id: "1" })], orphans: [] },
+      second.orphans,
+    );
+
+    expect(third.orphans).toEqual([]);
+    expect(findMessageById(third.messages, "5")).not.toBeNull();
+    expect(third.messages[0]?.replies[0]?.replies[0]?.id).toBe("5");
+  });
+
+  it("keeps replies whose parent is still not loaded", () => {
+    const orphan = { parentId: "0", message: createMessage({ id: "4" }) };
+
+    const result = mergeOlderMessages(
+      [],
+      { messages: [createMessage({ id: "2" })], orphans: [orphan] },
+      [],
+    );
+
+    expect(result.orphans).toEqual([orphan]);
+  });
+});
+
+describe("withOrphans", () => {
+  it("shows replies to messages before the page among its messages", () => {
+    const page = {
+      messages: [createMessage({ id: "2" }), createMessage({ id: "4" })],
+      orphans: [{ parentId: "1", message: createMessage({ id: "3" }) }],
+    };
+
+    expect(withOrphans(page).map(({ id }) => id)).toEqual(["2", "3", "4"]);
+  });
+});
@@ -0,0 +1,151 @@
+import { comparing, stringComparator } from "comparator.ts";
+
+import type { MessagesPage, OrphanMessage } from "@/lib/discord/api";
+import type { ChatEvent, Message } from "@/lib/discord/schemas";
+
+const messageIdComparator = comparing(
+  (msg: Message) => msg.id,
+  stringComparator,
+);
+
+export const findMessageById = (
+  messages: Message[],
+  id: string,
+): Message | null => {
+  for (const message of messages) {
+    if (message.id === id) {
+      return message;
+    }
+    const foundInReplies = findMessageById(message.replies, id);
+    if (foundInReplies) {
+      return foundInReplies;
+    }
+  }
+  return null;
+};
+
+/**
+ * Returns a copy of the tree where the message with the given id is replaced
+ * by the result of `update`, or removed (with its replies) if it returns null.
+ * Unchanged branches keep their identity.
+ */
+const updateMessage = (
+  messages: Message[],
+  id: string,
+  update: (message: Message) => Message | null,
+): Message[] => {
+  let changed = false;
+  const result: Message[] = [];
+
+  for (const message of messages) {
+    if (message.id === id) {
+      changed = true;
+      const updated = update(message);
+      if (updated) result.push(updated);
+      continue;
+    }
+
+    const replies = updateMessage(message.replies, id, update);
+    if (replies !== message.replies) {
+      changed = true;
+      result.push({ ...message, replies });
+    } else {
+      result.push(message);
+    }
+  }
+
+  return changed ? result : messages;
+};
+
+const insertMessage = (messages: Message[], message: Message): Message[] =>
+  [...messages, message].sort(messageIdComparator);
+
+/**
+ * Applies a chat event pushed over SSE to the message tree. Replies to
+ * messages that are not in the tree are dropped, matching how the server
+ * builds the history.
+ */
+export const applyChatEvent = (
+  messages: Message[],
+  event: ChatEvent,
+): Message[] => {
+  switch (event.type) {
+    case "message.create":
+      if (findMessageById(messages, event.message.id)) return messages;
+      if (event.parentId === null) {
+        return insertMessage(messages, event.message);
+      }
+      return updateMessage(messages, event.parentId, (parent) => ({
+        ...parent,
+        replies: insertMessage(parent.replies, event.message),
+      }));
+
+    case "message.update":
+      return updateMessage(messages, event.message.id, (message) => ({
+        ...event.message,
+        replies: message.replies,
+      }));
+
+    case "message.delete":
+      return updateMessage(messages, event.id, () => null);
+
+    case "message.reactions":
+      return updateMessage(messages, event.id, (message) => ({
+        ...message,
+        reactions: event.reactions,
+      }));
+
+    case "typing":
+    case "presence":
+      return messages;
+  }
+};
+
+/**
+ * Merges an older page of history into the tree. Replies waiting for their
+ * parent, from this or newer pages, are attached once it is loaded and the
+ * rest are returned to wait for the next page.
+ */
+export const mergeOlderMessages = (
+  messages: Message[],
+  page: Pick<MessagesPage, "messages" | "orphans">,
+  pending: OrphanMessage[],
+): { messages: Message[]; orphans: OrphanMessage[] } => {
+  let merged = [
+    ...page.messages.filter(
+      (message) => !findMessageById(messages, message.id),
+    ),
+    ...messages,
+  ].sort(messageIdComparator);
+  let orphans = [...pending, ...page.orphans];
+
+  // Orphans can be replies to other orphans, so repeat until nothing attaches
+  let attached = true;
+  while (attached) {
+    attached = false;
+    orphans = orphans.filter(({ parentId, message }) => {
+      if (!findMessageById(merged, parentId)) return true;
+      merged = applyChatEvent(merged, {
+        type: "message.create",
+        parentId,
+        message,
+      });
+      attached = true;
+      return false;
+    });
+  }
+
+  return { messages: merged, orphans };
+};
+
+/**
+ * The page's messages with the replies to messages before it among them,
+ * for pages shown on their own.
+ */
+export const withOrphans = ({
+  messages,
+  orphans,
+}: Pick<MessagesPage, "messages" | "orphans">): Message[] =>
+  [...messages, ...orphans.map(({ message }) => message)].sort(
+    messageIdComparator,
+  );
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { ChatEvent, Message } from "@/lib/discord/schemas";
+
+import {
+  areNotificationsEnabled,
+  changeNotificationSetting,
+  findNotification,
+  isBellEnabled,
+  isMention,
+  notify,
+  requestNotificationPermission,
+} from "./notifications";
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: "1",
+    user: { name: "alice", color: "hsl(0 100% 50%)" },
+    content: "Hello",
+    text: "Hello",
+    edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    replies: [],
+    ...overrides,
+  };
+}
+
+const created = (
+  message: Message,
+  parentId: string | null = null,
+): ChatEvent => ({ type: "message.create", parentId, message });
+
+const bob = { name: "bob", color: "hsl(0 100% 50%)" } as const;
+
+function createMockNotification(permission: NotificationPermission) {
+  const instances: { title: string; options: NotificationOptions }[] = [];
+
+  class MockNotification {
+    static permission = permission;
+    static requestPermission = vi.fn(() => Promise.resolve(permission));
+    onclick: (() => void) | null = null;
+    close = vi.fn();
+
+    constructor(title: string, options: NotificationOptions) {
+      instances.push({ title, options });
+    }
+  }
+
+  return { MockNotification, instances };
+}
+
+describe("isMention", () => {
+  it("finds the name as a word of its own, @ or not", () => {
+    expect(isMention("hey @alice!", "alice")).toBe(true);
+    expect(isMention("Alice, look", "alice")).toBe(true);
+    expect(isMention("thanks alice.", "alice")).toBe(true);
+    expect(isMention("malice", "alice")).toBe(false);
+    expect(isMention("alice_2 was here", "alice")).toBe(false);
+    expect(isMention("a.b+c", "a.b+c")).toBe(true);
+  });
+});
+
+describe("findNotification", () => {
+  const messages = [
+    createMessage({ id: "1", user: { ...bob, name: "alice" }, own: true }),
+    createMessage({ id: "2", user: bob }),
+    // Posted by another visitor going by the same name
+    createMessage({ id: "5", user: { ...bob, name: "alice" } }),
+  ];
+
+  it("notifies of replies to the visitor's messages", () => {
+    expect(
+      findNotification(
+        created(createMessage({ id: "3", user: bob, text: "Hi!" }), "1"),
+        messages,
+        "alice",
+      ),
+    ).toEqual({ title: "bob replied to you", body: "Hi!", tag: "3" });
+  });
+
+  it("notifies of replies to messages posted under an earlier name", () => {
+    expect(
+      findNotification(
+        created(createMessage({ id: "3", user: bob, text: "Hi!" }), "1"),
+        messages,
+        "alice2",
+      ),
+    ).toEqual({ title: "bob replied to you", body: "Hi!", tag: "3" });
+  });
+
+  it("notifies of simon-bot's replies", () => {
+    const reply = createMessage({
+      id: "3",
+      user: { ...bob, name: "simon-bot" },
+      text: "Beep",
+    });
+
+    expect(findNotification(created(reply, "1"), messages, "alice")).toEqual({
+      title: "simon-bot replied to you",
+      body: "Beep",
+      tag: "3",
+    });
+  });
+
+  it("notifies of mentions", () => {
+    const mention = createMessage({ id: "3", user: bob, text: "@alice hi" });
+
+    expect(findNotification(created(mention, "2"), messages, "alice")).toEqual({
+      title: "bob mentioned you",
+      body: "@alice hi",
+      tag: "3",
+    });
+  });
+
+  it("notifies of anything someone else writes in the private thread", () => {
+    const reply = createMessage({ id: "3", user: { ...bob, name: "simon" } });
+    const own = createMessage({ id: "4", own: true });
+
+    expect(findNotification(created(reply), [], "alice", true)).toEqual({
+      title: "simon replied to you",
+      body: "Hello",
+      tag: "3",
+    });
+    expect(findNotification(created(own), [], "alice", true)).toBe(null);
+  });
+
+  it("does not notify of other messages", () => {
+    const other = createMessage({ id: "3", user: bob, text: "hi" });
+    const own = createMessage({ id: "4", text: "@alice", own: true });
+
+    expect(findNotification(created(other, "2"), messages, "alice")).toBe(null);
+    expect(findNotification(created(other, "5"), messages, "alice")).toBe(null);
+    expect(findNotification(created(own, "1"), messages, "alice")).toBe(null);
+    expect(findNotification(created(other, "1"), messages, null)).toBe(null);
+    expect(
+      findNotification({ type: "message.delete", id: "1" }, messages, "alice"),
+    ).toBe(null);
+  });
+
+  it("shortens long messages", () => {
+    const long = createMessage({ id: "3", user: bob, text: "a".repeat(200) });
+
+    expect(
+      findNotification(created(long, "1"), messages, "alice")?.body,
+    ).toHaveLength(120);
+  });
+});
+
+describe("notify", () => {
+  let visibilityState: "visible" | "hidden";
+
+  beforeEach(() => {
+    visibilityState = "hidden";
+    vi.spyOn(document, "visibilityState", "get").mockImplementation(
+      () => visibilityState,
+    );
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const notification = { title: "bob replied to you", body: "Hi!", tag: "3" };
+
+  it("shows a notification while the tab is hidden", () => {
+    const { MockNotification, instances } = createMockNotification("granted");
+    vi.stubGlobal("Notification", MockNotification);
+
+    notify(notification);
+    visibilityState = "visible";
+    notify(notification);
+
+    expect(instances).toEqual([
+      { title: "bob replied to you", options: { body: "Hi!", tag: "3" } },
+    ]);
+  });
+
+  it("does not show notifications once turned off or without permission", () => {
+    const { MockNotification, instances } = createMockNotification("granted");
+    vi.stubGlobal("Notification", MockNotification);
+
+    expect(changeNotificationSetting("notify", false)).toBe(
+      "Notifications are off",
+    );
+    notify(notification);
+    vi.stubGlobal(
+      "Notification",
+      createMockNotification("denied").MockNotification,
+    );
+    changeNotificationSetting("notify", true);
+    notify(notification);
+
+    expect(instances).toEqual([]);
+  });
+});
+
+describe("settings", () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  it("asks for permission unless notifications are off", () => {
+    const { MockNotification } = createMockNotification("default");
+    vi.stubGlobal("Notification", MockNotification);
+
+    expect(areNotificationsEnabled()).toBe(true);
+    changeNotificationSetting("notify", false);
+    requestNotificationPermission();
+    expect(MockNotification.requestPermission).not.toHaveBeenCalled();
+
+    expect(changeNotificationSetting("notify", true)).toBe(
+      "You'll be notified when you're replied to or mentioned",
+    );
+    expect(MockNotification.requestPermission).toHaveBeenCalledOnce();
+  });
+
+  it("tells the visitor when notifications are blocked", () => {
+    vi.stubGlobal(
+      "Notification",
+      createMockNotification("denied").MockNotification,
+    );
+
+    expect(changeNotificationSetting("notify", true)).toBe(
+      "Notifications are blocked for this site in your browser",
+    );
+  });
+
+  it("keeps the bell off until turned on", () => {
+    expect(isBellEnabled()).toBe(false);
+
+    expect(changeNotificationSetting("bell", true)).toBe(
+      "The bell rings when you're replied to or mentioned",
+    );
+    expect(isBellEnabled()).toBe(true);
+
+    expect(changeNotificationSetting("bell", false)).toBe("The bell is off");
+    expect(isBellEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import type { ChatEvent, Message } from "@/lib/discord/schemas";
+
+import { findMessageById } from "./messageTree";
+
+// Notifications are on unless turned off, the bell is off unless turned on
+const NOTIFICATIONS_KEY = "chat:notifications";
+const BELL_KEY = "chat:bell";
+const MAX_BODY_LENGTH = 120;
+
+export type NotificationSetting = "notify" | "bell";
+
+// Storage can be full or turned off, in which case the defaults apply
+const readSetting = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeSetting = (key: string, value: string): void => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Only lasts until the page is closed then
+  }
+};
+
+const supportsNotifications = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+export const areNotificationsEnabled = (): boolean =>
+  readSetting(NOTIFICATIONS_KEY) !== "off";
+
+export const isBellEnabled = (): boolean => readSetting(BELL_KEY) === "on";
+
+/**
+ * Asks for permission to show notifications, unless the visitor turned them
+ * off or has already answered. Browsers only ask in response to the
+ * visitor doing something, like posting a message.
+ */
+export const requestNotificationPermission = (): void => {
+  if (
+    !supportsNotifications() ||
+    !areNotificationsEnabled() ||
+    Notification.permission !== "default"
+  ) {
+    return;
+  }
+  void Notification.requestPermission();
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Whether the text mentions the name as a word of its own, @ or not. */
+export const isMention = (text: string, name: string): boolean =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}_.-])@?${escapeRegExp(name)}(?![\\p{L}\\p{N}_-])`,
+    "iu",
+  ).test(text);
+
+export type ChatNotification = { title: string; body: string; tag: string };
+
+/**
+ * What to notify the visitor of for a chat event: someone, simon-bot
+ * included, replying to one of their messages or mentioning them. Anything
+ * someone else writes in the visitor's private thread is a reply to them.
+ */
+export const findNotification = (
+  event: ChatEvent,
+  messages: Message[],
+  username: string | null,
+  thread = false,
+): ChatNotification | null => {
+  if (event.type !== "message.create" || username === null) return null;
+
+  const { message, parentId } = event;
+  if (message.own) return null;
+
+  const parent = parentId ? findMessageById(messages, parentId) : null;
+  const action =
+    thread || parent?.own
+      ? "replied to you"
+      : isMention(message.text, username)
+        ? "mentioned you"
+        : null;
+  if (!action) return null;
+
+  const body =
+    message.text.length > MAX_BODY_LENGTH
+      ? `${message.text.slice(0, MAX_BODY_LENGTH - 1)}…`
+      : message.text;
+  return { title: `${message.user.name} ${action}`, body, tag: message.id };
+};
+
+let audioContext: AudioContext | null = null;
+
+/** Beeps like a terminal bell, if the visitor turned it on. */
+export const ringBell = (): void => {
+  if (!isBellEnabled() || typeof AudioContext === "undefined") return;
+
+  audioContext ??= new AudioContext();
+  void audioContext.resume();
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  const start = audioContext.currentTime;
+  oscillator.type = "square";
+  oscillator.frequency.value = 880;
+  gain.gain.setValueAtTime(0.05, start);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.15);
+  oscillator.connect(gain).connect(audioContext.destination);
+  oscillator.start(start);
+  oscillator.stop(start + 0.15);
+};
+
+/**
+ * Shows the notification while the visitor is looking at another tab, and
+ * rings the bell either way.
+ */
+export const notify = ({ title, body, tag }: ChatNotification): void => {
+  ringBell();
+
+  if (
+    document.visibilityState === "visible" ||
+    !supportsNotifications() ||
+    !areNotificationsEnabled() ||
+    Notification.permission !== "granted"
+  ) {
+    return;
+  }
+
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
+
+/** Turns a setting on or off, returning what the visitor should be told. */
+export const changeNotificationSetting = (
+  setting: NotificationSetting,
+  enabled: boolean,
+): string => {
+  if (setting === "bell") {
+    writeSetting(BELL_KEY, enabled ? "on" : "off");
+    // Rung right away, as browsers only play sound after the visitor acts
+    ringBell();
+    return enabled
+      ? "The bell rings when you're replied to or mentioned"
+      : "The bell is off";
+  }
+
+  writeSetting(NOTIFICATIONS_KEY, enabled ? "on" : "off");
+  if (!enabled) return "Notifications are off";
+  if (!supportsNotifications()) {
+    return "Your browser doesn't support notifications";
+  }
+  if (Notification.permission === "denied") {
+    return "Notifications are blocked for this site in your browser";
+  }
+
+  requestNotificationPermission();
+  return "You'll be notified when you're replied to or mentioned";
+};
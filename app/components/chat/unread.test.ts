@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import type { Message } from "@/lib/discord/schemas";
+
+import {
+  findNewestId,
+  findUnread,
+  isNewerId,
+  laterId,
+  readLastSeen,
+  writeLastSeen,
+} from "./unread";
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: "1",
+    user: { name: "TestUser", color: "hsl(0 100% 50%)" },
+    content: "Hello",
+    text: "Hello",
+    edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    replies: [],
+    ...overrides,
+  };
+}
+
+describe("isNewerId", () => {
+  it("compares ids as numbers", () => {
+    expect(isNewerId("10", "9")).toBe(true);
+    expect(isNewerId("9", "10")).toBe(false);
+    expect(isNewerId("12", "11")).toBe(true);
+    expect(isNewerId("11", "11")).toBe(false);
+  });
+});
+
+describe("laterId", () => {
+  it("picks the later id, or whichever there is", () => {
+    expect(laterId("9", "10")).toBe("10");
+    expect(laterId("10", "9")).toBe("10");
+    expect(laterId(null, "9")).toBe("9");
+    expect(laterId("9", null)).toBe("9");
+    expect(laterId(null, null)).toBeNull();
+  });
+});
+
+describe("findNewestId", () => {
+  it("finds the latest message, replies included", () => {
+    const messages = [
+      createMessage({ id: "1", replies: [createMessage({ id: "4" })] }),
+      createMessage({ id: "3" }),
+    ];
+
+    expect(findNewestId(messages)).toBe("4");
+    expect(findNewestId([])).toBeNull();
+  });
+});
+
+describe("findUnread", () => {
+  it("finds others' messages posted after the last seen, oldest first", () => {
+    const messages = [
+      createMessage({
+        id: "1",
+        replies: [
+          createMessage({ id: "5" }),
+          createMessage({
+            id: "6",
+            user: { name: "me", color: "hsl(0 100% 50%)" },
+          }),
+        ],
+      }),
+      createMessage({ id: "2" }),
+      createMessage({ id: "3" }),
+    ];
+
+    expect(findUnread(messages, "2", "me").map(({ id }) => id)).toEqual([
+      "3",
+      "5",
+    ]);
+  });
+});
+
+describe("last seen storage", () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("remembers the last seen message per room", () => {
+    expect(readLastSeen()).toBeNull();
+
+    writeLastSeen("123");
+    writeLastSeen("456", "music");
+
+    expect(readLastSeen()).toBe("123");
+    expect(readLastSeen("general")).toBe("123");
+    expect(readLastSeen("music")).toBe("456");
+  });
+});
@@ -0,0 +1,58 @@
+import type { Message } from "@/lib/discord/schemas";
+
+const LAST_SEEN_PREFIX = "chat:last-seen:";
+
+/** Whether the message `id` was posted after the message `than`. */
+export const isNewerId = (id: string, than: string): boolean =>
+  id.length === than.length ? id > than : id.length > than.length;
+
+/** The later of two message ids, either of which may be missing. */
+export const laterId = (a: string | null, b: string | null): string | null =>
+  a === null ? b : b === null || !isNewerId(b, a) ? a : b;
+
+/** The id of the latest message in the tree, replies included. */
+export const findNewestId = (messages: Message[]): string | null =>
+  messages.reduce<string | null>(
+    (newest, message) =>
+      laterId(laterId(newest, message.id), findNewestId(message.replies)),
+    null,
+  );
+
+/**
+ * The messages in the tree posted after `lastSeen` by anyone but the
+ * visitor, oldest first.
+ */
+export const findUnread = (
+  messages: Message[],
+  lastSeen: string,
+  username?: string | null,
+): Message[] => {
+  const unread: Message[] = [];
+  const visit = (messages: Message[]) => {
+    for (const message of messages) {
+      if (isNewerId(message.id, lastSeen) && message.user.name !== username) {
+        unread.push(message);
+      }
+      visit(message.replies);
+    }
+  };
+  visit(messages);
+  return unread.sort((a, b) => (isNewerId(a.id, b.id) ? 1 : -1));
+};
+
+// Storage can be full or turned off, in which case nothing is remembered
+export const readLastSeen = (room = "general"): string | null => {
+  try {
+    return localStorage.getItem(`${LAST_SEEN_PREFIX}${room}`);
+  } catch {
+    return null;
+  }
+};
+
+export const writeLastSeen = (id: string, room = "general"): void => {
+  try {
+    localStorage.setItem(`${LAST_SEEN_PREFIX}${room}`, id);
+  } catch {
+    // Only lasts until the page is closed then
+  }
+};
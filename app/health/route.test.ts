@@ -1,15 +1,49 @@
 import { connection } from "next/server";
-import { describe, expect, it, vi } from "vitest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getLeader } from "@/lib/discord/relay";
+import { log } from "@/lib/log";
 
 import { GET } from "./route";
 
 vi.mock(import("next/server"), () => ({ connection: vi.fn() }));
+vi.mock(import("@/lib/discord/relay"), () => ({ getLeader: vi.fn() }));
+vi.mock(import("@/lib/instanceId"), () => ({ instanceId: "host-1234abcd" }));
 
 describe("GET /health", () => {
-  it("should return 200 OK", async () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return 200 OK with the gateway leader", async () => {
+    vi.mocked(getLeader).mockResolvedValue("host-5678efgh");
+
     const response = await GET();
+
     expect(response.status).toBe(200);
-    expect(await response.text()).toBe("OK");
+    expect(await response.json()).toEqual({
+      status: "ok",
+      instance: "host-1234abcd",
+      leader: "host-5678efgh",
+    });
     expect(connection).toHaveBeenCalledOnce();
   });
+
+  it("should stay healthy when the leader cannot be read", async () => {
+    const errorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    vi.mocked(getLeader).mockRejectedValue(new Error("Redis down"));
+
+    const response = await GET();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      status: "ok",
+      instance: "host-1234abcd",
+      leader: null,
+    });
+    expect(errorSpy).toHaveBeenCalledWith(
+      { err: expect.any(Error) },
+      "Failed to read gateway leader",
+    );
+  });
 });
@@ -1,6 +1,17 @@
 import { connection } from "next/server";
 
+import { getLeader } from "@/lib/discord/relay";
+import { instanceId } from "@/lib/instanceId";
+import { log } from "@/lib/log";
+
 export async function GET() {
   await connection();
-  return new Response("OK", { status: 200 });
+
+  // Leadership is informational, the instance is healthy regardless
+  const leader = await getLeader().catch((err: unknown) => {
+    log.error({ err }, "Failed to read gateway leader");
+    return null;
+  });
+
+  return Response.json({ status: "ok", instance: instanceId, leader });
 }
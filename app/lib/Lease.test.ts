@@ -0,0 +1,204 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { log } from "@/lib/log";
+import { MockRedis } from "@/mocks/redis";
+
+import { Lease, type LeaseOptions } from "./Lease";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+const TTL_MS = 3000;
+
+describe("Lease", () => {
+  const leases: Lease[] = [];
+
+  function createLease(holder: string, options: Partial<LeaseOptions> = {}) {
+    const onAcquired = vi.fn();
+    const onLost = vi.fn();
+    const lease = new Lease("test:lease", holder, {
+      ttlMs: TTL_MS,
+      onAcquired,
+      onLost,
+      ...options,
+    });
+    leases.push(lease);
+    return { lease, onAcquired, onLost };
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(log, "info").mockImplementation(() => {});
+    vi.spyOn(log, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(leases.splice(0).map((lease) => lease.stop()));
+    redis.reset();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should acquire a free lease on start", async () => {
+    const { lease, onAcquired } = createLease("a");
+
+    await lease.start();
+
+    expect(lease.held).toBe(true);
+    expect(onAcquired).toHaveBeenCalledOnce();
+    expect(await redis.get("test:lease")).toBe("a");
+    expect(await redis.pttl("test:lease")).toBe(TTL_MS);
+  });
+
+  it("should let only one holder acquire the lease", async () => {
+    const a = createLease("a");
+    const b = createLease("b");
+
+    await a.lease.start();
+    await b.lease.start();
+
+    expect(a.lease.held).toBe(true);
+    expect(b.lease.held).toBe(false);
+    expect(b.onAcquired).not.toHaveBeenCalled();
+  });
+
+  it("should renew the lease while held", async () => {
+    const a = createLease("a");
+    const b = createLease("b");
+
+    await a.lease.start();
+    await b.lease.start();
+    await vi.advanceTimersByTimeAsync(TTL_MS * 3);
+
+    expect(a.lease.held).toBe(true);
+    expect(b.lease.held).toBe(false);
+    expect(await redis.pttl("test:lease")).toBeGreaterThan(TTL_MS / 2);
+  });
+
+  it("should be taken over once the holder stops renewing", async () => {
+    const a = createLease("a");
+    const b = createLease("b");
+
+    await a.lease.start();
+    await b.lease.start();
+
+    // Simulate a crashed holder: renewals no longer reach Redis
+    vi.spyOn(redis, "eval").mockResolvedValue(1);
+    await vi.advanceTimersByTimeAsync(TTL_MS + TTL_MS / 3);
+
+    expect(b.lease.held).toBe(true);
+    expect(b.onAcquired).toHaveBeenCalledOnce();
+  });
+
+  it("should report the lease as lost when renewal fails", async () => {
+    const { lease, onLost } = createLease("a");
+
+    await lease.start();
+    await redis.set("test:lease", "someone-else");
+    await vi.advanceTimersByTimeAsync(TTL_MS / 3);
+
+    expect(lease.held).toBe(false);
+    expect(onLost).toHaveBeenCalledOnce();
+  });
+
+  it("should release the lease on stop so others can take over", async () => {
+    const a = createLease("a");
+    const b = createLease("b");
+
+    await a.lease.start();
+    await b.lease.start();
+    await a.lease.stop();
+
+    expect(a.lease.held).toBe(false);
+    expect(a.onLost).toHaveBeenCalledOnce();
+    expect(await redis.get("test:lease")).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(TTL_MS / 3);
+
+    expect(b.lease.held).toBe(true);
+  });
+
+  it("should not release a lease held by someone else", async () => {
+    const { lease } = createLease("a");
+
+    await lease.start();
+    await redis.set("test:lease", "b");
+    await lease.stop();
+
+    expect(await redis.get("test:lease")).toBe("b");
+  });
+
+  it("should log and keep going when Redis fails", async () => {
+    const errorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    vi.spyOn(redis, "set").mockRejectedValueOnce(new Error("Redis down"));
+    const { lease } = createLease("a");
+
+    await lease.start();
+
+    expect(lease.held).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "test:lease" }),
+      "Lease renewal failed",
+    );
+
+    await vi.advanceTimersByTimeAsync(TTL_MS / 3);
+
+    expect(lease.held).toBe(true);
+  });
+
+  it("should step down once renewals have failed for a full TTL", async () => {
+    vi.spyOn(log, "error").mockImplementation(() => {});
+    const { lease, onLost } = createLease("a");
+
+    await lease.start();
+    vi.spyOn(redis, "eval").mockRejectedValue(new Error("Redis down"));
+    await vi.advanceTimersByTimeAsync(TTL_MS - TTL_MS / 3);
+
+    expect(lease.held).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(TTL_MS / 3);
+
+    expect(lease.held).toBe(false);
+    expect(onLost).toHaveBeenCalledOnce();
+  });
+
+  it("should log errors thrown by callbacks", async () => {
+    const errorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
+    const { lease } = createLease("a", {
+      onLost: () => {
+        throw new Error("Callback failed");
+      },
+    });
+
+    await lease.start();
+    await lease.release();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ key: "test:lease", held: false }),
+      "Lease callback failed",
+    );
+  });
+
+  it("should release the lease when acquiring it fails", async () => {
+    vi.spyOn(log, "error").mockImplementation(() => {});
+    const a = createLease("a", {
+      onAcquired: () => Promise.reject(new Error("Gateway closed")),
+    });
+    await a.lease.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(a.lease.held).toBe(false);
+    expect(a.onLost).toHaveBeenCalledOnce();
+    expect(await redis.get("test:lease")).toBeNull();
+
+    const b = createLease("b");
+    await b.lease.start();
+
+    expect(b.lease.held).toBe(true);
+  });
+});
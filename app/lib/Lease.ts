@@ -0,0 +1,136 @@
+import "server-only";
+
+import { log } from "@/lib/log";
+import { getRedis } from "@/lib/redis";
+
+// Only extend or release the lease if we still hold it
+const RENEW_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+export interface LeaseOptions {
+  /** How long the lease lasts without being renewed. */
+  ttlMs: number;
+  /**
+   * Called when this holder acquires the lease. If it fails, the lease is
+   * released for another holder to take over.
+   */
+  onAcquired?: () => void | Promise<void>;
+  /** Called when this holder loses the lease, e.g. after a failed renewal. */
+  onLost?: () => void | Promise<void>;
+}
+
+/**
+ * Redis-backed lease that at most one holder owns at a time. The holder
+ * renews it every third of the TTL, and the other candidates retry on the
+ * same interval so one of them takes over once it expires.
+ */
+export class Lease {
+  #key: string;
+  #holder: string;
+  #options: LeaseOptions;
+  #held = false;
+  #renewedAt = 0;
+  #timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(key: string, holder: string, options: LeaseOptions) {
+    this.#key = key;
+    this.#holder = holder;
+    this.#options = options;
+  }
+
+  get held(): boolean {
+    return this.#held;
+  }
+
+  async start(): Promise<void> {
+    if (this.#timer) return;
+
+    this.#timer = setInterval(
+      () => void this.#tick(),
+      Math.floor(this.#options.ttlMs / 3),
+    );
+    await this.#tick();
+  }
+
+  async stop(): Promise<void> {
+    if (this.#timer) {
+      clearInterval(this.#timer);
+      this.#timer = null;
+    }
+
+    await this.release();
+  }
+
+  /**
+   * Gives up the lease if held, like when the holder can't do its job,
+   * staying a candidate to acquire it again.
+   */
+  async release(): Promise<void> {
+    if (!this.#held) return;
+
+    this.#setHeld(false);
+    await getRedis()
+      .eval(RELEASE_SCRIPT, [this.#key], [this.#holder])
+      .catch((err) => {
+        log.error({ err, key: this.#key }, "Failed to release lease");
+      });
+  }
+
+  async #tick(): Promise<void> {
+    try {
+      if (this.#held) {
+        const renewed = await getRedis().eval(
+          RENEW_SCRIPT,
+          [this.#key],
+          [this.#holder, this.#options.ttlMs],
+        );
+        if (renewed === 1) {
+          this.#renewedAt = Date.now();
+        } else {
+          log.warn({ key: this.#key, holder: this.#holder }, "Lease lost");
+          this.#setHeld(false);
+        }
+      } else {
+        const acquired = await getRedis().set(this.#key, this.#holder, {
+          nx: true,
+          px: this.#options.ttlMs,
+        });
+        if (acquired === "OK") {
+          log.info({ key: this.#key, holder: this.#holder }, "Lease acquired");
+          this.#renewedAt = Date.now();
+          this.#setHeld(true);
+        }
+      }
+    } catch (err) {
+      log.error({ err, key: this.#key }, "Lease renewal failed");
+
+      // Without a renewal the key may have expired and been taken over, so
+      // step down rather than risk two holders
+      if (this.#held && Date.now() - this.#renewedAt >= this.#options.ttlMs) {
+        log.warn({ key: this.#key, holder: this.#holder }, "Lease expired");
+        this.#setHeld(false);
+      }
+    }
+  }
+
+  #setHeld(held: boolean): void {
+    this.#held = held;
+
+    const callback = held ? this.#options.onAcquired : this.#options.onLost;
+    void (async () => callback?.())().catch((err) => {
+      log.error({ err, key: this.#key, held }, "Lease callback failed");
+      if (held) void this.release();
+    });
+  }
+}
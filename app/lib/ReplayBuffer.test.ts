@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { ReplayBuffer } from "./ReplayBuffer";
+
+describe("ReplayBuffer", () => {
+  it("should start empty, without covering any id", () => {
+    const buffer = new ReplayBuffer<string>(3);
+
+    expect(buffer.size).toBe(0);
+    expect(buffer.lastId).toBeNull();
+    expect(buffer.since(0)).toBeNull();
+  });
+
+  it("should keep track of the latest id", () => {
+    const buffer = new ReplayBuffer<string>(3);
+
+    buffer.push(5, "a");
+    buffer.push(7, "b");
+    buffer.push(6, "c");
+
+    expect(buffer.lastId).toBe(7);
+  });
+
+  it("should return entries after the given id", () => {
+    const buffer = new ReplayBuffer<string>(3);
+
+    buffer.push(1, "a");
+    buffer.push(2, "b");
+    buffer.push(3, "c");
+
+    expect(buffer.since(1)?.map((entry) => entry.value)).toEqual(["b", "c"]);
+  });
+
+  it("should cover the id just before the first one it saw", () => {
+    const buffer = new ReplayBuffer<string>(3);
+
+    buffer.push(10, "a");
+    buffer.push(11, "b");
+
+    expect(buffer.since(9)?.map((entry) => entry.value)).toEqual(["a", "b"]);
+    expect(buffer.since(8)).toBeNull();
+  });
+
+  it("should cover skipped ids without replaying anything for them", () => {
+    const buffer = new ReplayBuffer<string>(3);
+
+    buffer.skip(10);
+    buffer.push(11, "a");
+    buffer.skip(12);
+
+    expect(buffer.since(9)?.map((entry) => entry.value)).toEqual(["a"]);
+    expect(buffer.since(12)).toEqual([]);
+  });
+
+  it("should evict the oldest entries beyond capacity", () => {
+    const buffer = new ReplayBuffer<string>(2);
+
+    buffer.push(1, "a");
+    buffer.push(2, "b");
+    buffer.push(3, "c");
+
+    expect(buffer.size).toBe(2);
+    expect(buffer.since(2)?.map((entry) => entry.value)).toEqual(["c"]);
+    expect(buffer.since(1)?.map((entry) => entry.value)).toEqual(["b", "c"]);
+  });
+
+  it("should return null when entries after the id were evicted", () => {
+    const buffer = new ReplayBuffer<string>(2);
+
+    buffer.push(1, "a");
+    buffer.push(2, "b");
+    buffer.push(3, "c");
+
+    expect(buffer.since(0)).toBeNull();
+  });
+
+  it("should return null for ids it has not seen", () => {
+    const buffer = new ReplayBuffer<string>(2);
+    buffer.push(1, "a");
+
+    expect(buffer.since(100)).toBeNull();
+    expect(buffer.since(Number.NaN)).toBeNull();
+  });
+});
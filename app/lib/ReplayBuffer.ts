@@ -0,0 +1,63 @@
+export interface ReplayEntry<T> {
+  id: number;
+  value: T;
+}
+
+/**
+ * Bounded buffer of values tagged with increasing ids.
+ *
+ * Ids are handed out by whoever publishes the values, so that they mean the
+ * same on every instance, and a client reconnecting to another instance can
+ * tell whether its buffer covers everything it missed. Ids the buffer has
+ * seen without a value to replay are skipped.
+ */
+export class ReplayBuffer<T> {
+  #entries: ReplayEntry<T>[] = [];
+  #capacity: number;
+  #lastId: number | null = null;
+  // Ids up to and including the horizon are not (or no longer) buffered
+  #horizon: number | null = null;
+
+  constructor(capacity: number) {
+    this.#capacity = capacity;
+  }
+
+  get size(): number {
+    return this.#entries.length;
+  }
+
+  get lastId(): number | null {
+    return this.#lastId;
+  }
+
+  #see(id: number): void {
+    this.#horizon ??= id - 1;
+    this.#lastId = Math.max(this.#lastId ?? id, id);
+  }
+
+  /** Notes an id that has nothing to replay, like for stale events. */
+  skip(id: number): void {
+    this.#see(id);
+  }
+
+  push(id: number, value: T): void {
+    this.#see(id);
+    this.#entries.push({ id, value });
+
+    if (this.#entries.length > this.#capacity) {
+      const evicted = this.#entries.shift();
+      /* v8 ignore else -- @preserve */
+      if (evicted) this.#horizon = Math.max(this.#horizon ?? 0, evicted.id);
+    }
+  }
+
+  /**
+   * Returns the entries after the given id, or null if some of them have
+   * already been evicted (or the id is unknown to this buffer).
+   */
+  since(id: number): ReplayEntry<T>[] | null {
+    if (this.#horizon === null || this.#lastId === null) return null;
+    if (!(id >= this.#horizon && id <= this.#lastId)) return null;
+    return this.#entries.filter((entry) => entry.id > id);
+  }
+}
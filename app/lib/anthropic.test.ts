@@ -13,7 +13,7 @@ import { log } from "@/lib/log";
 import { getStats } from "@/lib/wakaTime";
 import { server } from "@/mocks/node";
 
-import { createMessage } from "./anthropic";
+import { classifyMessage, createMessage } from "./anthropic";
 
 vi.mock(import("server-only"), () => ({}));
 vi.mock(import("@/lib/discord/api"), () => ({
@@ -733,7 +733,14 @@ describe("createMessage", () => {
           id: "1",
           user: { name: "User1", color: "hsl(0 50% 50%)" as const },
           content: "Hello",
+          text: "Hello",
           edited: false,
+          own: false,
+          reactions: [],
+          attachments: [],
+          embeds: [],
+          stickers: [],
+          previews: [],
           timestamp: new Date("2025-01-01T00:00:00.000000+00:00"),
           replies: [],
         },
@@ -741,7 +748,14 @@ describe("createMessage", () => {
           id: "2",
           user: { name: "User2", color: "hsl(120 50% 50%)" as const },
           content: "World",
+          text: "World",
           edited: false,
+          own: false,
+          reactions: [],
+          attachments: [],
+          embeds: [],
+          stickers: [],
+          previews: [],
           timestamp: new Date("2025-01-01T00:01:00.000000+00:00"),
           replies: [],
         },
@@ -798,7 +812,10 @@ describe("createMessage", () => {
         ]),
       );
 
-      expect(getChannelMessages).toHaveBeenCalledWith(5);
+      expect(getChannelMessages).toHaveBeenCalledWith(
+        "test-discord-channel-id",
+        5,
+      );
     });
 
     it("should call userGetTopTracks for get_top_tracks tool", async () => {
@@ -1189,7 +1206,10 @@ describe("createMessage", () => {
         ]),
       );
 
-      expect(getChannelMessages).toHaveBeenCalledWith(50);
+      expect(getChannelMessages).toHaveBeenCalledWith(
+        "test-discord-channel-id",
+        50,
+      );
       expect(getStats).toHaveBeenCalledWith("last_30_days", 10);
       expect(userGetRecentTracks).toHaveBeenCalledWith(config.lastfmUsername, {
         limit: 5,
@@ -1349,18 +1369,83 @@ describe("createMessage", () => {
       );
 
       const responses = await collectResponses(
-        createMessage([
-          { role: "user", username: TEST_USERNAME, content: "Test" },
-        ]),
+        createMessage(
+          [{ role: "user", username: TEST_USERNAME, content: "Test" }],
+          "1000000000000000001",
+        ),
       );
 
       expect(responses).toEqual(["found it"]);
-      expect(searchChannelMessages).toHaveBeenCalledWith({
-        content: "hello",
-        limit: 10,
-        sort_by: "timestamp",
-        sort_order: "asc",
-      });
+      expect(searchChannelMessages).toHaveBeenCalledWith(
+        "1000000000000000001",
+        {
+          content: "hello",
+          limit: 10,
+          sort_by: "timestamp",
+          sort_order: "asc",
+        },
+      );
     });
   });
 });
+
+describe("classifyMessage", () => {
+  it("should force the moderation tool and return its decision", async () => {
+    server.use(
+      http.post(ANTHROPIC_BASE_URL, async ({ request }) => {
+        expect(await request.json()).toMatchObject({
+          model: "claude-haiku-4-5",
+          system: expect.stringContaining("moderate"),
+          messages: [{ role: "user", content: "you are all idiots" }],
+          tools: [{ name: "moderate_message" }],
+          tool_choice: { type: "tool", name: "moderate_message" },
+        });
+
+        return HttpResponse.json({
+          content: [
+            {
+              type: "tool_use",
+              id: "tool_1",
+              name: "moderate_message",
+              input: { flagged: true, category: "harassment" },
+            },
+          ],
+          stop_reason: "tool_use",
+        });
+      }),
+    );
+
+    expect(await classifyMessage("you are all idiots")).toEqual({
+      flagged: true,
+      category: "harassment",
+    });
+  });
+
+  it("should throw when the API responds without a decision", async () => {
+    server.use(
+      http.post(ANTHROPIC_BASE_URL, () =>
+        HttpResponse.json({
+          content: [{ type: "text", text: "looks fine" }],
+          stop_reason: "end_turn",
+        }),
+      ),
+    );
+
+    await expect(classifyMessage("hello")).rejects.toThrow(
+      "no moderation decision",
+    );
+  });
+
+  it("should throw on API errors", async () => {
+    server.use(
+      http.post(
+        ANTHROPIC_BASE_URL,
+        () => new HttpResponse(null, { status: 529, statusText: "Overloaded" }),
+      ),
+    );
+
+    await expect(classifyMessage("hello")).rejects.toThrow(
+      "Anthropic API error: 529 Overloaded",
+    );
+  });
+});
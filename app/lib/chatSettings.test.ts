@@ -0,0 +1,145 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  checkSlowMode,
+  DEFAULT_RATE_LIMITS,
+  getChatVolume,
+  getRateLimit,
+  getSlowMode,
+  isBotEnabled,
+  recordChatVolume,
+  recordFirstPost,
+  setBotEnabled,
+  setRateLimits,
+  setSlowMode,
+  setUserRateLimit,
+  startSlowMode,
+} from "./chatSettings";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+afterEach(() => {
+  redis.reset();
+  vi.useRealTimers();
+});
+
+describe("slow mode", () => {
+  it("should be off by default", async () => {
+    expect(await getSlowMode()).toBe(0);
+    await startSlowMode("203.0.113.1");
+    expect(await checkSlowMode("203.0.113.1")).toBeNull();
+  });
+
+  it("should make each visitor wait between messages", async () => {
+    vi.useFakeTimers();
+    await setSlowMode(30);
+
+    expect(await checkSlowMode("203.0.113.1")).toBeNull();
+    expect(await checkSlowMode("203.0.113.1")).toBeNull();
+    await startSlowMode("203.0.113.1");
+    vi.advanceTimersByTime(10_000);
+    expect(await checkSlowMode("203.0.113.1")).toBe(20_000);
+    expect(await checkSlowMode("203.0.113.2")).toBeNull();
+
+    vi.advanceTimersByTime(20_000);
+    expect(await checkSlowMode("203.0.113.1")).toBeNull();
+  });
+
+  it("should turn off with 0 seconds", async () => {
+    await setSlowMode(30);
+    await setSlowMode(0);
+
+    expect(await getSlowMode()).toBe(0);
+  });
+});
+
+describe("bot", () => {
+  it("should be enabled until turned off", async () => {
+    expect(await isBotEnabled("general")).toBe(true);
+
+    await setBotEnabled("general", false);
+    expect(await isBotEnabled("general")).toBe(false);
+
+    await setBotEnabled("general", true);
+    expect(await isBotEnabled("general")).toBe(true);
+  });
+
+  it("should be turned on and off per room", async () => {
+    await setBotEnabled("music", false);
+
+    expect(await isBotEnabled("music")).toBe(false);
+    expect(await isBotEnabled("general")).toBe(true);
+  });
+});
+
+describe("getRateLimit", () => {
+  it("should be stricter for visitors who just started posting", async () => {
+    vi.useFakeTimers();
+
+    expect(await getRateLimit("alice")).toEqual(DEFAULT_RATE_LIMITS.newSession);
+    await recordFirstPost("alice");
+    vi.advanceTimersByTime(DEFAULT_RATE_LIMITS.newSessionSeconds * 1000);
+    expect(await getRateLimit("alice")).toEqual(DEFAULT_RATE_LIMITS.default);
+    expect(await getRateLimit("bob")).toEqual(DEFAULT_RATE_LIMITS.newSession);
+  });
+
+  it("should only count visitors as posting from their first post", async () => {
+    vi.useFakeTimers();
+
+    expect(await getRateLimit("alice")).toEqual(DEFAULT_RATE_LIMITS.newSession);
+    vi.advanceTimersByTime(DEFAULT_RATE_LIMITS.newSessionSeconds * 1000);
+    await recordFirstPost("alice");
+    expect(await getRateLimit("alice")).toEqual(DEFAULT_RATE_LIMITS.newSession);
+
+    vi.advanceTimersByTime(DEFAULT_RATE_LIMITS.newSessionSeconds * 1000);
+    await recordFirstPost("alice");
+    expect(await getRateLimit("alice")).toEqual(DEFAULT_RATE_LIMITS.default);
+  });
+
+  it("should use configured limits and overrides", async () => {
+    await setRateLimits({ newSession: { messages: 1, windowSeconds: 60 } });
+    await setUserRateLimit("alice", { messages: 20, windowSeconds: 10 });
+
+    expect(await getRateLimit("alice")).toEqual({
+      messages: 20,
+      windowSeconds: 10,
+    });
+    expect(await getRateLimit("bob")).toEqual({
+      messages: 1,
+      windowSeconds: 60,
+    });
+
+    await setUserRateLimit("alice", null);
+    expect(await getRateLimit("alice")).toEqual({
+      messages: 1,
+      windowSeconds: 60,
+    });
+  });
+
+  it("should halve limits while the chat is busy", async () => {
+    vi.useFakeTimers();
+    await setRateLimits({ spikeMessagesPerMinute: 3 });
+    await setUserRateLimit("alice", { messages: 5, windowSeconds: 30 });
+
+    await Promise.all(["1", "2", "3"].map(recordChatVolume));
+    expect(await getChatVolume()).toBe(3);
+    expect(await getRateLimit("alice")).toEqual({
+      messages: 2,
+      windowSeconds: 30,
+    });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await getChatVolume()).toBe(0);
+    expect(await getRateLimit("alice")).toEqual({
+      messages: 5,
+      windowSeconds: 30,
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import "server-only";
+
+import { getRedis } from "@/lib/redis";
+
+const SLOW_MODE_KEY = "chat:settings:slowmode";
+const SLOW_MODE_LAST_POST_PREFIX = "chat:slowmode:";
+const BOT_DISABLED_PREFIX = "chat:settings:bot-disabled:";
+const RATE_LIMITS_KEY = "chat:settings:rate-limits";
+const USER_RATE_LIMIT_PREFIX = "chat:settings:rate-limit:user:";
+const FIRST_POST_PREFIX = "chat:first-post:";
+const FIRST_POST_TTL_SECONDS = 30 * 24 * 60 * 60;
+const VOLUME_KEY = "chat:volume";
+const VOLUME_WINDOW_MS = 60 * 1000;
+
+/** How many messages a visitor can post within a sliding window. */
+export interface RateLimit {
+  messages: number;
+  windowSeconds: number;
+}
+
+export interface RateLimits {
+  /** For visitors without an override. */
+  default: RateLimit;
+  /** For visitors who first posted less than `newSessionSeconds` ago. */
+  newSession: RateLimit;
+  newSessionSeconds: number;
+  /**
+   * Messages per minute across the chat above which every limit is halved,
+   * 0 to never tighten them.
+   */
+  spikeMessagesPerMinute: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  default: { messages: 5, windowSeconds: 30 },
+  newSession: { messages: 2, windowSeconds: 30 },
+  newSessionSeconds: 10 * 60,
+  spikeMessagesPerMinute: 30,
+};
+
+/** Seconds visitors have to wait between messages, 0 when slow mode is off. */
+export async function getSlowMode(): Promise<number> {
+  return (await getRedis().get<number>(SLOW_MODE_KEY)) ?? 0;
+}
+
+export async function setSlowMode(seconds: number): Promise<void> {
+  const redis = getRedis();
+  await (seconds > 0
+    ? redis.set(SLOW_MODE_KEY, seconds)
+    : redis.del(SLOW_MODE_KEY));
+}
+
+/**
+ * How many milliseconds are left of a visitor's slow mode cooldown, or null
+ * when they can post.
+ */
+export async function checkSlowMode(
+  identifier: string,
+): Promise<number | null> {
+  if ((await getSlowMode()) === 0) return null;
+
+  const remaining = await getRedis().pttl(
+    `${SLOW_MODE_LAST_POST_PREFIX}${identifier}`,
+  );
+  return remaining > 0 ? remaining : null;
+}
+
+/** Starts a visitor's slow mode cooldown once their message is posted. */
+export async function startSlowMode(identifier: string): Promise<void> {
+  const seconds = await getSlowMode();
+  if (seconds === 0) return;
+
+  await getRedis().set(`${SLOW_MODE_LAST_POST_PREFIX}${identifier}`, 1, {
+    ex: seconds,
+  });
+}
+
+/** Whether the bot answers in the room, by the room's name. */
+export async function isBotEnabled(room: string): Promise<boolean> {
+  return (await getRedis().get(`${BOT_DISABLED_PREFIX}${room}`)) === null;
+}
+
+export async function setBotEnabled(
+  room: string,
+  enabled: boolean,
+): Promise<void> {
+  const redis = getRedis();
+  const key = `${BOT_DISABLED_PREFIX}${room}`;
+  await (enabled ? redis.del(key) : redis.set(key, 1));
+}
+
+export async function getRateLimits(): Promise<RateLimits> {
+  const stored = await getRedis().get<Partial<RateLimits>>(RATE_LIMITS_KEY);
+  return { ...DEFAULT_RATE_LIMITS, ...stored };
+}
+
+export async function setRateLimits(
+  changes: Partial<RateLimits>,
+): Promise<RateLimits> {
+  const limits = { ...(await getRateLimits()), ...changes };
+  await getRedis().set(RATE_LIMITS_KEY, limits);
+  return limits;
+}
+
+/** Replaces the limit for one visitor, or goes back to their tier with null. */
+export async function setUserRateLimit(
+  username: string,
+  limit: RateLimit | null,
+): Promise<void> {
+  const redis = getRedis();
+  const key = `${USER_RATE_LIMIT_PREFIX}${username}`;
+  await (limit ? redis.set(key, limit) : redis.del(key));
+}
+
+/** Counts a posted message towards the chat's volume. */
+export async function recordChatVolume(messageId: string): Promise<void> {
+  const redis = getRedis();
+  await redis.zadd(VOLUME_KEY, { score: Date.now(), member: messageId });
+  await redis.pexpire(VOLUME_KEY, VOLUME_WINDOW_MS);
+}
+
+/** Messages posted across the chat in the last minute. */
+export async function getChatVolume(): Promise<number> {
+  const redis = getRedis();
+  await redis.zremrangebyscore(VOLUME_KEY, 0, Date.now() - VOLUME_WINDOW_MS);
+  return redis.zcard(VOLUME_KEY);
+}
+
+/** Notes when a visitor first posted, which their rate limit depends on. */
+export async function recordFirstPost(username: string): Promise<void> {
+  await getRedis().set(`${FIRST_POST_PREFIX}${username}`, Date.now(), {
+    nx: true,
+    ex: FIRST_POST_TTL_SECONDS,
+  });
+}
+
+/**
+ * The limit that applies to a visitor: their override, or the tier for how
+ * long they've been posting, halved while the chat is busy.
+ */
+export async function getRateLimit(username: string): Promise<RateLimit> {
+  const redis = getRedis();
+  const [limits, override, firstPost, volume] = await Promise.all([
+    getRateLimits(),
+    redis.get<RateLimit>(`${USER_RATE_LIMIT_PREFIX}${username}`),
+    redis.get<number>(`${FIRST_POST_PREFIX}${username}`),
+    getChatVolume(),
+  ]);
+
+  const isNew =
+    firstPost === null ||
+    Date.now() - firstPost < limits.newSessionSeconds * 1000;
+  const limit = override ?? (isNew ? limits.newSession : limits.default);
+
+  const isSpiking =
+    limits.spikeMessagesPerMinute > 0 &&
+    volume >= limits.spikeMessagesPerMinute;
+  return isSpiking
+    ? { ...limit, messages: Math.max(1, Math.floor(limit.messages / 2)) }
+    : limit;
+}
@@ -1,6 +1,7 @@
 import { http, HttpResponse } from "msw";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
+import { getLinkPreview } from "@/lib/linkPreview";
 import { log } from "@/lib/log";
 import type { Username } from "@/lib/session";
 import { server } from "@/mocks/node";
@@ -8,15 +9,50 @@ import { server } from "@/mocks/node";
 import {
   _resetRateLimitState,
   _setRateLimitGate,
+  addOwnReaction,
+  createPrivateThread,
+  deferInteractionResponse,
+  deleteChannelMessage,
+  deleteChannelMessages,
+  editChannelMessage,
+  editInteractionResponse,
+  findGuildMemberIds,
   getChannelMessages,
+  getChannelMessagesPage,
   getMessageChain,
+  getMessageReactions,
+  getRecentChannelMessages,
+  isOwnChannelMessage,
+  markOwnMessages,
+  type Message,
   postChannelMessage,
+  registerGuildCommands,
+  removeOwnReaction,
+  resolveMessage,
   searchChannelMessages,
+  searchGuildMemberNames,
+  snowflakeAt,
 } from "./api";
+import { getRecordedSiteAuthor, recordSiteAuthor } from "./authors";
+import { getReactionUsers } from "./reactions";
 
 vi.mock(import("server-only"), () => ({}));
+vi.mock(import("@/lib/linkPreview"), async (importOriginal) => ({
+  ...(await importOriginal()),
+  getLinkPreview: vi.fn(() => Promise.resolve(null)),
+}));
+vi.mock(import("./reactions"), () => ({
+  getReactionUsers: vi.fn(() => Promise.resolve([])),
+}));
+vi.mock(import("./authors"), async (importOriginal) => ({
+  BOT_USERNAME: (await importOriginal()).BOT_USERNAME,
+  forgetSiteAuthors: vi.fn(),
+  getRecordedSiteAuthor: vi.fn(() => Promise.resolve(null)),
+  recordSiteAuthor: vi.fn(),
+}));
 
 const DISCORD_BASE_URL = "https://discord.com/api/v10";
+const CHANNEL_ID = "test-discord-channel-id";
 
 describe("getChannelMessages", () => {
   it("should fetch and parse messages successfully", async () => {
@@ -35,13 +71,20 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([
       {
         id: "1",
         content: "Hello world",
+        text: "Hello world",
         edited: false,
+        own: false,
+        reactions: [],
+        attachments: [],
+        embeds: [],
+        stickers: [],
+        previews: [],
         user: { name: "TestUser" },
       },
     ]);
@@ -63,7 +106,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([
       { id: "1", content: "", user: { name: "TestUser" } },
@@ -86,13 +129,48 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([
       { content: "<strong>Bold</strong> and <em>italic</em>" },
     ]);
   });
 
+  it("should resolve mentioned users and channels in content", async () => {
+    server.use(
+      http.get(`${DISCORD_BASE_URL}/channels/:channelId/messages`, () =>
+        HttpResponse.json([
+          {
+            type: 0,
+            id: "1",
+            author: { id: "user1", bot: true },
+            content: "TestUser: hi <@900001>, see <#900002>",
+            timestamp: "2025-01-01T00:00:00.000000+00:00",
+            edited_timestamp: null,
+          },
+        ]),
+      ),
+      http.get(`${DISCORD_BASE_URL}/guilds/:guildId/members/:userId`, () =>
+        HttpResponse.json({
+          user: { username: "mentioned", global_name: null },
+          nick: null,
+        }),
+      ),
+      http.get(`${DISCORD_BASE_URL}/channels/:channelId`, () =>
+        HttpResponse.json({ name: "general" }),
+      ),
+    );
+
+    const messages = await getChannelMessages(CHANNEL_ID);
+
+    expect(messages).toMatchObject([
+      {
+        content:
+          'hi <span class="mention">@mentioned</span>, see <span class="mention">#general</span>',
+      },
+    ]);
+  });
+
   it("should not parse username prefix from non-bot messages", async () => {
     server.use(
       http.get(`${DISCORD_BASE_URL}/channels/:channelId/messages`, () =>
@@ -119,13 +197,13 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([
       {
         id: "1",
         content:
-          'the source is here: <a href="https://github.com/example/repo">https://github.com/example/repo</a>',
+          'the source is here: <a href="https://github.com/example/repo" rel="noopener noreferrer nofollow ugc">https://github.com/example/repo</a>',
         user: { name: "simon" },
       },
     ]);
@@ -157,7 +235,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([
       { content: "No prefix here", user: { name: "Server Nick" } },
@@ -186,7 +264,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([{ user: { name: "Global Name" } }]);
   });
@@ -213,7 +291,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([{ user: { name: "fallbackuser" } }]);
   });
@@ -234,7 +312,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([{ edited: true }]);
   });
@@ -282,7 +360,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([
       {
@@ -334,7 +412,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([{ id: "1", replies: [{ id: "2" }] }]);
   });
@@ -371,7 +449,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages).toMatchObject([{ id: "1" }]);
   });
@@ -408,7 +486,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    const messages = await getChannelMessages();
+    const messages = await getChannelMessages(CHANNEL_ID);
 
     expect(messages.map((m) => m.id)).toEqual(["1", "2", "3"]);
   });
@@ -422,7 +500,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    await getChannelMessages();
+    await getChannelMessages(CHANNEL_ID);
 
     expect(timeoutSpy).toHaveBeenCalledWith(5000);
     timeoutSpy.mockRestore();
@@ -443,7 +521,7 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    await expect(getChannelMessages()).rejects.toThrow(
+    await expect(getChannelMessages(CHANNEL_ID)).rejects.toThrow(
       `Discord API error: ${status} ${statusText}`,
     );
   });
@@ -455,7 +533,266 @@ describe("getChannelMessages", () => {
       ),
     );
 
-    await expect(getChannelMessages()).rejects.toThrow();
+    await expect(getChannelMessages(CHANNEL_ID)).rejects.toThrow();
+  });
+});
+
+describe("getChannelMessagesPage", () => {
+  function createDiscordMessage(id: string, replyTo?: string) {
+    return {
+      type: replyTo ? 19 : 0,
+      id,
+      author: { id: "user1", bot: true },
+      content: `User1: Message ${id}`,
+      timestamp: "2025-01-01T00:00:00.000000+00:00",
+      edited_timestamp: null,
+      ...(replyTo && { message_reference: { message_id: replyTo } }),
+    };
+  }
+
+  it("should request messages before the cursor", async () => {
+    let searchParams: URLSearchParams | undefined;
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages`,
+        ({ request }) => {
+          searchParams = new URL(request.url).searchParams;
+          return HttpResponse.json([]);
+        },
+      ),
+    );
+
+    await getChannelMessagesPage(CHANNEL_ID, { limit: 2, before: "100" });
+
+    expect(searchParams?.get("limit")).toBe("2");
+    expect(searchParams?.get("before")).toBe("100");
+  });
+
+  it("should request messages around a message", async () => {
+    let searchParams: URLSearchParams | undefined;
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages`,
+        ({ request }) => {
+          searchParams = new URL(request.url).searchParams;
+          return HttpResponse.json([]);
+        },
+      ),
+    );
+
+    await getChannelMessagesPage(CHANNEL_ID, { limit: 50, around: "100" });
+
+    expect(searchParams?.get("limit")).toBe("50");
+    expect(searchParams?.get("around")).toBe("100");
+    expect(searchParams?.has("before")).toBe(false);
+  });
+
+  it("should read threads of our channel", async () => {
+    const channelId = vi.fn();
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages`,
+        ({ params }) => {
+          channelId(params["channelId"]);
+          return HttpResponse.json([createDiscordMessage("thread-message")]);
+        },
+      ),
+    );
+
+    const page = await getChannelMessagesPage("thread-1");
+
+    expect(channelId).toHaveBeenCalledWith("thread-1");
+    expect(page.messages).toMatchObject([{ id: "thread-message" }]);
+  });
+
+  it("should not send before for the latest page", async () => {
+    let searchParams: URLSearchParams | undefined;
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages`,
+        ({ request }) => {
+          searchParams = new URL(request.url).searchParams;
+          return HttpResponse.json([]);
+        },
+      ),
+    );
+
+    await getChannelMessagesPage(CHANNEL_ID);
+
+    expect(searchParams?.get("limit")).toBe("100");
+    expect(searchParams?.has("before")).toBe(false);
+  });
+
+  it("should return the oldest message id as cursor for a full page", async () => {
+    server.use(
+      http.get(`${DISCORD_BASE_URL}/channels/:channelId/messages`, () =>
+        HttpResponse.json([
+          createDiscordMessage("page-3"),
+          createDiscordMessage("page-2"),
+        ]),
+      ),
+    );
+
+    const page = await getChannelMessagesPage(CHANNEL_ID, { limit: 2 });
+
+    expect(page.cursor).toBe("page-2");
+  });
+
+  it("should return no cursor once the oldest page is reached", async () => {
+    server.use(
+      http.get(`${DISCORD_BASE_URL}/channels/:channelId/messages`, () =>
+        HttpResponse.json([createDiscordMessage("page-1")]),
+      ),
+    );
+
+    const page = await getChannelMessagesPage(CHANNEL_ID, { limit: 2 });
+
+    expect(page.cursor).toBeNull();
+  });
+
+  it("should return replies to messages on older pages as orphans", async () => {
+    server.use(
+      http.get(`${DISCORD_BASE_URL}/channels/:channelId/messages`, () =>
+        HttpResponse.json([
+          createDiscordMessage("orphan-4", "orphan-3"),
+          createDiscordMessage("orphan-3", "orphan-1"),
+          createDiscordMessage("orphan-2"),
+        ]),
+      ),
+    );
+
+    const page = await getChannelMessagesPage(CHANNEL_ID, { limit: 3 });
+
+    expect(page.messages).toMatchObject([{ id: "orphan-2", replies: [] }]);
+    expect(page.orphans).toMatchObject([
+      {
+        parentId: "orphan-1",
+        message: { id: "orphan-3", replies: [{ id: "orphan-4" }] },
+      },
+    ]);
+  });
+});
+
+describe("resolveMessage", () => {
+  it("should resolve a single message without replies", async () => {
+    const message = await resolveMessage({
+      type: 19,
+      id: "1",
+      author: { id: "user1", bot: true },
+      content: "TestUser: **Hi**",
+      timestamp: "2025-01-01T00:00:00.000000+00:00",
+      edited_timestamp: "2025-01-01T00:01:00.000000+00:00",
+      message_reference: { message_id: "0" },
+    });
+
+    expect(message).toEqual({
+      id: "1",
+      user: { name: "TestUser", color: expect.any(String) },
+      content: "<strong>Hi</strong>",
+      text: "**Hi**",
+      edited: true,
+      own: false,
+      reactions: [],
+      attachments: [],
+      embeds: [],
+      stickers: [],
+      previews: [],
+      timestamp: new Date("2025-01-01T00:00:00.000Z"),
+      replies: [],
+    });
+  });
+
+  it("should attach previews of links that Discord hasn't embedded", async () => {
+    vi.mocked(getLinkPreview).mockImplementationOnce(async (url) => ({
+      url,
+      title: `Title of ${url}`,
+      description: null,
+      siteName: null,
+      image: null,
+    }));
+
+    const message = await resolveMessage({
+      type: 0,
+      id: "2",
+      author: { id: "user1", bot: true },
+      content:
+        "TestUser: see https://example.com/a, https://example.com/b and <https://example.com/c>",
+      timestamp: "2025-01-01T00:00:00.000000+00:00",
+      edited_timestamp: null,
+      embeds: [{ type: "link", url: "https://example.com/b", title: "B" }],
+    });
+
+    expect(getLinkPreview).toHaveBeenCalledWith("https://example.com/a");
+    expect(getLinkPreview).not.toHaveBeenCalledWith("https://example.com/b");
+    expect(getLinkPreview).not.toHaveBeenCalledWith("https://example.com/c");
+    expect(message.previews).toEqual([
+      {
+        url: "https://example.com/a",
+        title: "Title of https://example.com/a",
+        description: null,
+        siteName: null,
+        image: null,
+      },
+    ]);
+  });
+});
+
+describe("markOwnMessages", () => {
+  const message = (id: string, replies: Message[] = []): Message => ({
+    id,
+    user: { name: "TestUser", color: "hsl(0 100% 50%)" },
+    content: "Hello",
+    text: "Hello",
+    edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    replies,
+  });
+
+  it("should mark the messages posted in the viewer's session", async () => {
+    const author = (username: string, session: string) =>
+      ({ kind: "visitor", username, session }) as const;
+    vi.mocked(getRecordedSiteAuthor)
+      // Posted under an earlier name
+      .mockResolvedValueOnce(author("OldName", "test-session"))
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(author("TestUser", "test-session"))
+      // Posted by another visitor going by the same name
+      .mockResolvedValueOnce(author("TestUser", "other-session"));
+
+    const page = await markOwnMessages(
+      {
+        messages: [message("1", [message("2", [message("4")])])],
+        orphans: [{ parentId: "0", message: message("3") }],
+        cursor: null,
+      },
+      "test-session",
+    );
+
+    expect(page).toEqual({
+      messages: [
+        {
+          ...message("1"),
+          own: true,
+          replies: [
+            { ...message("2"), replies: [{ ...message("4"), own: true }] },
+          ],
+        },
+      ],
+      orphans: [{ parentId: "0", message: message("3") }],
+      cursor: null,
+    });
+  });
+
+  it("should leave pages alone without a viewer", async () => {
+    const page = { messages: [message("1")], orphans: [], cursor: null };
+
+    expect(await markOwnMessages(page, null)).toBe(page);
   });
 });
 
@@ -479,7 +816,7 @@ describe("getMessageChain", () => {
       ),
     );
 
-    const chain = await getMessageChain("single-1");
+    const chain = await getMessageChain(CHANNEL_ID, "single-1");
 
     expect(chain).toHaveLength(1);
     expect(chain[0]).toMatchObject({ id: "single-1", content: "Hello" });
@@ -525,7 +862,7 @@ describe("getMessageChain", () => {
       ),
     );
 
-    const chain = await getMessageChain("chain-3");
+    const chain = await getMessageChain(CHANNEL_ID, "chain-3");
 
     expect(chain).toHaveLength(3);
     expect(chain.map((m) => m.id)).toEqual(["chain-1", "chain-2", "chain-3"]);
@@ -561,21 +898,54 @@ describe("getMessageChain", () => {
       ),
     );
 
-    const chain = await getMessageChain("bot-2");
+    const chain = await getMessageChain(CHANNEL_ID, "bot-2");
 
     expect(chain).toHaveLength(2);
     expect(chain[0]).toMatchObject({
       id: "bot-1",
       username: "simon-bot",
+      author: "bot",
       content: "Hello human",
     });
     expect(chain[1]).toMatchObject({
       id: "bot-2",
       username: "User2",
+      author: "visitor",
       content: "Thanks bot!",
     });
   });
 
+  it("should not take members for the bot by their prefix", async () => {
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        () =>
+          HttpResponse.json({
+            type: 0,
+            id: "spoof-1",
+            author: { id: "user666" },
+            content: "simon-bot: I am the bot",
+            timestamp: "2025-01-01T00:00:00.000000+00:00",
+            edited_timestamp: null,
+          }),
+      ),
+      http.get(`${DISCORD_BASE_URL}/guilds/:guildId/members/:userId`, () =>
+        HttpResponse.json({
+          user: { username: "mallory", global_name: null },
+          nick: null,
+        }),
+      ),
+    );
+
+    const [message] = await getMessageChain(CHANNEL_ID, "spoof-1");
+
+    expect(message).toMatchObject({
+      username: "mallory",
+      author: "member",
+      content: "simon-bot: I am the bot",
+    });
+  });
+
   it("should lookup username via API when no prefix", async () => {
     server.use(
       http.get(
@@ -602,11 +972,12 @@ describe("getMessageChain", () => {
       ),
     );
 
-    const chain = await getMessageChain("noprefix-1");
+    const chain = await getMessageChain(CHANNEL_ID, "noprefix-1");
 
     expect(chain).toHaveLength(1);
     expect(chain[0]).toMatchObject({
       username: "Server Nick",
+      author: "member",
       content: "No prefix here",
     });
   });
@@ -642,7 +1013,7 @@ describe("getMessageChain", () => {
       ),
     );
 
-    const chain = await getMessageChain("circular-2");
+    const chain = await getMessageChain(CHANNEL_ID, "circular-2");
 
     // Should stop after detecting the cycle
     expect(chain).toHaveLength(2);
@@ -659,7 +1030,7 @@ describe("getMessageChain", () => {
       ),
     );
 
-    await expect(getMessageChain("error-msg-1")).rejects.toThrow(
+    await expect(getMessageChain(CHANNEL_ID, "error-msg-1")).rejects.toThrow(
       "Discord API error: 404 Not Found",
     );
   });
@@ -689,7 +1060,7 @@ describe("getMessageChain", () => {
     );
 
     // Start from message 100 (would be 100 messages deep without limit)
-    const chain = await getMessageChain("100");
+    const chain = await getMessageChain(CHANNEL_ID, "100");
 
     expect(chain).toHaveLength(50);
     expect(callCount).toBe(50);
@@ -697,6 +1068,13 @@ describe("getMessageChain", () => {
 });
 
 describe("postChannelMessage", () => {
+  const visitor = {
+    kind: "visitor",
+    username: "TestUser",
+    session: "test-session",
+  } as const;
+  const bot = { kind: "bot", username: "simon-bot" } as const;
+
   it("should post message with username prefix", async () => {
     server.use(
       http.post(
@@ -712,7 +1090,21 @@ describe("postChannelMessage", () => {
       ),
     );
 
-    await postChannelMessage("Hello world", "TestUser" as Username);
+    await postChannelMessage(CHANNEL_ID, "Hello world", visitor);
+
+    expect(recordSiteAuthor).toHaveBeenCalledWith("123", visitor);
+  });
+
+  it("should record messages posted as the bot", async () => {
+    server.use(
+      http.post(`${DISCORD_BASE_URL}/channels/:channelId/messages`, () =>
+        HttpResponse.json({ id: "123" }),
+      ),
+    );
+
+    await postChannelMessage(CHANNEL_ID, "Hi", bot, "1");
+
+    expect(recordSiteAuthor).toHaveBeenCalledWith("123", bot);
   });
 
   it("should return the message ID from Discord", async () => {
@@ -727,7 +1119,7 @@ describe("postChannelMessage", () => {
       ),
     );
 
-    const messageId = await postChannelMessage("Hello", "TestUser" as Username);
+    const messageId = await postChannelMessage(CHANNEL_ID, "Hello", visitor);
 
     expect(messageId).toBe("message-123");
   });
@@ -751,8 +1143,9 @@ describe("postChannelMessage", () => {
     );
 
     const messageId = await postChannelMessage(
+      CHANNEL_ID,
       "This is a reply",
-      "simon-bot" as Username,
+      bot,
       "original-123",
     );
 
@@ -774,7 +1167,7 @@ describe("postChannelMessage", () => {
       ),
     );
 
-    await postChannelMessage("No reply", "TestUser" as Username);
+    await postChannelMessage(CHANNEL_ID, "No reply", visitor);
   });
 
   it.each([
@@ -792,9 +1185,419 @@ describe("postChannelMessage", () => {
     );
 
     await expect(
-      postChannelMessage("Hello", "TestUser" as Username),
+      postChannelMessage(CHANNEL_ID, "Hello", visitor),
     ).rejects.toThrow(`Discord API error: ${status} ${statusText}`);
   });
+
+  it("should post to the given channel", async () => {
+    const received = vi.fn();
+    server.use(
+      http.post(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages`,
+        async ({ params, request }) => {
+          received(params["channelId"], await request.json());
+          return HttpResponse.json({ id: "123" });
+        },
+      ),
+    );
+
+    expect(await postChannelMessage("thread-1", "Hi Simon", visitor)).toBe(
+      "123",
+    );
+    expect(received).toHaveBeenCalledWith("thread-1", {
+      content: "TestUser: Hi Simon",
+    });
+    expect(recordSiteAuthor).toHaveBeenCalledWith("123", visitor);
+  });
+});
+
+describe("isOwnChannelMessage", () => {
+  const session = { id: "test-session", username: "TestUser" as Username };
+
+  function mockMessage(author: { id: string; bot?: boolean }, content: string) {
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        ({ params }) =>
+          HttpResponse.json({
+            type: 0,
+            id: params["messageId"],
+            author,
+            content,
+            timestamp: "2025-01-01T00:00:00.000000+00:00",
+            edited_timestamp: null,
+          }),
+      ),
+    );
+  }
+
+  it("should return true for a message posted in the session", async () => {
+    mockMessage({ id: "bot", bot: true }, "TestUser: Hello");
+    vi.mocked(getRecordedSiteAuthor).mockResolvedValueOnce({
+      kind: "visitor",
+      username: "TestUser",
+      session: "test-session",
+    });
+
+    await expect(
+      isOwnChannelMessage(CHANNEL_ID, "own-1", session),
+    ).resolves.toBe(true);
+  });
+
+  it("should return false for a message posted in another session under the same name", async () => {
+    mockMessage({ id: "bot", bot: true }, "TestUser: Hello");
+    vi.mocked(getRecordedSiteAuthor).mockResolvedValueOnce({
+      kind: "visitor",
+      username: "TestUser",
+      session: "other-session",
+    });
+
+    await expect(
+      isOwnChannelMessage(CHANNEL_ID, "own-2", session),
+    ).resolves.toBe(false);
+  });
+
+  it("should return false for a message without a recorded session", async () => {
+    mockMessage({ id: "bot", bot: true }, "TestUser: Hello");
+
+    await expect(
+      isOwnChannelMessage(CHANNEL_ID, "own-4", session),
+    ).resolves.toBe(false);
+  });
+
+  it("should return false for a prefixed message from a Discord user", async () => {
+    mockMessage({ id: "user1" }, "TestUser: Hello");
+
+    await expect(
+      isOwnChannelMessage(CHANNEL_ID, "own-3", session),
+    ).resolves.toBe(false);
+  });
+});
+
+describe("editChannelMessage", () => {
+  function mockPatch(edited: (content: unknown) => void) {
+    server.use(
+      http.patch(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        async ({ request, params }) => {
+          const { content } = (await request.json()) as { content: string };
+          edited(content);
+          return HttpResponse.json({
+            type: 0,
+            id: params["messageId"],
+            author: { id: "bot", bot: true },
+            content,
+            timestamp: "2025-01-01T00:00:00.000000+00:00",
+            edited_timestamp: "2025-01-01T00:01:00.000000+00:00",
+          });
+        },
+      ),
+    );
+  }
+
+  it("should patch the message content with the username prefix", async () => {
+    const edited = vi.fn();
+    mockPatch(edited);
+    vi.mocked(getRecordedSiteAuthor).mockResolvedValueOnce({
+      kind: "visitor",
+      username: "TestUser",
+      session: "test-session",
+    });
+
+    await editChannelMessage(CHANNEL_ID, "edit-1", "Edited");
+
+    expect(getRecordedSiteAuthor).toHaveBeenCalledWith("edit-1");
+    expect(edited).toHaveBeenCalledWith("TestUser: Edited");
+  });
+
+  it("should keep the name the message was posted under after a rename", async () => {
+    const edited = vi.fn();
+    mockPatch(edited);
+    // Posted as OldName, edited by the same session after changing its name
+    vi.mocked(getRecordedSiteAuthor).mockResolvedValueOnce({
+      kind: "visitor",
+      username: "OldName",
+      session: "test-session",
+    });
+
+    await editChannelMessage(CHANNEL_ID, "edit-2", "Edited");
+
+    expect(edited).toHaveBeenCalledWith("OldName: Edited");
+  });
+
+  it("should not edit messages without a recorded author", async () => {
+    const edited = vi.fn();
+    mockPatch(edited);
+
+    await expect(
+      editChannelMessage(CHANNEL_ID, "edit-3", "Edited"),
+    ).rejects.toThrow("No site author recorded for message edit-3");
+    expect(edited).not.toHaveBeenCalled();
+  });
+});
+
+describe("deleteChannelMessage", () => {
+  it("should delete the message", async () => {
+    const deleted = vi.fn();
+    server.use(
+      http.delete(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        ({ params }) => {
+          deleted(params["messageId"]);
+          return new HttpResponse(null, { status: 204 });
+        },
+      ),
+    );
+
+    await deleteChannelMessage(CHANNEL_ID, "delete-1");
+
+    expect(deleted).toHaveBeenCalledWith("delete-1");
+  });
+
+  it("should throw when Discord rejects the deletion", async () => {
+    vi.spyOn(log, "error").mockImplementation(() => {});
+    server.use(
+      http.delete(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        () =>
+          HttpResponse.json(
+            { message: "Unknown Message" },
+            { status: 404, statusText: "Not Found" },
+          ),
+      ),
+    );
+
+    await expect(deleteChannelMessage(CHANNEL_ID, "delete-2")).rejects.toThrow(
+      "Discord API error: 404 Not Found",
+    );
+  });
+});
+
+describe("getRecentChannelMessages", () => {
+  it("should fetch the raw latest messages", async () => {
+    const message = {
+      type: 0,
+      id: "1",
+      author: { id: "user1" },
+      content: "hi",
+      timestamp: "2025-01-01T00:00:00.000000+00:00",
+    };
+    const limit = vi.fn();
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages`,
+        ({ request }) => {
+          limit(new URL(request.url).searchParams.get("limit"));
+          return HttpResponse.json([message]);
+        },
+      ),
+    );
+
+    expect(await getRecentChannelMessages(CHANNEL_ID, 50)).toEqual([message]);
+    expect(limit).toHaveBeenCalledWith("50");
+  });
+});
+
+describe("snowflakeAt", () => {
+  it("should give the earliest id of a message posted at the time", () => {
+    expect(snowflakeAt(Date.parse("2015-01-01T00:00:00Z"))).toBe("0");
+    expect(snowflakeAt(1420070400001)).toBe(String(1n << 22n));
+  });
+
+  it("should start from Discord's epoch for earlier times", () => {
+    expect(snowflakeAt(Date.parse("1999-12-31"))).toBe("0");
+    expect(snowflakeAt(-Date.parse("1999-12-31"))).toBe("0");
+  });
+});
+
+describe("deleteChannelMessages", () => {
+  // Snowflakes hold their creation time above the lowest 22 bits
+  const snowflake = (time: number) =>
+    String((BigInt(time) - 1420070400000n) << 22n);
+
+  it("should delete recent messages in bulk and older ones one by one", async () => {
+    const recent = [snowflake(Date.now() - 1000), snowflake(Date.now() - 2000)];
+    const old = snowflake(Date.now() - 15 * 24 * 60 * 60 * 1000);
+    const bulk = vi.fn();
+    const single = vi.fn();
+    server.use(
+      http.post(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/bulk-delete`,
+        async ({ request }) => {
+          bulk(await request.json());
+          return new HttpResponse(null, { status: 204 });
+        },
+      ),
+      http.delete(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        ({ params }) => {
+          single(params["messageId"]);
+          return new HttpResponse(null, { status: 204 });
+        },
+      ),
+    );
+
+    await deleteChannelMessages(CHANNEL_ID, [...recent, old]);
+
+    expect(bulk).toHaveBeenCalledExactlyOnceWith({ messages: recent });
+    expect(single).toHaveBeenCalledExactlyOnceWith(old);
+  });
+
+  it("should delete a single message on its own", async () => {
+    const single = vi.fn();
+    server.use(
+      http.delete(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        ({ params }) => {
+          single(params["messageId"]);
+          return new HttpResponse(null, { status: 204 });
+        },
+      ),
+    );
+
+    await deleteChannelMessages(CHANNEL_ID, [snowflake(Date.now())]);
+
+    expect(single).toHaveBeenCalledOnce();
+  });
+});
+
+describe("getMessageReactions", () => {
+  it("should replace the bot's reaction with the site users that reacted", async () => {
+    vi.mocked(getReactionUsers).mockImplementation(async (_, emoji) =>
+      emoji === "👍" ? ["alice", "bob"] : [],
+    );
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId`,
+        ({ params }) =>
+          HttpResponse.json({
+            type: 0,
+            id: params["messageId"],
+            author: { id: "user1", bot: true },
+            content: "TestUser: Hello",
+            timestamp: "2025-01-01T00:00:00.000000+00:00",
+            edited_timestamp: null,
+            reactions: [
+              { count: 2, me: true, emoji: { id: null, name: "👍" } },
+              { count: 1, me: false, emoji: { id: "42", name: "blob" } },
+              { count: 1, me: true, emoji: { id: null, name: "🎉" } },
+            ],
+          }),
+      ),
+    );
+
+    const reactions = await getMessageReactions(CHANNEL_ID, "react-1");
+
+    expect(getReactionUsers).toHaveBeenCalledWith("react-1", "👍");
+    expect(reactions).toEqual([
+      { emoji: "👍", count: 3, users: ["alice", "bob"] },
+      { emoji: "blob:42", count: 1, users: [] },
+    ]);
+  });
+});
+
+describe("addOwnReaction / removeOwnReaction", () => {
+  it("should put and delete the bot's reaction with the emoji encoded", async () => {
+    const requests = vi.fn();
+    server.use(
+      http.all(
+        `${DISCORD_BASE_URL}/channels/:channelId/messages/:messageId/reactions/:emoji/@me`,
+        ({ request, params }) => {
+          requests(request.method, params["messageId"], params["emoji"]);
+          return new HttpResponse(null, { status: 204 });
+        },
+      ),
+    );
+
+    await addOwnReaction(CHANNEL_ID, "react-2", "👍");
+    await removeOwnReaction(CHANNEL_ID, "react-2", "blob:42");
+
+    expect(requests).toHaveBeenNthCalledWith(1, "PUT", "react-2", "👍");
+    expect(requests).toHaveBeenNthCalledWith(2, "DELETE", "react-2", "blob:42");
+  });
+});
+
+describe("registerGuildCommands", () => {
+  it("should replace the guild commands of the bot's application", async () => {
+    const commands = [{ name: "ban", description: "Ban a visitor" }];
+    const put = vi.fn();
+    server.use(
+      http.get(`${DISCORD_BASE_URL}/applications/@me`, () =>
+        HttpResponse.json({ id: "app-1" }),
+      ),
+      http.put(
+        `${DISCORD_BASE_URL}/applications/:applicationId/guilds/:guildId/commands`,
+        async ({ request, params }) => {
+          put(params, await request.json());
+          return HttpResponse.json([]);
+        },
+      ),
+    );
+
+    await registerGuildCommands(commands);
+
+    expect(put).toHaveBeenCalledWith(
+      { applicationId: "app-1", guildId: "test-discord-guild-id" },
+      commands,
+    );
+  });
+});
+
+describe("deferInteractionResponse", () => {
+  it("should acknowledge the command with a reply only the user can see", async () => {
+    const callback = vi.fn();
+    server.use(
+      http.post(
+        `${DISCORD_BASE_URL}/interactions/:id/:token/callback`,
+        async ({ request, params }) => {
+          callback(params, await request.json());
+          return new HttpResponse(null, { status: 204 });
+        },
+      ),
+    );
+
+    await deferInteractionResponse({
+      id: "interaction-1",
+      application_id: "app-1",
+      token: "token-1",
+      type: 2,
+    });
+
+    expect(callback).toHaveBeenCalledWith(
+      { id: "interaction-1", token: "token-1" },
+      { type: 5, data: { flags: 64 } },
+    );
+  });
+});
+
+describe("editInteractionResponse", () => {
+  it("should replace the acknowledgement with the reply", async () => {
+    const patch = vi.fn();
+    server.use(
+      http.patch(
+        `${DISCORD_BASE_URL}/webhooks/:applicationId/:token/messages/@original`,
+        async ({ request, params }) => {
+          patch(params, await request.json());
+          return HttpResponse.json({ id: "message-1" });
+        },
+      ),
+    );
+
+    await editInteractionResponse(
+      {
+        id: "interaction-1",
+        application_id: "app-1",
+        token: "token-1",
+        type: 2,
+      },
+      "Banned alice",
+    );
+
+    expect(patch).toHaveBeenCalledWith(
+      { applicationId: "app-1", token: "token-1" },
+      { content: "Banned alice", allowed_mentions: { parse: [] } },
+    );
+  });
 });
 
 describe("rate limiting", () => {
@@ -825,7 +1628,7 @@ describe("rate limiting", () => {
       }),
     );
 
-    const promise = getChannelMessages();
+    const promise = getChannelMessages(CHANNEL_ID);
 
     await vi.advanceTimersByTimeAsync(2000);
 
@@ -847,7 +1650,7 @@ describe("rate limiting", () => {
       ),
     );
 
-    await expect(getChannelMessages()).rejects.toThrow(
+    await expect(getChannelMessages(CHANNEL_ID)).rejects.toThrow(
       "Discord rate limit exceeded",
     );
 
@@ -877,7 +1680,7 @@ describe("rate limiting", () => {
       }),
     );
 
-    const promise = getChannelMessages();
+    const promise = getChannelMessages(CHANNEL_ID);
 
     await vi.advanceTimersByTimeAsync(1000);
 
@@ -916,7 +1719,7 @@ describe("rate limiting", () => {
       }),
     );
 
-    const promise = getChannelMessages();
+    const promise = getChannelMessages(CHANNEL_ID);
     // Set up rejection expectation before advancing time to avoid unhandled rejection
     const assertion = expect(promise).rejects.toThrow(
       "Discord rate limit exceeded",
@@ -962,7 +1765,7 @@ describe("rate limiting", () => {
       }),
     );
 
-    const promise = getChannelMessages();
+    const promise = getChannelMessages(CHANNEL_ID);
     const assertion = expect(promise).rejects.toThrow(
       "Discord rate limit exceeded",
     );
@@ -997,11 +1800,11 @@ describe("rate limiting", () => {
     );
 
     // First request gets 429 and sets the shared gate
-    const promise1 = getChannelMessages();
+    const promise1 = getChannelMessages(CHANNEL_ID);
     await vi.advanceTimersByTimeAsync(0);
 
     // Second request arrives while rate limit gate is active
-    const promise2 = getChannelMessages();
+    const promise2 = getChannelMessages(CHANNEL_ID);
 
     // Advance past the 2-second rate limit window
     await vi.advanceTimersByTimeAsync(2000);
@@ -1021,7 +1824,7 @@ describe("rate limiting", () => {
     _setRateLimitGate(endpoint, Date.now() + 31_000);
 
     // A fresh request checks the gate: waitMs=31000, elapsedMs≈0, 0+31000 > 30000 → throws
-    await expect(getChannelMessages()).rejects.toThrow(
+    await expect(getChannelMessages(CHANNEL_ID)).rejects.toThrow(
       "Discord rate limit exceeded",
     );
 
@@ -1048,7 +1851,7 @@ describe("rate limiting", () => {
       }),
     );
 
-    const promise = getChannelMessages();
+    const promise = getChannelMessages(CHANNEL_ID);
     await vi.advanceTimersByTimeAsync(3000);
     await promise;
 
@@ -1071,6 +1874,86 @@ describe("rate limiting", () => {
   });
 });
 
+describe("createPrivateThread", () => {
+  it("should start a private thread in our channel", async () => {
+    const received = vi.fn();
+    server.use(
+      http.post(
+        `${DISCORD_BASE_URL}/channels/:channelId/threads`,
+        async ({ params, request }) => {
+          received(params["channelId"], await request.json());
+          return HttpResponse.json({ id: "thread-1", type: 12 });
+        },
+      ),
+    );
+
+    expect(await createPrivateThread(CHANNEL_ID, "TestUser")).toBe("thread-1");
+    expect(received).toHaveBeenCalledWith("test-discord-channel-id", {
+      name: "TestUser",
+      type: 12,
+      invitable: false,
+      auto_archive_duration: 10080,
+    });
+  });
+});
+
+describe("searchGuildMemberNames", () => {
+  it("should list every name members go by", async () => {
+    const query = vi.fn();
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/guilds/:guildId/members/search`,
+        ({ request }) => {
+          query(new URL(request.url).searchParams.get("query"));
+          return HttpResponse.json([
+            {
+              user: { id: "1", username: "alice", global_name: "Alice" },
+              nick: "Al",
+            },
+            {
+              user: { id: "2", username: "alicia", global_name: null },
+              nick: null,
+            },
+          ]);
+        },
+      ),
+    );
+
+    expect(await searchGuildMemberNames("ali")).toEqual([
+      "Al",
+      "Alice",
+      "alice",
+      "alicia",
+    ]);
+    expect(query).toHaveBeenCalledWith("ali");
+  });
+});
+
+describe("findGuildMemberIds", () => {
+  it("should find the members going by the name in any case", async () => {
+    server.use(
+      http.get(`${DISCORD_BASE_URL}/guilds/:guildId/members/search`, () =>
+        HttpResponse.json([
+          {
+            user: { id: "1", username: "alice", global_name: null },
+            nick: null,
+          },
+          {
+            user: { id: "2", username: "bob", global_name: "Alice" },
+            nick: "Bobby",
+          },
+          {
+            user: { id: "3", username: "alicia", global_name: null },
+            nick: null,
+          },
+        ]),
+      ),
+    );
+
+    expect(await findGuildMemberIds("ALICE")).toEqual(["1", "2"]);
+  });
+});
+
 describe("searchChannelMessages", () => {
   it("should search messages and return hits with context", async () => {
     server.use(
@@ -1122,7 +2005,7 @@ describe("searchChannelMessages", () => {
       ),
     );
 
-    const result = await searchChannelMessages({
+    const result = await searchChannelMessages(CHANNEL_ID, {
       content: "hello",
       limit: 5,
       sort_by: "relevance",
@@ -1165,7 +2048,9 @@ describe("searchChannelMessages", () => {
       ),
     );
 
-    const result = await searchChannelMessages({ content: "nonexistent" });
+    const result = await searchChannelMessages(CHANNEL_ID, {
+      content: "nonexistent",
+    });
 
     expect(result).toEqual({ total_results: 0, hits: [] });
   });
@@ -1202,7 +2087,9 @@ describe("searchChannelMessages", () => {
       ),
     );
 
-    const result = await searchChannelMessages({ content: "unprefixed" });
+    const result = await searchChannelMessages(CHANNEL_ID, {
+      content: "unprefixed",
+    });
 
     expect(result.hits[0]?.hit).toMatchObject({
       username: "Nickname",
@@ -1229,7 +2116,49 @@ describe("searchChannelMessages", () => {
       ),
     );
 
-    await searchChannelMessages({ content: "test" });
+    await searchChannelMessages(CHANNEL_ID, { content: "test" });
+  });
+
+  it("should pass on the range of messages to search", async () => {
+    let searchParams: URLSearchParams | undefined;
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/guilds/:guildId/messages/search`,
+        ({ request }) => {
+          searchParams = new URL(request.url).searchParams;
+          return HttpResponse.json({ total_results: 0, messages: [] });
+        },
+      ),
+    );
+
+    await searchChannelMessages(CHANNEL_ID, {
+      content: "test",
+      min_id: "100",
+      max_id: "200",
+    });
+
+    expect(searchParams?.get("min_id")).toBe("100");
+    expect(searchParams?.get("max_id")).toBe("200");
+  });
+
+  it("should pass on every author to search by", async () => {
+    let searchParams: URLSearchParams | undefined;
+    server.use(
+      http.get(
+        `${DISCORD_BASE_URL}/guilds/:guildId/messages/search`,
+        ({ request }) => {
+          searchParams = new URL(request.url).searchParams;
+          return HttpResponse.json({ total_results: 0, messages: [] });
+        },
+      ),
+    );
+
+    await searchChannelMessages(CHANNEL_ID, {
+      content: "test",
+      author_id: ["1", "2"],
+    });
+
+    expect(searchParams?.getAll("author_id")).toEqual(["1", "2"]);
   });
 
   it("should throw when a message group has no hit marker", async () => {
@@ -1253,8 +2182,8 @@ describe("searchChannelMessages", () => {
       ),
     );
 
-    await expect(searchChannelMessages({ content: "test" })).rejects.toThrow(
-      "Discord search returned a message group with no hit",
-    );
+    await expect(
+      searchChannelMessages(CHANNEL_ID, { content: "test" }),
+    ).rejects.toThrow("Discord search returned a message group with no hit");
   });
 });
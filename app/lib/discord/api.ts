@@ -1,20 +1,46 @@
 import "server-only";
 
-import SimpleMarkdown from "@khanacademy/simple-markdown";
 import { comparing, stringComparator } from "comparator.ts";
 import DataLoader from "dataloader";
 import { z } from "zod";
 
 import { env } from "@/lib/env";
+import { findLinks, getLinkPreview } from "@/lib/linkPreview";
 import { log } from "@/lib/log";
 import { LruMap } from "@/lib/LruMap";
+import { sanitizeHtml } from "@/lib/sanitizeHtml";
 import { stringToColor } from "@/lib/stringToColor";
 
-import type { Username } from "../session";
-import { type DiscordMessage, DiscordMessageSchema } from "./schemas";
+import type { Session } from "../session";
+import {
+  type AuthorKind,
+  BOT_USERNAME,
+  forgetSiteAuthors,
+  getRecordedSiteAuthor,
+  recordSiteAuthor,
+  type SiteAuthor,
+} from "./authors";
+import { getMentionedIds, parseMarkdown } from "./markdown";
+import { resolveMedia } from "./media";
+import { getReactionUsers } from "./reactions";
+import {
+  type DiscordInteraction,
+  type DiscordMessage,
+  DiscordMessageSchema,
+  type Embed,
+  type LinkPreview,
+  type Message,
+  MessageSchema,
+  type Reaction,
+  type User,
+  UserSchema,
+} from "./schemas";
+
+export type { Message, Reaction, User };
 
 const BASE_URL = "https://discord.com/api/v10";
 const RATE_LIMIT_TIMEOUT_MS = 30_000;
+const MAX_PREVIEWS = 2;
 const MAX_RETRIES = 5;
 
 const RateLimitResponseSchema = z.object({
@@ -41,13 +67,16 @@ async function call<T extends z.ZodType>(
   method: string,
   endpoint: string,
   schema: T,
-  params: Record<string, unknown> = {},
+  params?: Record<string, unknown> | unknown[],
 ): Promise<z.infer<T>> {
   const url = new URL(`${BASE_URL}/${endpoint}`);
 
   if (method === "GET") {
-    for (const [key, value] of Object.entries(params)) {
-      url.searchParams.set(key, String(value));
+    // Lists repeat their key, once for every item
+    for (const [key, value] of Object.entries(params ?? {})) {
+      for (const item of [value].flat()) {
+        url.searchParams.append(key, String(item));
+      }
     }
   }
 
@@ -74,7 +103,10 @@ async function call<T extends z.ZodType>(
 
     const response = await fetch(url, {
       method,
-      body: method === "POST" ? JSON.stringify(params) : undefined,
+      body:
+        method !== "GET" && params !== undefined
+          ? JSON.stringify(params)
+          : undefined,
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bot ${env.DISCORD_BOT_TOKEN}`,
@@ -82,7 +114,8 @@ async function call<T extends z.ZodType>(
       signal: AbortSignal.timeout(5000),
     });
 
-    const json = await response.json();
+    // DELETE responds with 204 No Content
+    const json = response.status === 204 ? null : await response.json();
 
     if (response.status === 429) {
       retries++;
@@ -150,31 +183,10 @@ async function getGuildMember(userId: string) {
   );
 }
 
-const UserSchema = z.object({
-  name: z.string(),
-  color: z.templateLiteral([
-    "hsl(",
-    z.number(),
-    " ",
-    z.number(),
-    "% ",
-    z.number(),
-    "%)",
-  ]),
-});
-
-export type User = z.infer<typeof UserSchema>;
-
 function toUser(name: string): User {
   return UserSchema.decode({ name, color: stringToColor(name) });
 }
 
-function parseMarkdown(content: string): string {
-  return SimpleMarkdown.defaultHtmlOutput(
-    SimpleMarkdown.defaultInlineParse(content),
-  );
-}
-
 const USERNAME_PREFIX_PATTERN = /^(.+?):(?:\s(.*))?$/s;
 
 function parseUsernamePrefix(content: string): [string, string] | undefined {
@@ -182,15 +194,42 @@ function parseUsernamePrefix(content: string): [string, string] | undefined {
   return match ? [match[1]!, match[2] ?? ""] : undefined;
 }
 
+/**
+ * Who a message posted by the bot was posted for. Messages from before
+ * authors were recorded, or that reach us before it's done, fall back to
+ * their prefix, where only simon-bot goes by its name.
+ */
+export async function getSiteAuthor(
+  message: DiscordMessage,
+): Promise<SiteAuthor | null> {
+  if (!message.author.bot) return null;
+
+  const recorded = await getRecordedSiteAuthor(message.id);
+  if (recorded) return recorded;
+
+  const username = parseUsernamePrefix(message.content)?.[0];
+  if (username === undefined) return null;
+  return { kind: username === BOT_USERNAME ? "bot" : "visitor", username };
+}
+
 async function resolveMessageContent(
   msg: DiscordMessage,
-): Promise<{ username: string; content: string }> {
-  const parsed = msg.author.bot ? parseUsernamePrefix(msg.content) : undefined;
-  const username = parsed
-    ? parsed[0]
-    : (await userLoader.load(msg.author.id)).name;
-  const content = (parsed?.[1] ?? msg.content).trim();
-  return { username, content };
+): Promise<{ username: string; author: AuthorKind; content: string }> {
+  const siteAuthor = await getSiteAuthor(msg);
+  if (!siteAuthor) {
+    const { name } = await userLoader.load(msg.author.id);
+    return { username: name, author: "member", content: msg.content.trim() };
+  }
+
+  const prefix = `${siteAuthor.username}:`;
+  const content = msg.content.startsWith(prefix)
+    ? msg.content.slice(prefix.length)
+    : msg.content;
+  return {
+    username: siteAuthor.username,
+    author: siteAuthor.kind,
+    content: content.trim(),
+  };
 }
 
 const userLoader = new DataLoader<string, User>(
@@ -206,71 +245,234 @@ const userLoader = new DataLoader<string, User>(
   { cacheMap: new LruMap(100) },
 );
 
-const discordMessageLoader = new DataLoader<string, DiscordMessage>(
+/** Resolves a guild member to the user shown on the site. */
+export async function getDiscordUser(userId: string): Promise<User> {
+  return userLoader.load(userId);
+}
+
+const SearchGuildMembersResponseSchema = z.array(
+  GetGuildMemberResponseSchema.extend({
+    user: GetGuildMemberResponseSchema.shape.user.extend({ id: z.string() }),
+  }),
+);
+
+async function searchGuildMembers(query: string) {
+  return call(
+    "GET",
+    `guilds/${env.DISCORD_GUILD_ID}/members/search`,
+    SearchGuildMembersResponseSchema,
+    { query, limit: 100 },
+  );
+}
+
+/** Every name a member goes by, as shown on the site or on Discord. */
+function getMemberNames({
+  nick,
+  user,
+}: z.infer<typeof GetGuildMemberResponseSchema>): string[] {
+  return [nick, user.global_name, user.username].filter(
+    (name) => name !== null,
+  );
+}
+
+/** Names guild members go by whose names start with `query`. */
+export async function searchGuildMemberNames(query: string): Promise<string[]> {
+  const members = await searchGuildMembers(query);
+  return members.flatMap(getMemberNames);
+}
+
+/** The ids of the guild members going by `name`, in any case. */
+export async function findGuildMemberIds(name: string): Promise<string[]> {
+  const members = await searchGuildMembers(name);
+  const lowerName = name.toLowerCase();
+  return members
+    .filter((member) =>
+      getMemberNames(member).some(
+        (memberName) => memberName.toLowerCase() === lowerName,
+      ),
+    )
+    .map(({ user }) => user.id);
+}
+
+const GetChannelResponseSchema = z.object({ name: z.string() });
+
+const channelNameLoader = new DataLoader<string, string>(
+  (keys) =>
+    Promise.allSettled(
+      keys.map(async (channelId) => {
+        const response = await call(
+          "GET",
+          `channels/${channelId}`,
+          GetChannelResponseSchema,
+        );
+        return response.name;
+      }),
+    ).then(flattenSettledPromises),
+  { cacheMap: new LruMap(100) },
+);
+
+/** Pairs ids with what loaded for them, leaving out the ones that failed. */
+function loadedById<T>(ids: string[], results: (T | Error)[]): Map<string, T> {
+  return new Map(
+    ids.flatMap((id, i) => {
+      const result = results[i]!;
+      return result instanceof Error ? [] : [[id, result] as const];
+    }),
+  );
+}
+
+/**
+ * Renders message markdown to sanitised HTML, resolving the users and
+ * channels it mentions.
+ */
+async function renderContent(content: string): Promise<string> {
+  const ids = getMentionedIds(content);
+  const [users, channels] = await Promise.all([
+    userLoader.loadMany(ids.users),
+    channelNameLoader.loadMany(ids.channels),
+  ]);
+  const html = parseMarkdown(content, {
+    users: new Map(
+      loadedById(ids.users, users)
+        .entries()
+        .map(([id, user]) => [id, user.name]),
+    ),
+    channels: loadedById(ids.channels, channels),
+  });
+  return sanitizeHtml(html);
+}
+
+type MessageKey = { channelId: string; messageId: string };
+
+// Cached by message id alone, as those are unique across channels
+const discordMessageLoader = new DataLoader<MessageKey, DiscordMessage, string>(
   (keys) =>
     Promise.allSettled(
-      keys.map((messageId) =>
+      keys.map(({ channelId, messageId }) =>
         call(
           "GET",
-          `channels/${env.DISCORD_CHANNEL_ID}/messages/${messageId}`,
+          `channels/${channelId}/messages/${messageId}`,
           DiscordMessageSchema,
         ),
       ),
     ).then(flattenSettledPromises),
-  { cacheMap: new LruMap(100) },
+  { cacheKeyFn: ({ messageId }) => messageId, cacheMap: new LruMap(100) },
 );
 
 const GetMessagesResponseSchema = z.array(DiscordMessageSchema);
 
-const MessageSchema = z.object({
-  id: z.string(),
-  user: UserSchema,
-  content: z.string(),
-  edited: z.boolean(),
-  timestamp: z.string().pipe(z.coerce.date()),
-  get replies() {
-    return z.array(MessageSchema);
-  },
-});
-
-export type Message = z.infer<typeof MessageSchema>;
-
 const messageIdComparator = comparing(
   (msg: Message) => msg.id,
   stringComparator,
 );
 
-export async function getChannelMessages(limit = 100): Promise<Message[]> {
+/** Whether the message is a default message (0) or a reply (19). */
+export function isChatMessage(discordMessage: DiscordMessage): boolean {
+  return discordMessage.type === 0 || discordMessage.type === 19;
+}
+
+async function resolveReactions(
+  discordMessage: DiscordMessage,
+): Promise<Reaction[]> {
+  const reactions = await Promise.all(
+    (discordMessage.reactions ?? []).map(async ({ count, me, emoji }) => {
+      const key = emoji.id ? `${emoji.name}:${emoji.id}` : emoji.name;
+      // The bot's own reaction stands in for the site users that reacted
+      const users = me ? await getReactionUsers(discordMessage.id, key) : [];
+      return { emoji: key, count: count - (me ? 1 : 0) + users.length, users };
+    }),
+  );
+
+  return reactions.filter((reaction) => reaction.count > 0);
+}
+
+/** Previews of the links in a message that Discord hasn't embedded itself. */
+async function resolvePreviews(
+  content: string,
+  embeds: Embed[],
+): Promise<LinkPreview[]> {
+  const embedded = new Set(embeds.map((embed) => embed.url));
+  const links = findLinks(content)
+    .filter((url) => !embedded.has(url))
+    .slice(0, MAX_PREVIEWS);
+  const previews = await Promise.all(links.map((url) => getLinkPreview(url)));
+  return previews.filter((preview) => preview !== null);
+}
+
+/** Resolves a single Discord message into a `Message` without replies. */
+export async function resolveMessage(
+  discordMessage: DiscordMessage,
+): Promise<Message> {
+  const { username, content } = await resolveMessageContent(discordMessage);
+  const media = resolveMedia(discordMessage);
+
+  return MessageSchema.decode({
+    id: discordMessage.id,
+    user: toUser(username),
+    content: await renderContent(content),
+    text: content,
+    edited: discordMessage.edited_timestamp !== null,
+    // Marked per visitor, as resolved messages are shared by everyone
+    own: false,
+    timestamp: discordMessage.timestamp,
+    reactions: await resolveReactions(discordMessage),
+    ...media,
+    previews: await resolvePreviews(content, media.embeds),
+    replies: [],
+  });
+}
+
+/** A reply whose parent is not on the same page. */
+export type OrphanMessage = { parentId: string; message: Message };
+
+export type MessagesPage = {
+  messages: Message[];
+  /** Replies to older messages, to attach once their parent is loaded. */
+  orphans: OrphanMessage[];
+  /** Pass as `before` to fetch the next older page, null on the oldest. */
+  cursor: string | null;
+};
+
+/**
+ * A page of messages of a room's channel, or of a private thread. The
+ * latest, those `before` a message or those `around` one.
+ */
+export async function getChannelMessagesPage(
+  channelId: string,
+  {
+    limit = 100,
+    before,
+    around,
+  }: {
+    limit?: number;
+    before?: string | undefined;
+    around?: string | undefined;
+  } = {},
+): Promise<MessagesPage> {
   const response = await call(
     "GET",
-    `channels/${env.DISCORD_CHANNEL_ID}/messages`,
+    `channels/${channelId}/messages`,
     GetMessagesResponseSchema,
-    { limit },
+    before ? { limit, before } : around ? { limit, around } : { limit },
   );
 
   const messages: Promise<Message>[] = [];
   const replies: Record<string, Promise<Message>[]> = {};
+  const ids = new Set<string>();
 
   for (const discordMessage of response) {
     // Only process default messages and replies
-    if (discordMessage.type !== 0 && discordMessage.type !== 19) {
+    if (!isChatMessage(discordMessage)) {
       continue;
     }
 
-    discordMessageLoader.prime(discordMessage.id, discordMessage);
-
-    const message = Promise.try(async () => {
-      const { username, content } = await resolveMessageContent(discordMessage);
+    discordMessageLoader.prime(
+      { channelId, messageId: discordMessage.id },
+      discordMessage,
+    );
+    ids.add(discordMessage.id);
 
-      return MessageSchema.decode({
-        id: discordMessage.id,
-        user: toUser(username),
-        content: parseMarkdown(content),
-        edited: discordMessage.edited_timestamp !== null,
-        timestamp: discordMessage.timestamp,
-        replies: [],
-      });
-    });
+    const message = resolveMessage(discordMessage);
 
     const referencesMessageId = discordMessage.message_reference?.message_id;
 
@@ -294,19 +496,94 @@ export async function getChannelMessages(limit = 100): Promise<Message[]> {
     return result.sort(messageIdComparator);
   };
 
-  return resolveReplies(messages);
+  const orphans = await Promise.all(
+    Object.entries(replies)
+      .filter(([parentId]) => !ids.has(parentId))
+      .map(async ([parentId, msgPromises]) =>
+        (await resolveReplies(msgPromises)).map((message) => ({
+          parentId,
+          message,
+        })),
+      ),
+  );
+
+  // Messages come newest first, so a full page continues before the last one
+  const cursor =
+    response.length === limit ? (response.at(-1)?.id ?? null) : null;
+
+  return {
+    messages: await resolveReplies(messages),
+    orphans: orphans.flat(),
+    cursor,
+  };
+}
+
+/** The ids of the messages, and of their replies. */
+export function collectMessageIds(messages: Message[]): string[] {
+  return messages.flatMap((message) => [
+    message.id,
+    ...collectMessageIds(message.replies),
+  ]);
+}
+
+/**
+ * Marks the messages of a page, and their replies, posted in the `viewer`
+ * session as their own.
+ */
+export async function markOwnMessages(
+  page: MessagesPage,
+  viewer: string | null,
+): Promise<MessagesPage> {
+  if (viewer === null) return page;
+
+  const ids = collectMessageIds([
+    ...page.messages,
+    ...page.orphans.map(({ message }) => message),
+  ]);
+  const authors = await Promise.all(
+    ids.map((messageId) => getRecordedSiteAuthor(messageId)),
+  );
+  const own = new Set(
+    ids.filter((_, index) => authors[index]?.session === viewer),
+  );
+  if (own.size === 0) return page;
+
+  const mark = (message: Message): Message => ({
+    ...message,
+    own: own.has(message.id),
+    replies: message.replies.map(mark),
+  });
+
+  return {
+    ...page,
+    messages: page.messages.map(mark),
+    orphans: page.orphans.map((orphan) => ({
+      ...orphan,
+      message: mark(orphan.message),
+    })),
+  };
+}
+
+export async function getChannelMessages(
+  channelId: string,
+  limit = 100,
+): Promise<Message[]> {
+  const { messages } = await getChannelMessagesPage(channelId, { limit });
+  return messages;
 }
 
 export type ChainMessage = {
   id: string;
   type: number;
   username: string;
+  author: AuthorKind;
   content: string;
 };
 
 const MAX_CHAIN_DEPTH = 50;
 
 export async function getMessageChain(
+  channelId: string,
   messageId: string,
 ): Promise<ChainMessage[]> {
   const chain: ChainMessage[] = [];
@@ -318,11 +595,20 @@ export async function getMessageChain(
     if (seen.has(currentId)) break;
     seen.add(currentId);
 
-    const response: DiscordMessage = await discordMessageLoader.load(currentId);
+    const response: DiscordMessage = await discordMessageLoader.load({
+      channelId,
+      messageId: currentId,
+    });
 
-    const { username, content } = await resolveMessageContent(response);
+    const { username, author, content } = await resolveMessageContent(response);
 
-    chain.unshift({ id: response.id, type: response.type, username, content });
+    chain.unshift({
+      id: response.id,
+      type: response.type,
+      username,
+      author,
+      content,
+    });
 
     currentId = response.message_reference?.message_id;
   }
@@ -357,17 +643,26 @@ async function resolveSearchMessage(
   return { id: msg.id, username, content, timestamp: msg.timestamp };
 }
 
-export async function searchChannelMessages(params: {
-  content: string;
-  limit?: number;
-  sort_by?: "timestamp" | "relevance";
-  sort_order?: "asc" | "desc";
-}): Promise<SearchResult> {
+export async function searchChannelMessages(
+  channelId: string,
+  params: {
+    content: string;
+    limit?: number;
+    sort_by?: "timestamp" | "relevance";
+    sort_order?: "asc" | "desc";
+    /** Only messages by these users. */
+    author_id?: string[];
+    /** Only messages posted after this one, see `snowflakeAt`. */
+    min_id?: string;
+    /** Only messages posted before this one. */
+    max_id?: string;
+  },
+): Promise<SearchResult> {
   const response = await call(
     "GET",
     `guilds/${env.DISCORD_GUILD_ID}/messages/search`,
     SearchGuildMessagesResponseSchema,
-    { channel_id: env.DISCORD_CHANNEL_ID, ...params },
+    { channel_id: channelId, ...params },
   );
 
   const hits = await Promise.all(
@@ -394,12 +689,13 @@ export async function searchChannelMessages(params: {
 const PostChannelMessageResponseSchema = z.object({ id: z.string() });
 
 export async function postChannelMessage(
+  channelId: string,
   text: string,
-  username: Username,
+  author: SiteAuthor,
   replyToMessageId?: string,
 ): Promise<string> {
   const body = {
-    content: `${username}: ${text}`,
+    content: `${author.username}: ${text}`,
     message_reference: replyToMessageId
       ? { message_id: replyToMessageId }
       : undefined,
@@ -407,14 +703,262 @@ export async function postChannelMessage(
 
   const response = await call(
     "POST",
-    `channels/${env.DISCORD_CHANNEL_ID}/messages`,
+    `channels/${channelId}/messages`,
     PostChannelMessageResponseSchema,
     body,
   );
+  await recordSiteAuthor(response.id, author);
 
   return response.id;
 }
 
+const PRIVATE_THREAD = 12;
+const THREAD_AUTO_ARCHIVE_MINUTES = 7 * 24 * 60;
+
+/**
+ * Starts a private thread in the channel, which besides the bot only
+ * members who can manage threads see. Posting to it once it's archived
+ * brings it back.
+ */
+export async function createPrivateThread(
+  channelId: string,
+  name: string,
+): Promise<string> {
+  const thread = await call(
+    "POST",
+    `channels/${channelId}/threads`,
+    z.object({ id: z.string() }),
+    {
+      name,
+      type: PRIVATE_THREAD,
+      invitable: false,
+      auto_archive_duration: THREAD_AUTO_ARCHIVE_MINUTES,
+    },
+  );
+  return thread.id;
+}
+
+/** Whether the message was posted from the site in the given session. */
+export async function isOwnChannelMessage(
+  channelId: string,
+  messageId: string,
+  session: Session,
+): Promise<boolean> {
+  const message = await call(
+    "GET",
+    `channels/${channelId}/messages/${messageId}`,
+    DiscordMessageSchema,
+  );
+
+  const author = await getSiteAuthor(message);
+  return author?.kind === "visitor" && author.session === session.id;
+}
+
+/**
+ * Edits a message posted from the site, keeping the name it was posted
+ * under, as the visitor may have changed theirs since.
+ */
+export async function editChannelMessage(
+  channelId: string,
+  messageId: string,
+  text: string,
+): Promise<void> {
+  const author = await getRecordedSiteAuthor(messageId);
+  if (!author) {
+    throw new Error(`No site author recorded for message ${messageId}`);
+  }
+
+  await call(
+    "PATCH",
+    `channels/${channelId}/messages/${messageId}`,
+    DiscordMessageSchema,
+    { content: `${author.username}: ${text}` },
+  );
+
+  discordMessageLoader.clear({ channelId, messageId });
+}
+
+export async function deleteChannelMessage(
+  channelId: string,
+  messageId: string,
+): Promise<void> {
+  await call("DELETE", `channels/${channelId}/messages/${messageId}`, z.null());
+
+  discordMessageLoader.clear({ channelId, messageId });
+  await forgetSiteAuthors([messageId]);
+}
+
+/** The latest messages of the channel as Discord has them, newest first. */
+export async function getRecentChannelMessages(
+  channelId: string,
+  limit = 100,
+): Promise<DiscordMessage[]> {
+  return call(
+    "GET",
+    `channels/${channelId}/messages`,
+    GetMessagesResponseSchema,
+    { limit },
+  );
+}
+
+const DISCORD_EPOCH = 1420070400000n;
+// Discord only deletes messages in bulk while they're younger than two weeks
+const BULK_DELETE_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+function snowflakeTime(id: string): number {
+  return Number((BigInt(id) >> 22n) + DISCORD_EPOCH);
+}
+
+/**
+ * The earliest id a message posted at `time` could have, where times before
+ * Discord's epoch are the epoch itself.
+ */
+export function snowflakeAt(time: number): string {
+  const since = BigInt(time) - DISCORD_EPOCH;
+  return String((since > 0n ? since : 0n) << 22n);
+}
+
+/** Deletes up to 100 messages, in bulk where Discord allows it. */
+export async function deleteChannelMessages(
+  channelId: string,
+  ids: string[],
+): Promise<void> {
+  const cutoff = Date.now() - BULK_DELETE_MAX_AGE_MS;
+  const recent = ids.filter((id) => snowflakeTime(id) > cutoff);
+  // Bulk deletes take at least two messages
+  const single =
+    recent.length >= 2 ? ids.filter((id) => !recent.includes(id)) : ids;
+
+  if (recent.length >= 2) {
+    await call("POST", `channels/${channelId}/messages/bulk-delete`, z.null(), {
+      messages: recent,
+    });
+    for (const messageId of recent) {
+      discordMessageLoader.clear({ channelId, messageId });
+    }
+    await forgetSiteAuthors(recent);
+  }
+
+  for (const id of single) {
+    await deleteChannelMessage(channelId, id);
+  }
+}
+
+/** Fetches the current reactions of a message. */
+export async function getMessageReactions(
+  channelId: string,
+  messageId: string,
+): Promise<Reaction[]> {
+  const message = await call(
+    "GET",
+    `channels/${channelId}/messages/${messageId}`,
+    DiscordMessageSchema,
+  );
+
+  return resolveReactions(message);
+}
+
+function reactionEndpoint(
+  channelId: string,
+  messageId: string,
+  emoji: string,
+): string {
+  return `channels/${channelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`;
+}
+
+/** Reacts to a message as the bot, on behalf of the site users. */
+export async function addOwnReaction(
+  channelId: string,
+  messageId: string,
+  emoji: string,
+): Promise<void> {
+  await call("PUT", reactionEndpoint(channelId, messageId, emoji), z.null());
+}
+
+/** Removes the bot's reaction once no site user reacts with the emoji. */
+export async function removeOwnReaction(
+  channelId: string,
+  messageId: string,
+  emoji: string,
+): Promise<void> {
+  await call("DELETE", reactionEndpoint(channelId, messageId, emoji), z.null());
+}
+
+export type ApplicationCommand = {
+  name: string;
+  description: string;
+  /** Permission bits members need to use the command, as a string. */
+  default_member_permissions?: string;
+  options?: ApplicationCommandOption[];
+};
+
+export type ApplicationCommandOption = {
+  type: number;
+  name: string;
+  description: string;
+  required?: boolean;
+  min_value?: number;
+  max_value?: number;
+  /** For subcommands. */
+  options?: ApplicationCommandOption[];
+};
+
+const ApplicationResponseSchema = z.object({ id: z.string() });
+
+/**
+ * Registers the bot's slash commands in our guild, replacing any it had
+ * before.
+ */
+export async function registerGuildCommands(
+  commands: ApplicationCommand[],
+): Promise<void> {
+  const application = await call(
+    "GET",
+    "applications/@me",
+    ApplicationResponseSchema,
+  );
+
+  await call(
+    "PUT",
+    `applications/${application.id}/guilds/${env.DISCORD_GUILD_ID}/commands`,
+    z.unknown(),
+    commands,
+  );
+}
+
+// Acknowledges the command, showing that the reply is on its way to its user
+// only
+const DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE = 5;
+const EPHEMERAL = 1 << 6;
+
+/**
+ * Acknowledges a slash command, which has to happen within 3 seconds. The
+ * reply follows with `editInteractionResponse` once the command is done.
+ */
+export async function deferInteractionResponse(
+  interaction: DiscordInteraction,
+): Promise<void> {
+  await call(
+    "POST",
+    `interactions/${interaction.id}/${interaction.token}/callback`,
+    z.null(),
+    { type: DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE, data: { flags: EPHEMERAL } },
+  );
+}
+
+/** Replies to a slash command acknowledged with `deferInteractionResponse`. */
+export async function editInteractionResponse(
+  interaction: DiscordInteraction,
+  content: string,
+): Promise<void> {
+  await call(
+    "PATCH",
+    `webhooks/${interaction.application_id}/${interaction.token}/messages/@original`,
+    z.unknown(),
+    { content, allowed_mentions: { parse: [] } },
+  );
+}
+
 function flattenSettledPromises<T>(
   promises: PromiseSettledResult<T>[],
 ): (T | Error)[] {
@@ -0,0 +1,58 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  forgetSiteAuthors,
+  getRecordedSiteAuthor,
+  recordSiteAuthor,
+} from "./authors";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+describe("site authors", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    redis.reset();
+  });
+
+  it("should remember who messages were posted for", async () => {
+    await recordSiteAuthor("1", { kind: "visitor", username: "alice" });
+    await recordSiteAuthor("2", { kind: "bot", username: "simon-bot" });
+
+    expect(
+      await Promise.all([
+        getRecordedSiteAuthor("1"),
+        getRecordedSiteAuthor("2"),
+        getRecordedSiteAuthor("3"),
+      ]),
+    ).toEqual([
+      { kind: "visitor", username: "alice" },
+      { kind: "bot", username: "simon-bot" },
+      null,
+    ]);
+  });
+
+  it("should forget who messages were posted for after 90 days", async () => {
+    vi.useFakeTimers();
+    await recordSiteAuthor("1", { kind: "visitor", username: "alice" });
+
+    vi.advanceTimersByTime(90 * 24 * 60 * 60 * 1000);
+
+    expect(await getRecordedSiteAuthor("1")).toBeNull();
+  });
+
+  it("should forget deleted messages", async () => {
+    await recordSiteAuthor("1", { kind: "visitor", username: "alice" });
+
+    await forgetSiteAuthors(["1"]);
+    await forgetSiteAuthors([]);
+
+    expect(await getRecordedSiteAuthor("1")).toBeNull();
+  });
+});
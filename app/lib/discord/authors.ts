@@ -0,0 +1,62 @@
+import "server-only";
+
+import DataLoader from "dataloader";
+
+import { getRedis } from "@/lib/redis";
+import type { Username } from "@/lib/session";
+
+// Messages posted from the site all come from the bot, so who they were
+// posted for is recorded as they're posted, instead of trusting the
+// `username: ` prefix that anyone could type
+const AUTHOR_PREFIX = "chat:author:";
+// Older messages fall back to their prefix, and can no longer be edited
+const AUTHOR_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export const BOT_USERNAME = "simon-bot" as Username;
+
+/** Who a message is from: a site visitor, a Discord member or simon-bot. */
+export type AuthorKind = "visitor" | "member" | "bot";
+
+export type SiteAuthor = {
+  kind: Exclude<AuthorKind, "member">;
+  username: string;
+  /**
+   * The session of the visitor who posted the message, as names can change
+   * hands. Missing for the bot and for messages recorded before.
+   */
+  session?: string;
+};
+
+// Not cached, as messages can be loaded before their author is recorded
+const siteAuthorLoader = new DataLoader<string, SiteAuthor | null>(
+  async (messageIds) => {
+    const authors = await getRedis().mget<(SiteAuthor | null)[]>(
+      ...messageIds.map((messageId) => `${AUTHOR_PREFIX}${messageId}`),
+    );
+    return messageIds.map((_, index) => authors[index] ?? null);
+  },
+  { cache: false },
+);
+
+export async function recordSiteAuthor(
+  messageId: string,
+  author: SiteAuthor,
+): Promise<void> {
+  await getRedis().set(`${AUTHOR_PREFIX}${messageId}`, author, {
+    ex: AUTHOR_TTL_SECONDS,
+  });
+}
+
+/** Who a message posted from the site was posted for, if recorded. */
+export async function getRecordedSiteAuthor(
+  messageId: string,
+): Promise<SiteAuthor | null> {
+  return siteAuthorLoader.load(messageId);
+}
+
+export async function forgetSiteAuthors(messageIds: string[]): Promise<void> {
+  if (messageIds.length === 0) return;
+  await getRedis().del(
+    ...messageIds.map((messageId) => `${AUTHOR_PREFIX}${messageId}`),
+  );
+}
@@ -4,12 +4,16 @@ import type { Redis } from "@upstash/redis";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { createMessage as createAnthropicMessage } from "@/lib/anthropic";
+import { isBotEnabled } from "@/lib/chatSettings";
 import { log } from "@/lib/log";
+import { isShadowed } from "@/lib/sanctions";
 
 import { getMessageChain, postChannelMessage } from "./api";
+import { forgetSiteAuthors, getRecordedSiteAuthor } from "./authors";
 import { handleMessage, startBotSubscription } from "./bot";
-import { subscribeToMessages } from "./gateway";
-import type { DiscordMessage } from "./schemas";
+import { handleInteraction, registerCommands } from "./commands";
+import { isLeader, subscribeToChannelEvents } from "./relay";
+import type { DiscordInteraction, DiscordMessage } from "./schemas";
 
 vi.mock(import("server-only"), () => ({}));
 
@@ -23,15 +27,36 @@ vi.mock(import("./api"), async (importOriginal) => {
   return { ...actual, getMessageChain: vi.fn(), postChannelMessage: vi.fn() };
 });
 
+vi.mock(import("./authors"), async (importOriginal) => ({
+  ...(await importOriginal()),
+  forgetSiteAuthors: vi.fn(() => Promise.resolve()),
+  getRecordedSiteAuthor: vi.fn(() => Promise.resolve(null)),
+}));
+
 vi.mock(import("@/lib/anthropic"), async (importOriginal) => {
   const actual = await importOriginal();
   return { ...actual, createMessage: vi.fn() };
 });
 
-vi.mock(import("./gateway"), async (importOriginal) => {
-  const actual = await importOriginal();
-  return { ...actual, subscribeToMessages: vi.fn() };
-});
+vi.mock(import("@/lib/chatSettings"), () => ({
+  isBotEnabled: vi.fn(() => Promise.resolve(true)),
+}));
+
+vi.mock(import("@/lib/sanctions"), () => ({
+  isShadowed: vi.fn(() => Promise.resolve(false)),
+}));
+
+vi.mock(import("./commands"), () => ({
+  handleInteraction: vi.fn(),
+  registerCommands: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock(import("./relay"), () => ({
+  isLeader: vi.fn(),
+  subscribeToChannelEvents: vi.fn(),
+}));
+
+const general = { name: "general", channelId: "test-discord-channel-id" };
 
 function createMessage(
   overrides: Partial<DiscordMessage> = {},
@@ -62,7 +87,13 @@ describe("handleMessage", () => {
     setMock.mockResolvedValue("OK");
 
     vi.mocked(getMessageChain).mockResolvedValue([
-      { id: "msg-1", type: 0, username: "User1", content: "hey simon-bot!" },
+      {
+        id: "msg-1",
+        type: 0,
+        username: "User1",
+        author: "visitor",
+        content: "hey simon-bot!",
+      },
     ]);
 
     async function* mockResponse() {
@@ -71,11 +102,15 @@ describe("handleMessage", () => {
     vi.mocked(createAnthropicMessage).mockReturnValue(mockResponse());
     vi.mocked(postChannelMessage).mockResolvedValue("response-1");
 
-    await handleMessage(createMessage({ content: "User1: hey simon-bot!" }));
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hey simon-bot!" }),
+    );
 
     expect(postChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
       "hello there!",
-      "simon-bot",
+      { kind: "bot", username: "simon-bot" },
       "msg-1",
     );
   });
@@ -84,10 +119,19 @@ describe("handleMessage", () => {
     setMock.mockResolvedValue("OK");
 
     vi.mocked(getMessageChain).mockResolvedValue([
-      { id: "msg-1", type: 0, username: "User1", content: "hello world" },
+      {
+        id: "msg-1",
+        type: 0,
+        username: "User1",
+        author: "visitor",
+        content: "hello world",
+      },
     ]);
 
-    await handleMessage(createMessage({ content: "User1: hello world" }));
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hello world" }),
+    );
 
     expect(postChannelMessage).not.toHaveBeenCalled();
   });
@@ -101,9 +145,16 @@ describe("handleMessage", () => {
         id: "msg-1",
         type: 0,
         username: "User1",
+        author: "visitor",
         content: "hey simon-bot help",
       },
-      { id: "msg-2", type: 19, username: "User2", content: "thanks!" },
+      {
+        id: "msg-2",
+        type: 19,
+        username: "User2",
+        author: "visitor",
+        content: "thanks!",
+      },
     ]);
 
     async function* mockResponse() {
@@ -113,12 +164,14 @@ describe("handleMessage", () => {
     vi.mocked(postChannelMessage).mockResolvedValue("response-1");
 
     await handleMessage(
+      general,
       createMessage({ type: 19, id: "msg-2", content: "User2: thanks!" }),
     );
 
     expect(postChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
       "you're welcome!",
-      "simon-bot",
+      { kind: "bot", username: "simon-bot" },
       "msg-2",
     );
   });
@@ -128,9 +181,27 @@ describe("handleMessage", () => {
     setMock.mockResolvedValue("OK");
 
     vi.mocked(getMessageChain).mockResolvedValue([
-      { id: "msg-1", type: 0, username: "User1", content: "hey simon-bot!" },
-      { id: "msg-2", type: 19, username: "simon-bot", content: "hello there!" },
-      { id: "msg-3", type: 19, username: "User1", content: "thanks!" },
+      {
+        id: "msg-1",
+        type: 0,
+        username: "User1",
+        author: "visitor",
+        content: "hey simon-bot!",
+      },
+      {
+        id: "msg-2",
+        type: 19,
+        username: "simon-bot",
+        author: "bot",
+        content: "hello there!",
+      },
+      {
+        id: "msg-3",
+        type: 19,
+        username: "User1",
+        author: "visitor",
+        content: "thanks!",
+      },
     ]);
 
     async function* mockResponse() {
@@ -140,21 +211,28 @@ describe("handleMessage", () => {
     vi.mocked(postChannelMessage).mockResolvedValue("response-1");
 
     await handleMessage(
+      general,
       createMessage({ type: 19, id: "msg-3", content: "User1: thanks!" }),
     );
 
-    expect(createAnthropicMessage).toHaveBeenCalledWith([
-      { role: "user", username: "User1", content: "hey simon-bot!" },
-      { role: "assistant", username: "simon-bot", content: "hello there!" },
-      { role: "user", username: "User1", content: "thanks!" },
-    ]);
+    expect(createAnthropicMessage).toHaveBeenCalledWith(
+      [
+        { role: "user", username: "User1", content: "hey simon-bot!" },
+        { role: "assistant", username: "simon-bot", content: "hello there!" },
+        { role: "user", username: "User1", content: "thanks!" },
+      ],
+      "test-discord-channel-id",
+    );
   });
 
   it("should skip if chain is empty", async () => {
     setMock.mockResolvedValue("OK");
     vi.mocked(getMessageChain).mockResolvedValue([]);
 
-    await handleMessage(createMessage({ content: "User1: hey simon-bot" }));
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hey simon-bot" }),
+    );
 
     expect(createAnthropicMessage).not.toHaveBeenCalled();
   });
@@ -162,13 +240,17 @@ describe("handleMessage", () => {
   it("should skip if already seen (dedup)", async () => {
     setMock.mockResolvedValue(null); // null = key already exists
 
-    await handleMessage(createMessage({ content: "User1: hey simon-bot" }));
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hey simon-bot" }),
+    );
 
     expect(getMessageChain).not.toHaveBeenCalled();
   });
 
   it("should ignore non-standard message types", async () => {
     await handleMessage(
+      general,
       createMessage({
         type: 7, // guild member join
         content: "User1: hey simon-bot!",
@@ -179,20 +261,73 @@ describe("handleMessage", () => {
     expect(setMock).not.toHaveBeenCalled();
   });
 
+  it("should not respond while turned off", async () => {
+    vi.mocked(isBotEnabled).mockResolvedValueOnce(false);
+
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hey simon-bot" }),
+    );
+
+    expect(isBotEnabled).toHaveBeenCalledWith("general");
+    expect(setMock).not.toHaveBeenCalled();
+    expect(postChannelMessage).not.toHaveBeenCalled();
+  });
+
+  it("should skip messages hidden by a shadow ban", async () => {
+    vi.mocked(isShadowed).mockResolvedValueOnce(true);
+
+    await handleMessage(
+      general,
+      createMessage({
+        author: { id: "bot", bot: true },
+        content: "User1: hey simon-bot",
+      }),
+    );
+
+    expect(isShadowed).toHaveBeenCalledWith("msg-1", "User1");
+    expect(setMock).not.toHaveBeenCalled();
+  });
+
   it("should skip bot's own messages", async () => {
-    await handleMessage(createMessage({ content: "simon-bot: hello there!" }));
+    vi.mocked(getRecordedSiteAuthor).mockResolvedValueOnce({
+      kind: "bot",
+      username: "simon-bot",
+    });
+
+    await handleMessage(
+      general,
+      createMessage({
+        author: { id: "bot", bot: true },
+        content: "simon-bot: hello there!",
+      }),
+    );
 
     // Should exit early before dedup check
     expect(setMock).not.toHaveBeenCalled();
   });
 
+  it("should not mistake members for the bot by their message", async () => {
+    setMock.mockResolvedValue(null);
+
+    await handleMessage(
+      general,
+      createMessage({ content: "simon-bot: hello there!" }),
+    );
+
+    expect(setMock).toHaveBeenCalled();
+  });
+
   it("should log error silently on pre-commitment failure", async () => {
     const errorSpy = vi.spyOn(log, "error").mockImplementation(() => {});
     setMock.mockResolvedValue("OK");
 
     vi.mocked(getMessageChain).mockRejectedValue(new Error("API error"));
 
-    await handleMessage(createMessage({ content: "User1: hey simon-bot" }));
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hey simon-bot" }),
+    );
 
     expect(errorSpy).toHaveBeenCalled();
     expect(postChannelMessage).not.toHaveBeenCalled();
@@ -203,7 +338,13 @@ describe("handleMessage", () => {
     setMock.mockResolvedValue("OK");
 
     vi.mocked(getMessageChain).mockResolvedValue([
-      { id: "msg-1", type: 0, username: "User1", content: "hey simon-bot!" },
+      {
+        id: "msg-1",
+        type: 0,
+        username: "User1",
+        author: "visitor",
+        content: "hey simon-bot!",
+      },
     ]);
 
     async function* failingResponse(): AsyncGenerator<string> {
@@ -212,24 +353,175 @@ describe("handleMessage", () => {
     vi.mocked(createAnthropicMessage).mockReturnValue(failingResponse());
     vi.mocked(postChannelMessage).mockResolvedValue("error-msg-id");
 
-    await handleMessage(createMessage({ content: "User1: hey simon-bot!" }));
+    await handleMessage(
+      general,
+      createMessage({ content: "User1: hey simon-bot!" }),
+    );
 
     expect(errorSpy).toHaveBeenCalled();
     expect(postChannelMessage).toHaveBeenCalledWith(
+      "test-discord-channel-id",
       "oops, something went wrong... try again later!",
-      "simon-bot",
+      { kind: "bot", username: "simon-bot" },
       "msg-1",
     );
   });
 });
 
 describe("startBotSubscription", () => {
-  it("should subscribe to messages with handleMessage", async () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
     vi.spyOn(log, "info").mockImplementation(() => {});
-    vi.mocked(subscribeToMessages).mockResolvedValue(() => {});
+    vi.mocked(subscribeToChannelEvents).mockResolvedValue(() => {});
+    vi.mocked(isLeader).mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should subscribe to channel events", async () => {
+    await startBotSubscription();
+
+    expect(subscribeToChannelEvents).toHaveBeenCalledWith(expect.any(Function));
+  });
+
+  it("should register the slash commands", async () => {
+    await startBotSubscription();
+
+    expect(registerCommands).toHaveBeenCalledOnce();
+  });
+
+  it("should handle slash commands on the leader only", async () => {
+    const interaction: DiscordInteraction = {
+      id: "interaction-1",
+      application_id: "application-1",
+      token: "token",
+      type: 2,
+      data: { name: "ban" },
+    };
+
+    await startBotSubscription();
+    const onEvent = vi.mocked(subscribeToChannelEvents).mock.calls[0]![0];
+
+    onEvent({ type: "INTERACTION_CREATE", interaction }, 1);
+    expect(handleInteraction).toHaveBeenCalledWith(interaction);
+
+    vi.mocked(isLeader).mockReturnValue(false);
+    onEvent({ type: "INTERACTION_CREATE", interaction }, 1);
+    expect(handleInteraction).toHaveBeenCalledOnce();
+  });
+
+  it("should forget who deleted messages were posted for on the leader only", async () => {
+    await startBotSubscription();
+    const onEvent = vi.mocked(subscribeToChannelEvents).mock.calls[0]![0];
+
+    onEvent(
+      { type: "MESSAGE_DELETE", channelId: "test-discord-channel-id", id: "1" },
+      1,
+    );
+    expect(forgetSiteAuthors).toHaveBeenCalledWith(["1"]);
+
+    vi.mocked(isLeader).mockReturnValue(false);
+    onEvent(
+      { type: "MESSAGE_DELETE", channelId: "test-discord-channel-id", id: "2" },
+      2,
+    );
+    expect(forgetSiteAuthors).toHaveBeenCalledOnce();
+  });
+
+  it("should only handle created messages", async () => {
+    setMock.mockResolvedValue(null);
+
+    await startBotSubscription();
+    const onEvent = vi.mocked(subscribeToChannelEvents).mock.calls[0]![0];
+
+    onEvent(
+      {
+        type: "MESSAGE_UPDATE",
+        channelId: "test-discord-channel-id",
+        message: createMessage(),
+      },
+      1,
+    );
+    onEvent(
+      {
+        type: "MESSAGE_DELETE",
+        channelId: "test-discord-channel-id",
+        id: "msg-1",
+      },
+      1,
+    );
+    expect(setMock).not.toHaveBeenCalled();
+
+    onEvent(
+      {
+        type: "MESSAGE_CREATE",
+        channelId: "test-discord-channel-id",
+        message: createMessage(),
+      },
+      1,
+    );
+    await vi.waitFor(() =>
+      expect(setMock).toHaveBeenCalledWith("discord:seen:msg-1", "1", {
+        nx: true,
+        ex: 60,
+      }),
+    );
+  });
+
+  it("should leave messages in private threads alone", async () => {
+    await startBotSubscription();
+    const onEvent = vi.mocked(subscribeToChannelEvents).mock.calls[0]![0];
+
+    onEvent(
+      {
+        type: "MESSAGE_CREATE",
+        channelId: "thread-1",
+        message: createMessage({ content: "User1: hey simon-bot" }),
+      },
+      1,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
 
+    expect(setMock).not.toHaveBeenCalled();
+  });
+
+  it("should answer in the room of the message", async () => {
     await startBotSubscription();
+    const onEvent = vi.mocked(subscribeToChannelEvents).mock.calls[0]![0];
+
+    vi.mocked(isBotEnabled).mockResolvedValueOnce(false);
+    onEvent(
+      {
+        type: "MESSAGE_CREATE",
+        channelId: "1000000000000000001",
+        message: createMessage({ content: "User1: hey simon-bot" }),
+      },
+      1,
+    );
 
-    expect(subscribeToMessages).toHaveBeenCalledWith(handleMessage);
+    await vi.waitFor(() =>
+      expect(isBotEnabled).toHaveBeenCalledExactlyOnceWith("music"),
+    );
+  });
+
+  it("should not handle messages unless this instance is the leader", async () => {
+    vi.mocked(isLeader).mockReturnValue(false);
+
+    await startBotSubscription();
+    const onEvent = vi.mocked(subscribeToChannelEvents).mock.calls[0]![0];
+
+    onEvent(
+      {
+        type: "MESSAGE_CREATE",
+        channelId: "test-discord-channel-id",
+        message: createMessage(),
+      },
+      1,
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(setMock).not.toHaveBeenCalled();
   });
 });
@@ -1,23 +1,21 @@
 import "server-only";
 
 import { type ChatMessage, createMessage } from "@/lib/anthropic";
+import { isBotEnabled } from "@/lib/chatSettings";
+import { instanceId } from "@/lib/instanceId";
 import { log } from "@/lib/log";
 import { getRedis } from "@/lib/redis";
+import { isShadowed } from "@/lib/sanctions";
 
-import type { Username } from "../session";
-import { getMessageChain, postChannelMessage } from "./api";
-import { subscribeToMessages } from "./gateway";
-import type { DiscordMessage } from "./schemas";
+import { getMessageChain, getSiteAuthor, postChannelMessage } from "./api";
+import { BOT_USERNAME, forgetSiteAuthors } from "./authors";
+import { handleInteraction, registerCommands } from "./commands";
+import { isLeader, subscribeToChannelEvents } from "./relay";
+import { findRoomByChannel, type Room } from "./rooms";
+import type { ChannelEvent, DiscordMessage } from "./schemas";
 
-// Bot identity
-const BOT_USERNAME = "simon-bot" as Username;
-const BOT_PREFIX = `${BOT_USERNAME}: `;
 const BOT_MENTION_PATTERN = /\bsimon[- ]?bot\b/i;
 
-function isBotMessage(content: string): boolean {
-  return content.startsWith(BOT_PREFIX);
-}
-
 function mentionsBot(content: string): boolean {
   return BOT_MENTION_PATTERN.test(content);
 }
@@ -33,20 +31,35 @@ async function markSeen(messageId: string): Promise<boolean> {
   return result === "OK";
 }
 
-export async function handleMessage(message: DiscordMessage): Promise<void> {
+export async function handleMessage(
+  room: Room,
+  message: DiscordMessage,
+): Promise<void> {
   try {
     // Only respond to default messages (0) and replies (19)
     if (message.type !== 0 && message.type !== 19) return;
 
     // Skip our own messages
-    if (isBotMessage(message.content)) return;
+    const author = await getSiteAuthor(message);
+    if (author?.kind === "bot") return;
+
+    // Replying would give away messages hidden by a shadow ban
+    if (
+      author?.kind === "visitor" &&
+      (await isShadowed(message.id, author.username))
+    ) {
+      return;
+    }
+
+    // Moderators can turn the bot off in a room with `/bot off`
+    if (!(await isBotEnabled(room.name))) return;
 
-    // Dedup across instances
+    // Dedup across leadership changes
     const isNew = await markSeen(message.id);
     if (!isNew) return;
 
     // Fetch the reply chain
-    const chain = await getMessageChain(message.id);
+    const chain = await getMessageChain(room.channelId, message.id);
     if (chain.length === 0) return;
 
     // Check if bot is mentioned anywhere in chain
@@ -54,24 +67,27 @@ export async function handleMessage(message: DiscordMessage): Promise<void> {
 
     // Past this point, we're committed to responding
     const messages = chain.map((m) => ({
-      role:
-        m.username === BOT_USERNAME
-          ? ("assistant" as const)
-          : ("user" as const),
+      role: m.author === "bot" ? ("assistant" as const) : ("user" as const),
       username: m.username,
       content: m.content,
     })) as [ChatMessage, ...ChatMessage[]];
 
     try {
-      for await (const response of createMessage(messages)) {
-        await postChannelMessage(response, BOT_USERNAME, message.id);
+      for await (const response of createMessage(messages, room.channelId)) {
+        await postChannelMessage(
+          room.channelId,
+          response,
+          { kind: "bot", username: BOT_USERNAME },
+          message.id,
+        );
       }
       log.info({ messageId: message.id }, "Bot responded to message");
     } catch (err) {
       log.error({ err, messageId: message.id }, "Bot response failed");
       await postChannelMessage(
+        room.channelId,
         "oops, something went wrong... try again later!",
-        BOT_USERNAME,
+        { kind: "bot", username: BOT_USERNAME },
         message.id,
       );
     }
@@ -80,8 +96,30 @@ export async function handleMessage(message: DiscordMessage): Promise<void> {
   }
 }
 
+function handleChannelEvent(event: ChannelEvent): void {
+  // Every instance receives relayed events, but only the leader responds, and
+  // only in the rooms, not in private threads
+  if (event.type === "MESSAGE_CREATE" && isLeader()) {
+    const room = findRoomByChannel(event.channelId);
+    if (room) void handleMessage(room, event.message);
+  }
+  if (event.type === "INTERACTION_CREATE" && isLeader()) {
+    void handleInteraction(event.interaction);
+  }
+  // Messages deleted on Discord are forgotten as the site's own deletes are
+  if (event.type === "MESSAGE_DELETE" && isLeader()) {
+    forgetSiteAuthors([event.id]).catch((err: unknown) => {
+      log.error({ err, messageId: event.id }, "Failed to forget site author");
+    });
+  }
+}
+
 export async function startBotSubscription(): Promise<void> {
   log.info("Starting bot subscription");
-  await subscribeToMessages(handleMessage);
-  log.info("Bot subscription started");
+  await subscribeToChannelEvents(handleChannelEvent);
+  log.info({ instanceId }, "Bot subscription started");
+
+  registerCommands().catch((err: unknown) => {
+    log.error({ err }, "Failed to register slash commands");
+  });
 }
@@ -0,0 +1,448 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DEFAULT_RATE_LIMITS,
+  getRateLimit,
+  getRateLimits,
+  getSlowMode,
+  isBotEnabled,
+} from "@/lib/chatSettings";
+import { log } from "@/lib/log";
+import { getSanction, rememberIp } from "@/lib/sanctions";
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  deferInteractionResponse,
+  deleteChannelMessages,
+  editInteractionResponse,
+  getRecentChannelMessages,
+  registerGuildCommands,
+} from "./api";
+import { recordSiteAuthor } from "./authors";
+import {
+  getCommandDefinitions,
+  handleInteraction,
+  parseDuration,
+  registerCommands,
+} from "./commands";
+import type { DiscordInteraction, DiscordMessage } from "./schemas";
+
+vi.mock(import("server-only"), () => ({}));
+vi.mock(import("./api"), async (importOriginal) => {
+  const { getSiteAuthor, isChatMessage } = await importOriginal();
+  return {
+    getSiteAuthor,
+    isChatMessage,
+    deferInteractionResponse: vi.fn(),
+    deleteChannelMessages: vi.fn(),
+    editInteractionResponse: vi.fn(),
+    getRecentChannelMessages: vi.fn(),
+    registerGuildCommands: vi.fn(),
+  };
+});
+
+const moderatorRole = vi.hoisted(() => ({
+  id: undefined as string | undefined,
+}));
+vi.mock(import("@/lib/env"), async (importOriginal) => {
+  const { env } = await importOriginal();
+  return {
+    env: {
+      ...env,
+      get DISCORD_MODERATOR_ROLE_ID() {
+        return moderatorRole.id;
+      },
+    },
+  };
+});
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+function command(
+  name: string,
+  options: Record<string, string | number | undefined> = {},
+  roles: string[] = [],
+  // Members who can time out others
+  permissions = String(1n << 40n),
+): DiscordInteraction {
+  return {
+    id: "interaction-1",
+    application_id: "application-1",
+    token: "token",
+    type: 2,
+    guild_id: "test-discord-guild-id",
+    channel_id: "test-discord-channel-id",
+    member: { user: { id: "mod-1", username: "mod" }, roles, permissions },
+    data: {
+      name,
+      options: Object.entries(options).map(([name, value]) => ({
+        name,
+        value,
+      })),
+    },
+  };
+}
+
+function subcommand(
+  name: string,
+  subcommand: string,
+  options: Record<string, string | number> = {},
+): DiscordInteraction {
+  const interaction = command(name);
+  return {
+    ...interaction,
+    data: {
+      name,
+      options: [
+        {
+          name: subcommand,
+          options: Object.entries(options).map(([name, value]) => ({
+            name,
+            value,
+          })),
+        },
+      ],
+    },
+  };
+}
+
+async function run(interaction: DiscordInteraction) {
+  await handleInteraction(interaction);
+  return vi.mocked(editInteractionResponse).mock.lastCall?.[1];
+}
+
+describe("parseDuration", () => {
+  it.each([
+    ["30m", 30 * 60 * 1000],
+    ["12h", 12 * 60 * 60 * 1000],
+    ["7D", 7 * 24 * 60 * 60 * 1000],
+    [" 2 w ", 14 * 24 * 60 * 60 * 1000],
+  ])("should parse %s", (text, ms) => {
+    expect(parseDuration(text)).toBe(ms);
+  });
+
+  it.each(["", "0m", "10", "1y", "-1h", "1.5h"])("should reject %j", (text) => {
+    expect(parseDuration(text)).toBeNull();
+  });
+});
+
+describe("handleInteraction", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(log, "info").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    redis.reset();
+    moderatorRole.id = undefined;
+  });
+
+  it("should mute for an hour by default", async () => {
+    expect(await run(command("mute", { user: "alice" }))).toBe(
+      "Muted alice for 1h",
+    );
+    expect(await getSanction({ username: "alice" })).toEqual({
+      type: "mute",
+      reason: null,
+      by: "mod",
+      expiresAt: Date.now() + 60 * 60 * 1000,
+    });
+  });
+
+  it("should ban until lifted, covering the last IP", async () => {
+    await rememberIp("alice", "203.0.113.1");
+
+    expect(await run(command("ban", { user: "alice", reason: "Spam" }))).toBe(
+      "Banned alice and their last IP address",
+    );
+    expect(await getSanction({ ip: "203.0.113.1" })).toEqual({
+      type: "ban",
+      reason: "Spam",
+      by: "mod",
+      expiresAt: null,
+    });
+  });
+
+  it("should shadow ban IP addresses for the given duration", async () => {
+    expect(
+      await run(command("shadowban", { user: "203.0.113.1", duration: "2d" })),
+    ).toBe("Shadow banned 203.0.113.1 for 2d");
+    expect(await getSanction({ ip: "203.0.113.1" })).toMatchObject({
+      type: "shadow",
+      expiresAt: Date.now() + 2 * 24 * 60 * 60 * 1000,
+    });
+    expect(await getSanction({ username: "203.0.113.1" })).toBeNull();
+  });
+
+  it("should reject invalid durations", async () => {
+    expect(
+      await run(command("mute", { user: "alice", duration: "forever" })),
+    ).toBe('Invalid duration "forever", use something like 30m, 12h or 7d');
+    expect(await getSanction({ username: "alice" })).toBeNull();
+  });
+
+  it("should lift sanctions", async () => {
+    await run(command("ban", { user: "alice" }));
+
+    expect(await run(command("unban", { user: "alice" }))).toBe(
+      "Lifted the sanction on alice",
+    );
+    expect(await getSanction({ username: "alice" })).toBeNull();
+    expect(await run(command("unban", { user: "alice" }))).toBe(
+      "alice wasn't muted or banned",
+    );
+  });
+
+  it("should answer unknown commands", async () => {
+    expect(await run(command("kick", { user: "alice" }))).toBe(
+      "Unknown command /kick",
+    );
+  });
+
+  it("should purge the latest chat messages", async () => {
+    const message = (
+      id: string,
+      content: string,
+      type = 0,
+    ): DiscordMessage => ({
+      type,
+      id,
+      author: { id: "bot", bot: true },
+      content,
+      timestamp: "2025-01-01T00:00:00.000000+00:00",
+    });
+    vi.mocked(getRecentChannelMessages).mockResolvedValue([
+      message("5", "alice: five"),
+      message("4", "bob: four"),
+      message("3", "pinned", 6),
+      message("2", "alice: two"),
+      message("1", "alice: one"),
+    ]);
+    // Bob typed alice's name in front of his message
+    await recordSiteAuthor("2", { kind: "visitor", username: "bob" });
+
+    expect(await run(command("purge", { count: 3 }))).toBe(
+      "Deleted 3 messages",
+    );
+    expect(getRecentChannelMessages).toHaveBeenLastCalledWith(
+      "test-discord-channel-id",
+      100,
+    );
+    expect(deleteChannelMessages).toHaveBeenLastCalledWith(
+      "test-discord-channel-id",
+      ["5", "4", "2"],
+    );
+
+    expect(await run(command("purge", { count: 2, user: "alice" }))).toBe(
+      "Deleted 2 messages",
+    );
+    expect(deleteChannelMessages).toHaveBeenLastCalledWith(
+      "test-discord-channel-id",
+      ["5", "1"],
+    );
+
+    expect(await run(command("purge", { count: 101 }))).toBe(
+      "Can only purge 1 to 100 messages",
+    );
+  });
+
+  it("should only purge in the chat rooms", async () => {
+    expect(
+      await run({
+        ...command("purge", { count: 3 }),
+        channel_id: "other-channel",
+      }),
+    ).toBe("Use this command in one of the chat rooms");
+    expect(getRecentChannelMessages).not.toHaveBeenCalled();
+  });
+
+  it("should turn slow mode on and off", async () => {
+    expect(await run(command("slowmode", { seconds: 30 }))).toBe(
+      "Slow mode is on, visitors wait 30 seconds between messages",
+    );
+    expect(await getSlowMode()).toBe(30);
+
+    expect(await run(command("slowmode", { seconds: 0 }))).toBe(
+      "Slow mode is off",
+    );
+    expect(await getSlowMode()).toBe(0);
+  });
+
+  it("should turn the bot on and off", async () => {
+    expect(await run(command("bot", { off: undefined }))).toBe(
+      "simon-bot is off in #general",
+    );
+    expect(await isBotEnabled("general")).toBe(false);
+
+    expect(await run(command("bot", { on: undefined }))).toBe(
+      "simon-bot is on in #general",
+    );
+    expect(await isBotEnabled("general")).toBe(true);
+  });
+
+  it("should turn the bot off in the room it's used in", async () => {
+    expect(
+      await run({
+        ...command("bot", { off: undefined }),
+        channel_id: "1000000000000000001",
+      }),
+    ).toBe("simon-bot is off in #music");
+    expect(await isBotEnabled("music")).toBe(false);
+    expect(await isBotEnabled("general")).toBe(true);
+  });
+
+  it("should change the rate limits", async () => {
+    expect(
+      await run(
+        subcommand("ratelimit", "default", { messages: 10, seconds: 60 }),
+      ),
+    ).toBe("Visitors can post 10 messages every 60 seconds");
+    expect(
+      await run(subcommand("ratelimit", "new", { messages: 1, seconds: 1 })),
+    ).toBe("New visitors can post 1 message every 1 second");
+    expect(await run(subcommand("ratelimit", "spike", { messages: 0 }))).toBe(
+      "Rate limits no longer tighten when the chat is busy",
+    );
+
+    expect(await getRateLimits()).toEqual({
+      ...DEFAULT_RATE_LIMITS,
+      default: { messages: 10, windowSeconds: 60 },
+      newSession: { messages: 1, windowSeconds: 1 },
+      spikeMessagesPerMinute: 0,
+    });
+  });
+
+  it("should override and reset the rate limit for one visitor", async () => {
+    expect(
+      await run(
+        subcommand("ratelimit", "user", {
+          user: "alice",
+          messages: 20,
+          seconds: 10,
+        }),
+      ),
+    ).toBe("alice can post 20 messages every 10 seconds");
+    expect(await getRateLimit("alice")).toEqual({
+      messages: 20,
+      windowSeconds: 10,
+    });
+
+    expect(await run(subcommand("ratelimit", "user", { user: "alice" }))).toBe(
+      "alice is back to the usual rate limit",
+    );
+    expect(await getRateLimit("alice")).toEqual(DEFAULT_RATE_LIMITS.newSession);
+  });
+
+  it("should reject rate limits out of range", async () => {
+    expect(
+      await run(
+        subcommand("ratelimit", "default", { messages: 0, seconds: 30 }),
+      ),
+    ).toBe("Rate limits take 1 to 100 messages every 1 to 3600 seconds");
+    expect(await getRateLimits()).toEqual(DEFAULT_RATE_LIMITS);
+  });
+
+  it("should only let members with the moderator role use commands", async () => {
+    const warn = vi.spyOn(log, "warn").mockImplementation(() => {});
+    moderatorRole.id = "role-1";
+
+    expect(await run(command("bot", { off: undefined }, ["role-2"]))).toBe(
+      "Only moderators can use this command",
+    );
+    expect(await isBotEnabled("general")).toBe(true);
+    expect(warn).toHaveBeenCalled();
+
+    expect(await run(command("bot", { off: undefined }, ["role-1"]))).toBe(
+      "simon-bot is off in #general",
+    );
+  });
+
+  it("should only let members who can time out others use commands without a moderator role", async () => {
+    vi.spyOn(log, "warn").mockImplementation(() => {});
+
+    expect(await run(command("bot", { off: undefined }, [], "0"))).toBe(
+      "Only moderators can use this command",
+    );
+    expect(await isBotEnabled("general")).toBe(true);
+
+    expect(
+      await run(command("bot", { off: undefined }, [], String(1n << 3n))),
+    ).toBe("simon-bot is off in #general");
+  });
+
+  it("should acknowledge commands before running them", async () => {
+    vi.mocked(deferInteractionResponse).mockImplementationOnce(async () => {
+      expect(await getSlowMode()).toBe(0);
+    });
+
+    await handleInteraction(command("slowmode", { seconds: 30 }));
+
+    expect(deferInteractionResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "interaction-1" }),
+    );
+    expect(editInteractionResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "interaction-1" }),
+      "Slow mode is on, visitors wait 30 seconds between messages",
+    );
+  });
+
+  it("should ignore interactions that aren't commands", async () => {
+    await handleInteraction({ ...command("ban"), type: 3 });
+
+    expect(deferInteractionResponse).not.toHaveBeenCalled();
+    expect(editInteractionResponse).not.toHaveBeenCalled();
+  });
+
+  it("should log failures to respond", async () => {
+    const error = vi.spyOn(log, "error").mockImplementation(() => {});
+    vi.mocked(editInteractionResponse).mockRejectedValueOnce(new Error("Gone"));
+
+    await handleInteraction(command("mute", { user: "alice" }));
+
+    expect(error).toHaveBeenCalledWith(
+      expect.objectContaining({ command: "mute" }),
+      "Slash command handling failed",
+    );
+  });
+});
+
+describe("registerCommands", () => {
+  afterEach(() => {
+    moderatorRole.id = undefined;
+  });
+
+  it("should register the commands for moderators only", async () => {
+    vi.spyOn(log, "info").mockImplementation(() => {});
+
+    await registerCommands();
+
+    const commands = vi.mocked(registerGuildCommands).mock.lastCall![0];
+    expect(commands.map(({ name }) => name)).toEqual([
+      "mute",
+      "ban",
+      "shadowban",
+      "unban",
+      "purge",
+      "slowmode",
+      "ratelimit",
+      "bot",
+    ]);
+    for (const { default_member_permissions } of commands) {
+      expect(default_member_permissions).toBe(String(1n << 40n));
+    }
+  });
+
+  it("should leave permissions to the moderator role when configured", () => {
+    moderatorRole.id = "role-1";
+
+    for (const command of getCommandDefinitions()) {
+      expect(command).not.toHaveProperty("default_member_permissions");
+    }
+  });
+});
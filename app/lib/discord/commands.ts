@@ -0,0 +1,549 @@
+import "server-only";
+
+import { isIP } from "node:net";
+
+import {
+  type RateLimit,
+  setBotEnabled,
+  setRateLimits,
+  setSlowMode,
+  setUserRateLimit,
+} from "@/lib/chatSettings";
+import { env } from "@/lib/env";
+import { log } from "@/lib/log";
+import {
+  getLastIp,
+  liftSanction,
+  type SanctionTarget,
+  type SanctionType,
+  setSanction,
+} from "@/lib/sanctions";
+
+import {
+  type ApplicationCommand,
+  type ApplicationCommandOption,
+  deferInteractionResponse,
+  deleteChannelMessages,
+  editInteractionResponse,
+  getRecentChannelMessages,
+  getSiteAuthor,
+  isChatMessage,
+  registerGuildCommands,
+} from "./api";
+import { findRoomByChannel, type Room } from "./rooms";
+import type { DiscordInteraction } from "./schemas";
+
+const APPLICATION_COMMAND = 2;
+
+const OptionType = { SUB_COMMAND: 1, STRING: 3, INTEGER: 4 } as const;
+
+// Without a configured role, members who can time out others on Discord can
+// use the commands
+const MODERATE_MEMBERS = 1n << 40n;
+const ADMINISTRATOR = 1n << 3n;
+
+const MAX_PURGE = 100;
+const MAX_SLOW_MODE_SECONDS = 6 * 60 * 60;
+const MAX_RATE_LIMIT_MESSAGES = 100;
+const MAX_RATE_LIMIT_SECONDS = 60 * 60;
+const MAX_SPIKE_MESSAGES = 1000;
+
+interface Command {
+  description: string;
+  options?: ApplicationCommandOption[];
+  /** Runs the command for the named moderator, returning the reply. */
+  run: (interaction: DiscordInteraction, by: string) => Promise<string>;
+}
+
+const TARGET_OPTION = {
+  type: OptionType.STRING,
+  name: "user",
+  description: "Site username or IP address",
+  required: true,
+};
+
+function getOption(
+  interaction: DiscordInteraction,
+  name: string,
+): string | undefined {
+  const options = interaction.data?.options ?? [];
+  // A subcommand's options come nested under it
+  const value = (options[0]?.options ?? options).find(
+    (option) => option.name === name,
+  )?.value;
+  return value === undefined ? undefined : String(value);
+}
+
+const NOT_IN_ROOM = "Use this command in one of the chat rooms";
+
+/** The room the command was used in, if it was used in one. */
+function getRoom({ channel_id }: DiscordInteraction): Room | undefined {
+  return channel_id === undefined ? undefined : findRoomByChannel(channel_id);
+}
+
+/** Subcommands come as the only option. */
+function getSubcommand(interaction: DiscordInteraction): string | undefined {
+  return interaction.data?.options?.[0]?.name;
+}
+
+/** An integer option, undefined when missing or out of range. */
+function getInteger(
+  interaction: DiscordInteraction,
+  name: string,
+  min: number,
+  max: number,
+): number | undefined {
+  const value = Number(getOption(interaction, name));
+  return Number.isInteger(value) && value >= min && value <= max
+    ? value
+    : undefined;
+}
+
+const DURATION_PATTERN = /^(\d+)\s*([mhdw])$/i;
+const DURATION_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Parses durations like `30m`, `12h`, `7d` or `2w` into milliseconds. */
+export function parseDuration(text: string): number | null {
+  const match = DURATION_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const ms = Number(match[1]) * DURATION_UNIT_MS[match[2]!.toLowerCase()]!;
+  return ms > 0 ? ms : null;
+}
+
+/** Sanctions by username also cover the IP the visitor last posted from. */
+async function resolveTarget(target: string): Promise<SanctionTarget> {
+  if (isIP(target) !== 0) return { ip: target };
+  return { username: target, ip: (await getLastIp(target)) ?? undefined };
+}
+
+function sanctionCommand({
+  type,
+  description,
+  done,
+  defaultDuration,
+}: {
+  type: SanctionType;
+  description: string;
+  done: string;
+  /** Used when no duration is given, null to sanction until lifted. */
+  defaultDuration: string | null;
+}): Command {
+  return {
+    description,
+    options: [
+      TARGET_OPTION,
+      {
+        type: OptionType.STRING,
+        name: "duration",
+        description: "How long for, like 30m, 12h or 7d",
+      },
+      {
+        type: OptionType.STRING,
+        name: "reason",
+        description: "Why, for the audit log",
+      },
+    ],
+    run: async (interaction, by) => {
+      const target = getOption(interaction, "user") ?? "";
+      const duration = getOption(interaction, "duration") ?? defaultDuration;
+      const durationMs = duration === null ? null : parseDuration(duration);
+      if (duration !== null && durationMs === null) {
+        return `Invalid duration "${duration}", use something like 30m, 12h or 7d`;
+      }
+
+      const sanction = {
+        type,
+        reason: getOption(interaction, "reason") ?? null,
+        by,
+        expiresAt: durationMs === null ? null : Date.now() + durationMs,
+      };
+      const resolved = await resolveTarget(target);
+      await setSanction(resolved, sanction);
+
+      log.info({ target: resolved, ...sanction, action: type }, done);
+
+      return [
+        `${done} ${target}`,
+        resolved.username && resolved.ip ? " and their last IP address" : "",
+        duration === null ? "" : ` for ${duration}`,
+      ].join("");
+    },
+  };
+}
+
+const RATE_LIMIT_OPTIONS: ApplicationCommandOption[] = [
+  {
+    type: OptionType.INTEGER,
+    name: "messages",
+    description: "How many messages visitors can post",
+    required: true,
+    min_value: 1,
+    max_value: MAX_RATE_LIMIT_MESSAGES,
+  },
+  {
+    type: OptionType.INTEGER,
+    name: "seconds",
+    description: "Within how many seconds",
+    required: true,
+    min_value: 1,
+    max_value: MAX_RATE_LIMIT_SECONDS,
+  },
+];
+
+function getRateLimitOption(
+  interaction: DiscordInteraction,
+): RateLimit | undefined {
+  const messages = getInteger(
+    interaction,
+    "messages",
+    1,
+    MAX_RATE_LIMIT_MESSAGES,
+  );
+  const seconds = getInteger(interaction, "seconds", 1, MAX_RATE_LIMIT_SECONDS);
+  return messages === undefined || seconds === undefined
+    ? undefined
+    : { messages, windowSeconds: seconds };
+}
+
+function describeRateLimit({ messages, windowSeconds }: RateLimit): string {
+  return `${messages} message${messages === 1 ? "" : "s"} every ${windowSeconds} second${windowSeconds === 1 ? "" : "s"}`;
+}
+
+const INVALID_RATE_LIMIT = `Rate limits take 1 to ${MAX_RATE_LIMIT_MESSAGES} messages every 1 to ${MAX_RATE_LIMIT_SECONDS} seconds`;
+
+const COMMANDS = new Map<string, Command>([
+  [
+    "mute",
+    sanctionCommand({
+      type: "mute",
+      description: "Stop a site visitor from posting for a while",
+      done: "Muted",
+      defaultDuration: "1h",
+    }),
+  ],
+  [
+    "ban",
+    sanctionCommand({
+      type: "ban",
+      description: "Ban a site visitor from the chat",
+      done: "Banned",
+      defaultDuration: null,
+    }),
+  ],
+  [
+    "shadowban",
+    sanctionCommand({
+      type: "shadow",
+      description: "Hide a site visitor's messages from everyone but them",
+      done: "Shadow banned",
+      defaultDuration: null,
+    }),
+  ],
+  [
+    "unban",
+    {
+      description: "Lift a ban, mute or shadow ban from a site visitor",
+      options: [TARGET_OPTION],
+      run: async (interaction, by) => {
+        const target = getOption(interaction, "user") ?? "";
+        const resolved = await resolveTarget(target);
+        const lifted = await liftSanction(resolved);
+        log.info({ target: resolved, by, lifted, action: "unban" }, "Unbanned");
+        return lifted
+          ? `Lifted the sanction on ${target}`
+          : `${target} wasn't muted or banned`;
+      },
+    },
+  ],
+  [
+    "purge",
+    {
+      description: "Delete the latest messages of this chat room",
+      options: [
+        {
+          type: OptionType.INTEGER,
+          name: "count",
+          description: "How many messages to delete",
+          required: true,
+          min_value: 1,
+          max_value: MAX_PURGE,
+        },
+        {
+          type: OptionType.STRING,
+          name: "user",
+          description: "Only delete messages from this site username",
+        },
+      ],
+      run: async (interaction, by) => {
+        const count = Number(getOption(interaction, "count"));
+        if (!Number.isInteger(count) || count < 1 || count > MAX_PURGE) {
+          return `Can only purge 1 to ${MAX_PURGE} messages`;
+        }
+        const username = getOption(interaction, "user");
+        const room = getRoom(interaction);
+        if (!room) return NOT_IN_ROOM;
+
+        const messages = (
+          await getRecentChannelMessages(room.channelId, MAX_PURGE)
+        ).filter(isChatMessage);
+        // Who a message is from goes by its recorded author, so that typing
+        // someone else's name in front of a message doesn't get it purged
+        const authors = await Promise.all(
+          messages.map((message) => getSiteAuthor(message)),
+        );
+        const ids = messages
+          .filter(
+            (_, index) =>
+              username === undefined ||
+              (authors[index]?.kind === "visitor" &&
+                authors[index].username === username),
+          )
+          .slice(0, count)
+          .map(({ id }) => id);
+        await deleteChannelMessages(room.channelId, ids);
+
+        log.info(
+          { by, room: room.name, username, ids, action: "purge" },
+          "Purged messages",
+        );
+        return `Deleted ${ids.length} message${ids.length === 1 ? "" : "s"}`;
+      },
+    },
+  ],
+  [
+    "slowmode",
+    {
+      description: "Make site visitors wait between messages",
+      options: [
+        {
+          type: OptionType.INTEGER,
+          name: "seconds",
+          description: "How long visitors wait between messages, 0 to turn off",
+          required: true,
+          min_value: 0,
+          max_value: MAX_SLOW_MODE_SECONDS,
+        },
+      ],
+      run: async (interaction, by) => {
+        const seconds = Number(getOption(interaction, "seconds"));
+        if (
+          !Number.isInteger(seconds) ||
+          seconds < 0 ||
+          seconds > MAX_SLOW_MODE_SECONDS
+        ) {
+          return `Slow mode takes 0 to ${MAX_SLOW_MODE_SECONDS} seconds`;
+        }
+
+        await setSlowMode(seconds);
+
+        log.info({ by, seconds, action: "slowmode" }, "Changed slow mode");
+        return seconds === 0
+          ? "Slow mode is off"
+          : `Slow mode is on, visitors wait ${seconds} seconds between messages`;
+      },
+    },
+  ],
+  [
+    "ratelimit",
+    {
+      description: "Change how many messages site visitors can post",
+      options: [
+        {
+          type: OptionType.SUB_COMMAND,
+          name: "default",
+          description: "Set the limit for most visitors",
+          options: RATE_LIMIT_OPTIONS,
+        },
+        {
+          type: OptionType.SUB_COMMAND,
+          name: "new",
+          description: "Set the limit for visitors who just started posting",
+          options: RATE_LIMIT_OPTIONS,
+        },
+        {
+          type: OptionType.SUB_COMMAND,
+          name: "user",
+          description: "Set the limit for one visitor, or reset it",
+          options: [
+            { ...TARGET_OPTION, description: "Site username" },
+            ...RATE_LIMIT_OPTIONS.map((option) => ({
+              ...option,
+              description: `${option.description}, leave out to reset`,
+              required: false,
+            })),
+          ],
+        },
+        {
+          type: OptionType.SUB_COMMAND,
+          name: "spike",
+          description: "Halve the limits when the chat gets busy",
+          options: [
+            {
+              type: OptionType.INTEGER,
+              name: "messages",
+              description: "Messages a minute across the chat, 0 to turn off",
+              required: true,
+              min_value: 0,
+              max_value: MAX_SPIKE_MESSAGES,
+            },
+          ],
+        },
+      ],
+      run: async (interaction, by) => {
+        const subcommand = getSubcommand(interaction);
+        const limit = getRateLimitOption(interaction);
+        log.info(
+          { by, subcommand, limit, action: "ratelimit" },
+          "Changing rate limits",
+        );
+
+        switch (subcommand) {
+          case "default":
+          case "new": {
+            if (!limit) return INVALID_RATE_LIMIT;
+            await setRateLimits(
+              subcommand === "new" ? { newSession: limit } : { default: limit },
+            );
+            return `${subcommand === "new" ? "New visitors" : "Visitors"} can post ${describeRateLimit(limit)}`;
+          }
+          case "user": {
+            const username = getOption(interaction, "user") ?? "";
+            const resetting =
+              getOption(interaction, "messages") === undefined &&
+              getOption(interaction, "seconds") === undefined;
+            if (resetting) {
+              await setUserRateLimit(username, null);
+              return `${username} is back to the usual rate limit`;
+            }
+            if (!limit) return INVALID_RATE_LIMIT;
+            await setUserRateLimit(username, limit);
+            return `${username} can post ${describeRateLimit(limit)}`;
+          }
+          case "spike": {
+            const messages = getInteger(
+              interaction,
+              "messages",
+              0,
+              MAX_SPIKE_MESSAGES,
+            );
+            if (messages === undefined) {
+              return `Spikes take 0 to ${MAX_SPIKE_MESSAGES} messages a minute`;
+            }
+            await setRateLimits({ spikeMessagesPerMinute: messages });
+            return messages === 0
+              ? "Rate limits no longer tighten when the chat is busy"
+              : `Rate limits halve above ${messages} messages a minute`;
+          }
+          default:
+            return `Unknown subcommand ${subcommand ?? ""}`;
+        }
+      },
+    },
+  ],
+  [
+    "bot",
+    {
+      description: "Turn simon-bot on or off in this chat room",
+      options: [
+        {
+          type: OptionType.SUB_COMMAND,
+          name: "on",
+          description: "Let simon-bot answer mentions",
+        },
+        {
+          type: OptionType.SUB_COMMAND,
+          name: "off",
+          description: "Stop simon-bot from answering mentions",
+        },
+      ],
+      run: async (interaction, by) => {
+        const enabled = getSubcommand(interaction) === "on";
+        const room = getRoom(interaction);
+        if (!room) return NOT_IN_ROOM;
+
+        await setBotEnabled(room.name, enabled);
+
+        log.info(
+          { by, room: room.name, enabled, action: "bot" },
+          "Turned the bot on or off",
+        );
+        return `simon-bot is ${enabled ? "on" : "off"} in #${room.name}`;
+      },
+    },
+  ],
+]);
+
+/** The commands as registered with Discord. */
+export function getCommandDefinitions(): ApplicationCommand[] {
+  return Array.from(COMMANDS, ([name, { description, options }]) => ({
+    name,
+    description,
+    ...(options && { options }),
+    // A configured role is checked when the commands are used instead
+    ...(!env.DISCORD_MODERATOR_ROLE_ID && {
+      default_member_permissions: String(MODERATE_MEMBERS),
+    }),
+  }));
+}
+
+function isAllowed({ member }: DiscordInteraction): boolean {
+  if (!member) return false;
+  if (env.DISCORD_MODERATOR_ROLE_ID) {
+    return member.roles.includes(env.DISCORD_MODERATOR_ROLE_ID);
+  }
+  // Server admins can let anyone see the commands, so check the permission too
+  return (
+    (BigInt(member.permissions) & (MODERATE_MEMBERS | ADMINISTRATOR)) !== 0n
+  );
+}
+
+async function runCommand(interaction: DiscordInteraction): Promise<string> {
+  const name = interaction.data?.name ?? "";
+  const command = COMMANDS.get(name);
+  if (!command) return `Unknown command /${name}`;
+
+  if (!isAllowed(interaction)) {
+    log.warn(
+      { userId: interaction.member?.user.id, command: name },
+      "Slash command used without the moderator role",
+    );
+    return "Only moderators can use this command";
+  }
+
+  return command.run(interaction, interaction.member?.user.username ?? "");
+}
+
+/**
+ * Runs a slash command and replies to whoever used it. The command is
+ * acknowledged first, as commands like `/purge` can take longer than Discord
+ * waits for a reply.
+ */
+export async function handleInteraction(
+  interaction: DiscordInteraction,
+): Promise<void> {
+  if (interaction.type !== APPLICATION_COMMAND) return;
+
+  try {
+    await deferInteractionResponse(interaction);
+    await editInteractionResponse(interaction, await runCommand(interaction));
+  } catch (err) {
+    log.error(
+      { err, command: interaction.data?.name },
+      "Slash command handling failed",
+    );
+  }
+}
+
+export async function registerCommands(): Promise<void> {
+  const commands = getCommandDefinitions();
+  await registerGuildCommands(commands);
+  log.info(
+    { commands: commands.map(({ name }) => name) },
+    "Registered slash commands",
+  );
+}
@@ -0,0 +1,644 @@
+// @vitest-environment node
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Username } from "@/lib/session";
+
+import type { RelayedEventSubscriber } from "./relay";
+import type { ChannelEvent, DiscordMessage, Message } from "./schemas";
+
+vi.mock(import("server-only"), () => ({}));
+
+const subscribeMock = vi.hoisted(() => vi.fn());
+const resolveMessageMock = vi.hoisted(() => vi.fn());
+const getDiscordUserMock = vi.hoisted(() => vi.fn());
+const logErrorMock = vi.hoisted(() => vi.fn());
+const isShadowedMock = vi.hoisted(() => vi.fn());
+const getThreadOwnerMock = vi.hoisted(() => vi.fn());
+const getRecordedSiteAuthorMock = vi.hoisted(() => vi.fn());
+
+vi.mock(import("@/lib/log"), async (importOriginal) => {
+  const actual = await importOriginal();
+  return { log: { ...actual.log, error: logErrorMock } };
+});
+
+vi.mock(import("./relay"), () => ({ subscribeToChannelEvents: subscribeMock }));
+vi.mock(import("@/lib/sanctions"), () => ({ isShadowed: isShadowedMock }));
+vi.mock(import("./threads"), () => ({ getThreadOwner: getThreadOwnerMock }));
+vi.mock(import("./authors"), async (importOriginal) => ({
+  ...(await importOriginal()),
+  getRecordedSiteAuthor: getRecordedSiteAuthorMock,
+}));
+vi.mock(import("@/lib/presence"), () => ({
+  getPresence: vi.fn(() => Promise.resolve({ count: 2, names: ["User1"] })),
+}));
+vi.mock(import("./api"), async (importOriginal) => {
+  const actual = await importOriginal();
+  return {
+    ...actual,
+    resolveMessage: resolveMessageMock,
+    getDiscordUser: getDiscordUserMock,
+  };
+});
+
+const CHANNEL_ID = "test-discord-channel-id";
+
+const user1 = { id: "session-1", username: "User1" as Username };
+const user2 = { id: "session-2", username: "User2" as Username };
+
+function createDiscordMessage(
+  overrides: Partial<DiscordMessage> = {},
+): DiscordMessage {
+  return {
+    type: 0,
+    id: "msg-1",
+    channel_id: "test-discord-channel-id",
+    author: { id: "user1", bot: true },
+    content: "User1: hello",
+    timestamp: "2025-01-01T00:00:00.000000+00:00",
+    edited_timestamp: null,
+    ...overrides,
+  };
+}
+
+function createMessage(overrides: Partial<Message> = {}): Message {
+  return {
+    id: "msg-1",
+    user: { name: "User1", color: "hsl(0 100% 50%)" },
+    content: "hello",
+    text: "hello",
+    edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    replies: [],
+    ...overrides,
+  };
+}
+
+describe("subscribeToChatEvents", () => {
+  let onChannelEvent: (event: ChannelEvent) => void;
+
+  beforeEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    // Relayed ids are handed out in Redis, starting where another instance left off
+    let relayedId = 100;
+    subscribeMock.mockImplementation(
+      async (callback: RelayedEventSubscriber) => {
+        onChannelEvent = (event) => callback(event, ++relayedId);
+        return () => {};
+      },
+    );
+    resolveMessageMock.mockImplementation(async (msg: DiscordMessage) =>
+      createMessage({ id: msg.id }),
+    );
+    isShadowedMock.mockResolvedValue(false);
+    getRecordedSiteAuthorMock.mockResolvedValue(null);
+  });
+
+  it("should subscribe to channel events only once", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+
+    await subscribeToChatEvents(vi.fn());
+    await subscribeToChatEvents(vi.fn());
+
+    expect(subscribeMock).toHaveBeenCalledOnce();
+  });
+
+  it("should tag events with their relayed ids", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-1",
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-2",
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(2));
+    expect(listener.mock.calls.map(([id]) => id)).toEqual(["101", "102"]);
+  });
+
+  it("should retry the channel subscription after a failure", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    subscribeMock.mockRejectedValueOnce(new Error("Redis down"));
+
+    await expect(subscribeToChatEvents(vi.fn())).rejects.toThrow("Redis down");
+    await subscribeToChatEvents(vi.fn());
+
+    expect(subscribeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should publish resolved messages as message.create", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage({
+        type: 19,
+        message_reference: { message_id: "parent-1" },
+      }),
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener).toHaveBeenCalledWith(expect.any(String), {
+      type: "message.create",
+      parentId: "parent-1",
+      message: createMessage(),
+    });
+  });
+
+  it("should publish message.update and message.delete events", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    onChannelEvent({
+      type: "MESSAGE_UPDATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage(),
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-1",
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(2));
+    expect(listener).toHaveBeenNthCalledWith(1, expect.any(String), {
+      type: "message.update",
+      message: createMessage(),
+    });
+    expect(listener).toHaveBeenNthCalledWith(2, expect.any(String), {
+      type: "message.delete",
+      id: "msg-1",
+    });
+  });
+
+  it("should publish relayed reactions as message.reactions", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+    const reactions = [{ emoji: "👍", count: 2, users: ["User1"] }];
+
+    onChannelEvent({
+      type: "MESSAGE_REACTION_REMOVE",
+      channelId: CHANNEL_ID,
+      id: "msg-2",
+    });
+    onChannelEvent({
+      type: "MESSAGE_REACTION_ADD",
+      channelId: CHANNEL_ID,
+      id: "msg-1",
+      reactions,
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+      type: "message.reactions",
+      id: "msg-1",
+      reactions,
+    });
+  });
+
+  it("should publish typing without buffering it for replay", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+    getDiscordUserMock.mockResolvedValue({
+      name: "DiscordUser",
+      color: "hsl(0 100% 50%)",
+    });
+
+    onChannelEvent({
+      type: "TYPING_START",
+      channelId: CHANNEL_ID,
+      userId: "user-2",
+    });
+    onChannelEvent({
+      type: "VISITOR_TYPING",
+      channelId: CHANNEL_ID,
+      username: "Visitor",
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(2));
+    expect(getDiscordUserMock).toHaveBeenCalledWith("user-2");
+    expect(listener).toHaveBeenNthCalledWith(1, null, {
+      type: "typing",
+      name: "DiscordUser",
+    });
+    expect(listener).toHaveBeenNthCalledWith(2, null, {
+      type: "typing",
+      name: "Visitor",
+    });
+
+    const replayed = vi.fn();
+    await subscribeToChatEvents(replayed, "0");
+    expect(replayed).not.toHaveBeenCalled();
+  });
+
+  it("should publish presence changes without buffering them", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    onChannelEvent({ type: "PRESENCE_CHANGED" });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener).toHaveBeenCalledWith(null, {
+      type: "presence",
+      count: 2,
+      names: ["User1"],
+    });
+  });
+
+  it("should keep gateway order when resolving takes time", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    const { promise, resolve } = Promise.withResolvers<Message>();
+    resolveMessageMock.mockReturnValueOnce(promise);
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage(),
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-1",
+    });
+
+    resolve(createMessage());
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(2));
+    expect(listener.mock.calls.map(([, event]) => event.type)).toEqual([
+      "message.create",
+      "message.delete",
+    ]);
+  });
+
+  it("should ignore non-chat message types", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage({ type: 7 }),
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-2",
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+      type: "message.delete",
+      id: "msg-2",
+    });
+  });
+
+  it("should log and skip events that fail to resolve", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    resolveMessageMock.mockRejectedValueOnce(new Error("API error"));
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage(),
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-1",
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(listener).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+      type: "message.delete",
+      id: "msg-1",
+    });
+    expect(logErrorMock).toHaveBeenCalledWith(
+      expect.objectContaining({ event: "MESSAGE_CREATE" }),
+      "Failed to resolve chat event",
+    );
+  });
+
+  it("should stop publishing to a listener after unsubscribe", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    const other = vi.fn();
+    const { unsubscribe } = await subscribeToChatEvents(listener);
+    await subscribeToChatEvents(other);
+
+    unsubscribe();
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-1",
+    });
+
+    await vi.waitFor(() => expect(other).toHaveBeenCalled());
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should only publish shadowed messages to the session that posted them", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const author = vi.fn();
+    const sameName = vi.fn();
+    const other = vi.fn();
+    const anonymous = vi.fn();
+    await subscribeToChatEvents(author, undefined, user1);
+    await subscribeToChatEvents(sameName, undefined, {
+      id: "session-3",
+      username: "User1" as Username,
+    });
+    await subscribeToChatEvents(other, undefined, user2);
+    await subscribeToChatEvents(anonymous);
+    isShadowedMock.mockResolvedValueOnce(true);
+    getRecordedSiteAuthorMock.mockResolvedValueOnce({
+      kind: "visitor",
+      username: "User1",
+      session: "session-1",
+    });
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage(),
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-2",
+    });
+
+    await vi.waitFor(() => expect(author).toHaveBeenCalledTimes(2));
+    expect(isShadowedMock).toHaveBeenCalledWith("msg-1", "User1");
+    for (const listener of [sameName, other]) {
+      expect(listener).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+        type: "message.delete",
+        id: "msg-2",
+      });
+    }
+    expect(anonymous).toHaveBeenCalledOnce();
+
+    const [createId] = author.mock.calls[0]!;
+    const replayed = vi.fn();
+    await subscribeToChatEvents(replayed, String(Number(createId) - 1), user2);
+    expect(replayed).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+      type: "message.delete",
+      id: "msg-2",
+    });
+  });
+
+  it("should publish shadowed messages by name until their session is recorded", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const author = vi.fn();
+    const other = vi.fn();
+    await subscribeToChatEvents(author, undefined, user1);
+    await subscribeToChatEvents(other, undefined, user2);
+    isShadowedMock.mockResolvedValueOnce(true);
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage(),
+    });
+
+    await vi.waitFor(() => expect(author).toHaveBeenCalledOnce());
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it("should only publish thread messages to the thread's owner", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const owner = vi.fn();
+    const sameName = vi.fn();
+    await subscribeToChatEvents(owner, undefined, user1);
+    await subscribeToChatEvents(sameName, undefined, {
+      id: "session-3",
+      username: "User1" as Username,
+    });
+    getThreadOwnerMock.mockImplementation(async (threadId: string) =>
+      threadId === "thread-1" ? "session-1" : null,
+    );
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: "thread-2",
+      message: createDiscordMessage({ channel_id: "thread-2" }),
+    });
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: "thread-1",
+      message: createDiscordMessage({ channel_id: "thread-1" }),
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: "thread-1",
+      id: "msg-1",
+    });
+
+    await vi.waitFor(() => expect(owner).toHaveBeenCalledTimes(2));
+    expect(owner.mock.calls.map(([, event]) => event)).toEqual([
+      {
+        type: "message.create",
+        parentId: null,
+        message: createMessage({ own: true }),
+        threadId: "thread-1",
+      },
+      { type: "message.delete", id: "msg-1", threadId: "thread-1" },
+    ]);
+    expect(sameName).not.toHaveBeenCalled();
+    expect(isShadowedMock).not.toHaveBeenCalled();
+  });
+
+  it("should mark messages as their own only for the session that posted them", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const author = vi.fn();
+    const sameName = vi.fn();
+    const other = vi.fn();
+    await subscribeToChatEvents(author, undefined, user1);
+    await subscribeToChatEvents(sameName, undefined, {
+      id: "session-3",
+      username: "User1" as Username,
+    });
+    await subscribeToChatEvents(other, undefined, user2);
+    getRecordedSiteAuthorMock.mockResolvedValue({
+      kind: "visitor",
+      username: "User1",
+      session: "session-1",
+    });
+
+    onChannelEvent({
+      type: "MESSAGE_UPDATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage(),
+    });
+
+    await vi.waitFor(() => expect(other).toHaveBeenCalledOnce());
+    expect(author).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+      type: "message.update",
+      message: createMessage({ own: true }),
+    });
+    for (const listener of [sameName, other]) {
+      expect(listener).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+        type: "message.update",
+        message: createMessage(),
+      });
+    }
+  });
+
+  it("should only publish events in a room to those in it", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const general = vi.fn();
+    const music = vi.fn();
+    await subscribeToChatEvents(general);
+    await subscribeToChatEvents(music, undefined, null, "music");
+
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: "1000000000000000001",
+      id: "msg-1",
+    });
+    onChannelEvent({
+      type: "MESSAGE_DELETE",
+      channelId: CHANNEL_ID,
+      id: "msg-2",
+    });
+    onChannelEvent({ type: "PRESENCE_CHANGED" });
+
+    await vi.waitFor(() => expect(general).toHaveBeenCalledTimes(2));
+    expect(music.mock.calls.map(([, event]) => event)).toEqual([
+      { type: "message.delete", id: "msg-1" },
+      { type: "presence", count: 2, names: ["User1"] },
+    ]);
+    expect(general.mock.calls.map(([, event]) => event)).toEqual([
+      { type: "message.delete", id: "msg-2" },
+      { type: "presence", count: 2, names: ["User1"] },
+    ]);
+
+    const replayed = vi.fn();
+    const [[firstId]] = music.mock.calls as [[string]];
+    await subscribeToChatEvents(
+      replayed,
+      String(Number(firstId) - 1),
+      null,
+      "music",
+    );
+    expect(replayed).toHaveBeenCalledExactlyOnceWith(expect.any(String), {
+      type: "message.delete",
+      id: "msg-1",
+    });
+  });
+
+  it("should not check shadow bans for messages from Discord", async () => {
+    const { subscribeToChatEvents } = await import("./events");
+    const listener = vi.fn();
+    await subscribeToChatEvents(listener);
+
+    onChannelEvent({
+      type: "MESSAGE_CREATE",
+      channelId: CHANNEL_ID,
+      message: createDiscordMessage({ author: { id: "user1" } }),
+    });
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+    expect(isShadowedMock).not.toHaveBeenCalled();
+  });
+
+  describe("replay", () => {
+    async function publishEvents(ids: string[]) {
+      const { subscribeToChatEvents } = await import("./events");
+      const listener = vi.fn();
+      await subscribeToChatEvents(listener);
+
+      for (const id of ids) {
+        onChannelEvent({ type: "MESSAGE_DELETE", channelId: CHANNEL_ID, id });
+      }
+
+      await vi.waitFor(() =>
+        expect(listener).toHaveBeenCalledTimes(ids.length),
+      );
+      return listener.mock.calls.map(([eventId]) => eventId as string);
+    }
+
+    it("should replay events after the last event id", async () => {
+      const [firstId] = await publishEvents(["msg-1", "msg-2", "msg-3"]);
+      const { subscribeToChatEvents } = await import("./events");
+      const listener = vi.fn();
+
+      const { resync } = await subscribeToChatEvents(listener, firstId);
+
+      expect(resync).toBe(false);
+      expect(listener.mock.calls.map(([, event]) => event.id)).toEqual([
+        "msg-2",
+        "msg-3",
+      ]);
+    });
+
+    it("should replay events to clients from before it saw any", async () => {
+      await publishEvents(["msg-1", "msg-2"]);
+      const { subscribeToChatEvents } = await import("./events");
+      const listener = vi.fn();
+
+      // Sent by another instance before this one saw any
+      const { resync } = await subscribeToChatEvents(listener, "100");
+
+      expect(resync).toBe(false);
+      expect(listener.mock.calls.map(([id]) => id)).toEqual(["101", "102"]);
+    });
+
+    it("should replay nothing when the client is up to date", async () => {
+      const eventIds = await publishEvents(["msg-1"]);
+      const { subscribeToChatEvents } = await import("./events");
+      const listener = vi.fn();
+
+      const { resync } = await subscribeToChatEvents(listener, eventIds.at(-1));
+
+      expect(resync).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should request a resync when the events are no longer buffered", async () => {
+      await publishEvents(["msg-1"]);
+      const { subscribeToChatEvents } = await import("./events");
+      const listener = vi.fn();
+
+      const { resync } = await subscribeToChatEvents(listener, "1");
+
+      expect(resync).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should request a resync for malformed event ids", async () => {
+      const { subscribeToChatEvents } = await import("./events");
+
+      const { resync } = await subscribeToChatEvents(vi.fn(), "nope");
+
+      expect(resync).toBe(true);
+    });
+  });
+});
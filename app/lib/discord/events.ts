@@ -0,0 +1,299 @@
+import "server-only";
+
+import { log } from "@/lib/log";
+import { getPresence } from "@/lib/presence";
+import { ReplayBuffer } from "@/lib/ReplayBuffer";
+import { isShadowed } from "@/lib/sanctions";
+import type { Session } from "@/lib/session";
+
+import {
+  getDiscordUser,
+  getSiteAuthor,
+  isChatMessage,
+  resolveMessage,
+} from "./api";
+import type { SiteAuthor } from "./authors";
+import { subscribeToChannelEvents } from "./relay";
+import { findRoomByChannel, getDefaultRoom } from "./rooms";
+import type { ChannelEvent, ChatEvent } from "./schemas";
+import { getThreadOwner } from "./threads";
+
+/** Called with the event id, or null for events that are not replayed. */
+export type ChatEventListener = (id: string | null, event: ChatEvent) => void;
+
+export interface ChatEventSubscription {
+  unsubscribe: () => void;
+  /** True when the events since `lastEventId` could not be replayed. */
+  resync: boolean;
+}
+
+/**
+ * The only visitor an event is for, by their session, or by their name for
+ * messages that reach us before it's recorded which session posted them.
+ */
+type Audience = { session: string } | { username: string };
+
+interface AudiencedEvent {
+  event: ChatEvent;
+  /** The only visitor the event is for, or null for everyone. */
+  audience: Audience | null;
+  /** The visitor who posted the message the event is about, if any. */
+  poster: Audience | null;
+  /** The name of the room the event is in, or null for every room. */
+  room: string | null;
+}
+
+interface Listening {
+  viewer: Session | null;
+  room: string;
+}
+
+const REPLAY_BUFFER_SIZE = 100;
+
+// Listeners, with the visitor they're for and the room they're in
+const listeners = new Map<ChatEventListener, Listening>();
+const replayBuffer = new ReplayBuffer<AudiencedEvent>(REPLAY_BUFFER_SIZE);
+
+// Events are resolved one at a time so listeners see them in gateway order
+let queue: Promise<void> = Promise.resolve();
+let channelSubscription: Promise<() => void> | null = null;
+
+async function toChatEvent(
+  event: ChannelEvent,
+  threadId?: string,
+): Promise<ChatEvent | null> {
+  if (event.type === "MESSAGE_DELETE") {
+    return { type: "message.delete", id: event.id, threadId };
+  }
+
+  if (event.type === "PRESENCE_CHANGED") {
+    return { type: "presence", ...(await getPresence()) };
+  }
+
+  if (event.type === "VISITOR_TYPING") {
+    return { type: "typing", name: event.username };
+  }
+
+  if (event.type === "TYPING_START") {
+    const user = await getDiscordUser(event.userId);
+    return { type: "typing", name: user.name };
+  }
+
+  // Relayed with the reactions, see `publishChannelEvent`
+  if (
+    event.type === "MESSAGE_REACTION_ADD" ||
+    event.type === "MESSAGE_REACTION_REMOVE"
+  ) {
+    return event.reactions
+      ? { type: "message.reactions", id: event.id, reactions: event.reactions }
+      : null;
+  }
+
+  if (event.type === "INTERACTION_CREATE") return null;
+
+  if (!isChatMessage(event.message)) return null;
+
+  const message = await resolveMessage(event.message);
+
+  if (event.type === "MESSAGE_UPDATE") {
+    return { type: "message.update", message, threadId };
+  }
+
+  return {
+    type: "message.create",
+    parentId: event.message.message_reference?.message_id ?? null,
+    message,
+    threadId,
+  };
+}
+
+/** The visitor who posted the message an event is about, if any. */
+async function getPoster(event: ChannelEvent): Promise<SiteAuthor | null> {
+  if (event.type !== "MESSAGE_CREATE" && event.type !== "MESSAGE_UPDATE") {
+    return null;
+  }
+
+  const author = await getSiteAuthor(event.message);
+  return author?.kind === "visitor" ? author : null;
+}
+
+function toAudience({ username, session }: SiteAuthor): Audience {
+  return session === undefined ? { username } : { session };
+}
+
+/** Messages posted under a shadow ban only go to their author. */
+async function getAudience(
+  event: ChannelEvent,
+  poster: SiteAuthor | null,
+): Promise<Audience | null> {
+  if (poster === null || !("message" in event)) return null;
+  if (!(await isShadowed(event.message.id, poster.username))) return null;
+  return toAudience(poster);
+}
+
+/**
+ * Resolves who should see an event. Events in a room go to those in it.
+ * Messages in private threads only go to the thread's owner, whatever room
+ * they're in, and those in other channels to no one.
+ */
+async function toAudiencedEvent(
+  event: ChannelEvent,
+): Promise<AudiencedEvent | null> {
+  if (!("channelId" in event)) {
+    const chatEvent = await toChatEvent(event);
+    return (
+      chatEvent && {
+        event: chatEvent,
+        audience: null,
+        poster: null,
+        room: null,
+      }
+    );
+  }
+
+  const room = findRoomByChannel(event.channelId);
+  if (!room) {
+    const owner = await getThreadOwner(event.channelId);
+    if (owner === null) return null;
+
+    const [chatEvent, poster] = await Promise.all([
+      toChatEvent(event, event.channelId),
+      getPoster(event),
+    ]);
+    return (
+      chatEvent && {
+        event: chatEvent,
+        audience: { session: owner },
+        poster: poster && toAudience(poster),
+        room: null,
+      }
+    );
+  }
+
+  const [chatEvent, poster] = await Promise.all([
+    toChatEvent(event),
+    getPoster(event),
+  ]);
+  const audience = await getAudience(event, poster);
+  return (
+    chatEvent && {
+      event: chatEvent,
+      audience,
+      poster: poster && toAudience(poster),
+      room: room.name,
+    }
+  );
+}
+
+function isInAudience(
+  viewer: Session | null,
+  audience: Audience | null,
+): boolean {
+  if (audience === null) return true;
+  if (viewer === null) return false;
+  return "session" in audience
+    ? audience.session === viewer.id
+    : audience.username === viewer.username;
+}
+
+/** Marks the message of the event as the viewer's own. */
+function markOwn(event: ChatEvent): ChatEvent {
+  return event.type === "message.create" || event.type === "message.update"
+    ? { ...event, message: { ...event.message, own: true } }
+    : event;
+}
+
+function notify(
+  listener: ChatEventListener,
+  id: number | null,
+  { event, audience, poster, room }: AudiencedEvent,
+  listening: Listening,
+) {
+  if (!isInAudience(listening.viewer, audience)) return;
+  if (room !== null && room !== listening.room) return;
+
+  const own = poster !== null && isInAudience(listening.viewer, poster);
+
+  try {
+    listener(id === null ? null : String(id), own ? markOwn(event) : event);
+  } catch (err) {
+    log.error({ err }, "Chat event listener error");
+  }
+}
+
+function publish(audienced: AudiencedEvent | null, relayedId: number): void {
+  // Typing and presence are stale by the time anyone could replay them
+  const type = audienced?.event.type;
+  const replayed =
+    type !== undefined && type !== "typing" && type !== "presence";
+  if (audienced && replayed) {
+    replayBuffer.push(relayedId, audienced);
+  } else {
+    replayBuffer.skip(relayedId);
+  }
+  if (!audienced) return;
+
+  const id = replayed ? relayedId : null;
+  for (const [listener, listening] of listeners) {
+    notify(listener, id, audienced, listening);
+  }
+}
+
+function handleChannelEvent(event: ChannelEvent, relayedId: number): void {
+  queue = queue
+    .then(() => toAudiencedEvent(event))
+    .then((audienced) => publish(audienced, relayedId))
+    .catch((err) => {
+      log.error({ err, event: event.type }, "Failed to resolve chat event");
+    });
+}
+
+function ensureChannelSubscription(): Promise<() => void> {
+  channelSubscription ??= subscribeToChannelEvents(handleChannelEvent).catch(
+    (err) => {
+      channelSubscription = null;
+      throw err;
+    },
+  );
+  return channelSubscription;
+}
+
+/**
+ * Subscribes to resolved chat events for a room. Channel events are only
+ * subscribed to once per process, no matter how many listeners are added.
+ *
+ * When `lastEventId` is given, buffered events after it are replayed to the
+ * listener before any new ones. Events meant for a single visitor only reach
+ * the listeners for that `viewer`, in any room.
+ */
+export async function subscribeToChatEvents(
+  listener: ChatEventListener,
+  lastEventId?: string,
+  viewer: Session | null = null,
+  room: string = getDefaultRoom().name,
+): Promise<ChatEventSubscription> {
+  await ensureChannelSubscription();
+
+  const listening = { viewer, room };
+  let resync = false;
+
+  if (lastEventId !== undefined) {
+    const missed = replayBuffer.since(Number(lastEventId));
+    if (missed) {
+      for (const { id, value } of missed) {
+        notify(listener, id, value, listening);
+      }
+    } else {
+      resync = true;
+    }
+  }
+
+  listeners.set(listener, listening);
+
+  return {
+    unsubscribe: () => {
+      listeners.delete(listener);
+    },
+    resync,
+  };
+}
@@ -295,28 +295,308 @@ describe("subscribe", () => {
     await vi.advanceTimersByTimeAsync(0);
 
     expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith({
+      type: "MESSAGE_CREATE",
+      channelId: "test-discord-channel-id",
+      message: expect.objectContaining({ id: "msg-test" }),
+    });
   });
 
-  it("should ignore messages from other channels", async () => {
+  it("should notify subscribers with the full message on MESSAGE_UPDATE", async () => {
     const { subscribe } = await import("./gateway");
     server.use(createHandshakeHandler());
 
     const callback = vi.fn();
     await subscribe(callback);
 
-    // Send MESSAGE_CREATE for a DIFFERENT channel
     getLastClient(gateway.clients)?.send(
       createPayload(
         GatewayOpcode.DISPATCH,
-        { channel_id: "some-other-channel-id" },
+        {
+          type: 0,
+          id: "msg-test",
+          channel_id: "test-discord-channel-id",
+          author: { id: "user-123" },
+          content: "edited message",
+          timestamp: "2025-01-01T00:00:00.000000+00:00",
+          edited_timestamp: "2025-01-01T00:01:00.000000+00:00",
+        },
         2,
-        "MESSAGE_CREATE",
+        "MESSAGE_UPDATE",
       ),
     );
 
     await vi.advanceTimersByTimeAsync(0);
 
-    expect(callback).not.toHaveBeenCalled();
+    expect(callback).toHaveBeenCalledWith({
+      type: "MESSAGE_UPDATE",
+      channelId: "test-discord-channel-id",
+      message: expect.objectContaining({
+        id: "msg-test",
+        content: "edited message",
+      }),
+    });
+  });
+
+  it("should notify subscribers with the message id on MESSAGE_DELETE", async () => {
+    const { subscribe } = await import("./gateway");
+    server.use(createHandshakeHandler());
+
+    const callback = vi.fn();
+    await subscribe(callback);
+
+    getLastClient(gateway.clients)?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        {
+          id: "msg-test",
+          channel_id: "test-discord-channel-id",
+          guild_id: "test-discord-guild-id",
+        },
+        2,
+        "MESSAGE_DELETE",
+      ),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).toHaveBeenCalledWith({
+      type: "MESSAGE_DELETE",
+      channelId: "test-discord-channel-id",
+      id: "msg-test",
+    });
+  });
+
+  it.each([
+    ["MESSAGE_REACTION_ADD", "MESSAGE_REACTION_ADD"],
+    ["MESSAGE_REACTION_REMOVE", "MESSAGE_REACTION_REMOVE"],
+    ["MESSAGE_REACTION_REMOVE_ALL", "MESSAGE_REACTION_REMOVE"],
+    ["MESSAGE_REACTION_REMOVE_EMOJI", "MESSAGE_REACTION_REMOVE"],
+  ])(
+    "should notify subscribers with the message id on %s",
+    async (dispatch, type) => {
+      const { subscribe } = await import("./gateway");
+      server.use(createHandshakeHandler());
+
+      const callback = vi.fn();
+      await subscribe(callback);
+
+      getLastClient(gateway.clients)?.send(
+        createPayload(
+          GatewayOpcode.DISPATCH,
+          {
+            message_id: "msg-test",
+            channel_id: "test-discord-channel-id",
+            guild_id: "test-discord-guild-id",
+          },
+          2,
+          dispatch,
+        ),
+      );
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(callback).toHaveBeenCalledWith({
+        type,
+        channelId: "test-discord-channel-id",
+        id: "msg-test",
+      });
+    },
+  );
+
+  it("should notify subscribers with the user id on TYPING_START", async () => {
+    const { subscribe } = await import("./gateway");
+    server.use(createHandshakeHandler());
+
+    const callback = vi.fn();
+    await subscribe(callback);
+
+    const client = getLastClient(gateway.clients);
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        {
+          channel_id: "test-discord-channel-id",
+          user_id: "bot-user",
+          member: { user: { bot: true } },
+        },
+        2,
+        "TYPING_START",
+      ),
+    );
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        {
+          channel_id: "test-discord-channel-id",
+          user_id: "user-test",
+          member: { user: { bot: false } },
+        },
+        3,
+        "TYPING_START",
+      ),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).toHaveBeenCalledExactlyOnceWith({
+      type: "TYPING_START",
+      channelId: "test-discord-channel-id",
+      userId: "user-test",
+    });
+  });
+
+  it("should notify subscribers of each message deleted in bulk", async () => {
+    const { subscribe } = await import("./gateway");
+    server.use(createHandshakeHandler());
+
+    const callback = vi.fn();
+    await subscribe(callback);
+
+    const client = getLastClient(gateway.clients);
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        { channel_id: "some-other-channel-id", ids: ["1"] },
+        2,
+        "MESSAGE_DELETE_BULK",
+      ),
+    );
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        { channel_id: "test-discord-channel-id", ids: ["2", "3"] },
+        3,
+        "MESSAGE_DELETE_BULK",
+      ),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback.mock.calls).toEqual([
+      [
+        {
+          type: "MESSAGE_DELETE",
+          channelId: "test-discord-channel-id",
+          id: "2",
+        },
+      ],
+      [
+        {
+          type: "MESSAGE_DELETE",
+          channelId: "test-discord-channel-id",
+          id: "3",
+        },
+      ],
+    ]);
+  });
+
+  it("should notify subscribers of slash commands used in our guild", async () => {
+    const { subscribe } = await import("./gateway");
+    server.use(createHandshakeHandler());
+
+    const callback = vi.fn();
+    await subscribe(callback);
+
+    const interaction = {
+      id: "interaction-1",
+      application_id: "application-1",
+      token: "token",
+      type: 2,
+      data: { name: "mute", options: [{ name: "user", value: "alice" }] },
+    };
+    const client = getLastClient(gateway.clients);
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        { ...interaction, guild_id: "some-other-guild-id" },
+        2,
+        "INTERACTION_CREATE",
+      ),
+    );
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        { ...interaction, guild_id: "test-discord-guild-id" },
+        3,
+        "INTERACTION_CREATE",
+      ),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).toHaveBeenCalledExactlyOnceWith({
+      type: "INTERACTION_CREATE",
+      interaction: { ...interaction, guild_id: "test-discord-guild-id" },
+    });
+  });
+
+  it("should pass on messages from other channels, which could be threads", async () => {
+    const { subscribe } = await import("./gateway");
+    server.use(createHandshakeHandler());
+
+    const callback = vi.fn();
+    await subscribe(callback);
+
+    const message = {
+      type: 0,
+      id: "msg-1",
+      channel_id: "thread-1",
+      author: { id: "user-123" },
+      content: "psst",
+      timestamp: "2025-01-01T00:00:00.000000+00:00",
+      edited_timestamp: null,
+    };
+    const client = getLastClient(gateway.clients);
+    client?.send(
+      createPayload(GatewayOpcode.DISPATCH, message, 2, "MESSAGE_CREATE"),
+    );
+    client?.send(
+      createPayload(
+        GatewayOpcode.DISPATCH,
+        { id: "msg-1", channel_id: "thread-1" },
+        3,
+        "MESSAGE_DELETE",
+      ),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback.mock.calls).toEqual([
+      [{ type: "MESSAGE_CREATE", channelId: "thread-1", message }],
+      [{ type: "MESSAGE_DELETE", channelId: "thread-1", id: "msg-1" }],
+    ]);
+  });
+
+  it("should only pass on reactions in the chat rooms", async () => {
+    const { subscribe } = await import("./gateway");
+    server.use(createHandshakeHandler());
+
+    const callback = vi.fn();
+    await subscribe(callback);
+
+    const client = getLastClient(gateway.clients);
+    for (const [seq, channelId] of [
+      [2, "thread-1"],
+      [3, "1000000000000000001"],
+    ] as const) {
+      client?.send(
+        createPayload(
+          GatewayOpcode.DISPATCH,
+          { message_id: "msg-test", channel_id: channelId },
+          seq,
+          "MESSAGE_REACTION_ADD",
+        ),
+      );
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).toHaveBeenCalledExactlyOnceWith({
+      type: "MESSAGE_REACTION_ADD",
+      channelId: "1000000000000000001",
+      id: "msg-test",
+    });
   });
 
   it("should stop notifying after unsubscribe", async () => {
@@ -530,7 +810,8 @@ describe("subscribe", () => {
       }),
     );
 
-    await subscribe(vi.fn());
+    const onFatalClose = vi.fn();
+    await subscribe(vi.fn(), onFatalClose);
 
     // Close with fatal code after handshake is complete
     getLastClient(gateway.clients)?.close(4004, "Authentication failed");
@@ -541,6 +822,78 @@ describe("subscribe", () => {
 
     // Should only have one connection attempt - no reconnect
     expect(connectionCount).toBe(1);
+    expect(onFatalClose).toHaveBeenCalledExactlyOnceWith(
+      new Error("Gateway closed with fatal code 4004"),
+    );
+  });
+
+  it("should reject when closed for good before the handshake completes", async () => {
+    const { subscribe } = await import("./gateway");
+
+    server.use(
+      gateway.addEventListener("connection", ({ client }) => {
+        client.send(
+          createPayload(GatewayOpcode.HELLO, { heartbeat_interval: 60000 }),
+        );
+        client.addEventListener("message", () => {
+          client.close(4014, "Disallowed intents");
+        });
+      }),
+    );
+
+    await expect(subscribe(vi.fn())).rejects.toThrow(
+      "Gateway closed with fatal code 4014",
+    );
+  });
+
+  it("should not reconnect after disconnect", async () => {
+    const { disconnect, subscribe } = await import("./gateway");
+    let connectionCount = 0;
+    const handshake = createHandshakeHandler();
+
+    server.use(
+      gateway.addEventListener("connection", () => {
+        connectionCount++;
+      }),
+      handshake,
+    );
+
+    await subscribe(vi.fn());
+    const client = getLastClient(gateway.clients);
+    const onClose = vi.fn();
+    client?.addEventListener("close", onClose);
+
+    disconnect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onClose).toHaveBeenCalled();
+
+    // Advance time past any backoff period
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(connectionCount).toBe(1);
+  });
+
+  it("should identify again when subscribing after disconnect", async () => {
+    const { disconnect, subscribe } = await import("./gateway");
+    const receivedMessages: Payload[] = [];
+
+    server.use(
+      createHandshakeHandler({
+        onMessage: (payload) => receivedMessages.push(payload),
+      }),
+    );
+
+    await subscribe(vi.fn());
+    disconnect();
+    await vi.advanceTimersByTimeAsync(0);
+
+    await subscribe(vi.fn());
+
+    expect(receivedMessages).toMatchObject([
+      { op: GatewayOpcode.IDENTIFY },
+      { op: GatewayOpcode.IDENTIFY },
+    ]);
   });
 
   it("should re-identify after close with re-identify codes", async () => {
@@ -610,134 +963,4 @@ describe("subscribe", () => {
     ]);
     expect(connectionCount).toBe(2);
   });
-
-  describe("subscribeToMessages", () => {
-    it("should notify message subscribers with full message on MESSAGE_CREATE", async () => {
-      const { subscribeToMessages } = await import("./gateway");
-      server.use(createHandshakeHandler());
-
-      const callback = vi.fn();
-      await subscribeToMessages(callback);
-
-      expect(callback).not.toHaveBeenCalled();
-
-      // Send MESSAGE_CREATE for matching channel
-      getLastClient(gateway.clients)?.send(
-        createPayload(
-          GatewayOpcode.DISPATCH,
-          {
-            type: 0,
-            id: "msg-123",
-            channel_id: "test-discord-channel-id",
-            author: { id: "user-123" },
-            content: "hello world",
-            timestamp: "2025-01-01T00:00:00.000000+00:00",
-            edited_timestamp: null,
-          },
-          2,
-          "MESSAGE_CREATE",
-        ),
-      );
-
-      await vi.advanceTimersByTimeAsync(0);
-
-      expect(callback).toHaveBeenCalledTimes(1);
-      expect(callback).toHaveBeenCalledWith(
-        expect.objectContaining({
-          id: "msg-123",
-          type: 0,
-          content: "hello world",
-        }),
-      );
-    });
-
-    it("should notify both refresh and message subscribers", async () => {
-      const { subscribe, subscribeToMessages } = await import("./gateway");
-      server.use(createHandshakeHandler());
-
-      const refreshCallback = vi.fn();
-      const messageCallback = vi.fn();
-
-      await subscribe(refreshCallback);
-      await subscribeToMessages(messageCallback);
-
-      getLastClient(gateway.clients)?.send(
-        createPayload(
-          GatewayOpcode.DISPATCH,
-          {
-            type: 0,
-            id: "msg-789",
-            channel_id: "test-discord-channel-id",
-            author: { id: "user-123" },
-            content: "hello",
-            timestamp: "2025-01-01T00:00:00.000000+00:00",
-            edited_timestamp: null,
-          },
-          2,
-          "MESSAGE_CREATE",
-        ),
-      );
-
-      await vi.advanceTimersByTimeAsync(0);
-
-      // Refresh callback called with no args
-      expect(refreshCallback).toHaveBeenCalledTimes(1);
-      expect(refreshCallback).toHaveBeenCalledWith();
-
-      // Message callback called with full message
-      expect(messageCallback).toHaveBeenCalledTimes(1);
-      expect(messageCallback).toHaveBeenCalledWith(
-        expect.objectContaining({ id: "msg-789" }),
-      );
-    });
-
-    it("should stop notifying after unsubscribe", async () => {
-      const { subscribeToMessages } = await import("./gateway");
-      server.use(createHandshakeHandler());
-
-      const callback = vi.fn();
-      const unsubscribe = await subscribeToMessages(callback);
-      const client = getLastClient(gateway.clients);
-
-      client?.send(
-        createPayload(
-          GatewayOpcode.DISPATCH,
-          {
-            type: 0,
-            id: "msg-1",
-            channel_id: "test-discord-channel-id",
-            author: { id: "user-123" },
-            content: "first",
-            timestamp: "2025-01-01T00:00:00.000000+00:00",
-            edited_timestamp: null,
-          },
-          2,
-          "MESSAGE_CREATE",
-        ),
-      );
-      await vi.advanceTimersByTimeAsync(0);
-      expect(callback).toHaveBeenCalledTimes(1);
-
-      unsubscribe();
-
-      client?.send(
-        createPayload(
-          GatewayOpcode.DISPATCH,
-          {
-            type: 0,
-            id: "msg-2",
-            channel_id: "test-discord-channel-id",
-            author: { id: "user-123" },
-            content: "second",
-            timestamp: "2025-01-01T00:00:00.000000+00:00",
-            edited_timestamp: null,
-          },
-          3,
-          "MESSAGE_CREATE",
-        ),
-      );
-      await vi.advanceTimersByTimeAsync(0);
-      expect(callback).toHaveBeenCalledTimes(1); // Still 1
-    });
-  });
 });
@@ -5,7 +5,12 @@ import { z } from "zod";
 import { env } from "@/lib/env";
 import { log } from "@/lib/log";
 
-import { type DiscordMessage, DiscordMessageSchema } from "./schemas";
+import { findRoomByChannel } from "./rooms";
+import {
+  type ChannelEvent,
+  DiscordInteractionSchema,
+  DiscordMessageSchema,
+} from "./schemas";
 
 const GatewayOpcode = {
   DISPATCH: 0,
@@ -19,7 +24,8 @@ const GatewayOpcode = {
 } as const;
 
 const GATEWAY_URL = "wss://gateway.discord.gg/?v=10&encoding=json";
-const GATEWAY_INTENTS = 1 << 9; // GUILD_MESSAGES
+// GUILD_MESSAGES | GUILD_MESSAGE_REACTIONS | GUILD_MESSAGE_TYPING
+const GATEWAY_INTENTS = (1 << 9) | (1 << 10) | (1 << 11);
 
 // Close codes that require fresh identify (not resume)
 const RE_IDENTIFY_CLOSE_CODES = new Set([4003, 4007, 4009]);
@@ -42,12 +48,35 @@ const ReadyDataSchema = z.object({
 
 const MessageEventDataSchema = z.object({ channel_id: z.string() });
 
-export type MessageSubscriber = (message: DiscordMessage) => void;
+const MessageDeleteDataSchema = z.object({ id: z.string() });
+
+const MessageDeleteBulkDataSchema = z.object({
+  channel_id: z.string(),
+  ids: z.array(z.string()),
+});
+
+const MessageReactionDataSchema = z.object({
+  channel_id: z.string(),
+  message_id: z.string(),
+});
+
+const TypingStartDataSchema = z.object({
+  channel_id: z.string(),
+  user_id: z.string(),
+  member: z
+    .object({ user: z.object({ bot: z.boolean().optional() }) })
+    .optional(),
+});
+
+export type ChannelSubscriber = (event: ChannelEvent) => void;
+
+/** Called when the gateway closes for good, with why. */
+export type FatalCloseListener = (err: Error) => void;
 
 class DiscordGateway {
   #ws: WebSocket | null = null;
-  #subscribers = new Set<() => void>();
-  #messageSubscribers = new Set<MessageSubscriber>();
+  #subscribers = new Set<ChannelSubscriber>();
+  #fatalCloseListeners = new Set<FatalCloseListener>();
 
   // Session state (for resume)
   #sessionId: string | null = null;
@@ -61,49 +90,43 @@ class DiscordGateway {
 
   // Reconnection state
   #reconnectAttempts = 0;
+  #reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   #shouldResume = true;
+  #disconnected = false;
 
   get connected(): boolean {
     return this.#ws?.readyState === WebSocket.OPEN;
   }
 
-  addSubscriber(callback: () => void): void {
+  addSubscriber(callback: ChannelSubscriber): void {
     this.#subscribers.add(callback);
   }
 
-  removeSubscriber(callback: () => void): void {
+  removeSubscriber(callback: ChannelSubscriber): void {
     this.#subscribers.delete(callback);
   }
 
-  #notifySubscribers(): void {
-    for (const callback of this.#subscribers) {
-      try {
-        callback();
-      } catch (err) {
-        log.error({ err }, "Subscriber callback error");
-      }
-    }
-  }
-
-  addMessageSubscriber(callback: MessageSubscriber): void {
-    this.#messageSubscribers.add(callback);
+  addFatalCloseListener(listener: FatalCloseListener): void {
+    this.#fatalCloseListeners.add(listener);
   }
 
-  removeMessageSubscriber(callback: MessageSubscriber): void {
-    this.#messageSubscribers.delete(callback);
+  removeFatalCloseListener(listener: FatalCloseListener): void {
+    this.#fatalCloseListeners.delete(listener);
   }
 
-  #notifyMessageSubscribers(message: DiscordMessage): void {
-    for (const callback of this.#messageSubscribers) {
+  #notifySubscribers(event: ChannelEvent): void {
+    for (const callback of this.#subscribers) {
       try {
-        callback(message);
+        callback(event);
       } catch (err) {
-        log.error({ err }, "Message subscriber callback error");
+        log.error({ err }, "Subscriber callback error");
       }
     }
   }
 
   async connect(): Promise<void> {
+    this.#disconnected = false;
+
     return new Promise((resolve, reject) => {
       const url =
         this.#shouldResume && this.#resumeGatewayUrl
@@ -122,7 +145,7 @@ class DiscordGateway {
       };
 
       this.#ws.onclose = (event) => {
-        this.#handleClose(event.code, event.reason);
+        this.#handleClose(event.code, event.reason, reject);
       };
 
       this.#ws.onerror = (event) => {
@@ -135,6 +158,18 @@ class DiscordGateway {
     });
   }
 
+  /** Closes the connection for good, without attempting to reconnect. */
+  disconnect(): void {
+    log.info("Disconnecting from Discord Gateway");
+
+    this.#disconnected = true;
+    if (this.#reconnectTimer) {
+      clearTimeout(this.#reconnectTimer);
+      this.#reconnectTimer = null;
+    }
+    this.#ws?.close(1000, "Disconnect requested");
+  }
+
   #send(op: number, d: unknown): void {
     if (this.#ws?.readyState === WebSocket.OPEN) {
       this.#ws.send(JSON.stringify({ op, d }));
@@ -279,30 +314,108 @@ class DiscordGateway {
         onReady();
         break;
 
+      // Messages outside the rooms could be in the private thread of a
+      // visitor, which only subscribers can tell
       case "MESSAGE_CREATE":
       case "MESSAGE_UPDATE":
       case "MESSAGE_DELETE": {
         const parsed = MessageEventDataSchema.safeParse(data);
+        if (parsed.success) {
+          const channelId = parsed.data.channel_id;
+          log.debug({ event: eventName, channelId }, "Message event");
+
+          if (eventName === "MESSAGE_DELETE") {
+            const parsedDelete = MessageDeleteDataSchema.safeParse(data);
+            if (parsedDelete.success) {
+              this.#notifySubscribers({
+                type: eventName,
+                channelId,
+                id: parsedDelete.data.id,
+              });
+            }
+            break;
+          }
+
+          const parsedMessage = DiscordMessageSchema.safeParse(data);
+          if (parsedMessage.success) {
+            this.#notifySubscribers({
+              type: eventName,
+              channelId,
+              message: parsedMessage.data,
+            });
+          }
+        }
+        break;
+      }
+
+      // Purged messages are deleted in bulk, subscribers see them one by one
+      case "MESSAGE_DELETE_BULK": {
+        const parsed = MessageDeleteBulkDataSchema.safeParse(data);
+        if (parsed.success && findRoomByChannel(parsed.data.channel_id)) {
+          for (const id of parsed.data.ids) {
+            this.#notifySubscribers({
+              type: "MESSAGE_DELETE",
+              channelId: parsed.data.channel_id,
+              id,
+            });
+          }
+        }
+        break;
+      }
+
+      case "MESSAGE_REACTION_ADD":
+      case "MESSAGE_REACTION_REMOVE":
+      case "MESSAGE_REACTION_REMOVE_ALL":
+      case "MESSAGE_REACTION_REMOVE_EMOJI": {
+        const parsed = MessageReactionDataSchema.safeParse(data);
+        if (parsed.success && findRoomByChannel(parsed.data.channel_id)) {
+          log.debug({ event: eventName }, "Reaction event in a room");
+          this.#notifySubscribers({
+            type:
+              eventName === "MESSAGE_REACTION_ADD"
+                ? "MESSAGE_REACTION_ADD"
+                : "MESSAGE_REACTION_REMOVE",
+            channelId: parsed.data.channel_id,
+            id: parsed.data.message_id,
+          });
+        }
+        break;
+      }
+
+      case "TYPING_START": {
+        const parsed = TypingStartDataSchema.safeParse(data);
         if (
           parsed.success &&
-          parsed.data.channel_id === env.DISCORD_CHANNEL_ID
+          findRoomByChannel(parsed.data.channel_id) &&
+          !parsed.data.member?.user.bot
         ) {
-          log.debug({ event: eventName }, "Message event for our channel");
-          this.#notifySubscribers();
+          this.#notifySubscribers({
+            type: "TYPING_START",
+            channelId: parsed.data.channel_id,
+            userId: parsed.data.user_id,
+          });
+        }
+        break;
+      }
 
-          if (eventName === "MESSAGE_CREATE") {
-            const parsedMessage = DiscordMessageSchema.safeParse(data);
-            if (parsedMessage.success) {
-              this.#notifyMessageSubscribers(parsedMessage.data);
-            }
-          }
+      case "INTERACTION_CREATE": {
+        const parsed = DiscordInteractionSchema.safeParse(data);
+        if (parsed.success && parsed.data.guild_id === env.DISCORD_GUILD_ID) {
+          this.#notifySubscribers({
+            type: "INTERACTION_CREATE",
+            interaction: parsed.data,
+          });
         }
         break;
       }
     }
   }
 
-  #handleClose(code: number, reason: string): void {
+  #handleClose(
+    code: number,
+    reason: string,
+    onFatal: (err: Error) => void,
+  ): void {
     log.info({ code, reason }, "Gateway connection closed");
 
     this.#stopHeartbeat();
@@ -310,8 +423,19 @@ class DiscordGateway {
     this.#ws = null;
 
     // Check if we should reconnect
+    if (this.#disconnected) {
+      this.#shouldResume = false;
+      this.#sessionId = null;
+      this.#resumeGatewayUrl = null;
+      this.#seq = null;
+      return;
+    }
+
     if (FATAL_CLOSE_CODES.has(code)) {
       log.error({ code }, "Fatal gateway close code, not reconnecting");
+      const err = new Error(`Gateway closed with fatal code ${code}`);
+      onFatal(err);
+      for (const listener of this.#fatalCloseListeners) listener(err);
       return;
     }
 
@@ -329,7 +453,8 @@ class DiscordGateway {
 
     log.info({ backoff, attempt: this.#reconnectAttempts }, "Reconnecting");
 
-    setTimeout(() => {
+    this.#reconnectTimer = setTimeout(() => {
+      this.#reconnectTimer = null;
       void this.connect().catch((err) => {
         log.error({ err }, "Reconnection failed");
       });
@@ -346,26 +471,35 @@ function getGateway(): DiscordGateway {
   return gateway;
 }
 
-export async function subscribe(callback: () => void): Promise<() => void> {
+/**
+ * Subscribes to the gateway's events, connecting it if needed. Rejects, and
+ * later calls `onFatalClose`, if Discord closes the connection for good.
+ */
+export async function subscribe(
+  callback: ChannelSubscriber,
+  onFatalClose?: FatalCloseListener,
+): Promise<() => void> {
   const gw = getGateway();
   gw.addSubscriber(callback);
+  if (onFatalClose) gw.addFatalCloseListener(onFatalClose);
+
+  const unsubscribe = () => {
+    gw.removeSubscriber(callback);
+    if (onFatalClose) gw.removeFatalCloseListener(onFatalClose);
+  };
 
   if (!gw.connected) {
-    await gw.connect();
+    try {
+      await gw.connect();
+    } catch (err) {
+      unsubscribe();
+      throw err;
+    }
   }
 
-  return () => gw.removeSubscriber(callback);
+  return unsubscribe;
 }
 
-export async function subscribeToMessages(
-  callback: MessageSubscriber,
-): Promise<() => void> {
-  const gw = getGateway();
-  gw.addMessageSubscriber(callback);
-
-  if (!gw.connected) {
-    await gw.connect();
-  }
-
-  return () => gw.removeMessageSubscriber(callback);
+export function disconnect(): void {
+  gateway?.disconnect();
 }
@@ -0,0 +1,118 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+
+import { getMentionedIds, parseMarkdown } from "./markdown";
+
+vi.mock(import("server-only"), () => ({}));
+
+describe("parseMarkdown", () => {
+  it("should render inline markdown", () => {
+    expect(parseMarkdown("**bold** and _em_ and `code`")).toBe(
+      "<strong>bold</strong> and <em>em</em> and <code>code</code>",
+    );
+  });
+
+  it("should escape HTML", () => {
+    expect(parseMarkdown("<script>alert(1)</script>")).toBe(
+      "&lt;script&gt;alert(1)&lt;/script&gt;",
+    );
+  });
+
+  it("should resolve user mentions to display names", () => {
+    const users = new Map([["123", "Alice <3"]]);
+
+    expect(
+      parseMarkdown("hi <@123> and <@!123>", { users, channels: new Map() }),
+    ).toBe(
+      'hi <span class="mention">@Alice &lt;3</span> and <span class="mention">@Alice &lt;3</span>',
+    );
+  });
+
+  it("should render unresolved mentions as unknown", () => {
+    expect(parseMarkdown("<@123> in <#456>")).toBe(
+      '<span class="mention">@unknown-user</span> in <span class="mention">#unknown-channel</span>',
+    );
+  });
+
+  it("should resolve channel mentions to names", () => {
+    const channels = new Map([["456", "general"]]);
+
+    expect(parseMarkdown("see <#456>", { users: new Map(), channels })).toBe(
+      'see <span class="mention">#general</span>',
+    );
+  });
+
+  it("should render custom emoji as images", () => {
+    expect(parseMarkdown("<:blob_wave:123> <a:party:456>")).toBe(
+      '<img class="emoji" src="https://cdn.discordapp.com/emojis/123.webp?size=48" alt=":blob_wave:" title=":blob_wave:"> ' +
+        '<img class="emoji" src="https://cdn.discordapp.com/emojis/456.webp?size=48&amp;animated=true" alt=":party:" title=":party:">',
+    );
+  });
+
+  it("should render timestamps with their style", () => {
+    expect(parseMarkdown("<t:1700000000:R>")).toBe(
+      '<time datetime="2023-11-14T22:13:20.000Z" data-timestamp-style="R">November 14, 2023 at 10:13 PM</time>',
+    );
+    expect(parseMarkdown("<t:1700000000>")).toBe(
+      '<time datetime="2023-11-14T22:13:20.000Z" data-timestamp-style="f">November 14, 2023 at 10:13 PM</time>',
+    );
+    expect(parseMarkdown("<t:1700000000:d>")).toContain(">11/14/23</time>");
+  });
+
+  it("should leave timestamps with unknown styles as text", () => {
+    expect(parseMarkdown("<t:1700000000:x>")).toBe("&lt;t:1700000000:x&gt;");
+  });
+
+  it("should render spoilers with nested markdown", () => {
+    expect(parseMarkdown("the end: ||**everyone** lives||")).toBe(
+      'the end: <span class="spoiler" tabindex="0"><strong>everyone</strong> lives</span>',
+    );
+  });
+
+  it("should render fenced code blocks with their language", () => {
+    expect(parseMarkdown("look:\n```ts\nconst a = 1 < 2;\n```")).toBe(
+      'look:\n<pre data-language="ts"><code class="markdown-code-ts"><span class="hl-keyword">const</span> a = <span class="hl-number">1</span> &lt; <span class="hl-number">2</span>;</code></pre>',
+    );
+    expect(parseMarkdown("```**not bold**```")).toBe(
+      "<pre><code>**not bold**</code></pre>",
+    );
+  });
+
+  it("should escape code in languages without highlighting", () => {
+    expect(parseMarkdown("```cobol\n<b>hi</b>\n```")).toBe(
+      '<pre data-language="cobol"><code class="markdown-code-cobol">&lt;b&gt;hi&lt;/b&gt;</code></pre>',
+    );
+  });
+
+  it("should escape highlighted tokens", () => {
+    expect(parseMarkdown('```js\n"<img onerror=x>"\n```')).toBe(
+      '<pre data-language="js"><code class="markdown-code-js"><span class="hl-string">&quot;&lt;img onerror=x&gt;&quot;</span></code></pre>',
+    );
+  });
+
+  it("should quote consecutive lines starting with >", () => {
+    expect(parseMarkdown("> one\n> **two**\nthree")).toBe(
+      "<blockquote>one\n<strong>two</strong></blockquote>three",
+    );
+  });
+
+  it("should quote the rest of the message after >>>", () => {
+    expect(parseMarkdown("intro\n>>> one\n> two\nthree")).toBe(
+      "intro\n<blockquote>one\n&gt; two\nthree</blockquote>",
+    );
+  });
+
+  it("should only quote at the start of a line", () => {
+    expect(parseMarkdown("a > b")).toBe("a &gt; b");
+  });
+});
+
+describe("getMentionedIds", () => {
+  it("should collect distinct user and channel ids", () => {
+    expect(getMentionedIds("<@1> <@!1> <@2> <#3> <@&4>")).toEqual({
+      users: ["1", "2"],
+      channels: ["3"],
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import "server-only";
+
+import SimpleMarkdown, {
+  type HtmlOutputRule,
+  type HtmlRules,
+  type ParserRule,
+  type State,
+} from "@khanacademy/simple-markdown";
+
+import { highlight } from "@/lib/highlight";
+
+import { formatTimestamp, isTimestampStyle } from "./timestamp";
+
+const { defaultRules, htmlTag, inlineRegex, anyScopeRegex, sanitizeText } =
+  SimpleMarkdown;
+
+export interface MarkdownContext {
+  /** Display names of mentioned users, by id. */
+  users: ReadonlyMap<string, string>;
+  /** Names of mentioned channels, by id. */
+  channels: ReadonlyMap<string, string>;
+}
+
+const USER_MENTION_PATTERN = /<@!?(\d+)>/g;
+const CHANNEL_MENTION_PATTERN = /<#(\d+)>/g;
+// `>>> ` quotes the rest of the message, `> ` only its own line
+const QUOTE_PATTERN = /^(?:>>> ([\s\S]*)|(?:> [^\n]*(?:\n|$))+)/;
+
+function contextOf(state: State): MarkdownContext {
+  return state["discord"] as MarkdownContext;
+}
+
+const discordRules = {
+  fence: {
+    ...defaultRules.fence,
+    match: anyScopeRegex(/^```(?:([\w+\-.#]*)\n)?\n*([\s\S]+?)\n*```/),
+    parse: (capture) => ({
+      type: "codeBlock",
+      lang: capture[1] || undefined,
+      content: capture[2],
+    }),
+  },
+  codeBlock: {
+    ...defaultRules.codeBlock,
+    html: ({ lang, content }) => {
+      const tokens = lang ? highlight(content, lang) : null;
+      const code = tokens
+        ? tokens
+            .map(({ type, text }) =>
+              type
+                ? htmlTag("span", sanitizeText(text), { class: `hl-${type}` })
+                : sanitizeText(text),
+            )
+            .join("")
+        : sanitizeText(content);
+      return htmlTag(
+        "pre",
+        htmlTag("code", code, { class: lang && `markdown-code-${lang}` }),
+        { "data-language": lang },
+      );
+    },
+  },
+  blockQuote: {
+    ...defaultRules.blockQuote,
+    match: (source, { inQuote }, prevCapture) =>
+      !inQuote && (prevCapture === "" || prevCapture.endsWith("\n"))
+        ? QUOTE_PATTERN.exec(source)
+        : null,
+    parse: (capture, parse, state) => {
+      const [quote, rest] = capture;
+      const content = (rest ?? quote!.replace(/^> /gm, "")).replace(/\n$/, "");
+      // Discord doesn't nest quotes
+      return { content: parse(content, { ...state, inQuote: true }) };
+    },
+  },
+  spoiler: {
+    order: defaultRules.strong.order,
+    match: inlineRegex(/^\|\|([\s\S]+?)\|\|/),
+    parse: (capture, parse, state) => ({ content: parse(capture[1]!, state) }),
+    html: ({ content }, output, state) =>
+      htmlTag("span", output(content, state), {
+        class: "spoiler",
+        tabindex: "0",
+      }),
+  },
+  userMention: {
+    order: defaultRules.autolink.order,
+    match: inlineRegex(/^<@!?(\d+)>/),
+    parse: (capture, _parse, state) => ({
+      name: contextOf(state).users.get(capture[1]!) ?? "unknown-user",
+    }),
+    html: ({ name }) =>
+      htmlTag("span", sanitizeText(`@${name}`), { class: "mention" }),
+  },
+  channelMention: {
+    order: defaultRules.autolink.order,
+    match: inlineRegex(/^<#(\d+)>/),
+    parse: (capture, _parse, state) => ({
+      name: contextOf(state).channels.get(capture[1]!) ?? "unknown-channel",
+    }),
+    html: ({ name }) =>
+      htmlTag("span", sanitizeText(`#${name}`), { class: "mention" }),
+  },
+  customEmoji: {
+    order: defaultRules.autolink.order,
+    match: inlineRegex(/^<(a?):(\w+):(\d+)>/),
+    parse: (capture) => ({
+      animated: capture[1] === "a",
+      name: capture[2],
+      id: capture[3],
+    }),
+    html: ({ animated, name, id }) =>
+      htmlTag(
+        "img",
+        "",
+        {
+          class: "emoji",
+          src: `https://cdn.discordapp.com/emojis/${id}.webp?size=48${animated ? "&animated=true" : ""}`,
+          alt: `:${name}:`,
+          title: `:${name}:`,
+        },
+        false,
+      ),
+  },
+  timestamp: {
+    order: defaultRules.autolink.order,
+    match: inlineRegex(/^<t:(-?\d{1,13})(?::([a-zA-Z]))?>/),
+    parse: (capture) => {
+      const date = new Date(Number(capture[1]) * 1000);
+      const style = capture[2] ?? "f";
+      // Out of range dates and unknown styles are left as Discord shows them
+      if (Number.isNaN(date.getTime()) || !isTimestampStyle(style)) {
+        return { type: "text", content: capture[0] };
+      }
+      return { date, style };
+    },
+    html: ({ date, style }) =>
+      htmlTag(
+        "time",
+        // Formatted in UTC until the client renders it in the visitor's zone
+        sanitizeText(formatTimestamp(date, style, "UTC")),
+        { datetime: date.toISOString(), "data-timestamp-style": style },
+      ),
+  },
+} satisfies Record<string, ParserRule & HtmlOutputRule>;
+
+// The types don't accept the `Array` rule alongside the others
+const inlineRules: Omit<typeof defaultRules, "Array"> = defaultRules;
+const rules: HtmlRules = { ...inlineRules, ...discordRules };
+
+const parse = SimpleMarkdown.parserFor(rules);
+const output = SimpleMarkdown.outputFor(rules, "html");
+
+/** Ids of the users and channels mentioned in Discord markdown. */
+export function getMentionedIds(content: string): {
+  users: string[];
+  channels: string[];
+} {
+  const idsOf = (pattern: RegExp) => [
+    ...new Set(Array.from(content.matchAll(pattern), ([, id]) => id!)),
+  ];
+  return {
+    users: idsOf(USER_MENTION_PATTERN),
+    channels: idsOf(CHANNEL_MENTION_PATTERN),
+  };
+}
+
+/** Renders Discord-flavoured inline markdown to HTML. */
+export function parseMarkdown(
+  content: string,
+  context: MarkdownContext = { users: new Map(), channels: new Map() },
+): string {
+  const state = { inline: true, discord: context };
+  return output(parse(content, state), state) as string;
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+
+import { resolveMedia } from "./media";
+import type { DiscordMessage } from "./schemas";
+
+function createDiscordMessage(
+  overrides: Partial<DiscordMessage> = {},
+): DiscordMessage {
+  return {
+    type: 0,
+    id: "msg-1",
+    author: { id: "user1" },
+    content: "",
+    timestamp: "2025-01-01T00:00:00.000000+00:00",
+    edited_timestamp: null,
+    ...overrides,
+  };
+}
+
+describe("resolveMedia", () => {
+  it("should resolve nothing for a plain message", () => {
+    expect(resolveMedia(createDiscordMessage())).toEqual({
+      attachments: [],
+      embeds: [],
+      stickers: [],
+    });
+  });
+
+  it("should resolve image attachments with dimensions and other files as links", () => {
+    const { attachments } = resolveMedia(
+      createDiscordMessage({
+        attachments: [
+          {
+            filename: "cat.png",
+            url: "https://cdn.discordapp.com/attachments/1/2/cat.png",
+            proxy_url: "https://media.discordapp.net/attachments/1/2/cat.png",
+            content_type: "image/png",
+            size: 1000,
+            width: 800,
+            height: 600,
+          },
+          {
+            filename: "notes.txt",
+            url: "https://cdn.discordapp.com/attachments/1/3/notes.txt",
+            content_type: "text/plain",
+            size: 2048,
+          },
+        ],
+      }),
+    );
+
+    expect(attachments).toEqual([
+      {
+        type: "image",
+        name: "cat.png",
+        image: {
+          url: "https://media.discordapp.net/attachments/1/2/cat.png",
+          width: 800,
+          height: 600,
+        },
+      },
+      {
+        type: "file",
+        name: "notes.txt",
+        url: "https://cdn.discordapp.com/attachments/1/3/notes.txt",
+        size: 2048,
+      },
+    ]);
+  });
+
+  it("should drop media that is not served over https", () => {
+    const { attachments, embeds } = resolveMedia(
+      createDiscordMessage({
+        attachments: [
+          { filename: "a.txt", url: "javascript:alert(1)", size: 1 },
+          { filename: "b.txt", url: "http://example.com/b.txt", size: 1 },
+        ],
+        embeds: [
+          {
+            type: "link",
+            url: "javascript:alert(1)",
+            title: "Click me",
+            image: { url: "data:image/png;base64,AAAA", width: 1, height: 1 },
+          },
+        ],
+      }),
+    );
+
+    expect(attachments).toEqual([]);
+    expect(embeds).toEqual([
+      {
+        url: null,
+        title: "Click me",
+        description: null,
+        provider: null,
+        color: null,
+        image: null,
+      },
+    ]);
+  });
+
+  it("should resolve embeds with their thumbnail and color", () => {
+    const { embeds } = resolveMedia(
+      createDiscordMessage({
+        embeds: [
+          {
+            type: "article",
+            url: "https://example.com/post",
+            title: "A post",
+            description: "x".repeat(500),
+            color: 0xff00,
+            provider: { name: "Example" },
+            thumbnail: {
+              url: "https://example.com/thumb.png",
+              proxy_url: "https://images-ext-1.discordapp.net/thumb.png",
+              width: 400,
+              height: 200,
+            },
+          },
+          // Nothing to show
+          { type: "rich" },
+        ],
+      }),
+    );
+
+    expect(embeds).toEqual([
+      {
+        url: "https://example.com/post",
+        title: "A post",
+        description: `${"x".repeat(299)}…`,
+        provider: "Example",
+        color: "#00ff00",
+        image: {
+          url: "https://images-ext-1.discordapp.net/thumb.png",
+          width: 400,
+          height: 200,
+        },
+      },
+    ]);
+  });
+
+  it("should resolve stickers, without an image for Lottie ones", () => {
+    const { stickers } = resolveMedia(
+      createDiscordMessage({
+        sticker_items: [
+          { id: "1", name: "Wave", format_type: 1 },
+          { id: "2", name: "Dance", format_type: 4 },
+          { id: "3", name: "Lottie", format_type: 3 },
+        ],
+      }),
+    );
+
+    expect(stickers).toEqual([
+      {
+        name: "Wave",
+        url: "https://media.discordapp.net/stickers/1.png?size=160",
+      },
+      {
+        name: "Dance",
+        url: "https://media.discordapp.net/stickers/2.gif?size=160",
+      },
+      { name: "Lottie", url: null },
+    ]);
+  });
+
+  it("should cap the number of attachments", () => {
+    const { attachments } = resolveMedia(
+      createDiscordMessage({
+        attachments: Array.from({ length: 10 }, (_, i) => ({
+          filename: `${i}.txt`,
+          url: `https://cdn.discordapp.com/attachments/1/${i}.txt`,
+          size: 1,
+        })),
+      }),
+    );
+
+    expect(attachments).toHaveLength(4);
+  });
+});
@@ -0,0 +1,118 @@
+import type {
+  Attachment,
+  DiscordMessage,
+  Embed,
+  HttpsUrl,
+  Message,
+  Sticker,
+} from "./schemas";
+
+const MAX_ATTACHMENTS = 4;
+const MAX_EMBEDS = 2;
+const MAX_STICKERS = 3;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+// Sticker format types: 1 PNG, 2 APNG, 3 LOTTIE, 4 GIF
+const STICKER_EXTENSIONS: Record<number, string> = {
+  1: "png",
+  2: "png",
+  4: "gif",
+};
+
+type DiscordEmbed = NonNullable<DiscordMessage["embeds"]>[number];
+type DiscordEmbedMedia = NonNullable<DiscordEmbed["image"]>;
+
+/** Only https URLs are rendered, anything else is dropped. */
+function safeUrl(url: string | undefined): HttpsUrl | null {
+  if (!url || !URL.canParse(url)) return null;
+  const { href, protocol } = new URL(url);
+  return protocol === "https:" ? (href as HttpsUrl) : null;
+}
+
+function truncate(text: string | undefined, length: number): string | null {
+  if (!text) return null;
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function resolveAttachment(
+  attachment: NonNullable<DiscordMessage["attachments"]>[number],
+): Attachment | null {
+  const url = safeUrl(attachment.proxy_url ?? attachment.url);
+  if (!url) return null;
+
+  const { filename: name, width, height } = attachment;
+  if (attachment.content_type?.startsWith("image/") && width && height) {
+    return { type: "image", name, image: { url, width, height } };
+  }
+
+  return { type: "file", name, url, size: attachment.size };
+}
+
+function resolveEmbedImage(media: DiscordEmbedMedia | undefined) {
+  const url = safeUrl(media?.proxy_url ?? media?.url);
+  if (!url || !media?.width || !media.height) return null;
+  return { url, width: media.width, height: media.height };
+}
+
+function resolveEmbed(embed: DiscordEmbed): Embed | null {
+  const resolved = {
+    url: safeUrl(embed.url),
+    title: truncate(embed.title, MAX_DESCRIPTION_LENGTH),
+    description: truncate(embed.description, MAX_DESCRIPTION_LENGTH),
+    provider: embed.provider?.name ?? null,
+    color:
+      embed.color === undefined
+        ? null
+        : `#${embed.color.toString(16).padStart(6, "0")}`,
+    image: resolveEmbedImage(embed.image ?? embed.thumbnail),
+  };
+
+  return resolved.title || resolved.description || resolved.image
+    ? resolved
+    : null;
+}
+
+function resolveSticker(
+  sticker: NonNullable<DiscordMessage["sticker_items"]>[number],
+): Sticker {
+  const extension = STICKER_EXTENSIONS[sticker.format_type];
+  return {
+    name: sticker.name,
+    url: extension
+      ? `https://media.discordapp.net/stickers/${sticker.id}.${extension}?size=160`
+      : null,
+  };
+}
+
+function resolveAll<T, R>(
+  items: T[] | undefined,
+  resolve: (item: T) => R | null,
+  max: number,
+): R[] {
+  return (items ?? [])
+    .map(resolve)
+    .filter((item) => item !== null)
+    .slice(0, max);
+}
+
+/**
+ * Resolves the attachments, embeds and stickers of a Discord message, capped
+ * in number and limited to https URLs so they can be rendered safely.
+ */
+export function resolveMedia(
+  discordMessage: DiscordMessage,
+): Pick<Message, "attachments" | "embeds" | "stickers"> {
+  return {
+    attachments: resolveAll(
+      discordMessage.attachments,
+      resolveAttachment,
+      MAX_ATTACHMENTS,
+    ),
+    embeds: resolveAll(discordMessage.embeds, resolveEmbed, MAX_EMBEDS),
+    stickers: resolveAll(
+      discordMessage.sticker_items,
+      resolveSticker,
+      MAX_STICKERS,
+    ),
+  };
+}
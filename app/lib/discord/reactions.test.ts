@@ -0,0 +1,45 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MockRedis } from "@/mocks/redis";
+
+import { getReactionUsers, toggleReaction } from "./reactions";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+describe("toggleReaction", () => {
+  afterEach(() => {
+    redis.reset();
+  });
+
+  it("should add a reaction the user has not made yet", async () => {
+    const result = await toggleReaction("msg-1", "👍", "alice");
+
+    expect(result).toEqual({ reacted: true, count: 1 });
+    expect(await getReactionUsers("msg-1", "👍")).toEqual(["alice"]);
+  });
+
+  it("should remove a reaction the user already made", async () => {
+    await toggleReaction("msg-1", "👍", "alice");
+    await toggleReaction("msg-1", "👍", "bob");
+
+    const result = await toggleReaction("msg-1", "👍", "alice");
+
+    expect(result).toEqual({ reacted: false, count: 1 });
+    expect(await getReactionUsers("msg-1", "👍")).toEqual(["bob"]);
+  });
+
+  it("should track reactions per message and emoji", async () => {
+    await toggleReaction("msg-1", "👍", "alice");
+    await toggleReaction("msg-1", "🎉", "bob");
+    await toggleReaction("msg-2", "👍", "carol");
+
+    expect(await getReactionUsers("msg-1", "👍")).toEqual(["alice"]);
+    expect(await getReactionUsers("msg-1", "🎉")).toEqual(["bob"]);
+    expect(await getReactionUsers("msg-2", "👍")).toEqual(["carol"]);
+  });
+});
@@ -0,0 +1,38 @@
+import "server-only";
+
+import { getRedis } from "@/lib/redis";
+
+// All site users react through the bot, so we track who did in Redis
+const REACTIONS_PREFIX = "chat:reactions:";
+
+function reactionKey(messageId: string, emoji: string): string {
+  return `${REACTIONS_PREFIX}${messageId}:${emoji}`;
+}
+
+/** Site usernames that reacted to the message with the emoji. */
+export async function getReactionUsers(
+  messageId: string,
+  emoji: string,
+): Promise<string[]> {
+  return getRedis().smembers(reactionKey(messageId, emoji));
+}
+
+/**
+ * Adds the user's reaction, or removes it if they already reacted. Resolves
+ * to whether they now react, and how many site users do in total.
+ */
+export async function toggleReaction(
+  messageId: string,
+  emoji: string,
+  username: string,
+): Promise<{ reacted: boolean; count: number }> {
+  const redis = getRedis();
+  const key = reactionKey(messageId, emoji);
+
+  const removed = await redis.srem(key, username);
+  if (removed === 0) {
+    await redis.sadd(key, username);
+  }
+
+  return { reacted: removed === 0, count: await redis.scard(key) };
+}
@@ -0,0 +1,246 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MockRedis } from "@/mocks/redis";
+
+import type { ChannelSubscriber } from "./gateway";
+import type { ChannelEvent } from "./schemas";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+const subscribeMock = vi.hoisted(() => vi.fn());
+const disconnectMock = vi.hoisted(() => vi.fn());
+const unsubscribeMock = vi.hoisted(() => vi.fn());
+const getMessageReactionsMock = vi.hoisted(() => vi.fn());
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+vi.mock(import("@/lib/log"), async (importOriginal) => {
+  const actual = await importOriginal();
+  return {
+    log: { ...actual.log, info: vi.fn(), warn: logWarnMock, error: vi.fn() },
+  };
+});
+vi.mock(import("./api"), () => ({
+  getMessageReactions: getMessageReactionsMock,
+}));
+vi.mock(import("./gateway"), () => ({
+  subscribe: subscribeMock,
+  disconnect: disconnectMock,
+}));
+
+const event: ChannelEvent = {
+  type: "MESSAGE_CREATE",
+  channelId: "test-discord-channel-id",
+  message: {
+    type: 0,
+    id: "msg-1",
+    channel_id: "test-discord-channel-id",
+    author: { id: "user1" },
+    content: "hello",
+    timestamp: "2025-01-01T00:00:00.000000+00:00",
+    edited_timestamp: null,
+  },
+};
+
+// Each fresh import stands in for a separate instance sharing the same Redis
+async function importInstance() {
+  vi.resetModules();
+  return import("./relay");
+}
+
+describe("subscribeToChannelEvents", () => {
+  let gatewayCallback: ChannelSubscriber | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    gatewayCallback = undefined;
+    subscribeMock.mockImplementation(async (callback: ChannelSubscriber) => {
+      gatewayCallback = callback;
+      return unsubscribeMock;
+    });
+  });
+
+  afterEach(() => {
+    redis.reset();
+    vi.useRealTimers();
+  });
+
+  it("should connect the gateway on the elected instance only", async () => {
+    const leader = await importInstance();
+    await leader.subscribeToChannelEvents(vi.fn());
+    const follower = await importInstance();
+    await follower.subscribeToChannelEvents(vi.fn());
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(subscribeMock).toHaveBeenCalledOnce();
+    expect(await redis.get("discord:gateway:leader")).toEqual(
+      expect.any(String),
+    );
+  });
+
+  it("should deliver gateway events to subscribers on every instance", async () => {
+    const leader = await importInstance();
+    const leaderCallback = vi.fn();
+    await leader.subscribeToChannelEvents(leaderCallback);
+    const follower = await importInstance();
+    const followerCallback = vi.fn();
+    await follower.subscribeToChannelEvents(followerCallback);
+    await vi.advanceTimersByTimeAsync(0);
+
+    gatewayCallback?.(event);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(leaderCallback).toHaveBeenCalledExactlyOnceWith(event, 1);
+    expect(followerCallback).toHaveBeenCalledExactlyOnceWith(event, 1);
+  });
+
+  it("should fetch reactions once and relay them with the event", async () => {
+    const reactions = [{ emoji: "👍", count: 2, users: ["User1"] }];
+    getMessageReactionsMock.mockResolvedValue(reactions);
+    const leader = await importInstance();
+    const leaderCallback = vi.fn();
+    await leader.subscribeToChannelEvents(leaderCallback);
+    const follower = await importInstance();
+    const followerCallback = vi.fn();
+    await follower.subscribeToChannelEvents(followerCallback);
+    await vi.advanceTimersByTimeAsync(0);
+
+    gatewayCallback?.({
+      type: "MESSAGE_REACTION_ADD",
+      channelId: "test-discord-channel-id",
+      id: "msg-1",
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const relayed = {
+      type: "MESSAGE_REACTION_ADD",
+      channelId: "test-discord-channel-id",
+      id: "msg-1",
+      reactions,
+    };
+    expect(getMessageReactionsMock).toHaveBeenCalledExactlyOnceWith(
+      "test-discord-channel-id",
+      "msg-1",
+    );
+    expect(leaderCallback).toHaveBeenCalledExactlyOnceWith(relayed, 1);
+    expect(followerCallback).toHaveBeenCalledExactlyOnceWith(relayed, 1);
+  });
+
+  it("should number events the same on every instance", async () => {
+    const leader = await importInstance();
+    const leaderCallback = vi.fn();
+    await leader.subscribeToChannelEvents(leaderCallback);
+    const follower = await importInstance();
+    const followerCallback = vi.fn();
+    await follower.subscribeToChannelEvents(followerCallback);
+    await vi.advanceTimersByTimeAsync(0);
+
+    gatewayCallback?.(event);
+    await follower.publishChannelEvent({ type: "PRESENCE_CHANGED" });
+    gatewayCallback?.(event);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const ids = leaderCallback.mock.calls.map(([, id]) => id);
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids)).toEqual(new Set([1, 2, 3]));
+    expect(followerCallback.mock.calls).toEqual(leaderCallback.mock.calls);
+  });
+
+  it("should stop delivering events after unsubscribing", async () => {
+    const relay = await importInstance();
+    const callback = vi.fn();
+    const unsubscribe = await relay.subscribeToChannelEvents(callback);
+    await vi.advanceTimersByTimeAsync(0);
+
+    unsubscribe();
+    gatewayCallback?.(event);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it("should ignore invalid relayed payloads", async () => {
+    const relay = await importInstance();
+    const callback = vi.fn();
+    await relay.subscribeToChannelEvents(callback);
+
+    await redis.publish("discord:gateway:events", { type: "BOGUS" });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(logWarnMock).toHaveBeenCalledWith(
+      expect.objectContaining({ error: expect.anything() }),
+      "Invalid relayed gateway event",
+    );
+  });
+
+  it("should disconnect the gateway when leadership is lost", async () => {
+    const relay = await importInstance();
+    await relay.subscribeToChannelEvents(vi.fn());
+    await vi.advanceTimersByTimeAsync(0);
+
+    await redis.set("discord:gateway:leader", "another-instance");
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(disconnectMock).toHaveBeenCalledOnce();
+    expect(unsubscribeMock).toHaveBeenCalledOnce();
+  });
+
+  it("should take over the gateway when the leader goes away", async () => {
+    const leader = await importInstance();
+    await leader.subscribeToChannelEvents(vi.fn());
+    const follower = await importInstance();
+    await follower.subscribeToChannelEvents(vi.fn());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(subscribeMock).toHaveBeenCalledOnce();
+
+    await redis.del("discord:gateway:leader");
+    await vi.advanceTimersByTimeAsync(5000);
+
+    // The old leader notices on renewal, the follower acquires the lease
+    expect(disconnectMock).toHaveBeenCalledOnce();
+    expect(subscribeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should hand over the lease when the gateway can't connect", async () => {
+    subscribeMock.mockRejectedValueOnce(
+      new Error("Gateway closed with fatal code 4004"),
+    );
+    const failing = await importInstance();
+    await failing.subscribeToChannelEvents(vi.fn());
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(failing.isLeader()).toBe(false);
+    expect(disconnectMock).toHaveBeenCalledOnce();
+
+    const follower = await importInstance();
+    await follower.subscribeToChannelEvents(vi.fn());
+
+    expect(follower.isLeader()).toBe(true);
+    expect(subscribeMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report the elected leader", async () => {
+    const leader = await importInstance();
+    await leader.subscribeToChannelEvents(vi.fn());
+    const follower = await importInstance();
+    await follower.subscribeToChannelEvents(vi.fn());
+
+    expect(leader.isLeader()).toBe(true);
+    expect(follower.isLeader()).toBe(false);
+    expect(await follower.getLeader()).toBe(
+      await redis.get("discord:gateway:leader"),
+    );
+  });
+
+  it("should report no leader when the lease is free", async () => {
+    const relay = await importInstance();
+
+    expect(relay.isLeader()).toBe(false);
+    expect(await relay.getLeader()).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { instanceId } from "@/lib/instanceId";
+import { Lease } from "@/lib/Lease";
+import { log } from "@/lib/log";
+import { getRedis } from "@/lib/redis";
+
+import { getMessageReactions } from "./api";
+import { disconnect, subscribe } from "./gateway";
+import { type ChannelEvent, ChannelEventSchema } from "./schemas";
+
+const LEADER_KEY = "discord:gateway:leader";
+const EVENTS_CHANNEL = "discord:gateway:events";
+const EVENT_ID_KEY = "discord:gateway:event-id";
+// A crashed leader is replaced within a TTL plus one renewal interval
+const LEASE_TTL_MS = 6000;
+
+/**
+ * Called with each relayed event and its id, which is the same on every
+ * instance and increases with each event published.
+ */
+export type RelayedEventSubscriber = (event: ChannelEvent, id: number) => void;
+
+const RelayedEventSchema = z.object({
+  id: z.number(),
+  event: ChannelEventSchema,
+});
+
+const subscribers = new Set<RelayedEventSubscriber>();
+let started: Promise<void> | null = null;
+
+function dispatch(event: ChannelEvent, id: number): void {
+  for (const callback of subscribers) {
+    try {
+      callback(event, id);
+    } catch (err) {
+      log.error({ err }, "Channel subscriber callback error");
+    }
+  }
+}
+
+// Relayed one at a time, so event ids follow the gateway's order
+let publishing: Promise<void> = Promise.resolve();
+
+function publish(event: ChannelEvent): void {
+  publishing = publishing
+    .then(() => publishChannelEvent(event))
+    .catch((err) => {
+      log.error({ err, event: event.type }, "Failed to relay gateway event");
+    });
+}
+
+// Set while this instance leads, so the listeners of one term don't pile up
+// on the next
+let unsubscribeGateway: (() => void) | null = null;
+
+// Only the lease holder connects to the gateway, relays its events and runs
+// the bot
+const lease = new Lease(LEADER_KEY, instanceId, {
+  ttlMs: LEASE_TTL_MS,
+  // Without a gateway connection, another instance should have a go
+  onAcquired: async () => {
+    log.info({ instanceId }, "Connecting gateway as relay leader");
+    unsubscribeGateway = await subscribe(publish, () => void lease.release());
+  },
+  onLost: () => {
+    log.warn({ instanceId }, "Lost relay leadership, disconnecting gateway");
+    unsubscribeGateway?.();
+    unsubscribeGateway = null;
+    disconnect();
+  },
+});
+
+async function start(): Promise<void> {
+  const subscriber = getRedis().subscribe<unknown>(EVENTS_CHANNEL);
+
+  subscriber.on("message", ({ message }) => {
+    const parsed = RelayedEventSchema.safeParse(message);
+    if (parsed.success) {
+      dispatch(parsed.data.event, parsed.data.id);
+    } else {
+      log.warn({ error: parsed.error }, "Invalid relayed gateway event");
+    }
+  });
+
+  subscriber.on("error", (err) => {
+    log.error({ err }, "Relay subscription error");
+  });
+
+  await lease.start();
+}
+
+/**
+ * Subscribes to our channel's gateway events. Every instance receives them
+ * through Redis, while only the elected instance holds the gateway
+ * connection for the bot token.
+ */
+export async function subscribeToChannelEvents(
+  callback: RelayedEventSubscriber,
+): Promise<() => void> {
+  started ??= start().catch((err) => {
+    started = null;
+    throw err;
+  });
+  await started;
+
+  subscribers.add(callback);
+
+  return () => {
+    subscribers.delete(callback);
+  };
+}
+
+/**
+ * Whether this instance is the elected leader, holding the gateway
+ * connection.
+ */
+export function isLeader(): boolean {
+  return lease.held;
+}
+
+/**
+ * Returns the id of the instance currently holding the gateway lease, if any.
+ */
+export async function getLeader(): Promise<string | null> {
+  return getRedis().get<string>(LEADER_KEY);
+}
+
+/**
+ * Relays a channel event to every instance, for changes the gateway does not
+ * report back to us in full, such as which site user reacted to a message.
+ * Events are numbered in Redis, so their ids agree across instances.
+ *
+ * Reactions are fetched here, once, instead of by every instance.
+ */
+export async function publishChannelEvent(event: ChannelEvent): Promise<void> {
+  const relayed =
+    (event.type === "MESSAGE_REACTION_ADD" ||
+      event.type === "MESSAGE_REACTION_REMOVE") &&
+    event.reactions === undefined
+      ? {
+          ...event,
+          reactions: await getMessageReactions(event.channelId, event.id),
+        }
+      : event;
+
+  const redis = getRedis();
+  const id = await redis.incr(EVENT_ID_KEY);
+  await redis.publish(EVENTS_CHANNEL, { id, event: relayed });
+}
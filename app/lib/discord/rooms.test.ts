@@ -0,0 +1,69 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  _resetRooms,
+  findRoomByChannel,
+  getDefaultRoom,
+  getRoom,
+  getRooms,
+} from "./rooms";
+
+vi.mock(import("server-only"), () => ({}));
+
+const rooms = vi.hoisted(() => ({
+  value: "music:1000000000000000001" as string | undefined,
+}));
+vi.mock(import("@/lib/env"), async (importOriginal) => {
+  const { env } = await importOriginal();
+  return {
+    env: {
+      ...env,
+      get DISCORD_ROOMS() {
+        return rooms.value;
+      },
+    },
+  };
+});
+
+describe("rooms", () => {
+  afterEach(() => {
+    rooms.value = "music:1000000000000000001";
+    _resetRooms();
+  });
+
+  it("should have general in the main channel besides the configured rooms", () => {
+    rooms.value = " music:1000000000000000001, code:1000000000000000002,";
+
+    expect(getRooms()).toEqual([
+      { name: "general", channelId: "test-discord-channel-id" },
+      { name: "music", channelId: "1000000000000000001" },
+      { name: "code", channelId: "1000000000000000002" },
+    ]);
+    expect(getDefaultRoom().name).toBe("general");
+  });
+
+  it("should only have general without configured rooms", () => {
+    rooms.value = undefined;
+
+    expect(getRooms()).toEqual([
+      { name: "general", channelId: "test-discord-channel-id" },
+    ]);
+  });
+
+  it("should reject rooms that aren't name:channel-id", () => {
+    rooms.value = "music";
+
+    expect(() => getRooms()).toThrow("Rooms are given as name:channel-id");
+  });
+
+  it("should find rooms by name and by channel", () => {
+    expect(getRoom()).toEqual(getDefaultRoom());
+    expect(getRoom("music").channelId).toBe("1000000000000000001");
+    expect(() => getRoom("nope")).toThrow('Unknown chat room "nope"');
+
+    expect(findRoomByChannel("1000000000000000001")?.name).toBe("music");
+    expect(findRoomByChannel("thread-1")).toBeUndefined();
+  });
+});
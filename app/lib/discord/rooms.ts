@@ -0,0 +1,59 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { env } from "@/lib/env";
+
+const DEFAULT_ROOM_NAME = "general";
+
+/** A chat room on the site, and the Discord channel it's in. */
+export type Room = { name: string; channelId: string };
+
+const RoomSchema = z
+  .string()
+  .trim()
+  .regex(/^[a-z0-9-]+:\d+$/, "Rooms are given as name:channel-id")
+  .transform((entry): Room => {
+    const [name, channelId] = entry.split(":") as [string, string];
+    return { name, channelId };
+  });
+
+let rooms: Room[] | null = null;
+
+/** Every room, starting with general. */
+export function getRooms(): Room[] {
+  rooms ??= [
+    { name: DEFAULT_ROOM_NAME, channelId: env.DISCORD_CHANNEL_ID },
+    ...(env.DISCORD_ROOMS?.split(",") ?? [])
+      .filter((entry) => entry.trim())
+      .map((entry) => RoomSchema.parse(entry)),
+  ];
+  return rooms;
+}
+
+export function getDefaultRoom(): Room {
+  return getRooms()[0]!;
+}
+
+export function findRoom(name: string): Room | undefined {
+  return getRooms().find((room) => room.name === name);
+}
+
+/** The room by its name, or general without one. */
+export function getRoom(name?: string | null): Room {
+  if (name == null) return getDefaultRoom();
+
+  const room = findRoom(name);
+  if (!room) throw new Error(`Unknown chat room "${name}"`);
+  return room;
+}
+
+/** The room in the channel, if it's one of ours. */
+export function findRoomByChannel(channelId: string): Room | undefined {
+  return getRooms().find((room) => room.channelId === channelId);
+}
+
+/** @internal Exported for tests changing the rooms */
+export function _resetRooms(): void {
+  rooms = null;
+}
@@ -1,5 +1,23 @@
 import { z } from "zod";
 
+const DiscordEmbedMediaSchema = z.object({
+  url: z.string(),
+  proxy_url: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+const DiscordEmbedSchema = z.object({
+  type: z.string().optional(),
+  url: z.string().optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  color: z.number().optional(),
+  provider: z.object({ name: z.string().optional() }).optional(),
+  image: DiscordEmbedMediaSchema.optional(),
+  thumbnail: DiscordEmbedMediaSchema.optional(),
+});
+
 /**
  * Discord message schema - used by both gateway events and API responses.
  * Only includes fields we actually use.
@@ -13,6 +31,273 @@ export const DiscordMessageSchema = z.object({
   timestamp: z.string(),
   edited_timestamp: z.string().nullable().optional(),
   message_reference: z.object({ message_id: z.string().optional() }).optional(),
+  reactions: z
+    .array(
+      z.object({
+        count: z.number(),
+        me: z.boolean(),
+        emoji: z.object({ id: z.string().nullable(), name: z.string() }),
+      }),
+    )
+    .optional(),
+  attachments: z
+    .array(
+      z.object({
+        filename: z.string(),
+        url: z.string(),
+        proxy_url: z.string().optional(),
+        content_type: z.string().optional(),
+        size: z.number(),
+        width: z.number().nullable().optional(),
+        height: z.number().nullable().optional(),
+      }),
+    )
+    .optional(),
+  embeds: z.array(DiscordEmbedSchema).optional(),
+  sticker_items: z
+    .array(
+      z.object({ id: z.string(), name: z.string(), format_type: z.number() }),
+    )
+    .optional(),
 });
 
 export type DiscordMessage = z.infer<typeof DiscordMessageSchema>;
+
+/** An application command used in our guild, only the fields we use. */
+const InteractionOptionSchema = z.object({
+  name: z.string(),
+  value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+export const DiscordInteractionSchema = z.object({
+  id: z.string(),
+  application_id: z.string(),
+  token: z.string(),
+  type: z.number(),
+  guild_id: z.string().optional(),
+  channel_id: z.string().optional(),
+  member: z
+    .object({
+      user: z.object({ id: z.string(), username: z.string() }),
+      roles: z.array(z.string()),
+      // Permissions the member has in the channel, as a bitfield
+      permissions: z.string(),
+    })
+    .optional(),
+  data: z
+    .object({
+      name: z.string(),
+      options: z
+        .array(
+          InteractionOptionSchema.extend({
+            // Subcommands hold their own options
+            options: z.array(InteractionOptionSchema).optional(),
+          }),
+        )
+        .optional(),
+    })
+    .optional(),
+});
+
+export type DiscordInteraction = z.infer<typeof DiscordInteractionSchema>;
+
+export const ReactionSchema = z.object({
+  /** Unicode emoji, or `name:id` for custom emoji, as the Discord API takes it. */
+  emoji: z.string(),
+  count: z.number(),
+  /** Site usernames that reacted, Discord users are only in the count. */
+  users: z.array(z.string()),
+});
+
+export type Reaction = z.infer<typeof ReactionSchema>;
+
+/**
+ * Message events for our channel, as received from the gateway and relayed
+ * between instances.
+ */
+export const ChannelEventSchema = z.discriminatedUnion("type", [
+  // The channel is one of the chat rooms, see `lib/discord/rooms`, or
+  // possibly the private thread of a visitor, see `lib/discord/threads`
+  z.object({
+    type: z.enum(["MESSAGE_CREATE", "MESSAGE_UPDATE"]),
+    channelId: z.string(),
+    message: DiscordMessageSchema,
+  }),
+  z.object({
+    type: z.literal("MESSAGE_DELETE"),
+    channelId: z.string(),
+    id: z.string(),
+  }),
+  // Relayed with the message's reactions, fetched once by the instance
+  // relaying them
+  z.object({
+    type: z.literal("MESSAGE_REACTION_ADD"),
+    channelId: z.string(),
+    id: z.string(),
+    reactions: z.array(ReactionSchema).optional(),
+  }),
+  z.object({
+    type: z.literal("MESSAGE_REACTION_REMOVE"),
+    channelId: z.string(),
+    id: z.string(),
+    reactions: z.array(ReactionSchema).optional(),
+  }),
+  z.object({
+    type: z.literal("TYPING_START"),
+    channelId: z.string(),
+    userId: z.string(),
+  }),
+  // Site visitors typing, relayed between instances by the typing action
+  z.object({
+    type: z.literal("VISITOR_TYPING"),
+    channelId: z.string(),
+    username: z.string(),
+  }),
+  // Someone opened or closed the chat, see `lib/presence`
+  z.object({ type: z.literal("PRESENCE_CHANGED") }),
+  // Slash commands used in our guild, see `lib/discord/commands`
+  z.object({
+    type: z.literal("INTERACTION_CREATE"),
+    interaction: DiscordInteractionSchema,
+  }),
+]);
+
+export type ChannelEvent = z.infer<typeof ChannelEventSchema>;
+
+export const UserSchema = z.object({
+  name: z.string(),
+  color: z.templateLiteral([
+    "hsl(",
+    z.number(),
+    " ",
+    z.number(),
+    "% ",
+    z.number(),
+    "%)",
+  ]),
+});
+
+export type User = z.infer<typeof UserSchema>;
+
+/** Media and links from Discord messages are only rendered over https. */
+export const HttpsUrlSchema = z.templateLiteral(["https://", z.string()]);
+
+export type HttpsUrl = z.infer<typeof HttpsUrlSchema>;
+
+export const ImageSchema = z.object({
+  url: HttpsUrlSchema,
+  width: z.number(),
+  height: z.number(),
+});
+
+export const AttachmentSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("image"), name: z.string(), image: ImageSchema }),
+  z.object({
+    type: z.literal("file"),
+    name: z.string(),
+    url: HttpsUrlSchema,
+    /** In bytes. */
+    size: z.number(),
+  }),
+]);
+
+export type Attachment = z.infer<typeof AttachmentSchema>;
+
+/** Link previews and rich embeds, as plain text, never HTML. */
+export const EmbedSchema = z.object({
+  url: HttpsUrlSchema.nullable(),
+  title: z.string().nullable(),
+  description: z.string().nullable(),
+  provider: z.string().nullable(),
+  /** CSS color of the accent bar. */
+  color: z.string().nullable(),
+  image: ImageSchema.nullable(),
+});
+
+export type Embed = z.infer<typeof EmbedSchema>;
+
+export const StickerSchema = z.object({
+  name: z.string(),
+  /** Null for stickers we cannot show as an image, such as Lottie ones. */
+  url: HttpsUrlSchema.nullable(),
+});
+
+export type Sticker = z.infer<typeof StickerSchema>;
+
+/** OpenGraph preview of a link in the message, fetched by the site. */
+export const LinkPreviewSchema = z.object({
+  url: HttpsUrlSchema,
+  title: z.string(),
+  description: z.string().nullable(),
+  siteName: z.string().nullable(),
+  image: HttpsUrlSchema.nullable(),
+});
+
+export type LinkPreview = z.infer<typeof LinkPreviewSchema>;
+
+/**
+ * Resolved chat message as rendered by the site. Shared between the server,
+ * which builds it from Discord messages, and the client, which decodes it
+ * from SSE payloads.
+ */
+export const MessageSchema = z.object({
+  id: z.string(),
+  user: UserSchema,
+  /** Rendered HTML. */
+  content: z.string(),
+  /** Source text as written, used to prefill the editor. */
+  text: z.string(),
+  edited: z.boolean(),
+  /** Whether the visitor it's sent to posted it themselves. */
+  own: z.boolean(),
+  timestamp: z.string().pipe(z.coerce.date()),
+  reactions: z.array(ReactionSchema),
+  attachments: z.array(AttachmentSchema),
+  embeds: z.array(EmbedSchema),
+  stickers: z.array(StickerSchema),
+  previews: z.array(LinkPreviewSchema),
+  get replies() {
+    return z.array(MessageSchema);
+  },
+});
+
+export type Message = z.infer<typeof MessageSchema>;
+
+/**
+ * Events pushed to the browser over `/api/chat/sse`, letting the client
+ * patch its message tree in place instead of re-fetching the history.
+ */
+export const ChatEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("message.create"),
+    parentId: z.string().nullable(),
+    message: MessageSchema,
+    /** Set for messages in the visitor's private thread. */
+    threadId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("message.update"),
+    message: MessageSchema,
+    threadId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("message.delete"),
+    id: z.string(),
+    threadId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("message.reactions"),
+    id: z.string(),
+    reactions: z.array(ReactionSchema),
+  }),
+  /** Someone started typing, lasts until they post or a few seconds pass. */
+  z.object({ type: z.literal("typing"), name: z.string() }),
+  /** Who is viewing the chat, sent whenever it changes. */
+  z.object({
+    type: z.literal("presence"),
+    count: z.number(),
+    names: z.array(z.string()),
+  }),
+]);
+
+export type ChatEvent = z.infer<typeof ChatEventSchema>;
@@ -0,0 +1,55 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Username } from "@/lib/session";
+import { MockRedis } from "@/mocks/redis";
+
+import { createPrivateThread } from "./api";
+import { getThread, getThreadOwner, openThread } from "./threads";
+
+vi.mock(import("server-only"), () => ({}));
+vi.mock(import("./api"), () => ({
+  createPrivateThread: vi.fn(() => Promise.resolve("1234567890123456789")),
+}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+describe("threads", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    redis.reset();
+  });
+
+  it("should start a visitor's thread once", async () => {
+    const alice = { id: "session-1", username: "alice" as Username };
+
+    expect(await getThread(alice)).toBeNull();
+
+    const thread = await openThread(alice);
+    expect(await openThread(alice)).toEqual(thread);
+
+    expect(thread).toEqual({ id: "1234567890123456789", owner: "session-1" });
+    expect(createPrivateThread).toHaveBeenCalledExactlyOnceWith(
+      "test-discord-channel-id",
+      "alice",
+    );
+    expect(await getThreadOwner("1234567890123456789")).toBe("session-1");
+    expect(await getThreadOwner("other-thread")).toBeNull();
+  });
+
+  it("should keep threads with the session, whatever name it goes by", async () => {
+    const thread = await openThread({
+      id: "session-1",
+      username: "alice" as Username,
+    });
+
+    expect(
+      await getThread({ id: "session-1", username: "alicia" as Username }),
+    ).toEqual(thread);
+    expect(
+      await getThread({ id: "session-2", username: "alice" as Username }),
+    ).toBeNull();
+  });
+});
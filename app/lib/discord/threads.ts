@@ -0,0 +1,57 @@
+import "server-only";
+
+import { getRedis } from "@/lib/redis";
+import type { Session } from "@/lib/session";
+
+import { createPrivateThread } from "./api";
+import { getDefaultRoom } from "./rooms";
+
+// Looked up both by the visitor's session and by the thread. Stored as
+// objects, as bare snowflakes would be parsed into numbers that lose their
+// precision.
+const THREAD_PREFIX = "chat:thread:";
+const THREAD_BY_ID_PREFIX = "chat:thread-id:";
+
+/**
+ * A private thread between a visitor and Simon, owned by the visitor's
+ * session rather than their name, which others may go by too.
+ */
+export type Thread = { id: string; owner: string };
+
+async function saveThread(thread: Thread): Promise<void> {
+  const redis = getRedis();
+  await Promise.all([
+    redis.set(`${THREAD_PREFIX}${thread.owner}`, thread),
+    redis.set(`${THREAD_BY_ID_PREFIX}${thread.id}`, thread),
+  ]);
+}
+
+/** The visitor's private thread, if they've started one. */
+export async function getThread(session: Session): Promise<Thread | null> {
+  return getRedis().get<Thread>(`${THREAD_PREFIX}${session.id}`);
+}
+
+/** The session whose private thread it is, or null if it's no one's. */
+export async function getThreadOwner(threadId: string): Promise<string | null> {
+  const thread = await getRedis().get<Thread>(
+    `${THREAD_BY_ID_PREFIX}${threadId}`,
+  );
+  return thread?.owner ?? null;
+}
+
+/**
+ * The visitor's private thread, started on Discord in the general room's
+ * channel the first time, named after them.
+ */
+export async function openThread(session: Session): Promise<Thread> {
+  const existing = await getThread(session);
+  if (existing) return existing;
+
+  const id = await createPrivateThread(
+    getDefaultRoom().channelId,
+    session.username,
+  );
+  const thread = { id, owner: session.id };
+  await saveThread(thread);
+  return thread;
+}
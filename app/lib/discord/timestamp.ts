@@ -0,0 +1,32 @@
+export const TIMESTAMP_STYLES = ["t", "T", "d", "D", "f", "F", "R"] as const;
+
+export type TimestampStyle = (typeof TIMESTAMP_STYLES)[number];
+
+const FORMATS: Record<
+  Exclude<TimestampStyle, "R">,
+  Intl.DateTimeFormatOptions
+> = {
+  t: { timeStyle: "short" },
+  T: { timeStyle: "medium" },
+  d: { dateStyle: "short" },
+  D: { dateStyle: "long" },
+  f: { dateStyle: "long", timeStyle: "short" },
+  F: { dateStyle: "full", timeStyle: "short" },
+};
+
+export function isTimestampStyle(style: string): style is TimestampStyle {
+  return (TIMESTAMP_STYLES as readonly string[]).includes(style);
+}
+
+/**
+ * Formats a `<t:unix:style>` timestamp like Discord does. Relative timestamps
+ * fall back to the full date, as they only make sense rendered on the client.
+ */
+export function formatTimestamp(
+  date: Date,
+  style: TimestampStyle,
+  timeZone?: string,
+): string {
+  const options = FORMATS[style === "R" ? "f" : style];
+  return new Intl.DateTimeFormat("en", { ...options, timeZone }).format(date);
+}
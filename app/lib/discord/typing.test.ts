@@ -0,0 +1,38 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { MockRedis } from "@/mocks/redis";
+
+import { startTyping } from "./typing";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+describe("startTyping", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    redis.reset();
+    vi.useRealTimers();
+  });
+
+  it("should broadcast the first ping", async () => {
+    expect(await startTyping("alice")).toBe(true);
+  });
+
+  it("should drop pings until the throttle window passes", async () => {
+    await startTyping("alice");
+
+    expect(await startTyping("alice")).toBe(false);
+    expect(await startTyping("bob")).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(4000);
+
+    expect(await startTyping("alice")).toBe(true);
+  });
+});
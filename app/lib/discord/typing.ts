@@ -0,0 +1,19 @@
+import "server-only";
+
+import { getRedis } from "@/lib/redis";
+
+const TYPING_PREFIX = "chat:typing:";
+// Pings within this window are dropped, the client pings less often
+const TYPING_THROTTLE_MS = 4000;
+
+/**
+ * Records that the user is typing. Resolves to true when the ping should be
+ * broadcast, false when one was already sent in the last few seconds.
+ */
+export async function startTyping(username: string): Promise<boolean> {
+  const result = await getRedis().set(`${TYPING_PREFIX}${username}`, 1, {
+    nx: true,
+    px: TYPING_THROTTLE_MS,
+  });
+  return result === "OK";
+}
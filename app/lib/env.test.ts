@@ -41,6 +41,10 @@ describe("env", () => {
         UPSTASH_REDIS_REST_TOKEN: string;
         LAST_FM_API_KEY: string;
         ANTHROPIC_API_KEY: string;
+        DISCORD_ROOMS?: string | undefined;
+        DISCORD_MODERATOR_ROLE_ID?: string | undefined;
+        MODERATION_BLOCKLIST?: string | undefined;
+        MODERATION_CLASSIFIER?: boolean | undefined;
       }>();
     });
 
@@ -53,6 +57,14 @@ describe("env", () => {
       expect(env.SESSION_SECRET).toBe("unsafe_dev_secret");
     });
 
+    it("should parse MODERATION_CLASSIFIER as a boolean", async () => {
+      vi.stubEnv("MODERATION_CLASSIFIER", "true");
+
+      const { env } = await import("./env");
+
+      expect(env.MODERATION_CLASSIFIER).toBe(true);
+    });
+
     it("should allow missing values when SKIP_ENV_VALIDATION is true", async () => {
       vi.stubEnv("SKIP_ENV_VALIDATION", "true");
       for (const key of Object.keys(mockEnv)) {
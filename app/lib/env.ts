@@ -17,6 +17,15 @@ export const env = parseAndValidateEnv({
     .min(1, "UPSTASH_REDIS_REST_TOKEN is required"),
   LAST_FM_API_KEY: z.string().min(1, "LAST_FM_API_KEY is required"),
   ANTHROPIC_API_KEY: z.string().min(1, "ANTHROPIC_API_KEY is required"),
+  // More chat rooms besides general, which is DISCORD_CHANNEL_ID, as
+  // name:channel-id pairs separated by commas
+  DISCORD_ROOMS: z.string().optional(),
+  // Members with this role can use the chat slash commands on Discord
+  DISCORD_MODERATOR_ROLE_ID: z.string().optional(),
+  // Words and /regular expressions/ rejected in chat, one per line or comma
+  MODERATION_BLOCKLIST: z.string().optional(),
+  // Whether chat messages are also checked by Claude before they're posted
+  MODERATION_CLASSIFIER: z.stringbool().optional(),
 });
 
 export type Env = typeof env;
@@ -0,0 +1,90 @@
+// @vitest-environment node
+
+import { describe, expect, it, vi } from "vitest";
+
+import { highlight, type Token } from "./highlight";
+
+vi.mock(import("server-only"), () => ({}));
+
+function highlighted(tokens: Token[] | null): [string, string][] {
+  return (tokens ?? []).flatMap(({ type, text }) =>
+    type ? [[type, text] as [string, string]] : [],
+  );
+}
+
+describe("highlight", () => {
+  it("should return null for unknown languages", () => {
+    expect(highlight("some code", "cobol")).toBeNull();
+  });
+
+  it("should keep all of the code in the tokens", () => {
+    const code = 'const x = 1; // one\nfoo("bar");';
+    const tokens = highlight(code, "ts");
+
+    expect(tokens?.map(({ text }) => text).join("")).toBe(code);
+  });
+
+  it("should highlight TypeScript", () => {
+    expect(
+      highlighted(
+        highlight(
+          "const greeting: string = `hi ${name}`; // greet\nconsole.log(greeting, 42, null);",
+          "typescript",
+        ),
+      ),
+    ).toEqual([
+      ["keyword", "const"],
+      ["string", "`hi ${name}`"],
+      ["comment", "// greet"],
+      ["function", "log"],
+      ["number", "42"],
+      ["literal", "null"],
+    ]);
+  });
+
+  it("should not highlight keywords inside identifiers", () => {
+    expect(highlighted(highlight("constant + newer", "js"))).toEqual([]);
+  });
+
+  it("should match language names case-insensitively", () => {
+    expect(highlighted(highlight("def f(): pass", "Python"))).toEqual([
+      ["keyword", "def"],
+      ["function", "f"],
+      ["keyword", "pass"],
+    ]);
+  });
+
+  it("should highlight JSON properties and values", () => {
+    expect(highlighted(highlight('{"a": "b", "c": 1.5}', "json"))).toEqual([
+      ["property", '"a"'],
+      ["string", '"b"'],
+      ["property", '"c"'],
+      ["number", "1.5"],
+    ]);
+  });
+
+  it("should highlight shell variables and flags", () => {
+    expect(highlighted(highlight('ls -la "$HOME" # list', "sh"))).toEqual([
+      ["attribute", "-la"],
+      ["string", '"$HOME"'],
+      ["comment", "# list"],
+    ]);
+  });
+
+  it("should highlight diff lines", () => {
+    expect(
+      highlighted(highlight("@@ -1 +1 @@\n-old\n+new\n same", "diff")),
+    ).toEqual([
+      ["meta", "@@ -1 +1 @@"],
+      ["deleted", "-old"],
+      ["inserted", "+new"],
+    ]);
+  });
+
+  it("should treat unterminated strings and comments as running to the end", () => {
+    expect(highlighted(highlight('x = "open\ny /* open', "js"))).toEqual([
+      ["string", '"open'],
+      ["comment", "/* open"],
+    ]);
+  });
+});
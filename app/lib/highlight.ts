@@ -0,0 +1,243 @@
+import "server-only";
+
+export type TokenType =
+  | "comment"
+  | "string"
+  | "number"
+  | "keyword"
+  | "literal"
+  | "type"
+  | "function"
+  | "property"
+  | "variable"
+  | "tag"
+  | "attribute"
+  | "meta"
+  | "inserted"
+  | "deleted";
+
+export interface Token {
+  /** Null for text that isn't highlighted. */
+  type: TokenType | null;
+  text: string;
+}
+
+// Tried in order at each position, the first match becomes the next token.
+// Patterns are sticky so they only match where the previous token ended.
+type Rule = readonly [type: TokenType | null, pattern: RegExp];
+type Grammar = readonly Rule[];
+
+function words(list: string, flags = ""): RegExp {
+  return new RegExp(`(?:${list.split(" ").join("|")})(?![\\w$])`, `y${flags}`);
+}
+
+const C_COMMENT: Rule = ["comment", /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y];
+const HASH_COMMENT: Rule = ["comment", /#[^\n]*/y];
+const QUOTED_STRING: Rule = [
+  "string",
+  /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?/y,
+];
+const NUMBER: Rule = [
+  "number",
+  /(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)[a-z]*/iy,
+];
+const FUNCTION: Rule = ["function", /[A-Za-z_$][\w$]*(?=\s*\()/y];
+const TYPE: Rule = ["type", /[A-Z][\w$]*/y];
+// Keeps keywords from matching inside longer identifiers
+const IDENTIFIER: Rule = [null, /[A-Za-z_$][\w$]*/y];
+
+function cLike(keywords: string, literals: string, ...rules: Rule[]): Grammar {
+  return [
+    C_COMMENT,
+    ...rules,
+    QUOTED_STRING,
+    NUMBER,
+    ["keyword", words(keywords)],
+    ["literal", words(literals)],
+    FUNCTION,
+    TYPE,
+    IDENTIFIER,
+  ];
+}
+
+const javascript = cLike(
+  "abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in infer instanceof interface is keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield",
+  "true false null undefined NaN Infinity",
+  ["string", /`(?:[^`\\]|\\[\s\S])*`?/y],
+);
+
+const rust = cLike(
+  "as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while",
+  "true false None Some Ok Err",
+  ["string", /"(?:[^"\\]|\\[\s\S])*"?|'(?:\\.|[^'\\\n])'/y],
+  ["function", /[a-z_]\w*!/y],
+);
+
+const go = cLike(
+  "break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var",
+  "true false nil iota",
+  ["string", /`[^`]*`?/y],
+);
+
+const java = cLike(
+  "abstract assert break case catch class const continue default do else enum extends final finally for if implements import instanceof interface native new package private protected public record return static super switch synchronized this throw throws try var void volatile while",
+  "true false null",
+  ["meta", /@\w+/y],
+);
+
+const c = cLike(
+  "auto break case catch char class const constexpr continue default delete do double else enum explicit extern float for friend goto if inline int long namespace new operator private protected public register return short signed sizeof static struct switch template this throw try typedef typename union unsigned using virtual void volatile while",
+  "true false NULL nullptr",
+  ["meta", /#\s*\w+/y],
+);
+
+const python: Grammar = [
+  HASH_COMMENT,
+  [
+    "string",
+    /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?)/iy,
+  ],
+  NUMBER,
+  ["meta", /@[\w.]+/y],
+  [
+    "keyword",
+    words(
+      "and as assert async await break case class continue def del elif else except finally for from global if import in is lambda match nonlocal not or pass raise return try while with yield",
+    ),
+  ],
+  ["literal", words("True False None")],
+  FUNCTION,
+  TYPE,
+  IDENTIFIER,
+];
+
+const bash: Grammar = [
+  HASH_COMMENT,
+  ["string", /"(?:[^"\\]|\\[\s\S])*"?|'[^']*'?/y],
+  ["variable", /\$(?:\{[^}\n]*\}?|\w+|[@#?$!*-])/y],
+  [
+    "keyword",
+    words(
+      "case do done elif else esac export fi for function if in local readonly return then until while",
+    ),
+  ],
+  ["attribute", /--?[\w-]+/y],
+  [null, /[\w.-]+/y],
+];
+
+const json: Grammar = [
+  ["property", /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y],
+  ["string", /"(?:[^"\\\n]|\\.)*"?/y],
+  ["number", /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy],
+  ["literal", words("true false null")],
+];
+
+const css: Grammar = [
+  ["comment", /\/\*[\s\S]*?(?:\*\/|$)/y],
+  QUOTED_STRING,
+  ["keyword", /@[\w-]+/y],
+  ["property", /-{0,2}[a-z][\w-]*(?=\s*:[^{;}]*(?:[;}]|$))/iy],
+  ["number", /#[\da-f]{3,8}(?![\w-])|-?(?:\d*\.)?\d+[a-z%]*/iy],
+  ["function", /[\w-]+(?=\()/y],
+  [null, /[\w-]+/y],
+];
+
+const html: Grammar = [
+  ["comment", /<!--[\s\S]*?(?:-->|$)/y],
+  ["tag", /<\/?[\w:-]+|\/?>/y],
+  ["attribute", /[\w:-]+(?==)/y],
+  ["string", /(?<==)(?:"[^"]*"?|'[^']*'?)/y],
+];
+
+const sql: Grammar = [
+  ["comment", /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+  ["string", /'(?:[^']|'')*'?/y],
+  NUMBER,
+  [
+    "keyword",
+    words(
+      "add all alter and as asc by case create default delete desc distinct drop else end exists from group having in index inner insert into is join key left like limit not offset on or order outer primary references returning right select set table then union update values when where with",
+      "i",
+    ),
+  ],
+  ["literal", words("true false null", "i")],
+  FUNCTION,
+  IDENTIFIER,
+];
+
+const yaml: Grammar = [
+  HASH_COMMENT,
+  ["meta", /^(?:---|\.\.\.)$/my],
+  ["property", /[\w.-]+(?=\s*:(?:\s|$))/y],
+  QUOTED_STRING,
+  ["literal", words("true false null yes no on off")],
+  ["number", /-?\d+(?:\.\d+)?(?![\w.-])/y],
+  [null, /[\w.-]+/y],
+];
+
+const diff: Grammar = [
+  ["meta", /^(?:\+\+\+|---|@@)[^\n]*/my],
+  ["inserted", /^[+>][^\n]*/my],
+  ["deleted", /^[-<][^\n]*/my],
+  [null, /[^\n]+/y],
+];
+
+const GRAMMARS = new Map<string, Grammar>(
+  (
+    [
+      [javascript, "js jsx mjs cjs javascript ts tsx mts cts typescript"],
+      [rust, "rs rust"],
+      [go, "go golang"],
+      [java, "java kt kotlin cs csharp"],
+      [c, "c h cpp cc hpp c++"],
+      [python, "py python"],
+      [bash, "sh bash zsh shell console"],
+      [json, "json jsonc json5"],
+      [css, "css scss less"],
+      [html, "html xml svg vue svelte"],
+      [sql, "sql postgres mysql sqlite"],
+      [yaml, "yml yaml"],
+      [diff, "diff patch"],
+    ] as const
+  ).flatMap(([grammar, languages]) =>
+    languages.split(" ").map((language) => [language, grammar] as const),
+  ),
+);
+
+/**
+ * Splits code into highlighted tokens, or returns null for languages without
+ * a grammar. Highlighting is approximate: a handful of regexes per language,
+ * good enough for chat snippets without shipping a parser to the client.
+ */
+export function highlight(code: string, language: string): Token[] | null {
+  const grammar = GRAMMARS.get(language.toLowerCase());
+  if (!grammar) return null;
+
+  const tokens: Token[] = [];
+  let plain = "";
+  let index = 0;
+
+  next: while (index < code.length) {
+    for (const [type, pattern] of grammar) {
+      pattern.lastIndex = index;
+      const text = pattern.exec(code)?.[0];
+      if (!text) continue;
+
+      if (type === null) {
+        plain += text;
+      } else {
+        if (plain) tokens.push({ type: null, text: plain });
+        plain = "";
+        tokens.push({ type, text });
+      }
+      index += text.length;
+      continue next;
+    }
+
+    plain += code[index];
+    index++;
+  }
+
+  if (plain) tokens.push({ type: null, text: plain });
+  return tokens;
+}
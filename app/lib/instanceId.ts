@@ -0,0 +1,5 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+
+/** Identifies this server process among the instances sharing Redis. */
+export const instanceId = `${hostname()}-${randomUUID().slice(0, 8)}`;
@@ -0,0 +1,45 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { MockRedis } from "@/mocks/redis";
+
+import { getLastSeen, setLastSeen } from "./lastSeen";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+describe("lastSeen", () => {
+  afterEach(() => {
+    redis.reset();
+  });
+
+  it("should remember the last seen message per session and room", async () => {
+    expect(await getLastSeen("session-1", "general")).toBeNull();
+
+    await setLastSeen("session-1", "general", "1234567890123456789");
+
+    expect(await getLastSeen("session-1", "general")).toBe(
+      "1234567890123456789",
+    );
+    expect(await getLastSeen("session-1", "music")).toBeNull();
+    expect(await getLastSeen("session-2", "general")).toBeNull();
+  });
+
+  it("should never go back to an earlier message", async () => {
+    await setLastSeen("session-1", "general", "1234567890123456789");
+    await setLastSeen("session-1", "general", "999999999999999999");
+
+    expect(await getLastSeen("session-1", "general")).toBe(
+      "1234567890123456789",
+    );
+
+    await setLastSeen("session-1", "general", "1234567890123456790");
+
+    expect(await getLastSeen("session-1", "general")).toBe(
+      "1234567890123456790",
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import "server-only";
+
+import { getRedis } from "@/lib/redis";
+
+// Per session and room. Stored as objects, as bare snowflakes would be
+// parsed into numbers that lose their precision.
+const LAST_SEEN_PREFIX = "chat:last-seen:";
+const LAST_SEEN_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+function lastSeenKey(sessionId: string, room: string): string {
+  return `${LAST_SEEN_PREFIX}${sessionId}:${room}`;
+}
+
+/** The latest message the visitor has seen in the room, if any. */
+export async function getLastSeen(
+  sessionId: string,
+  room: string,
+): Promise<string | null> {
+  const lastSeen = await getRedis().get<{ id: string }>(
+    lastSeenKey(sessionId, room),
+  );
+  return lastSeen?.id ?? null;
+}
+
+/**
+ * Records that the visitor has seen the room up to `messageId`. Never goes
+ * back, as another of their tabs may have seen further.
+ */
+export async function setLastSeen(
+  sessionId: string,
+  room: string,
+  messageId: string,
+): Promise<void> {
+  const lastSeen = await getLastSeen(sessionId, room);
+  if (lastSeen !== null && BigInt(lastSeen) >= BigInt(messageId)) return;
+
+  await getRedis().set(
+    lastSeenKey(sessionId, room),
+    { id: messageId },
+    { ex: LAST_SEEN_TTL_SECONDS },
+  );
+}
@@ -0,0 +1,305 @@
+// @vitest-environment node
+
+import { lookup, type LookupAddress } from "node:dns";
+
+import { http, HttpResponse } from "msw";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { server } from "@/mocks/node";
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  findLinks,
+  getLinkPreview,
+  isPublicAddress,
+  parsePreview,
+  publicLookup,
+} from "./linkPreview";
+
+vi.mock(import("server-only"), () => ({}));
+vi.mock(import("node:dns"), async (importOriginal) => ({
+  ...(await importOriginal()),
+  // Only the callback form is used, not the promisified one
+  lookup: vi.fn() as unknown as typeof lookup,
+}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+function html(head: string) {
+  return HttpResponse.html(`<!doctype html><html><head>${head}</head></html>`);
+}
+
+describe("isPublicAddress", () => {
+  it.each(["93.184.216.34", "1.1.1.1", "2606:4700:4700::1111"])(
+    "should allow %s",
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "::1",
+    "::",
+    "::ffff:127.0.0.1",
+    "fd00::1",
+    "fe80::1",
+    "not an address",
+  ])("should block %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe("publicLookup", () => {
+  function resolveTo(...addresses: LookupAddress[]) {
+    vi.mocked(lookup).mockImplementation(((
+      _hostname: string,
+      _options: unknown,
+      callback: (err: Error | null, addresses: LookupAddress[]) => void,
+    ) => callback(null, addresses)) as unknown as typeof lookup);
+  }
+
+  function run(options: { all?: boolean } = {}) {
+    return new Promise<{ err: Error | null; result: unknown }>((resolve) => {
+      publicLookup("example.com", options, (err, ...result) =>
+        resolve({ err, result }),
+      );
+    });
+  }
+
+  it("should resolve hosts with only public addresses", async () => {
+    resolveTo({ address: "93.184.216.34", family: 4 });
+
+    expect(await run()).toEqual({ err: null, result: ["93.184.216.34", 4] });
+  });
+
+  it("should resolve all addresses when asked to", async () => {
+    const addresses = [
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:2800:220:1::", family: 6 },
+    ];
+    resolveTo(...addresses);
+
+    expect(await run({ all: true })).toEqual({
+      err: null,
+      result: [addresses],
+    });
+  });
+
+  it("should refuse hosts with any private address", async () => {
+    resolveTo(
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.1", family: 4 },
+    );
+
+    const { err } = await run();
+
+    expect(err).toMatchObject({ code: "EBLOCKED" });
+  });
+});
+
+describe("parsePreview", () => {
+  const url = new URL("https://example.com/article");
+
+  it("should read OpenGraph tags", () => {
+    expect(
+      parsePreview(
+        `<meta property="og:title" content="An article">
+         <meta property="og:description" content="What it&#39;s about">
+         <meta property="og:site_name" content="Example">
+         <meta property="og:image" content="/cover.png">`,
+        url,
+      ),
+    ).toEqual({
+      url: "https://example.com/article",
+      title: "An article",
+      description: "What it's about",
+      siteName: "Example",
+      image: "https://example.com/cover.png",
+    });
+  });
+
+  it("should fall back to Twitter card tags and the page title", () => {
+    expect(
+      parsePreview(
+        `<title>Page title</title>
+         <meta name="twitter:description" content='Card description'>
+         <meta name="twitter:image" content="https://cdn.example.com/card.png">`,
+        url,
+      ),
+    ).toEqual({
+      url: "https://example.com/article",
+      title: "Page title",
+      description: "Card description",
+      siteName: "example.com",
+      image: "https://cdn.example.com/card.png",
+    });
+  });
+
+  it("should accept attributes in any order and case", () => {
+    expect(
+      parsePreview(`<META CONTENT="Shouted" PROPERTY="OG:TITLE">`, url),
+    ).toMatchObject({ title: "Shouted" });
+  });
+
+  it("should drop images that aren't served over https", () => {
+    expect(
+      parsePreview(
+        `<meta property="og:title" content="Title">
+         <meta property="og:image" content="http://example.com/cover.png">`,
+        url,
+      ),
+    ).toMatchObject({ image: null });
+  });
+
+  it("should collapse whitespace and truncate long text", () => {
+    const preview = parsePreview(
+      `<meta property="og:title" content="  A
+        title ">
+       <meta property="og:description" content="${"a".repeat(500)}">`,
+      url,
+    );
+
+    expect(preview?.title).toBe("A title");
+    expect(preview?.description).toHaveLength(300);
+    expect(preview?.description?.endsWith("…")).toBe(true);
+  });
+
+  it("should return null for pages without a title", () => {
+    expect(
+      parsePreview(`<meta property="og:description" content="x">`, url),
+    ).toBeNull();
+  });
+});
+
+describe("findLinks", () => {
+  it("should find distinct https links in order", () => {
+    expect(
+      findLinks(
+        "see https://example.com/b, https://example.com/a and https://example.com/b!",
+      ),
+    ).toEqual(["https://example.com/b", "https://example.com/a"]);
+  });
+
+  it("should skip links wrapped in angle brackets and plain http", () => {
+    expect(
+      findLinks("<https://example.com/quiet> http://example.com/insecure"),
+    ).toEqual([]);
+  });
+
+  it("should keep trailing punctuation out of links", () => {
+    expect(findLinks("(https://example.com/page).")).toEqual([
+      "https://example.com/page",
+    ]);
+  });
+});
+
+describe("getLinkPreview", () => {
+  afterEach(() => {
+    redis.reset();
+  });
+
+  it("should fetch and cache a preview", async () => {
+    const handler = vi.fn(() =>
+      html(`<meta property="og:title" content="Cached">`),
+    );
+    server.use(http.get("https://example.com/cached", handler));
+
+    const first = await getLinkPreview("https://example.com/cached");
+    const second = await getLinkPreview("https://example.com/cached");
+
+    expect(first).toMatchObject({ title: "Cached" });
+    expect(second).toEqual(first);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should follow redirects and preview the final page", async () => {
+    server.use(
+      http.get("https://example.com/short", () =>
+        HttpResponse.redirect("https://example.com/long", 301),
+      ),
+      http.get("https://example.com/long", () =>
+        html(`<meta property="og:title" content="Long">`),
+      ),
+    );
+
+    expect(await getLinkPreview("https://example.com/short")).toMatchObject({
+      url: "https://example.com/long",
+      title: "Long",
+    });
+  });
+
+  it.each([
+    "https://127.0.0.1/admin",
+    "https://[::1]/admin",
+    "http://example.com/insecure",
+    "https://example.com:8443/port",
+    "https://localhost/",
+  ])("should not follow redirects to %s", async (location) => {
+    const handler = vi.fn(() => html(`<title>Internal</title>`));
+    server.use(
+      http.get("https://example.com/redirect", () =>
+        HttpResponse.redirect(location, 302),
+      ),
+      http.all(/./, handler),
+    );
+
+    expect(await getLinkPreview("https://example.com/redirect")).toBeNull();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should give up after too many redirects", async () => {
+    server.use(
+      http.get("https://example.com/loop", () =>
+        HttpResponse.redirect("https://example.com/loop", 302),
+      ),
+    );
+
+    expect(await getLinkPreview("https://example.com/loop")).toBeNull();
+  });
+
+  it("should ignore responses that aren't HTML", async () => {
+    server.use(
+      http.get("https://example.com/data.json", () =>
+        HttpResponse.json({ title: "JSON" }),
+      ),
+    );
+
+    expect(await getLinkPreview("https://example.com/data.json")).toBeNull();
+  });
+
+  it("should only read the start of large pages", async () => {
+    server.use(
+      http.get(
+        "https://example.com/large",
+        () =>
+          new HttpResponse(
+            `<title>Large</title>${"x".repeat(512 * 1024)}<meta property="og:description" content="Too far">`,
+            { headers: { "content-type": "text/html" } },
+          ),
+      ),
+    );
+
+    expect(await getLinkPreview("https://example.com/large")).toMatchObject({
+      title: "Large",
+      description: null,
+    });
+  });
+
+  it("should log and cache failures", async () => {
+    const handler = vi.fn(() => HttpResponse.error());
+    server.use(http.get("https://example.com/down", handler));
+
+    expect(await getLinkPreview("https://example.com/down")).toBeNull();
+    expect(await getLinkPreview("https://example.com/down")).toBeNull();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,289 @@
+import "server-only";
+
+import { lookup as dnsLookup } from "node:dns";
+import type { IncomingMessage } from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+import type { HttpsUrl, LinkPreview } from "@/lib/discord/schemas";
+import { log } from "@/lib/log";
+import { getRedis } from "@/lib/redis";
+
+const CACHE_PREFIX = "chat:preview:";
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+// Failures are retried sooner, in case the site was only briefly down
+const FAILURE_CACHE_TTL_SECONDS = 60 * 60;
+const TIMEOUT_MS = 5000;
+// OpenGraph tags live in the head, which comes well before this
+const MAX_BYTES = 256 * 1024;
+const MAX_REDIRECTS = 3;
+const MAX_TEXT_LENGTH = 300;
+const USER_AGENT = "Mozilla/5.0 (compatible; simon.dev link preview)";
+
+// Loopback, private, link-local, shared, documentation, multicast and other
+// special-purpose ranges, which a link preview must never reach
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped addresses are checked against the IPv4 ranges by `BlockList`
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 translated addresses could point anywhere
+  ["64:ff9b::", 96],
+  ["64:ff9b:1::", 48],
+  ["100::", 64],
+  ["2001::", 23],
+  ["2001:db8::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Resolves like `dns.lookup`, but fails for hosts with any non-public
+ * address. Checking at connect time, rather than before the request, keeps a
+ * host from resolving to a public address first and a private one after.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      const error = Object.assign(
+        new Error(`Refusing to connect to ${hostname} (${blocked?.address})`),
+        { code: "EBLOCKED" },
+      );
+      return callback(error, "", 0);
+    }
+
+    if (options.all) return callback(null, addresses);
+    const [{ address, family }] = addresses as [(typeof addresses)[number]];
+    callback(null, address, family);
+  });
+};
+
+/** Only plain https URLs on the default port are fetched. */
+function isFetchable(url: URL): boolean {
+  if (url.protocol !== "https:" || url.port !== "" || url.username) {
+    return false;
+  }
+  // IP literals are connected to without a lookup, so check them here
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  return isIP(host) === 0 ? host.includes(".") : isPublicAddress(host);
+}
+
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    https
+      .request(
+        url,
+        {
+          lookup: publicLookup,
+          signal,
+          headers: {
+            "user-agent": USER_AGENT,
+            accept: "text/html,application/xhtml+xml",
+          },
+        },
+        resolve,
+      )
+      .on("error", reject)
+      .end();
+  });
+}
+
+async function readHead(response: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    chunks.push(chunk);
+    size += chunk.length;
+    if (size >= MAX_BYTES) break;
+  }
+  // Stops the download when we've read enough
+  response.destroy();
+
+  return Buffer.concat(chunks).subarray(0, MAX_BYTES).toString("utf8");
+}
+
+async function fetchHtml(url: URL): Promise<{ url: URL; html: string } | null> {
+  const signal = AbortSignal.timeout(TIMEOUT_MS);
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    if (!isFetchable(url)) return null;
+
+    const response = await get(url, signal);
+    const { statusCode = 0, headers } = response;
+
+    if (statusCode >= 300 && statusCode < 400 && headers.location) {
+      response.destroy();
+      url = new URL(headers.location, url);
+      continue;
+    }
+
+    if (statusCode !== 200 || !headers["content-type"]?.includes("html")) {
+      response.destroy();
+      return null;
+    }
+
+    return { url, html: await readHead(response) };
+  }
+
+  return null;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi,
+    (entity, decimal?: string, hex?: string, name?: string) => {
+      if (name) return Object.hasOwn(ENTITIES, name) ? ENTITIES[name]! : entity;
+      const codePoint = decimal ? Number(decimal) : parseInt(hex!, 16);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    },
+  );
+}
+
+function cleanText(text: string | undefined): string | null {
+  const clean = text && decodeEntities(text).replace(/\s+/g, " ").trim();
+  if (!clean) return null;
+  return clean.length > MAX_TEXT_LENGTH
+    ? `${clean.slice(0, MAX_TEXT_LENGTH - 1)}…`
+    : clean;
+}
+
+const META_TAG_PATTERN = /<meta\s[^>]*>/gi;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+const TITLE_PATTERN = /<title[^>]*>([^<]*)<\/title>/i;
+
+/** Reads the OpenGraph and Twitter card tags, falling back to `<title>`. */
+export function parsePreview(html: string, url: URL): LinkPreview | null {
+  const meta = new Map<string, string>();
+
+  for (const [tag] of html.matchAll(META_TAG_PATTERN)) {
+    const attributes = new Map(
+      Array.from(tag.matchAll(ATTRIBUTE_PATTERN), ([, name, ...values]) => [
+        name!.toLowerCase(),
+        values.find((value) => value !== undefined) ?? "",
+      ]),
+    );
+    const key = (
+      attributes.get("property") ?? attributes.get("name")
+    )?.toLowerCase();
+    const content = attributes.get("content");
+    // The first of repeated tags wins, like it does for crawlers
+    if (key && content !== undefined && !meta.has(key)) meta.set(key, content);
+  }
+
+  const title = cleanText(
+    meta.get("og:title") ??
+      meta.get("twitter:title") ??
+      html.match(TITLE_PATTERN)?.[1],
+  );
+  if (!title) return null;
+
+  const imageUrl =
+    meta.get("og:image:secure_url") ??
+    meta.get("og:image") ??
+    meta.get("twitter:image");
+  const image = imageUrl ? URL.parse(decodeEntities(imageUrl), url) : null;
+
+  return {
+    url: url.href as HttpsUrl,
+    title,
+    description: cleanText(
+      meta.get("og:description") ??
+        meta.get("twitter:description") ??
+        meta.get("description"),
+    ),
+    siteName: cleanText(meta.get("og:site_name")) ?? url.hostname,
+    image: image?.protocol === "https:" ? (image.href as HttpsUrl) : null,
+  };
+}
+
+async function fetchPreview(url: URL): Promise<LinkPreview | null> {
+  const page = await fetchHtml(url);
+  return page && parsePreview(page.html, page.url);
+}
+
+type CachedPreview = { preview: LinkPreview | null };
+
+/**
+ * Fetches the preview of a link, or null when there's nothing to show.
+ * Previews and failures alike are cached, so each link is fetched at most
+ * once per TTL across all instances.
+ */
+export async function getLinkPreview(
+  url: HttpsUrl,
+): Promise<LinkPreview | null> {
+  const redis = getRedis();
+  const key = `${CACHE_PREFIX}${url}`;
+
+  const cached = await redis.get<CachedPreview>(key);
+  if (cached) return cached.preview;
+
+  let preview: LinkPreview | null = null;
+  try {
+    preview = await fetchPreview(new URL(url));
+  } catch (err) {
+    log.warn({ err, url }, "Failed to fetch link preview");
+  }
+
+  await redis.set(key, { preview } satisfies CachedPreview, {
+    ex: preview ? CACHE_TTL_SECONDS : FAILURE_CACHE_TTL_SECONDS,
+  });
+  return preview;
+}
+
+// Discord doesn't embed links wrapped in <>, so neither do we
+const LINK_PATTERN = /(?<!<)https:\/\/[^\s<>"'`]+/g;
+
+/** The distinct https links in a message, in order. */
+export function findLinks(text: string): HttpsUrl[] {
+  const links = new Set<HttpsUrl>();
+
+  for (const [match] of text.matchAll(LINK_PATTERN)) {
+    // Sentence punctuation right after a link isn't part of it
+    const url = URL.parse(match.replace(/[.,:;!?)\]]+$/, ""));
+    if (url) links.add(url.href as HttpsUrl);
+  }
+
+  return [...links];
+}
@@ -0,0 +1,234 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { classifyMessage } from "@/lib/anthropic";
+import { log } from "@/lib/log";
+import type { Username } from "@/lib/session";
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  checkBlocklist,
+  checkClassifier,
+  checkLinks,
+  checkRepeated,
+  moderateMessage,
+  type ModerationCheck,
+  parseBlocklist,
+  rememberMessage,
+} from "./moderation";
+
+vi.mock(import("server-only"), () => ({}));
+vi.mock(import("@/lib/anthropic"), () => ({ classifyMessage: vi.fn() }));
+vi.mock(import("@/lib/env"), async (importOriginal) => {
+  const { env } = await importOriginal();
+  return { env: { ...env, MODERATION_BLOCKLIST: "spam, /fr[e3]{2}bie/i" } };
+});
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+const username = "alice" as Username;
+
+function input(text: string) {
+  return { text, username, ip: "203.0.113.1" };
+}
+
+describe("parseBlocklist", () => {
+  it("should match words whole and regardless of case", () => {
+    const [pattern] = parseBlocklist("spam");
+
+    expect(pattern?.test("SPAM here")).toBe(true);
+    expect(pattern?.test("spammer")).toBe(false);
+    expect(pattern?.test("ñspam")).toBe(false);
+  });
+
+  it("should treat special characters in words literally", () => {
+    const [pattern] = parseBlocklist("a.b");
+
+    expect(pattern?.test("a.b")).toBe(true);
+    expect(pattern?.test("axb")).toBe(false);
+  });
+
+  it("should parse regular expressions with commas and flags", () => {
+    expect(parseBlocklist("foo, /ba{1,3}r/i\nqux").map(String)).toEqual([
+      expect.stringContaining("foo"),
+      "/ba{1,3}r/i",
+      expect.stringContaining("qux"),
+    ]);
+  });
+
+  it("should drop global and sticky flags", () => {
+    const [pattern] = parseBlocklist("/spam/gy");
+
+    expect(pattern?.flags).toBe("");
+    expect(pattern?.test("spam")).toBe(true);
+    expect(pattern?.test("spam")).toBe(true);
+  });
+
+  it("should skip invalid expressions", () => {
+    vi.spyOn(log, "warn").mockImplementation(() => {});
+
+    expect(parseBlocklist("/(/, ok").map(String)).toEqual([
+      expect.stringContaining("ok"),
+    ]);
+  });
+});
+
+describe("checkBlocklist", () => {
+  it.each(["buy spam now", "FR33BIE", "sp\u200bam", "ｓｐａｍ"])(
+    "should reject %s",
+    async (text) => {
+      expect(await checkBlocklist(input(text))).toMatchObject({
+        reason: "blocklist",
+        error: "Your message contains a blocked word or phrase",
+      });
+    },
+  );
+
+  it("should allow messages without blocked terms", async () => {
+    expect(await checkBlocklist(input("spammer freedom"))).toBeNull();
+  });
+});
+
+describe("checkLinks", () => {
+  it("should allow a few links", async () => {
+    expect(
+      await checkLinks(input("https://a.example http://b.example https://c")),
+    ).toBeNull();
+  });
+
+  it("should reject too many links", async () => {
+    expect(await checkLinks(input("https://a ".repeat(4)))).toMatchObject({
+      reason: "links",
+      error: "Messages can contain at most 3 links",
+    });
+  });
+});
+
+describe("checkRepeated", () => {
+  afterEach(() => {
+    redis.reset();
+  });
+
+  it("should reject messages sent recently, ignoring case and spacing", async () => {
+    await rememberMessage(input("Hello  there"));
+
+    expect(await checkRepeated(input("hello there"))).toMatchObject({
+      reason: "repeated",
+    });
+  });
+
+  it("should allow new messages and repeats by other users", async () => {
+    await rememberMessage(input("Hello"));
+
+    expect(await checkRepeated(input("Goodbye"))).toBeNull();
+    expect(
+      await checkRepeated({ text: "Hello", username: "bob" as Username }),
+    ).toBeNull();
+  });
+
+  it("should allow repeats after a while", async () => {
+    vi.useFakeTimers();
+    await rememberMessage(input("Hello"));
+
+    vi.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(await checkRepeated(input("Hello"))).toBeNull();
+    vi.useRealTimers();
+  });
+});
+
+describe("checkClassifier", () => {
+  it("should reject messages the classifier flags", async () => {
+    vi.mocked(classifyMessage).mockResolvedValueOnce({
+      flagged: true,
+      category: "harassment",
+    });
+
+    expect(await checkClassifier(input("rude"))).toEqual({
+      reason: "classifier",
+      error: "Your message was flagged by moderation",
+      detail: "harassment",
+    });
+  });
+
+  it("should allow messages the classifier doesn't flag", async () => {
+    vi.mocked(classifyMessage).mockResolvedValueOnce({
+      flagged: false,
+      category: null,
+    });
+
+    expect(await checkClassifier(input("hi"))).toBeNull();
+  });
+
+  it("should allow messages when the classifier fails", async () => {
+    const warn = vi.spyOn(log, "warn").mockImplementation(() => {});
+    vi.mocked(classifyMessage).mockRejectedValueOnce(new Error("Overloaded"));
+
+    expect(await checkClassifier(input("hi"))).toBeNull();
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe("moderateMessage", () => {
+  let info: ReturnType<typeof vi.spyOn>;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    info = vi.spyOn(log, "info").mockImplementation(() => {});
+    warn = vi.spyOn(log, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    redis.reset();
+  });
+
+  it("should allow messages that pass every check without logging them", async () => {
+    const check = vi.fn<ModerationCheck>(async () => null);
+
+    expect(await moderateMessage(input("hi"), [check, check])).toEqual({
+      allowed: true,
+    });
+    expect(check).toHaveBeenCalledTimes(2);
+    expect(info).not.toHaveBeenCalled();
+  });
+
+  it("should stop at and log the first rejection", async () => {
+    const later = vi.fn<ModerationCheck>(async () => null);
+
+    const decision = await moderateMessage(input("hi"), [
+      async () => ({ reason: "blocklist", error: "Blocked", detail: "/hi/" }),
+      later,
+    ]);
+
+    expect(decision).toEqual({
+      allowed: false,
+      reason: "blocklist",
+      error: "Blocked",
+      detail: "/hi/",
+    });
+    expect(later).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        username,
+        text: "hi",
+        reason: "blocklist",
+        detail: "/hi/",
+        action: "moderateMessage",
+      }),
+      "Message rejected",
+    );
+  });
+
+  it("should run the default checks without the classifier", async () => {
+    await rememberMessage(input("again"));
+
+    expect(await moderateMessage(input("again"))).toMatchObject({
+      allowed: false,
+      reason: "repeated",
+    });
+    expect(classifyMessage).not.toHaveBeenCalledWith("again");
+  });
+});
@@ -0,0 +1,192 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+
+import { classifyMessage } from "@/lib/anthropic";
+import { env } from "@/lib/env";
+import { log } from "@/lib/log";
+import { getRedis } from "@/lib/redis";
+import type { Username } from "@/lib/session";
+
+const MAX_LINKS = 3;
+const RECENT_PREFIX = "chat:moderation:recent:";
+const REPEAT_WINDOW_SECONDS = 10 * 60;
+
+export type ModerationReason =
+  "blocklist" | "links" | "repeated" | "classifier";
+
+export interface ModerationInput {
+  text: string;
+  username: Username;
+  ip?: string | undefined;
+}
+
+export interface ModerationRejection {
+  reason: ModerationReason;
+  /** Shown to the visitor. */
+  error: string;
+  /** What triggered the rejection, for the audit log only. */
+  detail?: string;
+}
+
+export type ModerationDecision =
+  { allowed: true } | ({ allowed: false } & ModerationRejection);
+
+/** Rejects a message by returning why, or lets it through with null. */
+export type ModerationCheck = (
+  input: ModerationInput,
+) => Promise<ModerationRejection | null>;
+
+/**
+ * Folds look-alike characters together and drops invisible ones, so they
+ * can't be used to slip past the checks.
+ */
+function normalize(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[\u00ad\u200b-\u200f\u2060\ufeff]/g, "");
+}
+
+// A /regular expression/ with flags, or a word
+const BLOCKLIST_ENTRY_PATTERN =
+  /[^\S\n]*(?:\/(?:\\.|[^\\/\n])+\/[a-z]*|[^,\n]+)/g;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Parses a blocklist of words and `/regular expressions/`, separated by
+ * commas or newlines. Words match whole words regardless of case. Invalid
+ * expressions are skipped.
+ */
+export function parseBlocklist(source: string): RegExp[] {
+  return Array.from(source.matchAll(BLOCKLIST_ENTRY_PATTERN), ([match]) =>
+    match.trim(),
+  ).flatMap((entry) => {
+    if (!entry) return [];
+
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(entry);
+    try {
+      return [
+        regex
+          ? // Global and sticky would make `test` depend on earlier calls
+            new RegExp(regex[1]!, regex[2]!.replace(/[gy]/g, ""))
+          : new RegExp(
+              `(?<![\\p{L}\\p{N}_])${escapeRegExp(entry)}(?![\\p{L}\\p{N}_])`,
+              "iu",
+            ),
+      ];
+    } catch (err) {
+      log.warn({ err, entry }, "Skipping invalid blocklist entry");
+      return [];
+    }
+  });
+}
+
+let blocklist: RegExp[] | undefined;
+
+function getBlocklist() {
+  blocklist ??= parseBlocklist(env.MODERATION_BLOCKLIST ?? "");
+  return blocklist;
+}
+
+export const checkBlocklist: ModerationCheck = async ({ text }) => {
+  const normalized = normalize(text);
+  const match = getBlocklist().find((pattern) => pattern.test(normalized));
+
+  return match
+    ? {
+        reason: "blocklist",
+        error: "Your message contains a blocked word or phrase",
+        detail: String(match),
+      }
+    : null;
+};
+
+export const checkLinks: ModerationCheck = async ({ text }) => {
+  const links = text.match(/https?:\/\//gi)?.length ?? 0;
+
+  return links > MAX_LINKS
+    ? {
+        reason: "links",
+        error: `Messages can contain at most ${MAX_LINKS} links`,
+        detail: `${links} links`,
+      }
+    : null;
+};
+
+function recentKey({ text, username }: ModerationInput): string {
+  // Small edits like casing or spacing don't make a message new
+  const canonical = normalize(text).toLowerCase().replace(/\s+/g, " ");
+  const hash = createHash("sha256").update(canonical).digest("base64url");
+  return `${RECENT_PREFIX}${username}:${hash}`;
+}
+
+export const checkRepeated: ModerationCheck = async (input) => {
+  const recent = await getRedis().get(recentKey(input));
+
+  return recent !== null
+    ? { reason: "repeated", error: "You already sent that message recently" }
+    : null;
+};
+
+/** Remembers a posted message, so sending it again is caught as a repeat. */
+export async function rememberMessage(input: ModerationInput): Promise<void> {
+  await getRedis().set(recentKey(input), 1, { ex: REPEAT_WINDOW_SECONDS });
+}
+
+export const checkClassifier: ModerationCheck = async ({ text }) => {
+  try {
+    const { flagged, category } = await classifyMessage(text);
+
+    return flagged
+      ? {
+          reason: "classifier",
+          error: "Your message was flagged by moderation",
+          detail: category ?? "unspecified",
+        }
+      : null;
+  } catch (err) {
+    // The chat shouldn't go down with the classifier, the other checks
+    // still apply
+    log.warn({ err }, "Message classifier failed, allowing message");
+    return null;
+  }
+};
+
+/** The configured checks, cheapest first. */
+export function getModerationChecks(): ModerationCheck[] {
+  return [
+    checkBlocklist,
+    checkLinks,
+    checkRepeated,
+    ...(env.MODERATION_CLASSIFIER ? [checkClassifier] : []),
+  ];
+}
+
+/**
+ * Runs a message through the checks in order, stopping at the first one that
+ * rejects it. Rejections are logged for audit, while allowed messages are
+ * logged once they're posted.
+ */
+export async function moderateMessage(
+  input: ModerationInput,
+  checks: ModerationCheck[] = getModerationChecks(),
+): Promise<ModerationDecision> {
+  const { text, username, ip } = input;
+
+  for (const check of checks) {
+    const rejection = await check(input);
+
+    if (rejection) {
+      log.warn(
+        { username, ip, text, ...rejection, action: "moderateMessage" },
+        "Message rejected",
+      );
+      return { allowed: false, ...rejection };
+    }
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,125 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { searchGuildMemberNames } from "@/lib/discord/api";
+import { checkBlocklist } from "@/lib/moderation";
+import type { Username } from "@/lib/session";
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  checkName,
+  ChosenNameSchema,
+  getNameCooldown,
+  reserveName,
+  startNameCooldown,
+} from "./names";
+
+vi.mock(import("server-only"), () => ({}));
+vi.mock(import("@/lib/discord/api"), () => ({
+  searchGuildMemberNames: vi.fn(() => Promise.resolve([])),
+}));
+vi.mock(import("@/lib/moderation"), () => ({
+  checkBlocklist: vi.fn(() => Promise.resolve(null)),
+}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+const current = "brave-tiger" as Username;
+
+afterEach(() => {
+  redis.reset();
+  vi.clearAllMocks();
+  vi.useRealTimers();
+});
+
+describe("ChosenNameSchema", () => {
+  it.each(["alice", "Alice_B", "über.cool", "x-1-y"])("accepts %j", (name) => {
+    expect(ChosenNameSchema.parse(` ${name} `)).toBe(name);
+  });
+
+  it.each(["ab", "a".repeat(25), "alice:", "two words", "-alice", "a--b"])(
+    "rejects %j",
+    (name) => {
+      expect(ChosenNameSchema.safeParse(name).success).toBe(false);
+    },
+  );
+});
+
+describe("checkName", () => {
+  it("should allow free names", async () => {
+    expect(await checkName("alice", current)).toBeNull();
+    expect(searchGuildMemberNames).toHaveBeenCalledWith("alice");
+  });
+
+  it.each(["simon-bot", "Simon", "calm-wombat"])(
+    "should reserve %j",
+    async (name) => {
+      expect(await checkName(name, current)).toBe(`"${name}" is reserved`);
+    },
+  );
+
+  it("should reject names of Discord members", async () => {
+    vi.mocked(searchGuildMemberNames).mockResolvedValueOnce([
+      "Alicia",
+      "Alice",
+    ]);
+
+    expect(await checkName("alice", current)).toBe('"alice" is taken');
+  });
+
+  it("should reject blocked words", async () => {
+    vi.mocked(checkBlocklist).mockResolvedValueOnce({
+      reason: "blocklist",
+      error: "Your message contains a blocked word or phrase",
+    });
+
+    expect(await checkName("badword", current)).toBe(
+      "That name contains a blocked word or phrase",
+    );
+    expect(checkBlocklist).toHaveBeenCalledWith({
+      text: "badword",
+      username: current,
+    });
+  });
+});
+
+describe("reserveName", () => {
+  const session = { id: "session-1", username: current };
+  const otherSession = { id: "session-2", username: "calm-wombat" as Username };
+
+  it("should keep names unique regardless of case", async () => {
+    expect(await reserveName("Alice", session)).toBe(true);
+    expect(await reserveName("alice", otherSession)).toBe(false);
+  });
+
+  it("should keep the visitor's old names reserved to them", async () => {
+    await reserveName("alice", session);
+    await reserveName("alicia", session);
+
+    expect(await reserveName("alice", otherSession)).toBe(false);
+    expect(await reserveName("alice", session)).toBe(true);
+  });
+
+  it("should let visitors change the case of their own name", async () => {
+    await reserveName("alice", session);
+
+    expect(await reserveName("Alice", session)).toBe(true);
+  });
+});
+
+describe("name cooldown", () => {
+  it("should last a day", async () => {
+    vi.useFakeTimers();
+    expect(await getNameCooldown("203.0.113.1")).toBeNull();
+
+    await startNameCooldown("203.0.113.1");
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect(await getNameCooldown("203.0.113.1")).toBe(23 * 60 * 60 * 1000);
+    expect(await getNameCooldown("203.0.113.2")).toBeNull();
+
+    vi.advanceTimersByTime(23 * 60 * 60 * 1000);
+    expect(await getNameCooldown("203.0.113.1")).toBeNull();
+  });
+});
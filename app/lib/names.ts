@@ -0,0 +1,92 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { searchGuildMemberNames } from "@/lib/discord/api";
+import { BOT_USERNAME } from "@/lib/discord/authors";
+import { checkBlocklist } from "@/lib/moderation";
+import { isRandomName } from "@/lib/randomName";
+import { getRedis } from "@/lib/redis";
+import type { Session, Username } from "@/lib/session";
+
+const RESERVATION_PREFIX = "chat:name:";
+const RESERVATION_TTL_SECONDS = 365 * 24 * 60 * 60;
+const COOLDOWN_PREFIX = "chat:name-cooldown:";
+const COOLDOWN_SECONDS = 24 * 60 * 60;
+
+// Names that could pass for the site's owner or bot
+const RESERVED_NAMES = [BOT_USERNAME, "simon", "simonkberg"];
+
+// Letters, numbers and a few separators. Colons would break the username
+// prefix messages are posted with.
+export const ChosenNameSchema = z
+  .string()
+  .trim()
+  .min(3, "Names need at least 3 characters")
+  .max(24, "Names can have at most 24 characters")
+  .regex(
+    /^[\p{L}\p{N}]+(?:[-_.][\p{L}\p{N}]+)*$/u,
+    "Names can only have letters, numbers, and - _ . between them",
+  );
+
+// Names are unique regardless of case
+function reservationKey(name: string): string {
+  return `${RESERVATION_PREFIX}${name.toLowerCase()}`;
+}
+
+/** Why a visitor can't go by `name`, or null if they can. */
+export async function checkName(
+  name: string,
+  current: Username,
+): Promise<string | null> {
+  const lowercase = name.toLowerCase();
+  if (RESERVED_NAMES.includes(lowercase) || isRandomName(name)) {
+    return `"${name}" is reserved`;
+  }
+
+  const blocked = await checkBlocklist({ text: name, username: current });
+  if (blocked) return "That name contains a blocked word or phrase";
+
+  const memberNames = await searchGuildMemberNames(name);
+  if (memberNames.some((member) => member.toLowerCase() === lowercase)) {
+    return `"${name}" is taken`;
+  }
+
+  return null;
+}
+
+/**
+ * Reserves `name` for the visitor's session. Names stay reserved to the
+ * session they were given to, so that no one else can go by a name the
+ * visitor used to have. Returns false if another session holds it.
+ */
+export async function reserveName(
+  name: string,
+  session: Session,
+): Promise<boolean> {
+  const redis = getRedis();
+  const key = reservationKey(name);
+
+  const reserved = await redis.set(key, session.id, {
+    nx: true,
+    ex: RESERVATION_TTL_SECONDS,
+  });
+  return reserved === "OK" || (await redis.get<string>(key)) === session.id;
+}
+
+/**
+ * Milliseconds until the visitor can change their name again, if any, by
+ * their IP address or session.
+ */
+export async function getNameCooldown(
+  identifier: string,
+): Promise<number | null> {
+  const ttl = await getRedis().pttl(`${COOLDOWN_PREFIX}${identifier}`);
+  return ttl > 0 ? ttl : null;
+}
+
+export async function startNameCooldown(identifier: string): Promise<void> {
+  await getRedis().set(`${COOLDOWN_PREFIX}${identifier}`, 1, {
+    ex: COOLDOWN_SECONDS,
+  });
+}
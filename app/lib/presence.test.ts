@@ -0,0 +1,117 @@
+// @vitest-environment node
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { publishChannelEvent } from "@/lib/discord/relay";
+import { log } from "@/lib/log";
+import { MockRedis } from "@/mocks/redis";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+vi.mock(import("@/lib/discord/relay"), () => ({
+  publishChannelEvent: vi.fn(),
+}));
+
+// Each fresh import stands in for a separate instance sharing the same Redis
+async function importInstance() {
+  vi.resetModules();
+  return import("./presence");
+}
+
+describe("presence", () => {
+  const leaves: (() => Promise<void>)[] = [];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(log, "info").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(leaves.splice(0).map((leave) => leave()));
+    redis.reset();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  async function join(
+    instance: Awaited<ReturnType<typeof importInstance>>,
+    username: string | null,
+  ) {
+    const leave = await instance.joinPresence(username);
+    leaves.push(leave);
+    return leave;
+  }
+
+  it("should list everyone present across instances", async () => {
+    const a = await importInstance();
+    const b = await importInstance();
+
+    await join(a, "bob");
+    await join(b, "alice");
+    await join(b, null);
+
+    expect(await a.getPresence()).toEqual({
+      count: 3,
+      names: ["alice", "bob"],
+    });
+  });
+
+  it("should count a username with several connections once", async () => {
+    const presence = await importInstance();
+
+    await join(presence, "alice");
+    await join(presence, "alice");
+
+    expect(await presence.getPresence()).toEqual({
+      count: 1,
+      names: ["alice"],
+    });
+  });
+
+  it("should announce joining and leaving", async () => {
+    const presence = await importInstance();
+
+    const leave = await join(presence, "alice");
+    await leave();
+
+    expect(publishChannelEvent).toHaveBeenCalledTimes(2);
+    expect(publishChannelEvent).toHaveBeenCalledWith({
+      type: "PRESENCE_CHANGED",
+    });
+    expect(await presence.getPresence()).toEqual({ count: 0, names: [] });
+  });
+
+  it("should keep connections present with heartbeats", async () => {
+    const presence = await importInstance();
+
+    await join(presence, "alice");
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(await presence.getPresence()).toEqual({
+      count: 1,
+      names: ["alice"],
+    });
+  });
+
+  it("should expire connections of an instance that stopped beating", async () => {
+    const crashed = await importInstance();
+    await join(crashed, "ghost");
+    // Simulate the crash: its heartbeats stop
+    vi.clearAllTimers();
+    const alive = await importInstance();
+    await join(alive, null);
+    vi.mocked(publishChannelEvent).mockClear();
+
+    expect(await alive.getPresence()).toEqual({ count: 2, names: ["ghost"] });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(await alive.getPresence()).toEqual({ count: 1, names: [] });
+    expect(publishChannelEvent).toHaveBeenCalledWith({
+      type: "PRESENCE_CHANGED",
+    });
+  });
+});
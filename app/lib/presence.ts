@@ -0,0 +1,118 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+
+import { publishChannelEvent } from "@/lib/discord/relay";
+import { instanceId } from "@/lib/instanceId";
+import { log } from "@/lib/log";
+import { getRedis } from "@/lib/redis";
+
+// Connections scored by their last heartbeat, as `<connection id>:<username>`
+const PRESENCE_KEY = "chat:presence";
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// Connections of a crashed instance drop out after a few missed heartbeats
+const PRESENCE_TTL_MS = HEARTBEAT_INTERVAL_MS * 3;
+
+export interface Presence {
+  /** Open chat connections, counting each username once. */
+  count: number;
+  /** Usernames of visitors with a session, sorted. */
+  names: string[];
+}
+
+const connections = new Map<string, string>();
+let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+function toMember(connectionId: string, username: string | null): string {
+  return `${connectionId}:${username ?? ""}`;
+}
+
+async function notifyChanged(): Promise<void> {
+  await publishChannelEvent({ type: "PRESENCE_CHANGED" });
+}
+
+async function beat(): Promise<void> {
+  const redis = getRedis();
+  const now = Date.now();
+
+  const members = [...connections.values()];
+  if (members.length > 0) {
+    const [first, ...rest] = members.map((member) => ({ score: now, member }));
+    await redis.zadd(PRESENCE_KEY, first!, ...rest);
+  }
+
+  // Any instance may sweep out the connections of one that went away
+  const expired = await redis.zremrangebyscore(
+    PRESENCE_KEY,
+    0,
+    now - PRESENCE_TTL_MS,
+  );
+  if (expired > 0) await notifyChanged();
+
+  log.debug(
+    { instanceId, connections: connections.size },
+    "Presence heartbeat",
+  );
+}
+
+function startHeartbeat(): void {
+  heartbeat ??= setInterval(() => {
+    beat().catch((err) => {
+      log.error({ err }, "Presence heartbeat failed");
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+}
+
+function stopHeartbeat(): void {
+  if (heartbeat) {
+    clearInterval(heartbeat);
+    heartbeat = null;
+  }
+}
+
+/**
+ * Marks a chat connection as present until the returned function is called.
+ * Pass null for visitors without a session, who are counted but not named.
+ */
+export async function joinPresence(
+  username: string | null,
+): Promise<() => Promise<void>> {
+  const connectionId = randomUUID();
+  const member = toMember(connectionId, username);
+
+  connections.set(connectionId, member);
+  startHeartbeat();
+  await getRedis().zadd(PRESENCE_KEY, { score: Date.now(), member });
+  await notifyChanged();
+
+  return async () => {
+    if (!connections.delete(connectionId)) return;
+    if (connections.size === 0) stopHeartbeat();
+
+    await getRedis().zrem(PRESENCE_KEY, member);
+    await notifyChanged();
+  };
+}
+
+/** Everyone currently viewing the chat, across all instances. */
+export async function getPresence(): Promise<Presence> {
+  const redis = getRedis();
+  await redis.zremrangebyscore(PRESENCE_KEY, 0, Date.now() - PRESENCE_TTL_MS);
+  const members = await redis.zrange<string[]>(PRESENCE_KEY, 0, -1);
+
+  const names = new Set<string>();
+  let anonymous = 0;
+  for (const member of members) {
+    const username = member.slice(member.indexOf(":") + 1);
+    if (username) {
+      names.add(username);
+    } else {
+      anonymous++;
+    }
+  }
+
+  return {
+    count: names.size + anonymous,
+    names: [...names].sort((a, b) => a.localeCompare(b)),
+  };
+}
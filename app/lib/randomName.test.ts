@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 
-import { randomName } from "./randomName";
+import { isRandomName, randomName } from "./randomName";
 
 describe("randomName", () => {
   it("returns at least two words separated by dash", () => {
@@ -31,3 +31,18 @@ describe("randomName", () => {
     expect(name).toBe(name.toLowerCase());
   });
 });
+
+describe("isRandomName", () => {
+  it("recognizes generated names", () => {
+    for (let i = 0; i < 20; i++) {
+      expect(isRandomName(randomName())).toBe(true);
+    }
+    expect(isRandomName("Fair-Minded-Tiger")).toBe(true);
+  });
+
+  it("rejects other names", () => {
+    expect(isRandomName("simon")).toBe(false);
+    expect(isRandomName("brave-simon")).toBe(false);
+    expect(isRandomName("tiger-brave")).toBe(false);
+  });
+});
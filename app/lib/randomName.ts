@@ -306,3 +306,13 @@ const randomArrayItem = (array: string[]) =>
 
 export const randomName = () =>
   `${randomArrayItem(positiveAdjectives)}-${randomArrayItem(animalNames)}`;
+
+/** Whether a name could have been generated, so visitors can't claim one. */
+export const isRandomName = (name: string) => {
+  const lowercase = name.toLowerCase();
+  return positiveAdjectives.some(
+    (adjective) =>
+      lowercase.startsWith(`${adjective}-`) &&
+      animalNames.includes(lowercase.slice(adjective.length + 1)),
+  );
+};
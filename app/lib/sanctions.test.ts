@@ -0,0 +1,258 @@
+// @vitest-environment node
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { Message, MessagesPage } from "@/lib/discord/api";
+import { recordSiteAuthor } from "@/lib/discord/authors";
+import { MockRedis } from "@/mocks/redis";
+
+import {
+  describeSanction,
+  getLastIp,
+  getSanction,
+  hideShadowedHits,
+  hideShadowedMessages,
+  isShadowed,
+  liftSanction,
+  markShadowed,
+  rememberIp,
+  type Sanction,
+  setSanction,
+} from "./sanctions";
+
+vi.mock(import("server-only"), () => ({}));
+
+const redis = new MockRedis();
+vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+
+function sanction(overrides: Partial<Sanction> = {}): Sanction {
+  return {
+    type: "ban",
+    reason: null,
+    by: "mod",
+    expiresAt: null,
+    ...overrides,
+  };
+}
+
+function message(id: string, name: string, replies: Message[] = []): Message {
+  return {
+    id,
+    user: { name, color: "hsl(0 100% 50%)" },
+    content: "hi",
+    text: "hi",
+    edited: false,
+    own: false,
+    reactions: [],
+    attachments: [],
+    embeds: [],
+    stickers: [],
+    previews: [],
+    timestamp: new Date("2025-01-01T00:00:00.000Z"),
+    replies,
+  };
+}
+
+afterEach(() => {
+  redis.reset();
+  vi.useRealTimers();
+});
+
+describe("getSanction", () => {
+  it("should find sanctions by username or IP", async () => {
+    await setSanction({ username: "alice" }, sanction({ type: "mute" }));
+    await setSanction({ ip: "203.0.113.1" }, sanction({ type: "shadow" }));
+
+    expect(await getSanction({ username: "alice" })).toMatchObject({
+      type: "mute",
+    });
+    expect(
+      await getSanction({ username: "bob", ip: "203.0.113.1" }),
+    ).toMatchObject({ type: "shadow" });
+    expect(await getSanction({ username: "bob" })).toBeNull();
+  });
+
+  it("should prefer the sanction that restricts the most", async () => {
+    await setSanction({ username: "alice" }, sanction({ type: "shadow" }));
+    await setSanction({ ip: "203.0.113.1" }, sanction({ type: "ban" }));
+
+    expect(
+      await getSanction({ username: "alice", ip: "203.0.113.1" }),
+    ).toMatchObject({ type: "ban" });
+  });
+
+  it("should expire timed sanctions", async () => {
+    vi.useFakeTimers();
+    await setSanction(
+      { username: "alice", ip: "203.0.113.1" },
+      sanction({ type: "mute", expiresAt: Date.now() + 60_000 }),
+    );
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(
+      await getSanction({ username: "alice", ip: "203.0.113.1" }),
+    ).toBeNull();
+  });
+});
+
+describe("liftSanction", () => {
+  it("should lift sanctions and report whether there were any", async () => {
+    await setSanction({ username: "alice", ip: "203.0.113.1" }, sanction());
+
+    expect(await liftSanction({ username: "alice", ip: "203.0.113.1" })).toBe(
+      true,
+    );
+    expect(await getSanction({ ip: "203.0.113.1" })).toBeNull();
+    expect(await liftSanction({ username: "alice" })).toBe(false);
+    expect(await liftSanction({})).toBe(false);
+  });
+});
+
+describe("rememberIp", () => {
+  it("should remember the last IP per username", async () => {
+    await rememberIp("alice", "203.0.113.1");
+    await rememberIp("alice", "203.0.113.2");
+
+    expect(await getLastIp("alice")).toBe("203.0.113.2");
+    expect(await getLastIp("bob")).toBeNull();
+  });
+});
+
+describe("isShadowed", () => {
+  it("should hide marked messages", async () => {
+    await markShadowed("1");
+
+    expect(await isShadowed("1", "alice")).toBe(true);
+    expect(await isShadowed("2", "alice")).toBe(false);
+  });
+
+  it("should hide messages from shadow banned users before they're marked", async () => {
+    await setSanction({ username: "alice" }, sanction({ type: "shadow" }));
+
+    expect(await isShadowed("1", "alice")).toBe(true);
+    expect(await isShadowed("1", "bob")).toBe(false);
+  });
+});
+
+/** Marks the messages as shadowed, posted in the named sessions. */
+async function shadow(authors: Record<string, string>) {
+  await Promise.all(
+    Object.entries(authors).map(async ([messageId, session]) => {
+      await markShadowed(messageId);
+      await recordSiteAuthor(messageId, {
+        kind: "visitor",
+        username: session,
+        session,
+      });
+    }),
+  );
+}
+
+describe("hideShadowedMessages", () => {
+  const page: MessagesPage = {
+    messages: [
+      message("1", "alice", [message("2", "bob"), message("3", "carol")]),
+      message("4", "bob", [message("5", "alice")]),
+    ],
+    orphans: [
+      { parentId: "0", message: message("6", "bob") },
+      { parentId: "0", message: message("7", "carol", [message("8", "bob")]) },
+    ],
+    cursor: "1",
+  };
+
+  it("should leave pages alone when nothing is shadowed", async () => {
+    expect(await hideShadowedMessages(page, null)).toBe(page);
+  });
+
+  it("should only look up the messages on the page", async () => {
+    const smismember = vi.spyOn(redis, "smismember");
+    await markShadowed("9");
+
+    expect(await hideShadowedMessages(page, null)).toBe(page);
+    expect(smismember).toHaveBeenCalledWith("chat:sanction:shadowed", [
+      "1",
+      "2",
+      "3",
+      "4",
+      "5",
+      "6",
+      "7",
+      "8",
+    ]);
+  });
+
+  it("should hide shadowed messages and their replies from others", async () => {
+    await shadow({ 2: "bob", 4: "bob", 6: "bob", 8: "bob" });
+
+    const hidden = await hideShadowedMessages(page, "carol");
+
+    expect(hidden.messages.map(({ id }) => id)).toEqual(["1"]);
+    expect(hidden.messages[0]?.replies.map(({ id }) => id)).toEqual(["3"]);
+    expect(hidden.orphans.map(({ message }) => message.id)).toEqual(["7"]);
+    expect(hidden.orphans[0]?.message.replies).toEqual([]);
+    expect(hidden.cursor).toBe("1");
+  });
+
+  it("should show shadowed messages to the session that posted them", async () => {
+    await shadow({ 2: "bob", 4: "bob", 6: "bob", 8: "bob" });
+
+    expect(await hideShadowedMessages(page, "bob")).toEqual(page);
+  });
+
+  it("should hide shadowed messages without a recorded session from everyone", async () => {
+    await markShadowed("6");
+
+    const hidden = await hideShadowedMessages(page, "bob");
+
+    expect(hidden.orphans.map(({ message }) => message.id)).toEqual(["7"]);
+  });
+});
+
+describe("hideShadowedHits", () => {
+  const searchMessage = (id: string, username: string) => ({
+    id,
+    username,
+    content: "hi",
+    timestamp: "2025-01-01T00:00:00.000000+00:00",
+  });
+  const hits = [
+    {
+      hit: searchMessage("2", "alice"),
+      context: [searchMessage("1", "bob"), searchMessage("3", "carol")],
+    },
+    { hit: searchMessage("4", "bob"), context: [] },
+  ];
+
+  it("should hide shadowed hits and context from others", async () => {
+    await shadow({ 1: "bob", 4: "bob" });
+
+    expect(await hideShadowedHits(hits, "carol")).toEqual([
+      {
+        hit: searchMessage("2", "alice"),
+        context: [searchMessage("3", "carol")],
+      },
+    ]);
+    expect(await hideShadowedHits(hits, "bob")).toEqual(hits);
+  });
+});
+
+describe("describeSanction", () => {
+  it("should tell how long is left of timed sanctions", () => {
+    vi.useFakeTimers();
+
+    expect(
+      describeSanction(
+        sanction({ type: "mute", expiresAt: Date.now() + 90_000 }),
+      ),
+    ).toBe("You are muted. Try again in 2 minutes.");
+    expect(describeSanction(sanction({ expiresAt: Date.now() + 1000 }))).toBe(
+      "You are banned from the chat. Try again in 1 minute.",
+    );
+  });
+
+  it("should leave out the time for sanctions until lifted", () => {
+    expect(describeSanction(sanction())).toBe("You are banned from the chat");
+  });
+});
@@ -0,0 +1,218 @@
+import "server-only";
+
+import {
+  collectMessageIds,
+  type Message,
+  type MessagesPage,
+  type SearchHit,
+} from "@/lib/discord/api";
+import { getRecordedSiteAuthor } from "@/lib/discord/authors";
+import { getRedis } from "@/lib/redis";
+
+const USER_PREFIX = "chat:sanction:user:";
+const IP_PREFIX = "chat:sanction:ip:";
+const LAST_IP_PREFIX = "chat:sanction:last-ip:";
+const LAST_IP_TTL_SECONDS = 30 * 24 * 60 * 60;
+const SHADOWED_KEY = "chat:sanction:shadowed";
+
+/**
+ * Banned visitors can't post, muted ones can't for a while, and shadow banned
+ * ones can, but only they see what they post.
+ */
+export type SanctionType = "ban" | "mute" | "shadow";
+
+export interface Sanction {
+  type: SanctionType;
+  reason: string | null;
+  /** Who imposed it, for the audit log. */
+  by: string;
+  /** Epoch milliseconds, or null until it's lifted. */
+  expiresAt: number | null;
+}
+
+/** A visitor is sanctioned by their session username, their IP, or both. */
+export interface SanctionTarget {
+  username?: string | undefined;
+  ip?: string | undefined;
+}
+
+// When several sanctions apply, the one that restricts the most wins
+const SEVERITY: Record<SanctionType, number> = { ban: 2, mute: 1, shadow: 0 };
+
+function sanctionKeys({ username, ip }: SanctionTarget): string[] {
+  return [
+    ...(username ? [`${USER_PREFIX}${username}`] : []),
+    ...(ip ? [`${IP_PREFIX}${ip}`] : []),
+  ];
+}
+
+/** The sanction that applies to a visitor, if any. */
+export async function getSanction(
+  target: SanctionTarget,
+): Promise<Sanction | null> {
+  const redis = getRedis();
+  const sanctions = await Promise.all(
+    sanctionKeys(target).map((key) => redis.get<Sanction>(key)),
+  );
+
+  return sanctions.reduce<Sanction | null>(
+    (worst, sanction) =>
+      sanction && (!worst || SEVERITY[sanction.type] > SEVERITY[worst.type])
+        ? sanction
+        : worst,
+    null,
+  );
+}
+
+/**
+ * Sanctions a visitor, replacing what applied to them before. Timed
+ * sanctions expire with their Redis keys.
+ */
+export async function setSanction(
+  target: SanctionTarget,
+  sanction: Sanction,
+): Promise<void> {
+  const redis = getRedis();
+  const ttlMs =
+    sanction.expiresAt === null ? undefined : sanction.expiresAt - Date.now();
+  if (ttlMs !== undefined && ttlMs <= 0) return;
+
+  await Promise.all(
+    sanctionKeys(target).map((key) =>
+      ttlMs === undefined
+        ? redis.set(key, sanction)
+        : redis.set(key, sanction, { px: ttlMs }),
+    ),
+  );
+}
+
+/** Lifts any sanction from a visitor, returning whether there was one. */
+export async function liftSanction(target: SanctionTarget): Promise<boolean> {
+  const keys = sanctionKeys(target);
+  return keys.length > 0 && (await getRedis().del(...keys)) > 0;
+}
+
+/**
+ * Remembers the IP a visitor last posted from, so sanctioning them by
+ * username from Discord covers their IP too.
+ */
+export async function rememberIp(username: string, ip: string): Promise<void> {
+  await getRedis().set(`${LAST_IP_PREFIX}${username}`, ip, {
+    ex: LAST_IP_TTL_SECONDS,
+  });
+}
+
+export async function getLastIp(username: string): Promise<string | null> {
+  return getRedis().get<string>(`${LAST_IP_PREFIX}${username}`);
+}
+
+/** Hides a message posted under a shadow ban from everyone but its author. */
+export async function markShadowed(messageId: string): Promise<void> {
+  await getRedis().sadd(SHADOWED_KEY, messageId);
+}
+
+/**
+ * Whether a message posted from the site by `username` is hidden from
+ * everyone else. Messages are checked by author as well, as they can reach
+ * the gateway before they're marked.
+ */
+export async function isShadowed(
+  messageId: string,
+  username: string,
+): Promise<boolean> {
+  const [marked, sanction] = await Promise.all([
+    getRedis().sismember(SHADOWED_KEY, messageId),
+    getSanction({ username }),
+  ]);
+  return marked === 1 || sanction?.type === "shadow";
+}
+
+/**
+ * Which of the messages are hidden from the `viewer` session: those posted
+ * under a shadow ban from any other session. Only the messages asked about
+ * are looked up, and only shadowed ones by who posted them.
+ */
+async function findHidden(
+  messageIds: string[],
+  viewer: string | null,
+): Promise<Set<string>> {
+  if (messageIds.length === 0) return new Set();
+
+  const marked = await getRedis().smismember(SHADOWED_KEY, messageIds);
+  const shadowed = messageIds.filter((_, index) => marked[index] === 1);
+  const authors = await Promise.all(
+    shadowed.map((messageId) => getRecordedSiteAuthor(messageId)),
+  );
+
+  return new Set(
+    shadowed.filter(
+      (_, index) => viewer === null || authors[index]?.session !== viewer,
+    ),
+  );
+}
+
+/**
+ * Leaves out shadowed messages, and their replies, unless they were posted
+ * in the `viewer` session.
+ */
+export async function hideShadowedMessages(
+  page: MessagesPage,
+  viewer: string | null,
+): Promise<MessagesPage> {
+  const hidden = await findHidden(
+    collectMessageIds([
+      ...page.messages,
+      ...page.orphans.map(({ message }) => message),
+    ]),
+    viewer,
+  );
+  if (hidden.size === 0) return page;
+
+  const isVisible = (message: Message) => !hidden.has(message.id);
+
+  const hide = (messages: Message[]): Message[] =>
+    messages
+      .filter(isVisible)
+      .map((message) => ({ ...message, replies: hide(message.replies) }));
+
+  return {
+    ...page,
+    messages: hide(page.messages),
+    orphans: page.orphans
+      .filter(({ message }) => isVisible(message))
+      .map((orphan) => ({
+        ...orphan,
+        message: { ...orphan.message, replies: hide(orphan.message.replies) },
+      })),
+  };
+}
+
+/** Like `hideShadowedMessages`, for the hits of a search and their context. */
+export async function hideShadowedHits(
+  hits: SearchHit[],
+  viewer: string | null,
+): Promise<SearchHit[]> {
+  const hidden = await findHidden(
+    hits.flatMap(({ hit, context }) => [
+      hit.id,
+      ...context.map(({ id }) => id),
+    ]),
+    viewer,
+  );
+  if (hidden.size === 0) return hits;
+
+  const isVisible = ({ id }: SearchHit["hit"]) => !hidden.has(id);
+
+  return hits
+    .filter(({ hit }) => isVisible(hit))
+    .map(({ hit, context }) => ({ hit, context: context.filter(isVisible) }));
+}
+
+/** Why a sanctioned visitor can't post, shown to them. */
+export function describeSanction({ type, expiresAt }: Sanction): string {
+  const action = type === "ban" ? "banned from the chat" : "muted";
+  if (expiresAt === null) return `You are ${action}`;
+
+  const minutes = Math.max(1, Math.ceil((expiresAt - Date.now()) / 60_000));
+  return `You are ${action}. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+}
@@ -0,0 +1,276 @@
+import { describe, expect, it } from "vitest";
+
+import { sanitizeHtml } from "./sanitizeHtml";
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  A: ["href", "title", "rel"],
+  BLOCKQUOTE: [],
+  BR: [],
+  CODE: ["class"],
+  DEL: [],
+  EM: [],
+  IMG: ["src", "alt", "title", "class"],
+  PRE: ["data-language"],
+  SPAN: ["class", "tabindex"],
+  STRONG: [],
+  TIME: ["datetime", "data-timestamp-style"],
+  U: [],
+};
+
+/** Parses the output like a browser would and checks nothing unsafe is left. */
+function expectSafe(html: string) {
+  const template = document.createElement("template");
+  template.innerHTML = html;
+
+  for (const element of template.content.querySelectorAll("*")) {
+    const allowed = ALLOWED_ATTRIBUTES[element.tagName];
+    expect(allowed, `<${element.tagName}> in ${html}`).toBeDefined();
+
+    for (const { name, value } of element.attributes) {
+      expect(allowed, `${name} on <${element.tagName}> in ${html}`).toContain(
+        name,
+      );
+      if (name === "href") expect(value).toMatch(/^(?:https?|mailto):/);
+      if (name === "src") expect(value).toMatch(/^https:/);
+    }
+  }
+}
+
+// A selection of the payloads from the OWASP XSS filter evasion cheat sheet
+// and similar collections
+const XSS_PAYLOADS = [
+  "<script>alert(1)</script>",
+  "<SCRIPT SRC=https://xss.example/xss.js></SCRIPT>",
+  "<script>alert(1)",
+  "<scr<script>ipt>alert(1)</script>",
+  '<IMG SRC="javascript:alert(1);">',
+  "<IMG SRC=javascript:alert(1)>",
+  "<IMG SRC=JaVaScRiPt:alert(1)>",
+  "<IMG SRC=`javascript:alert(1)`>",
+  '<IMG """><SCRIPT>alert(1)</SCRIPT>">',
+  '<IMG SRC=/ onerror="alert(String.fromCharCode(88,83,83))"></img>',
+  "<img src=x onerror=alert(1)>",
+  '<img src="https://example.com/a.png" onload="alert(1)">',
+  "<img/src=x/onerror=alert(1)>",
+  "<IMG SRC=&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;&#97;&#108;&#101;&#114;&#116;&#40;&#39;&#88;&#83;&#83;&#39;&#41;>",
+  "<IMG SRC=&#0000106&#0000097&#0000118&#0000097&#0000115&#0000099&#0000114&#0000105&#0000112&#0000116&#0000058&#0000097&#0000108&#0000101&#0000114&#0000116&#0000040&#0000039&#0000088&#0000083&#0000083&#0000039&#0000041>",
+  "<IMG SRC=&#x6A&#x61&#x76&#x61&#x73&#x63&#x72&#x69&#x70&#x74&#x3A&#x61&#x6C&#x65&#x72&#x74&#x28&#x27&#x58&#x53&#x53&#x27&#x29>",
+  '<IMG SRC="jav\tascript:alert(1);">',
+  '<IMG SRC="jav&#x09;ascript:alert(1);">',
+  '<IMG SRC="jav&#x0A;ascript:alert(1);">',
+  '<IMG SRC=" &#14;  javascript:alert(1);">',
+  '<a href="javascript:alert(1)">x</a>',
+  '<a href="JAVASCRIPT:alert(1)">x</a>',
+  '<a href="  javascript:alert(1)">x</a>',
+  '<a href="java\nscript:alert(1)">x</a>',
+  '<a href="javascript&colon;alert(1)">x</a>',
+  '<a href="javascript&Colon;alert(1)">x</a>',
+  '<a href="jav&NewLine;ascript:alert(1)">x</a>',
+  '<a href="&#106;avascript:alert(1)">x</a>',
+  '<a href="javascript&#58alert(1)">x</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>',
+  '<a href="vbscript:msgbox(1)">x</a>',
+  '<a href="https://example.com" onclick="alert(1)">x</a>',
+  "<a href='https://example.com' onmouseover=alert(1)>x</a>",
+  '<a href="https://example.com"onmouseover="alert(1)">x</a>',
+  '<a title="x" href="https://example.com" style="position:fixed;inset:0">x</a>',
+  "<BODY ONLOAD=alert(1)>",
+  '<BODY BACKGROUND="javascript:alert(1)">',
+  "<svg/onload=alert(1)>",
+  "<svg><script>alert(1)</script></svg>",
+  '<svg><a xlink:href="javascript:alert(1)"><text>x</text></a></svg>',
+  "<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>",
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<form action="javascript:alert(1)"><button>x</button></form>',
+  "<input onfocus=alert(1) autofocus>",
+  "<details open ontoggle=alert(1)>",
+  '<video><source onerror="alert(1)"></video>',
+  '<LINK REL="stylesheet" HREF="javascript:alert(1);">',
+  '<META HTTP-EQUIV="refresh" CONTENT="0;url=javascript:alert(1);">',
+  '<STYLE>li {list-style-image: url("javascript:alert(1)");}</STYLE><UL><LI>x</UL>',
+  '<DIV STYLE="background-image: url(javascript:alert(1))">',
+  '<span style="x:expression(alert(1))">x</span>',
+  '<span class="x" onclick="alert(1)" tabindex="0">x</span>',
+  '<span tabindex="0 onfocus=alert(1)">x</span>',
+  "<!--<img src=x onerror=alert(1)>-->",
+  "<!-- --!><img src=x onerror=alert(1)>",
+  "<![CDATA[<img src=x onerror=alert(1)>]]>",
+  '<base href="javascript:alert(1)//">',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  "<title><img src=x onerror=alert(1)></title>",
+  "<textarea><img src=x onerror=alert(1)></textarea>",
+  "<xmp><img src=x onerror=alert(1)></xmp>",
+  '<time datetime="x" onclick="alert(1)">x</time>',
+  '<code class="markdown-code-js" onmouseover="alert(1)">x</code>',
+  "<</p>iframe src=javascript:alert(1)//",
+  '<a href="https://example.com">x</a"><img src=x onerror=alert(1)>',
+  '"><script>alert(1)</script>',
+  "'><img src=x onerror=alert(1)>",
+  "</strong><img src=x onerror=alert(1)>",
+  "<strong><em></strong></em><script>alert(1)</script>",
+  "&lt;script&gt;alert(1)&lt;/script&gt;",
+  "&#60;script&#62;alert(1)&#60;/script&#62;",
+  '<a href=https://example.com/"onmouseover="alert(1)">x</a>',
+  '<img src=https://example.com/x.png alt=""onerror="alert(1)">',
+  '<img src="https://example.com/x.png" alt=\'" onerror=alert(1) \'>',
+];
+
+describe("sanitizeHtml", () => {
+  it("keeps the HTML rendered from chat markdown", () => {
+    const html =
+      "<strong>bold</strong> <em>em</em> <u>u</u> <del>del</del> <code>code</code><br>" +
+      '<a href="https://example.com/" rel="noopener noreferrer nofollow ugc">link</a> ' +
+      '<span class="mention">@alice</span> <span class="spoiler" tabindex="0">secret</span> ' +
+      '<img class="emoji" src="https://cdn.discordapp.com/emojis/1.webp?size=48&amp;animated=true" alt=":a:" title=":a:"> ' +
+      '<time datetime="2023-11-14T22:13:20.000Z" data-timestamp-style="R">November 14</time>' +
+      '<blockquote>quote</blockquote><pre data-language="ts"><code class="markdown-code-ts"><span class="hl-keyword">const</span> a &lt; b;</code></pre>';
+
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it("adds rel to links", () => {
+    expect(sanitizeHtml('<a href="https://example.com/">x</a>')).toBe(
+      '<a href="https://example.com/" rel="noopener noreferrer nofollow ugc">x</a>',
+    );
+  });
+
+  it("drops disallowed tags but keeps their text", () => {
+    expect(
+      sanitizeHtml("<div><p>hello</p> <marquee>world</marquee></div>"),
+    ).toBe("hello world");
+  });
+
+  it("drops the content of script-like elements", () => {
+    expect(sanitizeHtml("a<script>alert(1)</script>b<style>*{}</style>c")).toBe(
+      "abc",
+    );
+  });
+
+  it("drops disallowed attributes", () => {
+    expect(
+      sanitizeHtml('<span class="mention" style="color:red" id="x">x</span>'),
+    ).toBe('<span class="mention">x</span>');
+  });
+
+  it("drops classes that chat markdown doesn't use", () => {
+    expect(sanitizeHtml('<span class="spoiler chat-toast">x</span>')).toBe(
+      '<span class="spoiler">x</span>',
+    );
+    expect(sanitizeHtml('<span class="chat-toast">x</span>')).toBe(
+      "<span>x</span>",
+    );
+  });
+
+  it.each([
+    "javascript:alert(1)",
+    "data:text/html,x",
+    "/relative",
+    "//example.com",
+    "jav&#x09;ascript:alert(1)",
+    "javascript&colon;alert(1)",
+    "&unknown;https://example.com",
+  ])("drops links to %s", (href) => {
+    expect(sanitizeHtml(`<a href="${href}">x</a>`)).toBe(
+      '<a rel="noopener noreferrer nofollow ugc">x</a>',
+    );
+  });
+
+  it("only loads images over https", () => {
+    expect(sanitizeHtml('<img src="http://example.com/a.png" alt="a">')).toBe(
+      '<img alt="a">',
+    );
+  });
+
+  it("escapes stray angle brackets and ampersands", () => {
+    expect(sanitizeHtml("1 < 2 && 3 > 2 &amp; <3")).toBe(
+      "1 &lt; 2 &amp;&amp; 3 &gt; 2 &amp; &lt;3",
+    );
+  });
+
+  it("closes tags left open and drops unopened closing tags", () => {
+    expect(sanitizeHtml("<strong><em>x</strong></u>y<code>z")).toBe(
+      "<strong><em>x</em></strong>y<code>z</code>",
+    );
+  });
+
+  it.each(XSS_PAYLOADS)("neutralises %s", (payload) => {
+    const output = sanitizeHtml(payload);
+
+    expectSafe(output);
+    expect(output).not.toMatch(/<(?:script|iframe|svg|style|object)/i);
+  });
+
+  it("is idempotent", () => {
+    for (const payload of XSS_PAYLOADS) {
+      const once = sanitizeHtml(payload);
+      expect(sanitizeHtml(once)).toBe(once);
+    }
+  });
+
+  it("stays safe with random combinations of payload fragments", () => {
+    const fragments = [
+      "<",
+      ">",
+      "</",
+      "/>",
+      '"',
+      "'",
+      "`",
+      "=",
+      " ",
+      "\n",
+      "&",
+      "&#",
+      ";",
+      ":",
+      "a",
+      "img",
+      "span",
+      "script",
+      "strong",
+      "href",
+      "src",
+      "class",
+      "onerror",
+      "onclick",
+      "javascript",
+      "https://x.example/",
+      "alert(1)",
+      "<!--",
+      "-->",
+      "&colon;",
+      "&#x6A;",
+      "mention",
+    ];
+    // Deterministic, so failures can be reproduced
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    for (let run = 0; run < 500; run++) {
+      const length = 1 + Math.floor(random() * 30);
+      const input = Array.from(
+        { length },
+        () => fragments[Math.floor(random() * fragments.length)],
+      ).join("");
+      const output = sanitizeHtml(input);
+
+      expectSafe(output);
+      expect(sanitizeHtml(output), input).toBe(output);
+    }
+  });
+
+  it("handles long unterminated tags in linear time", () => {
+    const input = "<a" + " b=c".repeat(20_000);
+    const start = performance.now();
+
+    sanitizeHtml(input);
+
+    expect(performance.now() - start).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,207 @@
+// Allow-listed tags and their attributes; anything else is dropped
+const ALLOWED_TAGS = new Map<string, readonly string[]>([
+  ["a", ["href", "title"]],
+  ["blockquote", []],
+  ["br", []],
+  ["code", ["class"]],
+  ["del", []],
+  ["em", []],
+  ["img", ["src", "alt", "title", "class"]],
+  ["pre", ["data-language"]],
+  ["span", ["class", "tabindex"]],
+  ["strong", []],
+  ["time", ["datetime", "data-timestamp-style"]],
+  ["u", []],
+]);
+
+const VOID_TAGS = new Set(["br", "img"]);
+
+// Links point away from the site, to pages it doesn't vouch for
+const LINK_ATTRIBUTES = ' rel="noopener noreferrer nofollow ugc"';
+
+// Elements whose content is dropped along with them, rather than kept as text
+const RAW_TEXT_TAGS = new Set([
+  "iframe",
+  "noembed",
+  "noframes",
+  "noscript",
+  "object",
+  "script",
+  "style",
+  "template",
+  "textarea",
+  "title",
+  "xmp",
+]);
+
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+const URL_PROTOCOLS = new Set(["http:", "https:", "mailto:"]);
+// Images are only loaded from https, so they can't be mixed content
+const IMAGE_PROTOCOLS = new Set(["https:"]);
+
+const ALLOWED_CLASS_PATTERN =
+  /^(?:mention|spoiler|emoji|hl-[a-z]+|markdown-code-[\w+\-.#]+)$/;
+
+const TAG_PATTERN =
+  /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*\/?>/g;
+const ATTRIBUTE_PATTERN =
+  /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES = new Map([
+  ["amp", "&"],
+  ["apos", "'"],
+  ["colon", ":"],
+  ["gt", ">"],
+  ["lt", "<"],
+  ["newline", "\n"],
+  ["nbsp", "\u00a0"],
+  ["quot", '"'],
+  ["tab", "\t"],
+]);
+
+function decodeEntities(value: string): string | null {
+  let unknown = false;
+  const decoded = value.replace(
+    /&(?:#(\d+)|#x([\da-f]+)|([a-z][a-z\d]*));?/gi,
+    (entity, decimal?: string, hex?: string, name?: string) => {
+      if (name !== undefined) {
+        const char = NAMED_ENTITIES.get(name.toLowerCase());
+        if (char === undefined) unknown = true;
+        return char ?? entity;
+      }
+      const codePoint = decimal ? Number(decimal) : parseInt(hex!, 16);
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "�";
+    },
+  );
+  // Can't tell what a browser would make of it, so don't let it through
+  return unknown ? null : decoded;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&(?!(?:#\d+|#x[\da-f]+|[a-z][a-z\d]*);)/gi, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function sanitizeUrl(value: string, protocols: Set<string>): string | null {
+  try {
+    const url = new URL(value);
+    return protocols.has(url.protocol) ? url.href : null;
+  } catch {
+    // Relative URLs have no meaning in chat messages
+    return null;
+  }
+}
+
+function sanitizeAttribute(
+  tag: string,
+  name: string,
+  rawValue: string,
+): string | null {
+  const value = decodeEntities(rawValue);
+  if (value === null) return null;
+
+  if (URL_ATTRIBUTES.has(name)) {
+    return sanitizeUrl(value, tag === "img" ? IMAGE_PROTOCOLS : URL_PROTOCOLS);
+  }
+
+  switch (name) {
+    case "class": {
+      const classes = value
+        .split(/\s+/)
+        .filter((name) => ALLOWED_CLASS_PATTERN.test(name));
+      return classes.length > 0 ? classes.join(" ") : null;
+    }
+    case "tabindex":
+      return /^-?\d+$/.test(value) ? value : null;
+    default:
+      return value;
+  }
+}
+
+function sanitizeAttributes(
+  tag: string,
+  allowed: readonly string[],
+  attributes: string,
+): string {
+  const seen = new Set<string>();
+  let output = "";
+
+  for (const [, rawName, ...values] of attributes.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = rawName!.toLowerCase();
+    if (!allowed.includes(name) || seen.has(name)) continue;
+    seen.add(name);
+
+    const value = sanitizeAttribute(tag, name, values.find(Boolean) ?? "");
+    if (value !== null) output += ` ${name}="${escapeAttribute(value)}"`;
+  }
+
+  return output;
+}
+
+/**
+ * Reduces HTML to the tags, attributes and URL schemes chat messages use.
+ * Disallowed tags are dropped but keep their text, unless they are elements
+ * like `<script>` whose content is never meant to be shown. The output is
+ * well-formed: every tag that is opened is also closed.
+ */
+export function sanitizeHtml(html: string): string {
+  const open: string[] = [];
+  let output = "";
+  let index = 0;
+  // Set while inside a raw text element, until its closing tag
+  let skipUntil: string | null = null;
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const [source, slash, rawTag, attributes = ""] = match;
+    const text = html.slice(index, match.index);
+    index = match.index + source.length;
+
+    if (skipUntil !== null) {
+      if (slash && rawTag?.toLowerCase() === skipUntil) skipUntil = null;
+      continue;
+    }
+
+    output += escapeText(text);
+
+    // Comments
+    if (rawTag === undefined) continue;
+
+    const tag = rawTag.toLowerCase();
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      if (!slash) skipUntil = tag;
+      continue;
+    }
+
+    const allowed = ALLOWED_TAGS.get(tag);
+    if (!allowed) continue;
+
+    if (!slash) {
+      const extra = tag === "a" ? LINK_ATTRIBUTES : "";
+      output += `<${tag}${sanitizeAttributes(tag, allowed, attributes)}${extra}>`;
+      if (!VOID_TAGS.has(tag)) open.push(tag);
+    } else if (open.includes(tag)) {
+      // Close anything left open inside it first
+      while (open.length > 0) {
+        const closed = open.pop()!;
+        output += `</${closed}>`;
+        if (closed === tag) break;
+      }
+    }
+  }
+
+  if (skipUntil === null) output += escapeText(html.slice(index));
+  while (open.length > 0) output += `</${open.pop()}>`;
+
+  return output;
+}
@@ -5,7 +5,14 @@ import { afterEach, describe, expect, it, vi } from "vitest";
 import { log } from "@/lib/log";
 import { MockCookies } from "@/mocks/headers";
 
-import { decrypt, encrypt, getSession, SessionSchema } from "./session";
+import {
+  decrypt,
+  encrypt,
+  findSession,
+  getSession,
+  SessionSchema,
+  setSession,
+} from "./session";
 
 vi.mock(import("server-only"), () => ({}));
 
@@ -32,6 +39,13 @@ describe("session", () => {
       expect(encrypted.length).toBeGreaterThan(0);
     });
 
+    it("should give every new session its own id", async () => {
+      const session1 = SessionSchema.parse({ username: "testuser" });
+      const session2 = SessionSchema.parse({ username: "testuser" });
+
+      expect(session1.id).not.toBe(session2.id);
+    });
+
     it("should create different tokens for different usernames", async () => {
       const token1 = await encrypt(SessionSchema.parse({ username: "user1" }));
       const token2 = await encrypt(SessionSchema.parse({ username: "user2" }));
@@ -60,6 +74,17 @@ describe("session", () => {
       expect(decrypted).toEqual(payload);
     });
 
+    it("should give sessions signed before they had an id one", async () => {
+      // @ts-expect-error -- testing a session without an id
+      const encrypted = await encrypt({ username: "testuser" });
+      const decrypted = await decrypt(encrypted);
+
+      expect(decrypted).toEqual({
+        id: expect.any(String),
+        username: "testuser",
+      });
+    });
+
     it("should return undefined for undefined session", async () => {
       const result = await decrypt(undefined);
       expect(result).toBeUndefined();
@@ -114,6 +139,26 @@ describe("session", () => {
     });
   });
 
+  describe("findSession", () => {
+    it("should return session when valid session cookie exists", async () => {
+      const payload = SessionSchema.parse({ username: "testuser" });
+      const sessionToken = await encrypt(payload);
+
+      vi.mocked(cookies).mockResolvedValue(
+        new MockCookies(new Headers({ cookie: `session=${sessionToken}` })),
+      );
+
+      await expect(findSession()).resolves.toEqual(payload);
+    });
+
+    it("should return undefined when no session cookie exists", async () => {
+      vi.mocked(cookies).mockResolvedValue(new MockCookies(new Headers()));
+
+      await expect(findSession()).resolves.toBeUndefined();
+      expect(forbidden).not.toHaveBeenCalled();
+    });
+  });
+
   describe("getSession", () => {
     it("should return session when valid session cookie exists", async () => {
       const payload = SessionSchema.parse({ username: "testuser" });
@@ -156,4 +201,23 @@ describe("session", () => {
       expect(forbidden).toHaveBeenCalledOnce();
     });
   });
+
+  describe("setSession", () => {
+    it("should re-sign the session cookie", async () => {
+      const mockCookies = new MockCookies(new Headers());
+      const setSpy = vi.spyOn(mockCookies, "set");
+      vi.mocked(cookies).mockResolvedValue(mockCookies);
+      const payload = SessionSchema.parse({ username: "alice" });
+
+      await setSession(payload);
+
+      expect(setSpy).toHaveBeenCalledWith(
+        "session",
+        expect.any(String),
+        expect.objectContaining({ httpOnly: true, sameSite: "strict" }),
+      );
+      const token = setSpy.mock.lastCall?.[1];
+      await expect(decrypt(String(token))).resolves.toEqual(payload);
+    });
+  });
 });
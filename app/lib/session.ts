@@ -9,7 +9,12 @@ import { env } from "@/lib/env";
 import { log } from "@/lib/log";
 
 export const UsernameSchema = z.string().brand("username");
-export const SessionSchema = z.object({ username: UsernameSchema });
+export const SessionSchema = z.object({
+  // Tells visitors apart, as names can be given out more than once. Sessions
+  // signed before they had one get one the next time the proxy signs them.
+  id: z.string().default(() => crypto.randomUUID()),
+  username: UsernameSchema,
+});
 
 export type Username = z.infer<typeof UsernameSchema>;
 export type Session = z.infer<typeof SessionSchema>;
@@ -25,6 +30,18 @@ export async function encrypt(payload: Session) {
     .sign(encodedKey);
 }
 
+const SESSION_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+export function getSessionCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: true,
+    expires: new Date(Date.now() + SESSION_MAX_AGE_MS),
+    sameSite: "strict",
+    path: "/",
+  } as const;
+}
+
 export async function decrypt(session: string | undefined) {
   if (!session) return;
 
@@ -39,10 +56,15 @@ export async function decrypt(session: string | undefined) {
   }
 }
 
-export async function getSession() {
+/** Like `getSession`, but resolves to `undefined` instead of forbidding. */
+export async function findSession() {
   const cookieJar = await cookies();
   const sessionCookie = cookieJar.get("session");
-  const session = await decrypt(sessionCookie?.value);
+  return decrypt(sessionCookie?.value);
+}
+
+export async function getSession() {
+  const session = await findSession();
 
   if (!session) {
     return forbidden();
@@ -50,3 +72,9 @@ export async function getSession() {
 
   return session;
 }
+
+/** Re-signs the session cookie, like after the visitor changes their name. */
+export async function setSession(session: Session) {
+  const cookieJar = await cookies();
+  cookieJar.set("session", await encrypt(session), getSessionCookieOptions());
+}
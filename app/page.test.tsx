@@ -16,8 +16,15 @@ vi.mock("server-only", () => ({}));
 
 vi.mock(import("@/actions/chat"), () => ({
   getChatHistory: vi.fn(() =>
-    Promise.resolve<ChatHistoryResult>({ status: "ok", messages: [] }),
+    Promise.resolve<ChatHistoryResult>({
+      status: "ok",
+      messages: [],
+      orphans: [],
+      cursor: null,
+    }),
   ),
+  getChatUsername: vi.fn(() => Promise.resolve(null)),
+  getChatRooms: vi.fn(() => Promise.resolve(["general"])),
 }));
 
 vi.mock(import("@/actions/lastfm"), () => ({
@@ -245,7 +252,7 @@ describe("RootPage", () => {
       expect(within(region).queryByTestId("chat")).not.toBeInTheDocument();
 
       await act(async () => {
-        resolve({ status: "ok", messages: [] });
+        resolve({ status: "ok", messages: [], orphans: [], cursor: null });
         // Skip React's Suspense throttling delay
         await vi.advanceTimersByTimeAsync(300);
       });
@@ -2,7 +2,7 @@ import type { Viewport } from "next";
 import Link from "next/link";
 import { Suspense } from "react";
 
-import { getChatHistory } from "@/actions/chat";
+import { getChatHistory, getChatRooms, getChatUsername } from "@/actions/chat";
 import { getRecentTracks } from "@/actions/lastfm";
 import { getWakaTimeStats } from "@/actions/wakaTime";
 import { Chat } from "@/components/chat/Chat";
@@ -26,6 +26,8 @@ export const viewport: Viewport = {
 export default function RootPage() {
   const stats = getWakaTimeStats();
   const history = getChatHistory();
+  const username = getChatUsername();
+  const rooms = getChatRooms();
   const recentTracks = getRecentTracks();
 
   return (
@@ -98,7 +100,7 @@ export default function RootPage() {
         </Heading>
         <Terminal>
           <Suspense fallback={<Loader />}>
-            <Chat history={history} />
+            <Chat history={history} username={username} rooms={rooms} />
           </Suspense>
         </Terminal>
       </section>
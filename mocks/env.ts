@@ -9,6 +9,7 @@ export const mockEnv = {
   DISCORD_BOT_TOKEN: "test-discord-bot-token",
   DISCORD_GUILD_ID: "test-discord-guild-id",
   DISCORD_CHANNEL_ID: "test-discord-channel-id",
+  DISCORD_ROOMS: "music:1000000000000000001",
   UPSTASH_REDIS_REST_URL: "https://test.upstash.io",
   UPSTASH_REDIS_REST_TOKEN: "test-redis-token",
   LAST_FM_API_KEY: "test-last-fm-api-key",
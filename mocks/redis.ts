@@ -0,0 +1,265 @@
+import type { Redis } from "@upstash/redis";
+
+type SetOptions = { nx?: boolean; xx?: boolean; ex?: number; px?: number };
+
+class MockSubscriber {
+  #listeners = new Map<string, Set<(event: never) => void>>();
+  #onUnsubscribe: () => void;
+
+  constructor(onUnsubscribe: () => void) {
+    this.#onUnsubscribe = onUnsubscribe;
+  }
+
+  on(type: string, listener: (event: never) => void): void {
+    this.#listeners.set(
+      type,
+      (this.#listeners.get(type) ?? new Set()).add(listener),
+    );
+  }
+
+  emit(type: string, event: unknown): void {
+    for (const listener of this.#listeners.get(type) ?? []) {
+      (listener as (event: unknown) => void)(event);
+    }
+  }
+
+  removeAllListeners(): void {
+    this.#listeners.clear();
+  }
+
+  async unsubscribe(): Promise<void> {
+    this.#onUnsubscribe();
+  }
+}
+
+/**
+ * In-memory stand-in for the Upstash Redis client, covering the commands the
+ * app uses. Values are stored as-is, mirroring the client's automatic
+ * (de)serialization, and expiry follows `Date.now()` so fake timers apply.
+ *
+ * @example
+ * ```typescript
+ * const redis = new MockRedis();
+ * vi.mock(import("@/lib/redis"), () => ({ getRedis: () => redis.asRedis() }));
+ * ```
+ */
+export class MockRedis {
+  #values = new Map<string, { value: unknown; expiresAt: number | null }>();
+  #channels = new Map<string, Set<MockSubscriber>>();
+
+  asRedis(): Redis {
+    return this as unknown as Redis;
+  }
+
+  reset(): void {
+    this.#values.clear();
+    this.#channels.clear();
+  }
+
+  #entry(key: string) {
+    const entry = this.#values.get(key);
+    if (entry?.expiresAt != null && entry.expiresAt <= Date.now()) {
+      this.#values.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return (this.#entry(key)?.value as T | undefined) ?? null;
+  }
+
+  async mget<T extends unknown[]>(...keys: string[]): Promise<T> {
+    return keys.map((key) => this.#entry(key)?.value ?? null) as T;
+  }
+
+  async set(
+    key: string,
+    value: unknown,
+    options: SetOptions = {},
+  ): Promise<"OK" | null> {
+    const exists = this.#entry(key) !== undefined;
+    if ((options.nx && exists) || (options.xx && !exists)) return null;
+
+    const ttlMs =
+      options.px ?? (options.ex !== undefined ? options.ex * 1000 : null);
+    this.#values.set(key, {
+      value: structuredClone(value),
+      expiresAt: ttlMs !== null ? Date.now() + ttlMs : null,
+    });
+    return "OK";
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.#entry(key);
+    const value = Number(entry?.value ?? 0) + 1;
+    this.#values.set(key, { value, expiresAt: entry?.expiresAt ?? null });
+    return value;
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.#entry(key) !== undefined) {
+        this.#values.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  #set(key: string): Set<string> | undefined {
+    return this.#entry(key)?.value as Set<string> | undefined;
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    const set = this.#set(key) ?? new Set<string>();
+    const size = set.size;
+    for (const member of members) set.add(member);
+    if (!this.#values.has(key)) {
+      this.#values.set(key, { value: set, expiresAt: null });
+    }
+    return set.size - size;
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    const set = this.#set(key);
+    if (!set) return 0;
+    let removed = 0;
+    for (const member of members) {
+      if (set.delete(member)) removed++;
+    }
+    if (set.size === 0) this.#values.delete(key);
+    return removed;
+  }
+
+  async scard(key: string): Promise<number> {
+    return this.#set(key)?.size ?? 0;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return [...(this.#set(key) ?? [])];
+  }
+
+  async sismember(key: string, member: string): Promise<0 | 1> {
+    return this.#set(key)?.has(member) ? 1 : 0;
+  }
+
+  async smismember(key: string, members: string[]): Promise<(0 | 1)[]> {
+    const set = this.#set(key);
+    return members.map((member) => (set?.has(member) ? 1 : 0));
+  }
+
+  #sortedSet(key: string): Map<string, number> | undefined {
+    return this.#entry(key)?.value as Map<string, number> | undefined;
+  }
+
+  async zadd(
+    key: string,
+    ...scoreMembers: { score: number; member: string }[]
+  ): Promise<number> {
+    const zset = this.#sortedSet(key) ?? new Map<string, number>();
+    const size = zset.size;
+    for (const { score, member } of scoreMembers) zset.set(member, score);
+    if (!this.#values.has(key)) {
+      this.#values.set(key, { value: zset, expiresAt: null });
+    }
+    return zset.size - size;
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    const zset = this.#sortedSet(key);
+    if (!zset) return 0;
+    let removed = 0;
+    for (const member of members) {
+      if (zset.delete(member)) removed++;
+    }
+    if (zset.size === 0) this.#values.delete(key);
+    return removed;
+  }
+
+  async zremrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+  ): Promise<number> {
+    const zset = this.#sortedSet(key);
+    if (!zset) return 0;
+    let removed = 0;
+    for (const [member, score] of zset) {
+      if (score >= min && score <= max && zset.delete(member)) removed++;
+    }
+    if (zset.size === 0) this.#values.delete(key);
+    return removed;
+  }
+
+  async zcard(key: string): Promise<number> {
+    return this.#sortedSet(key)?.size ?? 0;
+  }
+
+  /** Rank ranges only, ordered by score. */
+  async zrange(key: string, start: number, stop: number): Promise<string[]> {
+    const members = [...(this.#sortedSet(key) ?? [])]
+      .sort(([, a], [, b]) => a - b)
+      .map(([member]) => member);
+    return members.slice(
+      start,
+      stop < 0 ? members.length + stop + 1 : stop + 1,
+    );
+  }
+
+  async pexpire(key: string, ttlMs: number): Promise<0 | 1> {
+    const entry = this.#entry(key);
+    if (!entry) return 0;
+    entry.expiresAt = Date.now() + ttlMs;
+    return 1;
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<0 | 1> {
+    return this.pexpire(key, ttlSeconds * 1000);
+  }
+
+  async pttl(key: string): Promise<number> {
+    const entry = this.#entry(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === null) return -1;
+    return entry.expiresAt - Date.now();
+  }
+
+  /**
+   * Emulates the compare-and-set scripts used by `Lease`: if the key holds
+   * `args[0]`, the script's `pexpire` (with `args[1]`) or `del` is applied.
+   * Stub this per test for any other script.
+   */
+  async eval(script: string, keys: string[], args: unknown[]): Promise<number> {
+    const [key] = keys;
+    if (key === undefined || (await this.get(key)) !== args[0]) return 0;
+
+    if (script.includes("pexpire")) return this.pexpire(key, Number(args[1]));
+    if (script.includes("del")) return this.del(key);
+
+    throw new Error("MockRedis does not support this script, stub it");
+  }
+
+  async publish(channel: string, message: unknown): Promise<number> {
+    const subscribers = this.#channels.get(channel) ?? new Set();
+    const payload = structuredClone(message);
+    queueMicrotask(() => {
+      for (const subscriber of subscribers) {
+        subscriber.emit("message", { channel, message: payload });
+      }
+    });
+    return subscribers.size;
+  }
+
+  subscribe(channel: string): MockSubscriber {
+    const subscribers = this.#channels.get(channel) ?? new Set();
+    this.#channels.set(channel, subscribers);
+
+    const subscriber = new MockSubscriber(() => {
+      subscribers.delete(subscriber);
+    });
+    subscribers.add(subscriber);
+    return subscriber;
+  }
+}
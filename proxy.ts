@@ -1,7 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server";
 
 import { randomName } from "@/lib/randomName";
-import { decrypt, encrypt, UsernameSchema } from "@/lib/session";
+import {
+  decrypt,
+  encrypt,
+  getSessionCookieOptions,
+  SessionSchema,
+} from "@/lib/session";
 
 export async function proxy(request: NextRequest) {
   const response = NextResponse.next();
@@ -11,14 +16,8 @@ export async function proxy(request: NextRequest) {
 
   response.cookies.set(
     "session",
-    await encrypt(session ?? { username: UsernameSchema.parse(randomName()) }),
-    {
-      httpOnly: true,
-      secure: true,
-      expires: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
-      sameSite: "strict",
-      path: "/",
-    },
+    await encrypt(session ?? SessionSchema.parse({ username: randomName() })),
+    getSessionCookieOptions(),
   );
 
   return response;